@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'dotenv/config';
+import express from 'express';
+import path from 'path';
+import { openDatabase } from './server/db';
+import { classroomRouter, createClassroomStore } from './server/classroom';
+import { createHistoryStore, historyRouter } from './server/history';
+import { createTutorProvider, tutorRouter } from './server/tutor';
+
+const PORT = Number(process.env.PORT ?? 3000);
+
+const startServer = async () => {
+  const app = express();
+  app.use(express.json({ limit: '1mb' }));
+
+  // --- API ---
+  const db = openDatabase();
+  app.use('/api/history', historyRouter(createHistoryStore(db)));
+  app.use('/api/classroom', classroomRouter(createClassroomStore(db)));
+  // The model is called from here so the API key never reaches the browser.
+  const tutor = createTutorProvider();
+  app.use('/api/tutor', tutorRouter(tutor));
+
+  // --- Client ---
+  if (process.env.NODE_ENV === 'production') {
+    const dist = path.resolve('dist');
+    app.use(express.static(dist));
+    app.get('*', (_req, res) => res.sendFile(path.join(dist, 'index.html')));
+  } else {
+    const { createServer } = await import('vite');
+    const vite = await createServer({ server: { middlewareMode: true }, appType: 'spa' });
+    app.use(vite.middlewares);
+  }
+
+  app.listen(PORT, '0.0.0.0', () => console.log(`GeoMaster en http://localhost:${PORT} (tutor: ${tutor.name})`));
+};
+
+startServer();
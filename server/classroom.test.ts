@@ -0,0 +1,149 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { describe, expect, it } from 'vitest';
+import { formatAnswer } from '../src/lib/practice';
+import { generateWorksheet } from '../src/lib/worksheet';
+import { WorksheetSettings } from '../src/types';
+import { classroomRouter, createClassroomStore } from './classroom';
+import { openDatabase } from './db';
+
+const SETTINGS: WorksheetSettings = { topics: ['hypotenuse', 'sin'], count: 4, difficulty: 'easy', seed: 'ABC123' };
+
+/** The right answer to a problem, written the way a student would type it. */
+const solution = (problem: number) => {
+  const exercise = generateWorksheet(SETTINGS)[problem];
+  return formatAnswer(exercise.target, exercise.answer, { locale: 'en' });
+};
+
+const setUp = () => {
+  const db = openDatabase(':memory:');
+  const store = createClassroomStore(db);
+  const { classroom, key } = store.createClass('3.º B');
+  const assignment = store.assign(classroom.id, 'Pitágoras', SETTINGS);
+  return { db, store, classroom, key, assignment };
+};
+
+describe('classroom store', () => {
+  it('opens a class to its teacher only and lets students join by code', () => {
+    const { db, store, classroom, key } = setUp();
+    expect(classroom.code).toMatch(/^[A-Z2-9]{6}$/);
+    expect(store.teacherClass(classroom.code.toLowerCase(), key)).toEqual(classroom);
+    expect(store.teacherClass(classroom.code, 'not-the-key')).toBeNull();
+    expect(store.teacherClass(classroom.code, `${key.slice(0, -1)}x`)).toBeNull();
+
+    const joined = store.join(classroom.code, 'Ana');
+    expect(joined).toMatchObject({ student: { name: 'Ana' } });
+    expect(store.join(classroom.code, 'ana')).toBe('taken');
+    expect(() => db.prepare("INSERT INTO students (class_id, name, key) VALUES (?, 'ANA', 'k')").run(classroom.id)).toThrow(/UNIQUE/);
+    expect(store.join('NOCODE', 'Luis')).toBeNull();
+    expect(store.studentFor(joined && joined !== 'taken' ? joined.key : '')).toMatchObject({ name: 'Ana', classId: classroom.id });
+  });
+
+  it('deletes a class together with its students, assignments and answers', () => {
+    const db = openDatabase(':memory:');
+    const store = createClassroomStore(db);
+    const { classroom } = store.createClass('3.º B');
+    const assignment = store.assign(classroom.id, 'Pitágoras', SETTINGS);
+    const joined = store.join(classroom.code, 'Ana');
+    if (!joined || joined === 'taken') throw new Error('Ana could not join');
+    store.answer(store.studentFor(joined.key)!, assignment.id, 0, '1');
+
+    db.prepare('DELETE FROM classes WHERE id = ?').run(classroom.id);
+    for (const table of ['students', 'assignments', 'attempts']) {
+      expect(db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get()).toEqual({ n: 0 });
+    }
+  });
+
+  it('grades answers against the assigned problems and keeps the last one', () => {
+    const { store, classroom, assignment } = setUp();
+    const ana = store.join(classroom.code, 'Ana');
+    if (!ana || ana === 'taken') throw new Error('Ana could not join');
+    const student = store.studentFor(ana.key)!;
+
+    expect(store.answer(student, assignment.id, 0, '1000')?.correct).toBe(false);
+    expect(store.answer(student, assignment.id, 0, solution(0))?.correct).toBe(true);
+    expect(store.answer(student, assignment.id, 1, solution(1))?.correct).toBe(true);
+    expect(store.answer(student, assignment.id, 4, '1')).toBeNull();
+
+    const other = store.createClass('Otra clase');
+    expect(store.answer(student, store.assign(other.classroom.id, 'Ajena', SETTINGS).id, 0, '1')).toBeNull();
+
+    const { assignments } = store.studentView(student.id);
+    expect(assignments.map(a => a.id)).toEqual([assignment.id]);
+    // Neither the seed nor the answers leave the server.
+    expect(assignments[0]).not.toHaveProperty('settings');
+    expect(assignments[0].problems).toEqual(generateWorksheet(SETTINGS).map(({ given, target }) => ({ given, target })));
+    expect(assignments[0].answers).toEqual({ 0: { answer: solution(0), correct: true }, 1: { answer: solution(1), correct: true } });
+  });
+
+  it('sums up mastery by topic and scores by assignment', () => {
+    const { store, classroom, assignment } = setUp();
+    const join = (name: string) => {
+      const joined = store.join(classroom.code, name);
+      if (!joined || joined === 'taken') throw new Error(`${name} could not join`);
+      return store.studentFor(joined.key)!;
+    };
+    const [ana, luis] = [join('Ana'), join('Luis')];
+    join('Zoe');
+    // Problems 0 and 2 practise the hypotenuse, 1 and 3 the sine.
+    store.answer(ana, assignment.id, 0, solution(0));
+    store.answer(ana, assignment.id, 1, '7');
+    store.answer(ana, assignment.id, 2, solution(2));
+    store.answer(luis, assignment.id, 3, solution(3));
+
+    const { students, mastery, scores } = store.dashboard(classroom);
+    expect(students.map(s => s.name)).toEqual(['Ana', 'Luis', 'Zoe']);
+    expect(mastery[ana.id]).toEqual({ hypotenuse: { answered: 2, correct: 2 }, sin: { answered: 1, correct: 0 } });
+    expect(mastery[luis.id]).toEqual({ sin: { answered: 1, correct: 1 } });
+    expect(scores[ana.id]).toEqual({ [assignment.id]: 2 });
+    expect(scores[students[2].id]).toEqual({ [assignment.id]: 0 });
+  });
+});
+
+describe('classroom routes', () => {
+  it('tells a student whether an answer is right, but not the right answer', async () => {
+    const { store, classroom, assignment } = setUp();
+    const app = express();
+    app.use(express.json());
+    app.use('/api/classroom', classroomRouter(store));
+    const server = app.listen(0);
+    const post = (url: string, body: object, key?: string) =>
+      fetch(`http://localhost:${(server.address() as AddressInfo).port}/api/classroom${url}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(key && { Authorization: `Bearer ${key}` }) },
+        body: JSON.stringify(body),
+      });
+    try {
+      const { key } = await (await post('/join', { code: classroom.code, name: 'Ana' })).json();
+      const response = await post(`/assignments/${assignment.id}/answers`, { problem: 0, answer: '1000' }, key);
+      expect(response.status).toBe(201);
+      expect(await response.json()).toEqual({ correct: false, received: 1000 });
+      const taken = await post('/join', { code: classroom.code, name: 'ana' });
+      expect(taken.status).toBe(409);
+      expect(await taken.json()).toEqual({ error: 'name-taken' });
+    } finally {
+      server.close();
+    }
+  });
+
+  it('limits how many classes one address creates', async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/classroom', classroomRouter(createClassroomStore(openDatabase(':memory:')), 2));
+    const server = app.listen(0);
+    const create = () => fetch(`http://localhost:${(server.address() as AddressInfo).port}/api/classroom/classes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: '3.º B' }),
+    });
+    try {
+      expect((await create()).status).toBe(201);
+      expect((await create()).status).toBe(201);
+      const refused = await create();
+      expect(refused.status).toBe(429);
+      expect(await refused.json()).toEqual({ error: 'too-many-classes' });
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Request, Response, Router } from 'express';
+import { DIFFICULTIES, gradeAnswer } from '../src/lib/practice';
+import { randomSeed } from '../src/lib/random';
+import { generateWorksheet, TOPICS, worksheetTopic } from '../src/lib/worksheet';
+import {
+  Assignment,
+  AssignmentAnswer,
+  ClassDashboard,
+  Classroom,
+  ClassroomErrorCode,
+  ClassStudent,
+  Difficulty,
+  AnswerGrade,
+  StudentView,
+  WorksheetSettings,
+} from '../src/types';
+import { Db } from './db';
+import { isObject, rateLimit } from './http';
+
+const MAX_NAME_LENGTH = 60;
+const MAX_SEED_LENGTH = 20;
+const MAX_PROBLEMS = 40;
+const MAX_ANSWER_LENGTH = 100;
+/** Classes one address may create per hour, since creating one needs no key. */
+const CLASSES_PER_HOUR = 10;
+
+interface ClassRow {
+  id: number;
+  name: string;
+  code: string;
+  teacher_key: string;
+  created_at: string;
+}
+
+interface StudentRow {
+  id: number;
+  class_id: number;
+  name: string;
+}
+
+interface AssignmentRow {
+  id: number;
+  class_id: number;
+  title: string;
+  settings: string;
+  created_at: string;
+}
+
+interface AnswerRow {
+  student_id: number;
+  assignment_id: number;
+  problem: number;
+  answer: string;
+  correct: number;
+}
+
+/** Compared in constant time, so the time taken tells nothing about how much of a key was right. */
+const sameKey = (expected: string, given: string) => {
+  const [a, b] = [Buffer.from(expected), Buffer.from(given)];
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+const toClassroom = (row: ClassRow): Classroom => ({ id: row.id, name: row.name, code: row.code, createdAt: row.created_at });
+
+const toStudent = (row: StudentRow): ClassStudent => ({ id: row.id, name: row.name });
+
+const toAssignment = (row: AssignmentRow): Assignment => ({
+  id: row.id,
+  title: row.title,
+  settings: JSON.parse(row.settings),
+  createdAt: row.created_at,
+});
+
+// --- Store ---
+
+export const createClassroomStore = (db: Db) => {
+  const insertClass = db.prepare('INSERT INTO classes (name, code, teacher_key) VALUES (?, ?, ?)');
+  const classById = db.prepare('SELECT * FROM classes WHERE id = ?');
+  const classByCode = db.prepare('SELECT * FROM classes WHERE code = ?');
+  const insertStudent = db.prepare('INSERT INTO students (class_id, name, key) VALUES (?, ?, ?)');
+  const studentByName = db.prepare('SELECT * FROM students WHERE class_id = ? AND name = ?');
+  const studentById = db.prepare('SELECT * FROM students WHERE id = ?');
+  const studentByKey = db.prepare('SELECT * FROM students WHERE key = ?');
+  const studentsOf = db.prepare('SELECT * FROM students WHERE class_id = ? ORDER BY name, id');
+  const insertAssignment = db.prepare('INSERT INTO assignments (class_id, title, settings) VALUES (?, ?, ?)');
+  const assignmentById = db.prepare('SELECT * FROM assignments WHERE id = ?');
+  const assignmentsOf = db.prepare('SELECT * FROM assignments WHERE class_id = ? ORDER BY created_at, id');
+  const insertAttempt = db.prepare('INSERT INTO attempts (assignment_id, student_id, problem, answer, correct) VALUES (?, ?, ?, ?, ?)');
+  // Students may try again, and only their last answer to each problem counts.
+  const latestAnswers = db.prepare(
+    `SELECT student_id, assignment_id, problem, answer, correct FROM attempts
+     WHERE id IN (SELECT MAX(id) FROM attempts GROUP BY student_id, assignment_id, problem)
+       AND assignment_id IN (SELECT id FROM assignments WHERE class_id = ?)`
+  );
+
+  const assignments = (classId: number) => (assignmentsOf.all(classId) as AssignmentRow[]).map(toAssignment);
+
+  return {
+    /** The class and the key that lets its teacher see it, which only this response carries. */
+    createClass: (name: string) => {
+      let code: string;
+      do code = randomSeed();
+      while (classByCode.get(code));
+      const key = randomUUID();
+      const { lastInsertRowid } = insertClass.run(name, code, key);
+      return { classroom: toClassroom(classById.get(lastInsertRowid) as ClassRow), key };
+    },
+    /** The class with this code, when `key` is its teacher's. */
+    teacherClass: (code: string, key: string) => {
+      const row = classByCode.get(code.trim().toUpperCase()) as ClassRow | undefined;
+      return row && sameKey(row.teacher_key, key) ? toClassroom(row) : null;
+    },
+    /** Null when there is no such class, 'taken' when someone in it already has that name. */
+    join: (code: string, name: string) => {
+      const row = classByCode.get(code.trim().toUpperCase()) as ClassRow | undefined;
+      if (!row) return null;
+      if (studentByName.get(row.id, name)) return 'taken' as const;
+      const key = randomUUID();
+      const { lastInsertRowid } = insertStudent.run(row.id, name, key);
+      return { student: toStudent(studentById.get(lastInsertRowid) as StudentRow), key };
+    },
+    studentFor: (key: string) => {
+      const row = studentByKey.get(key) as StudentRow | undefined;
+      return row && { ...toStudent(row), classId: row.class_id };
+    },
+    assign: (classId: number, title: string, settings: WorksheetSettings): Assignment => {
+      const { lastInsertRowid } = insertAssignment.run(classId, title, JSON.stringify(settings));
+      return toAssignment(assignmentById.get(lastInsertRowid) as AssignmentRow);
+    },
+    /**
+     * Graded here, from the same problems the student was shown; null when the
+     * problem isn't theirs. The expected value stays here too.
+     */
+    answer: (student: { id: number; classId: number }, assignmentId: number, problem: number, text: string): AnswerGrade | null => {
+      const row = assignmentById.get(assignmentId) as AssignmentRow | undefined;
+      if (!row || row.class_id !== student.classId) return null;
+      const exercise = generateWorksheet(JSON.parse(row.settings))[problem];
+      if (!exercise) return null;
+      const grade = gradeAnswer(exercise, text);
+      insertAttempt.run(assignmentId, student.id, problem, text, grade.correct ? 1 : 0);
+      return { correct: grade.correct, received: grade.received };
+    },
+    studentView: (studentId: number): StudentView => {
+      const row = studentById.get(studentId) as StudentRow;
+      const answers = (latestAnswers.all(row.class_id) as AnswerRow[]).filter(answer => answer.student_id === studentId);
+      return {
+        classroom: toClassroom(classById.get(row.class_id) as ClassRow),
+        student: toStudent(row),
+        assignments: assignments(row.class_id).map(({ settings, ...assignment }) => ({
+          ...assignment,
+          problems: generateWorksheet(settings).map(({ given, target }) => ({ given, target })),
+          answers: Object.fromEntries(answers
+            .filter(answer => answer.assignment_id === assignment.id)
+            .map((answer): [number, AssignmentAnswer] => [answer.problem, { answer: answer.answer, correct: !!answer.correct }])),
+        })),
+      };
+    },
+    /** Every student's mastery of each topic and score on each assignment. */
+    dashboard: (classroom: Classroom): ClassDashboard => {
+      const students = (studentsOf.all(classroom.id) as StudentRow[]).map(toStudent);
+      const given = assignments(classroom.id);
+      const dashboard: ClassDashboard = {
+        classroom,
+        students,
+        assignments: given,
+        mastery: Object.fromEntries(students.map(student => [student.id, {}])),
+        scores: Object.fromEntries(students.map(student => [student.id, Object.fromEntries(given.map(assignment => [assignment.id, 0]))])),
+      };
+      for (const answer of latestAnswers.all(classroom.id) as AnswerRow[]) {
+        const assignment = given.find(a => a.id === answer.assignment_id)!;
+        const topic = worksheetTopic(assignment.settings, answer.problem);
+        const mastery = (dashboard.mastery[answer.student_id][topic] ??= { answered: 0, correct: 0 });
+        mastery.answered++;
+        mastery.correct += answer.correct;
+        dashboard.scores[answer.student_id][answer.assignment_id] += answer.correct;
+      }
+      return dashboard;
+    },
+  };
+};
+
+export type ClassroomStore = ReturnType<typeof createClassroomStore>;
+
+// --- HTTP ---
+
+/** Teachers and students identify themselves with the key they got on creating or joining a class. */
+const keyOf = (req: Request) => req.get('authorization')?.match(/^Bearer (\S+)$/)?.[1] ?? '';
+
+const fail = (res: Response, status: number, error: ClassroomErrorCode) => res.status(status).json({ error });
+
+const nameOf = (v: unknown) => (typeof v === 'string' && v.trim() && v.trim().length <= MAX_NAME_LENGTH ? v.trim() : null);
+
+const isSettings = (v: unknown): v is WorksheetSettings =>
+  isObject(v) &&
+  Array.isArray(v.topics) &&
+  v.topics.length > 0 &&
+  v.topics.every(topic => typeof topic === 'string' && Object.hasOwn(TOPICS, topic)) &&
+  Number.isInteger(v.count) &&
+  (v.count as number) >= 1 &&
+  (v.count as number) <= MAX_PROBLEMS &&
+  DIFFICULTIES.includes(v.difficulty as Difficulty) &&
+  typeof v.seed === 'string' &&
+  v.seed.trim() !== '' &&
+  v.seed.length <= MAX_SEED_LENGTH;
+
+export const classroomRouter = (store: ClassroomStore, classesPerHour = CLASSES_PER_HOUR) => {
+  const router = Router();
+  const limitClasses = rateLimit({ max: classesPerHour, windowMs: 60 * 60 * 1000, refuse: res => fail(res, 429, 'too-many-classes') });
+
+  const teacherClass = (req: Request, res: Response) => {
+    const classroom = store.teacherClass(req.params.code, keyOf(req));
+    if (!classroom) fail(res, 404, 'class-not-found');
+    return classroom;
+  };
+
+  const student = (req: Request, res: Response) => {
+    const found = store.studentFor(keyOf(req));
+    if (!found) fail(res, 401, 'not-joined');
+    return found;
+  };
+
+  router.post('/classes', limitClasses, (req, res) => {
+    const name = nameOf(req.body?.name);
+    if (!name) {
+      fail(res, 400, 'class-name-missing');
+      return;
+    }
+    res.status(201).json(store.createClass(name));
+  });
+
+  router.get('/classes/:code', (req, res) => {
+    const classroom = teacherClass(req, res);
+    if (classroom) res.json(store.dashboard(classroom));
+  });
+
+  router.post('/classes/:code/assignments', (req, res) => {
+    const classroom = teacherClass(req, res);
+    if (!classroom) return;
+    const title = nameOf(req.body?.title);
+    if (!title || !isSettings(req.body?.settings)) {
+      fail(res, 400, 'invalid-assignment');
+      return;
+    }
+    const { topics, count, difficulty, seed } = req.body.settings;
+    res.status(201).json(store.assign(classroom.id, title, { topics, count, difficulty, seed: seed.trim().toUpperCase() }));
+  });
+
+  router.post('/join', (req, res) => {
+    const name = nameOf(req.body?.name);
+    const code = typeof req.body?.code === 'string' ? req.body.code : '';
+    if (!name) {
+      fail(res, 400, 'name-missing');
+      return;
+    }
+    const joined = store.join(code, name);
+    if (!joined) {
+      fail(res, 404, 'unknown-code');
+    } else if (joined === 'taken') {
+      fail(res, 409, 'name-taken');
+    } else {
+      res.status(201).json({ ...store.studentView(joined.student.id), key: joined.key });
+    }
+  });
+
+  router.get('/me', (req, res) => {
+    const found = student(req, res);
+    if (found) res.json(store.studentView(found.id));
+  });
+
+  router.post('/assignments/:id/answers', (req, res) => {
+    const found = student(req, res);
+    if (!found) return;
+    const { problem, answer } = req.body ?? {};
+    if (!Number.isInteger(problem) || typeof answer !== 'string' || !answer.trim() || answer.length > MAX_ANSWER_LENGTH) {
+      fail(res, 400, 'invalid-answer');
+      return;
+    }
+    const grade = store.answer(found, Number(req.params.id), problem, answer.trim());
+    if (!grade) {
+      fail(res, 404, 'unknown-problem');
+      return;
+    }
+    res.status(201).json(grade);
+  });
+
+  return router;
+};
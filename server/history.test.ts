@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { NewHistoryEntry } from '../src/types';
+import { openDatabase } from './db';
+import { createHistoryStore, listLimit } from './history';
+
+const entry = (summary: string, mode: NewHistoryEntry['mode'] = 'right'): NewHistoryEntry => ({
+  mode,
+  input: { fields: { 'right.a': '3', 'right.b': '4' }, fieldUnits: {}, units: { length: 'u', angle: 'deg' } },
+  output: [{ a: 3, b: 4, c: 5 }],
+  steps: [{ rule: 'pythagoras.identify-legs', values: { a: 3, b: 4 }, results: {}, params: {} }],
+  summary,
+});
+
+describe('history store', () => {
+  it('round-trips entries, newest first', () => {
+    const store = createHistoryStore(openDatabase(':memory:'));
+    const first = store.add(entry('a = 3, b = 4 → c = 5'));
+    const second = store.add(entry('c = 10, α = 30° → a = 5', 'trig'));
+
+    expect(first).toMatchObject({ id: 1, ...entry('a = 3, b = 4 → c = 5') });
+    expect(first.createdAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(store.list().map(e => e.id)).toEqual([second.id, first.id]);
+  });
+
+  it('searches summaries and modes', () => {
+    const store = createHistoryStore(openDatabase(':memory:'));
+    store.add(entry('a = 3, b = 4 → c = 5'));
+    store.add(entry('c = 10, α = 30° → a = 5', 'trig'));
+    store.add(entry('50% de descuento'));
+
+    expect(store.list('α = 30').map(e => e.mode)).toEqual(['trig']);
+    expect(store.list('trig')).toHaveLength(1);
+    expect(store.list('%')).toHaveLength(1);
+    expect(store.list('', 2)).toHaveLength(2);
+  });
+
+  it('deletes entries', () => {
+    const store = createHistoryStore(openDatabase(':memory:'));
+    const { id } = store.add(entry('a = 3, b = 4 → c = 5'));
+    expect(store.remove(id)).toBe(true);
+    expect(store.remove(id)).toBe(false);
+    expect(store.list()).toEqual([]);
+  });
+});
+
+describe('listLimit', () => {
+  it('keeps the limit between 1 and the maximum', () => {
+    expect(listLimit('20')).toBe(20);
+    expect(listLimit(undefined)).toBe(50);
+    expect(listLimit('0')).toBe(50);
+    expect(listLimit('-1')).toBe(1);
+    expect(listLimit('100000')).toBe(200);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Response, Router } from 'express';
+import { CalculatorMode, HistoryEntry, HistoryErrorCode, NewHistoryEntry } from '../src/types';
+import { Db } from './db';
+import { isObject, MODES } from './http';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+interface HistoryRow {
+  id: number;
+  mode: CalculatorMode;
+  input: string;
+  output: string;
+  steps: string;
+  summary: string;
+  created_at: string;
+}
+
+const toEntry = (row: HistoryRow): HistoryEntry => ({
+  id: row.id,
+  createdAt: row.created_at,
+  mode: row.mode,
+  input: JSON.parse(row.input),
+  output: JSON.parse(row.output),
+  steps: JSON.parse(row.steps),
+  summary: row.summary,
+});
+
+// --- Store ---
+
+export const createHistoryStore = (db: Db) => {
+  const insert = db.prepare(
+    'INSERT INTO history (mode, input, output, steps, summary) VALUES (@mode, @input, @output, @steps, @summary)'
+  );
+  const select = db.prepare('SELECT * FROM history WHERE id = ?');
+  const search = db.prepare(
+    `SELECT * FROM history
+     WHERE @query = '' OR summary LIKE @pattern ESCAPE '\\' OR mode = @query
+     ORDER BY created_at DESC, id DESC
+     LIMIT @limit`
+  );
+  const remove = db.prepare('DELETE FROM history WHERE id = ?');
+
+  return {
+    /** Newest first; `query` matches anywhere in the summary, or a mode name exactly. */
+    list: (query = '', limit = DEFAULT_LIMIT): HistoryEntry[] => {
+      const pattern = `%${query.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+      return (search.all({ query, pattern, limit }) as HistoryRow[]).map(toEntry);
+    },
+    add: (entry: NewHistoryEntry): HistoryEntry => {
+      const { lastInsertRowid } = insert.run({
+        mode: entry.mode,
+        input: JSON.stringify(entry.input),
+        output: JSON.stringify(entry.output),
+        steps: JSON.stringify(entry.steps),
+        summary: entry.summary,
+      });
+      return toEntry(select.get(lastInsertRowid) as HistoryRow);
+    },
+    /** False when there was no such entry. */
+    remove: (id: number) => remove.run(id).changes > 0,
+  };
+};
+
+export type HistoryStore = ReturnType<typeof createHistoryStore>;
+
+// --- HTTP ---
+
+const isNewEntry = (body: unknown): body is NewHistoryEntry =>
+  isObject(body) &&
+  MODES.includes(body.mode as CalculatorMode) &&
+  isObject(body.input) &&
+  Array.isArray(body.output) &&
+  Array.isArray(body.steps) &&
+  typeof body.summary === 'string';
+
+/** The `?limit=` of a listing, between 1 and MAX_LIMIT; SQLite would read a negative one as no limit. */
+export const listLimit = (value: unknown) =>
+  Math.max(1, Math.min(MAX_LIMIT, parseInt(String(value)) || DEFAULT_LIMIT));
+
+const fail = (res: Response, status: number, error: HistoryErrorCode) => res.status(status).json({ error });
+
+export const historyRouter = (store: HistoryStore) => {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    res.json(store.list(query, listLimit(req.query.limit)));
+  });
+
+  router.post('/', (req, res) => {
+    if (!isNewEntry(req.body)) {
+      fail(res, 400, 'invalid-entry');
+      return;
+    }
+    res.status(201).json(store.add(req.body));
+  });
+
+  router.delete('/:id', (req, res) => {
+    if (!store.remove(Number(req.params.id))) {
+      fail(res, 404, 'entry-not-found');
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+};
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { CalculatorMode } from '../src/types';
+
+/** Every `CalculatorMode`; the tabs left out of the history are explained there. */
+export const MODES: CalculatorMode[] = ['pythagoras', 'trig', 'right', 'oblique'];
+
+export const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** Lets each client address make at most `max` requests every `windowMs`; `refuse` answers the rest. */
+export const rateLimit = ({ max, windowMs, refuse }: { max: number; windowMs: number; refuse: (res: Response) => void }) => {
+  const windows = new Map<string, { start: number; count: number }>();
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    for (const [address, window] of windows) {
+      if (now - window.start >= windowMs) windows.delete(address);
+    }
+    const address = req.ip ?? '';
+    const window = windows.get(address) ?? { start: now, count: 0 };
+    windows.set(address, window);
+    if (++window.count > max) refuse(res);
+    else next();
+  };
+};
@@ -0,0 +1,116 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { describe, expect, it } from 'vitest';
+import { solveRightTriangle } from '../src/lib/solver';
+import { TutorRequest } from '../src/types';
+import { createTutorProvider, isTutorRequest, mockProvider, TutorProvider, tutorPrompt, tutorRouter } from './tutor';
+
+const request = (overrides: Partial<TutorRequest> = {}): TutorRequest => ({
+  mode: 'pythagoras',
+  locale: 'es',
+  steps: solveRightTriangle({ a: 3, b: 4 }).steps,
+  messages: [],
+  ...overrides,
+});
+
+const collect = async (stream: AsyncIterable<string>) => {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+};
+
+/** Posts to the tutor router on a throwaway server and reads the whole answer. */
+const post = async (provider: TutorProvider, body: unknown) => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/tutor', tutorRouter(provider));
+  const server = app.listen(0);
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://localhost:${port}/api/tutor`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, text: await response.text() };
+  } finally {
+    server.close();
+  }
+};
+
+describe('mock provider', () => {
+  it('explains every step the same way each time', async () => {
+    const text = await collect(mockProvider.stream(request()));
+    expect(text).toBe(await collect(mockProvider.stream(request())));
+    expect(text).toContain("En el paso 1 (Identificamos los catetos)");
+    expect(text).toContain("En el paso 7");
+    expect(text).toContain("complementarios");
+  });
+
+  it('answers a follow-up about a step in the chosen locale', async () => {
+    const messages = [{ role: 'student' as const, text: "Why step 2?" }];
+    const text = await collect(mockProvider.stream(request({ locale: 'en', messages })));
+    expect(text).toMatch(/^In step 2 \(Use the formula\): \$.*\$\n\nIn a right triangle/);
+    expect(await collect(mockProvider.stream(request({ locale: 'en', messages: [{ role: 'student', text: "Why?" }] }))))
+      .toContain("Ask about a specific one");
+  });
+});
+
+describe('tutorPrompt', () => {
+  it('sends the numbered steps and the conversation', () => {
+    const { system, turns } = tutorPrompt(request({
+      locale: 'pt-BR',
+      messages: [{ role: 'tutor', text: "…" }, { role: 'student', text: "E o passo 3?" }],
+    }));
+    expect(system).toContain('Brazilian Portuguese');
+    expect(turns[0].text).toMatch(/^Calculadora de Pitágoras:\n1\. /);
+    expect(turns.slice(1).map(turn => turn.role)).toEqual(['model', 'user']);
+  });
+});
+
+describe('createTutorProvider', () => {
+  it('uses Gemini only with a real key unless told otherwise', () => {
+    expect(createTutorProvider({}).name).toBe('mock');
+    expect(createTutorProvider({ GEMINI_API_KEY: 'MY_GEMINI_API_KEY' }).name).toBe('mock');
+    expect(createTutorProvider({ GEMINI_API_KEY: 'key' }).name).toBe('gemini');
+    expect(createTutorProvider({ GEMINI_API_KEY: 'key', TUTOR_PROVIDER: 'mock' }).name).toBe('mock');
+    expect(() => createTutorProvider({ TUTOR_PROVIDER: 'other' })).toThrow(/other/);
+  });
+});
+
+describe('tutor endpoint', () => {
+  it('validates requests', () => {
+    expect(isTutorRequest(request())).toBe(true);
+    expect(isTutorRequest(request({ steps: [] }))).toBe(false);
+    expect(isTutorRequest({ ...request(), locale: 'fr' })).toBe(false);
+    expect(isTutorRequest(request({ messages: [{ role: 'tutor', text: "Hola" }] }))).toBe(false);
+  });
+
+  it('streams the answer as plain text', async () => {
+    const { status, text } = await post(mockProvider, request());
+    expect(status).toBe(200);
+    expect(text).toBe(await collect(mockProvider.stream(request())));
+  });
+
+  it('rejects bad requests and reports provider failures', async () => {
+    expect(await post(mockProvider, { mode: 'pythagoras' })).toEqual({ status: 400, text: '{"error":"invalid-question"}' });
+    const [step] = request().steps;
+    for (const malformed of [{ rule: step.rule }, { ...step, values: 'a = 3' }, { ...step, results: { c: null } }, { ...step, params: { x: 1 } }]) {
+      expect(await post(mockProvider, { ...request(), steps: [malformed] })).toMatchObject({ status: 400 });
+    }
+    expect(isTutorRequest(request({ steps: Array(101).fill(step) }))).toBe(false);
+    const failing: TutorProvider = {
+      name: 'failing',
+      stream: async function* () {
+        throw new Error('offline');
+      },
+    };
+    const original = console.error;
+    console.error = () => {};
+    try {
+      expect(await post(failing, request())).toEqual({ status: 502, text: '{"error":"unavailable"}' });
+    } finally {
+      console.error = original;
+    }
+  });
+});
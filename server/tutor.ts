@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import { Response, Router } from 'express';
+import { LOCALES, MessageKey, translator } from '../src/lib/i18n';
+import { renderKatex, renderPlainText } from '../src/lib/steps/render';
+import { RULES } from '../src/lib/steps/rules';
+import { Locale, TutorErrorCode, TutorMessage, TutorRequest } from '../src/types';
+import { isObject, MODES } from './http';
+
+const MAX_MESSAGES = 20;
+/** More than any solver writes; keeps the prompt sent to the model bounded. */
+const MAX_STEPS = 100;
+const MAX_MESSAGE_LENGTH = 2000;
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+/** A model the tutor can talk to; answers arrive as Markdown chunks. */
+export interface TutorProvider {
+  name: string;
+  stream: (request: TutorRequest) => AsyncIterable<string>;
+}
+
+// --- Prompt ---
+
+const LANGUAGES: Record<Locale, string> = { es: 'Spanish', en: 'English', 'pt-BR': 'Brazilian Portuguese' };
+
+export interface TutorPrompt {
+  system: string;
+  turns: { role: 'user' | 'model'; text: string }[];
+}
+
+/** The problem as the model sees it: numbered steps in plain text, then the conversation. */
+export const tutorPrompt = ({ mode, locale, steps, messages }: TutorRequest): TutorPrompt => {
+  const t = translator(locale);
+  const problem = [
+    `${t(`tab.${mode}.title`)}:`,
+    ...renderPlainText(steps, { locale }).split('\n').map((line, i) => `${i + 1}. ${line}`),
+  ].join('\n');
+  return {
+    system: [
+      'You are a patient geometry tutor for secondary school students.',
+      'The student has already solved the problem below with a step-by-step calculator, so the numbers are right.',
+      'Explain why each step is taken and how it follows from the previous one, rather than redoing the arithmetic.',
+      'Write Markdown, with math between $…$ (inline) or $$…$$ (display) in LaTeX.',
+      `Answer in ${LANGUAGES[locale]}, briefly, and only about this problem and the geometry behind it.`,
+    ].join('\n'),
+    turns: [
+      { role: 'user', text: `${problem}\n\n${messages.length ? 'Keep this problem in mind.' : 'Explain why each step is taken.'}` },
+      ...messages.map(({ role, text }) => ({ role: role === 'tutor' ? 'model' as const : 'user' as const, text })),
+    ],
+  };
+};
+
+// --- Providers ---
+
+/** Splits text the way a model streams it, so the mock exercises the same client code. */
+const chunks = async function* (text: string) {
+  yield* text.match(/\S+\s*|\s+/g) ?? [];
+};
+
+/**
+ * A deterministic tutor that needs no network: it explains every step with
+ * the reason behind its rule and re-explains the step a follow-up names.
+ */
+export const mockProvider: TutorProvider = {
+  name: 'mock',
+  stream: ({ locale, steps, messages }) => {
+    const t = translator(locale);
+    const messageKeys = LOCALES[locale].messages;
+    const why = (rule: string): string => {
+      const key = `tutor.why.${rule}`;
+      return t((Object.hasOwn(messageKeys, key) ? key : `tutor.why.${rule.split('.')[0]}`) as MessageKey);
+    };
+    const explain = (i: number) => {
+      const { text, math } = renderKatex(steps[i], { locale });
+      return `${t('tutor.mock.step', { n: i + 1, text: text.replace(/:$/, '') })}${math ? ` $${math}$` : ''}\n\n${why(steps[i].rule)}`;
+    };
+
+    const question = messages.at(-1)?.text;
+    if (question === undefined) {
+      return chunks([
+        `### ${t('tutor.mock.title')}`,
+        `_${t('tutor.mock.offline')}_`,
+        ...steps.map((_, i) => explain(i)),
+      ].join('\n\n'));
+    }
+    const n = Number(question.match(/\d+/)?.[0]);
+    return chunks(n >= 1 && n <= steps.length ? explain(n - 1) : t('tutor.mock.follow-up'));
+  },
+};
+
+export const geminiProvider = (apiKey: string, model = DEFAULT_GEMINI_MODEL): TutorProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    stream: async function* (request) {
+      const { system, turns } = tutorPrompt(request);
+      const response = await ai.models.generateContentStream({
+        model,
+        contents: turns.map(({ role, text }) => ({ role, parts: [{ text }] })),
+        config: { systemInstruction: system },
+      });
+      for await (const chunk of response) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+};
+
+type Env = Record<string, string | undefined>;
+
+const PROVIDERS: Record<string, (env: Env) => TutorProvider> = {
+  mock: () => mockProvider,
+  gemini: env => geminiProvider(env.GEMINI_API_KEY!, env.GEMINI_MODEL || undefined),
+};
+
+// `.env.example` ships a placeholder key, which is as good as none.
+const hasGeminiKey = (env: Env) => !!env.GEMINI_API_KEY && env.GEMINI_API_KEY !== 'MY_GEMINI_API_KEY';
+
+/** `TUTOR_PROVIDER` picks the provider; by default Gemini when there is a key, otherwise the mock. */
+export const createTutorProvider = (env: Env = process.env): TutorProvider => {
+  const name = env.TUTOR_PROVIDER || (hasGeminiKey(env) ? 'gemini' : 'mock');
+  if (!Object.hasOwn(PROVIDERS, name)) {
+    throw new Error(`Proveedor del tutor desconocido: ${name}. Opciones: ${Object.keys(PROVIDERS).join(', ')}.`);
+  }
+  return PROVIDERS[name](env);
+};
+
+// --- HTTP ---
+
+const isMessage = (v: unknown): v is TutorMessage =>
+  isObject(v) &&
+  (v.role === 'student' || v.role === 'tutor') &&
+  typeof v.text === 'string' &&
+  v.text.length <= MAX_MESSAGE_LENGTH;
+
+const isRecordOf = (v: unknown, entry: (value: unknown) => boolean) => isObject(v) && Object.values(v).every(entry);
+
+/** The prompt renders every step, so all of its parts must be what the renderers expect. */
+const isStep = (v: unknown) =>
+  isObject(v) &&
+  typeof v.rule === 'string' && Object.hasOwn(RULES, v.rule) &&
+  (v.formula === undefined || typeof v.formula === 'string') &&
+  isRecordOf(v.values, Number.isFinite) &&
+  isRecordOf(v.results, Number.isFinite) &&
+  isRecordOf(v.params, value => typeof value === 'string');
+
+export const isTutorRequest = (body: unknown): body is TutorRequest =>
+  isObject(body) &&
+  MODES.includes(body.mode as TutorRequest['mode']) &&
+  typeof body.locale === 'string' && Object.hasOwn(LOCALES, body.locale) &&
+  Array.isArray(body.steps) && body.steps.length > 0 && body.steps.length <= MAX_STEPS &&
+  body.steps.every(isStep) &&
+  Array.isArray(body.messages) && body.messages.length <= MAX_MESSAGES &&
+  body.messages.every(isMessage) &&
+  (body.messages.length === 0 || body.messages.at(-1).role === 'student');
+
+const fail = (res: Response, status: number, error: TutorErrorCode) => res.status(status).json({ error });
+
+/** Streams the answer as plain text, so the client can show it while it is written. */
+export const tutorRouter = (provider: TutorProvider) => {
+  const router = Router();
+
+  router.post('/', async (req, res) => {
+    if (!isTutorRequest(req.body)) {
+      fail(res, 400, 'invalid-question');
+      return;
+    }
+    let closed = false;
+    res.on('close', () => { closed = true; });
+    try {
+      for await (const chunk of provider.stream(req.body)) {
+        if (closed) break;
+        if (!res.headersSent) res.type('text/plain; charset=utf-8').set('Cache-Control', 'no-cache');
+        res.write(chunk);
+      }
+      if (!res.headersSent) res.type('text/plain; charset=utf-8');
+      res.end();
+    } catch (err) {
+      console.error(`Tutor (${provider.name}):`, err);
+      if (res.headersSent) res.end();
+      else fail(res, 502, 'unavailable');
+    }
+  });
+
+  return router;
+};
@@ -5,41 +5,193 @@
 
 import 'katex/dist/katex.min.css';
 import {
+  Axis3d,
   BookOpen,
+  Building2,
   Calculator,
   Check,
   ChevronRight,
+  ClipboardList,
   Copy,
+  GraduationCap,
   Info,
+  Languages,
+  Link,
   Moon,
+  Presentation,
   RotateCcw,
+  School,
+  Shapes,
   Sun,
+  History,
   Triangle
 } from 'lucide-react';
 import { AnimatePresence, motion } from 'motion/react';
-import React, { useEffect, useState } from 'react';
-import { BlockMath, InlineMath } from 'react-katex';
+import React, { useEffect, useId, useRef, useState } from 'react';
+import ClassroomMode from './components/ClassroomMode';
+import CoordinateMode from './components/CoordinateMode';
+import ExportMenu from './components/ExportMenu';
+import HistoryPanel from './components/HistoryPanel';
+import LessonBrowser from './components/LessonBrowser';
+import MeasureInput from './components/MeasureInput';
+import ObliqueTriangleVisualizer from './components/ObliqueTriangleVisualizer';
+import PracticeMode from './components/PracticeMode';
+import PresenterMode from './components/PresenterMode';
+import PrecisionControls from './components/PrecisionControls';
+import StepList from './components/StepList';
+import TemplateMode from './components/TemplateMode';
+import TriangleVisualizer from './components/TriangleVisualizer';
+import TutorPanel from './components/TutorPanel';
+import UnitCircleExplorer from './components/UnitCircleExplorer';
+import UnitControls from './components/UnitControls';
+import UpdatePrompt from './components/UpdatePrompt';
+import WordProblemInput from './components/WordProblemInput';
+import WorksheetBuilder from './components/WorksheetBuilder';
+import { DEFAULT_PRECISION } from './lib/format';
+import { ExportDocument, ExportValue } from './lib/export';
+import { saveHistory, syncHistory } from './lib/history';
+import { decimalSeparator, detectLocale, LOCALES, MessageKey, Translate, translator } from './lib/i18n';
+import { LocaleContext, useTranslation } from './lib/i18n/context';
+import { useFocusTrap } from './lib/focus';
+import { convertInput, Measured } from './lib/input';
+import { toDeg } from './lib/math';
+import { decodeProblem, encodeProblem, fittingFieldUnits } from './lib/link';
+import { proofSides } from './lib/proofs';
+import { solveTriangle } from './lib/oblique';
+import { SolverError, solveRightTriangle } from './lib/solver';
+import { formatAngle, formatLength, renderPlainText, RenderOptions, renderWarning } from './lib/steps/render';
+import { plainNotation } from './lib/steps/notation';
+import { DEFAULT_UNITS } from './lib/units';
+import { isSolvable, validate } from './lib/validation';
+import {
+  AngleUnit,
+  CalculationStep,
+  CalculatorMode,
+  HistoryEntry,
+  HistoryInput,
+  LengthUnit,
+  Locale,
+  ObliqueQuantity,
+  ObliqueResult,
+  PrecisionSettings,
+  Quantity,
+  RightTriangleInput,
+  RightTriangleSolution,
+  SharedProblem,
+  Side,
+  TriangleInput,
+  UnitSettings,
+  WordProblem,
+  WordTarget
+} from './types';
 
-// --- Types ---
+type Tab = CalculatorMode | 'practice' | 'worksheet' | 'templates' | 'coordinates' | 'classroom';
 
-type Side = 'a' | 'b' | 'c';
-type TrigFunction = 'sin' | 'cos' | 'tan';
+/** Tabs with their own layout rather than a calculator form. */
+const STANDALONE_TABS: Tab[] = ['practice', 'worksheet', 'templates', 'coordinates', 'classroom'];
 
-interface CalculationStep {
-  text: string;
-  math?: string;
-}
+const isCalculator = (tab: Tab): tab is CalculatorMode => !STANDALONE_TABS.includes(tab);
+
+/** The tab bar, in order, labelled by the `tab.<id>` messages. */
+const TABS: { id: Tab; icon: typeof Calculator }[] = [
+  { id: 'pythagoras', icon: Calculator },
+  { id: 'trig', icon: RotateCcw },
+  { id: 'right', icon: Triangle },
+  { id: 'oblique', icon: Shapes },
+  { id: 'practice', icon: GraduationCap },
+  { id: 'worksheet', icon: ClipboardList },
+  { id: 'templates', icon: Building2 },
+  { id: 'coordinates', icon: Axis3d },
+  { id: 'classroom', icon: School },
+];
+
+type FieldKind = 'length' | 'angle';
+
+// Where the chosen language is remembered between visits.
+const LOCALE_KEY = 'geomaster.locale';
+
+const initialLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_KEY);
+  return stored && stored in LOCALES ? stored as Locale : detectLocale(navigator.languages);
+};
+
+// --- History ---
+
+const OUTPUT_QUANTITIES = ['a', 'b', 'c', 'alpha', 'beta', 'gamma', 'area', 'perimeter'];
+const SUMMARY_QUANTITIES = ['a', 'b', 'c', 'alpha', 'beta', 'gamma'];
+const ANGLES = ['alpha', 'beta', 'gamma'];
+
+/** The numeric `quantities` of a result, in that order, for exported documents. */
+const exportValues = (values: object, quantities: readonly string[]): ExportValue[] =>
+  quantities
+    .filter(q => typeof (values as Record<string, unknown>)[q] === 'number')
+    .map(quantity => ({ quantity, value: (values as Record<string, number>)[quantity] }));
+
+/** The numeric `quantities` of a result, as stored in the history. */
+const pick = (values: object, quantities: readonly string[]): Record<string, number> =>
+  Object.fromEntries(Object.entries(values).filter(([q, v]) => quantities.includes(q) && typeof v === 'number'));
+
+const RIGHT_FIELDS: { key: Quantity; kind: FieldKind }[] = [
+  { key: 'a', kind: 'length' },
+  { key: 'b', kind: 'length' },
+  { key: 'c', kind: 'length' },
+  { key: 'alpha', kind: 'angle' },
+  { key: 'beta', kind: 'angle' },
+];
+
+const OBLIQUE_FIELDS: { key: ObliqueQuantity; kind: FieldKind }[] = [
+  { key: 'a', kind: 'length' },
+  { key: 'b', kind: 'length' },
+  { key: 'c', kind: 'length' },
+  { key: 'alpha', kind: 'angle' },
+  { key: 'beta', kind: 'angle' },
+  { key: 'gamma', kind: 'angle' },
+];
+
+const SOLVERS: Record<CalculatorMode, (input: TriangleInput) => RightTriangleSolution | ObliqueResult> = {
+  pythagoras: solveRightTriangle,
+  trig: solveRightTriangle,
+  right: solveRightTriangle,
+  oblique: solveTriangle,
+};
+
+const OPPOSITE_SIDES: Record<string, Side> = { alpha: 'a', beta: 'b', gamma: 'c' };
+const SIDES: string[] = ['a', 'b', 'c'];
+
+/** Label and placeholder of a field: "Cateto a" and "Valor de a", "Ángulo α" and "Opuesto a a"… */
+const fieldText = (t: Translate, key: ObliqueQuantity, tab: 'right' | 'oblique') => {
+  if (key in OPPOSITE_SIDES) {
+    return { label: t('field.angle', { angle: plainNotation().sym(key) }), placeholder: t('field.opposite', { side: OPPOSITE_SIDES[key] }) };
+  }
+  const label = tab === 'oblique' ? t('field.side', { side: key }) : key === 'c' ? t('field.hypotenuse', { side: key }) : t('field.leg', { side: key });
+  return { label, placeholder: t('field.value-of', { side: key }) };
+};
 
 // --- Components ---
 
+/** Opens on hover and on keyboard focus; screen readers get the text as the description of its button. */
 const Tooltip = ({ text, children }: { text: string; children: React.ReactNode }) => {
   const [show, setShow] = useState(false);
+  const { t } = useTranslation();
+  const id = useId();
   return (
     <div className="relative inline-block" onMouseEnter={() => setShow(true)} onMouseLeave={() => setShow(false)}>
-      {children}
+      <button
+        type="button"
+        aria-label={t('app.info')}
+        aria-describedby={id}
+        onFocus={() => setShow(true)}
+        onBlur={() => setShow(false)}
+        onKeyDown={(e) => e.key === 'Escape' && setShow(false)}
+        className="flex rounded-full outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+      >
+        {children}
+      </button>
+      <span id={id} className="sr-only">{text}</span>
       <AnimatePresence>
         {show && (
           <motion.div
+            aria-hidden="true"
             initial={{ opacity: 0, y: 5 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: 5 }}
@@ -54,134 +206,65 @@ const Tooltip = ({ text, children }: { text: string; children: React.ReactNode }
   );
 };
 
-const TriangleVisualizer = ({ a, b, c, angleA }: { a: number; b: number; c: number; angleA?: number }) => {
-  // Scale factor to fit in 200x200
-  const maxSide = Math.max(a, b, isNaN(c) ? 0 : c) || 1;
-  const scale = 150 / maxSide;
-
-  const width = b * scale;
-  const height = a * scale;
-
-  // Padding
-  const pad = 25;
-
-  const pathData = `M ${pad} ${200 - pad} L ${pad + width} ${200 - pad} L ${pad} ${200 - pad - height} Z`;
-
-  return (
-    <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-6 flex flex-col items-center justify-center border border-slate-200 dark:border-slate-700 h-full min-h-[300px]">
-      <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 mb-4 uppercase tracking-wider">Visualización</h3>
-      <svg width="200" height="200" viewBox="0 0 200 200" className="drop-shadow-xl">
-        {/* Triangle */}
-        <motion.path
-          d={pathData}
-          fill="none"
-          stroke="currentColor"
-          strokeWidth="3"
-          strokeLinecap="round"
-          strokeLinejoin="round"
-          className="text-blue-500 dark:text-blue-400"
-          initial={{ pathLength: 0, opacity: 0 }}
-          animate={{
-            d: pathData,
-            pathLength: 1,
-            opacity: 1
-          }}
-          transition={{
-            d: { type: "spring", stiffness: 100, damping: 20 },
-            pathLength: { duration: 1.5, ease: "easeInOut" },
-            opacity: { duration: 0.5 }
-          }}
-        />
-
-        {/* Right angle square */}
-        <motion.rect
-          initial={{ opacity: 0 }}
-          animate={{ opacity: 1 }}
-          x={pad}
-          y={200 - pad - 15}
-          width="15"
-          height="15"
-          fill="none"
-          stroke="currentColor"
-          strokeWidth="1.5"
-          className="text-slate-400"
-        />
-
-        {/* Labels with animation */}
-        <motion.text
-          animate={{ x: pad + width / 2, y: 200 - pad + 18 }}
-          textAnchor="middle"
-          className="text-[10px] fill-slate-500 font-mono"
-        >
-          b = {b.toFixed(1)}
-        </motion.text>
-        <motion.text
-          animate={{ x: pad - 18, y: 200 - pad - height / 2 }}
-          textAnchor="middle"
-          transform={`rotate(-90, ${pad - 18}, ${200 - pad - height / 2})`}
-          className="text-[10px] fill-slate-500 font-mono"
-        >
-          a = {a.toFixed(1)}
-        </motion.text>
-        <motion.text
-          animate={{ x: pad + width / 2 + 10, y: 200 - pad - height / 2 - 10 }}
-          textAnchor="middle"
-          className="text-[10px] fill-slate-500 font-mono"
-        >
-          c = {c.toFixed(1)}
-        </motion.text>
-
-        {angleA !== undefined && (
-          <motion.text
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            x={pad + width - 25}
-            y={200 - pad - 5}
-            className="text-[10px] fill-blue-600 font-bold"
-          >
-            α = {angleA.toFixed(1)}°
-          </motion.text>
-        )}
-      </svg>
-      <div className="mt-6 grid grid-cols-3 gap-4 w-full text-center">
-        <div className="p-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800">
-          <p className="text-[10px] text-slate-400 uppercase">Cateto a</p>
-          <p className="font-mono font-bold text-slate-700 dark:text-slate-200">{a.toFixed(2)}</p>
-        </div>
-        <div className="p-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800">
-          <p className="text-[10px] text-slate-400 uppercase">Cateto b</p>
-          <p className="font-mono font-bold text-slate-700 dark:text-slate-200">{b.toFixed(2)}</p>
-        </div>
-        <div className="p-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800">
-          <p className="text-[10px] text-slate-400 uppercase">Hipotenusa c</p>
-          <p className="font-mono font-bold text-blue-600 dark:text-blue-400">{c.toFixed(2)}</p>
-        </div>
-      </div>
-    </div>
-  );
-};
-
 export default function App() {
-  const [activeTab, setActiveTab] = useState<'pythagoras' | 'trig'>('pythagoras');
+  const [locale, setLocale] = useState<Locale>(initialLocale);
+  const t = translator(locale);
+  const [activeTab, setActiveTab] = useState<Tab>('pythagoras');
   const [darkMode, setDarkMode] = useState(false);
   const [showReview, setShowReview] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [presenting, setPresenting] = useState(false);
+  const fieldId = useId();
+  const reviewRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(reviewRef, showReview, () => setShowReview(false));
+  const figuresRef = useRef<HTMLDivElement>(null);
+  // A tab refilled from the history, solved again once its fields have been updated.
+  const [rerun, setRerun] = useState<{ mode: CalculatorMode; save: boolean } | null>(null);
   const [copied, setCopied] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [precision, setPrecision] = useState<PrecisionSettings>(DEFAULT_PRECISION);
+  const [units, setUnits] = useState<UnitSettings>(DEFAULT_UNITS);
+  // Units chosen for individual fields, keyed like 'right.alpha'; others follow `units`.
+  const [fieldUnits, setFieldUnits] = useState<Record<string, LengthUnit | AngleUnit>>({});
+  const display: RenderOptions = { ...precision, units, locale };
 
   // Pythagoras State
   const [pythA, setPythA] = useState<string>('');
   const [pythB, setPythB] = useState<string>('');
   const [pythC, setPythC] = useState<string>('');
-  const [pythResult, setPythResult] = useState<{ val: number; steps: CalculationStep[] } | null>(null);
+  const [pythResult, setPythResult] = useState<(RightTriangleSolution & { val: number }) | null>(null);
 
   // Trig State
   const [trigAngle, setTrigAngle] = useState<string>('');
   const [trigSideType, setTrigSideType] = useState<Side>('c');
   const [trigSideVal, setTrigSideVal] = useState<string>('');
-  const [trigResult, setTrigResult] = useState<{
-    a: number; b: number; c: number;
+  const [trigResult, setTrigResult] = useState<(RightTriangleSolution & {
     sin: number; cos: number; tan: number;
-    steps: CalculationStep[]
-  } | null>(null);
+  }) | null>(null);
+  // The unit-circle explorer's α, in degrees; acute angles are shared with the calculator.
+  const [circleAngle, setCircleAngle] = useState(30);
+
+  // Right Triangle State
+  const [rightInput, setRightInput] = useState<Record<Quantity, string>>({ a: '', b: '', c: '', alpha: '', beta: '' });
+  const [rightResult, setRightResult] = useState<RightTriangleSolution | null>(null);
+
+  // Oblique Triangle State
+  const [obliqueInput, setObliqueInput] = useState<Record<ObliqueQuantity, string>>({ a: '', b: '', c: '', alpha: '', beta: '', gamma: '' });
+  const [obliqueResult, setObliqueResult] = useState<ObliqueResult | null>(null);
+
+  const activeResult = activeTab === 'pythagoras' ? pythResult
+    : activeTab === 'trig' ? trigResult
+    : activeTab === 'right' ? rightResult
+    : null;
+  const activeSteps = activeTab === 'oblique'
+    ? obliqueResult && [...obliqueResult.steps, ...obliqueResult.solutions.flatMap(s => s.steps)]
+    : activeResult?.steps;
+  // The sides as entered where one disagrees with the rest, so the proofs can show it failing.
+  const proofTriangle = activeResult
+    ? proofSides((['a', 'b', 'c'] as Side[]).map(side => activeResult.warnings.find(w => w.quantity === side)?.given ?? activeResult[side]))
+    : activeTab === 'oblique' && obliqueResult?.solutions[0]
+      ? proofSides([obliqueResult.solutions[0].a, obliqueResult.solutions[0].b, obliqueResult.solutions[0].c])
+      : null;
 
   useEffect(() => {
     if (darkMode) {
@@ -191,10 +274,32 @@ export default function App() {
     }
   }, [darkMode]);
 
+  // Calculations saved offline reach the server as soon as it can be reached again.
+  useEffect(() => {
+    const sync = () => syncHistory().catch(() => {});
+    sync();
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    localStorage.setItem(LOCALE_KEY, locale);
+  }, [locale]);
+
+  // Arrow keys, Home and End move between tabs, as in any tab bar.
+  const moveTab = (e: React.KeyboardEvent) => {
+    const i = TABS.findIndex(tab => tab.id === activeTab);
+    const next = { ArrowRight: i + 1, ArrowLeft: i - 1, Home: 0, End: TABS.length - 1 }[e.key];
+    if (next === undefined) return;
+    e.preventDefault();
+    const { id } = TABS[(next + TABS.length) % TABS.length];
+    setActiveTab(id);
+    document.getElementById(`tab-${id}`)?.focus();
+  };
+
   const handleCopy = () => {
-    const text = activeTab === 'pythagoras'
-      ? pythResult?.steps.map(s => `${s.text} ${s.math || ''}`).join('\n')
-      : trigResult?.steps.map(s => `${s.text} ${s.math || ''}`).join('\n');
+    const text = activeSteps && renderPlainText(activeSteps, display);
 
     if (text) {
       navigator.clipboard.writeText(text);
@@ -203,417 +308,885 @@ export default function App() {
     }
   };
 
-  const calculatePythagoras = () => {
-    const a = parseFloat(pythA);
-    const b = parseFloat(pythB);
-    const c = parseFloat(pythC);
-
-    const steps: CalculationStep[] = [];
-    let result = 0;
-
-    if (!isNaN(a) && !isNaN(b)) {
-      // Find c
-      result = Math.sqrt(a * a + b * b);
-      steps.push({ text: "Identificamos los catetos:", math: `a = ${a}, b = ${b}` });
-      steps.push({ text: "Usamos la fórmula:", math: "c = \\sqrt{a^2 + b^2}" });
-      steps.push({ text: "Sustituimos valores:", math: `c = \\sqrt{${a}^2 + ${b}^2}` });
-      steps.push({ text: "Calculamos cuadrados:", math: `c = \\sqrt{${(a * a).toFixed(2)} + ${(b * b).toFixed(2)}}` });
-      steps.push({ text: "Sumamos:", math: `c = \\sqrt{${(a * a + b * b).toFixed(2)}}` });
-      steps.push({ text: "Resultado final:", math: `c \\approx ${result.toFixed(4)}` });
-      setPythResult({ val: result, steps });
-    } else if (!isNaN(a) && !isNaN(c)) {
-      // Find b
-      if (c <= a) return alert("La hipotenusa debe ser mayor que el cateto.");
-      result = Math.sqrt(c * c - a * a);
-      steps.push({ text: "Identificamos los lados:", math: `a = ${a}, c = ${c}` });
-      steps.push({ text: "Despejamos b de la fórmula:", math: "b = \\sqrt{c^2 - a^2}" });
-      steps.push({ text: "Sustituimos valores:", math: `b = \\sqrt{${c}^2 - ${a}^2}` });
-      steps.push({ text: "Resultado final:", math: `b \\approx ${result.toFixed(4)}` });
-      setPythResult({ val: result, steps });
-    } else if (!isNaN(b) && !isNaN(c)) {
-      // Find a
-      if (c <= b) return alert("La hipotenusa debe ser mayor que el cateto.");
-      result = Math.sqrt(c * c - b * b);
-      steps.push({ text: "Identificamos los lados:", math: `b = ${b}, c = ${c}` });
-      steps.push({ text: "Despejamos a de la fórmula:", math: "a = \\sqrt{c^2 - b^2}" });
-      steps.push({ text: "Sustituimos valores:", math: `a = \\sqrt{${c}^2 - ${b}^2}` });
-      steps.push({ text: "Resultado final:", math: `a \\approx ${result.toFixed(4)}` });
-      setPythResult({ val: result, steps });
+  /** Invalid data is already reported next to its fields, so here it just gives no result. */
+  const runSolver = (input: RightTriangleInput) => {
+    try {
+      return solveRightTriangle(input);
+    } catch (err) {
+      if (!(err instanceof SolverError)) throw err;
+      return null;
     }
   };
 
-  const calculateTrig = () => {
-    const angleDeg = parseFloat(trigAngle);
-    const sideVal = parseFloat(trigSideVal);
-
-    if (isNaN(angleDeg) || isNaN(sideVal)) return;
-    if (angleDeg <= 0 || angleDeg >= 90) return alert("El ángulo debe estar entre 0° y 90°.");
-
-    const angleRad = (angleDeg * Math.PI) / 180;
-    const steps: CalculationStep[] = [];
-    let a = 0, b = 0, c = 0;
-
-    if (trigSideType === 'c') {
-      c = sideVal;
-      a = c * Math.sin(angleRad);
-      b = c * Math.cos(angleRad);
-      steps.push({ text: "Dado Hipotenusa (c) y ángulo (α):", math: `c = ${c}, \\alpha = ${angleDeg}^\\circ` });
-      steps.push({ text: "Calculamos cateto opuesto (a):", math: `a = c \\cdot \\sin(\\alpha) = ${c} \\cdot \\sin(${angleDeg}^\\circ) \\approx ${a.toFixed(4)}` });
-      steps.push({ text: "Calculamos cateto adyacente (b):", math: `b = c \\cdot \\cos(\\alpha) = ${c} \\cdot \\cos(${angleDeg}^\\circ) \\approx ${b.toFixed(4)}` });
-    } else if (trigSideType === 'a') {
-      a = sideVal;
-      c = a / Math.sin(angleRad);
-      b = a / Math.tan(angleRad);
-      steps.push({ text: "Dado Cateto Opuesto (a) y ángulo (α):", math: `a = ${a}, \\alpha = ${angleDeg}^\\circ` });
-      steps.push({ text: "Calculamos hipotenusa (c):", math: `c = a / \\sin(\\alpha) = ${a} / \\sin(${angleDeg}^\\circ) \\approx ${c.toFixed(4)}` });
-      steps.push({ text: "Calculamos cateto adyacente (b):", math: `b = a / \\tan(\\alpha) = ${a} / \\tan(${angleDeg}^\\circ) \\approx ${b.toFixed(4)}` });
-    } else {
-      b = sideVal;
-      c = b / Math.cos(angleRad);
-      a = b * Math.tan(angleRad);
-      steps.push({ text: "Dado Cateto Adyacente (b) y ángulo (α):", math: `b = ${b}, \\alpha = ${angleDeg}^\\circ` });
-      steps.push({ text: "Calculamos hipotenusa (c):", math: `c = b / \\cos(\\alpha) = ${b} / \\cos(${angleDeg}^\\circ) \\approx ${c.toFixed(4)}` });
-      steps.push({ text: "Calculamos cateto opuesto (a):", math: `a = b \\cdot \\tan(\\alpha) = ${b} \\cdot \\tan(${angleDeg}^\\circ) \\approx ${a.toFixed(4)}` });
+  // --- Units ---
+
+  const lengthUnitOf = (id: string): LengthUnit =>
+    units.length === 'u' ? 'u' : (fieldUnits[id] as LengthUnit | undefined) ?? units.length;
+  const angleUnitOf = (id: string): AngleUnit => (fieldUnits[id] as AngleUnit | undefined) ?? units.angle;
+
+  /** Props for a `MeasureInput` whose unit is remembered under `id`. */
+  const unitProps = (id: string, kind: FieldKind) => (kind === 'angle'
+    ? { kind, unit: angleUnitOf(id), onUnitChange: (unit: AngleUnit) => setFieldUnits({ ...fieldUnits, [id]: unit }) }
+    : { kind, unit: lengthUnitOf(id), onUnitChange: (unit: LengthUnit) => setFieldUnits({ ...fieldUnits, [id]: unit }) });
+
+  const measure = (id: string, kind: FieldKind, text: string) => ({
+    text,
+    unit: kind === 'angle' ? angleUnitOf(id) : lengthUnitOf(id),
+  });
+
+  const measuredOf = (mode: CalculatorMode): Measured<ObliqueQuantity> => {
+    switch (mode) {
+      case 'pythagoras':
+        return {
+          a: measure('pythagoras.a', 'length', pythA),
+          b: measure('pythagoras.b', 'length', pythB),
+          c: measure('pythagoras.c', 'length', pythC),
+        };
+      case 'trig':
+        return {
+          alpha: measure('trig.alpha', 'angle', trigAngle),
+          [trigSideType]: measure('trig.side', 'length', trigSideVal),
+        };
+      case 'right':
+        return Object.fromEntries(RIGHT_FIELDS.map(({ key, kind }) => [key, measure(`right.${key}`, kind, rightInput[key])]));
+      case 'oblique':
+        return Object.fromEntries(OBLIQUE_FIELDS.map(({ key, kind }) => [key, measure(`oblique.${key}`, kind, obliqueInput[key])]));
     }
+  };
+
+  const withConversions = <T extends { steps: CalculationStep[] }>(result: T, conversions: CalculationStep[]): T =>
+    ({ ...result, steps: [...conversions, ...result.steps] });
+
+  // --- Validation ---
+
+  // Checked on every keystroke, so problems show up next to their fields before solving.
+  const measured = isCalculator(activeTab) ? measuredOf(activeTab) : {};
+  const issues = isCalculator(activeTab) ? validate(measured, units, SOLVERS[activeTab], display) : [];
+  const solvable = isSolvable(issues);
+  // Until it is solved, the Pythagoras triangle is drawn from what has been typed, in the solver's unit.
+  const pythTyped = activeTab === 'pythagoras' ? convertInput(measured, units).input : {};
+  // "Two values are needed…" is only worth saying once something has been typed.
+  const formIssues = Object.values(measured).some(field => field.text.trim())
+    ? issues.filter(issue => issue.fields.length === 0)
+    : [];
+
+  /** Props for the `MeasureInput` of `key`; an issue about several fields is explained under the first. */
+  const issueProps = (key: ObliqueQuantity) => {
+    const issue = issues.find(i => i.fields.includes(key));
+    return { issue, showMessage: issue?.fields[0] === key };
+  };
 
-    setTrigResult({
-      a, b, c,
+  const formNotice = formIssues.map(issue => (
+    <div key={issue.code} role="alert" className="p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-xs space-y-0.5">
+      <p className="font-medium text-red-600 dark:text-red-400">{issue.message}</p>
+      {issue.explanation && <p className="text-slate-500">{issue.explanation}</p>}
+    </div>
+  ));
+
+  // --- History ---
+
+  const fieldsOf = (mode: CalculatorMode): Record<string, string> => {
+    switch (mode) {
+      case 'pythagoras':
+        return { 'pythagoras.a': pythA, 'pythagoras.b': pythB, 'pythagoras.c': pythC };
+      case 'trig':
+        return { 'trig.alpha': trigAngle, 'trig.side': trigSideVal, 'trig.sideType': trigSideType };
+      case 'right':
+        return Object.fromEntries(RIGHT_FIELDS.map(({ key }) => [`right.${key}`, rightInput[key]]));
+      case 'oblique':
+        return Object.fromEntries(OBLIQUE_FIELDS.map(({ key }) => [`oblique.${key}`, obliqueInput[key]]));
+    }
+  };
+
+  /** "a = 3, b = 4 → c = 5.0000, …" in the units shown when it was calculated. */
+  const summarize = (given: Record<string, number>, output: Record<string, number>[]) => {
+    const n = plainNotation(display);
+    const format = (q: string, v: number) =>
+      `${n.sym(q)} = ${ANGLES.includes(q) ? formatAngle(v, display) : formatLength(v, display)}`;
+    const results = output.map(values => SUMMARY_QUANTITIES
+      .filter(q => q in values && !(q in given))
+      .map(q => format(q, values[q]))
+      .join(', '));
+    const data = Object.entries(given).map(([q, v]) => format(q, v)).join(', ');
+    return `${data} → ${results.join(' | ') || t('result.none')}`;
+  };
+
+  const inputOf = (mode: CalculatorMode): HistoryInput => ({
+    fields: fieldsOf(mode),
+    fieldUnits: Object.fromEntries(Object.entries(fieldUnits).filter(([id]) => id.startsWith(`${mode}.`))),
+    units,
+  });
+
+  /** Saves a solved problem to the history and adds it to the browser history as a link; only `CalculatorMode` tabs are recorded. */
+  const record = (mode: CalculatorMode, given: Record<string, number>, output: Record<string, number>[], steps: CalculationStep[]) => {
+    const query = `?${encodeProblem({ mode, input: inputOf(mode), precision })}`;
+    if (window.location.search !== query) window.history.pushState(null, '', query);
+    saveHistory({
+      mode,
+      input: inputOf(mode),
+      output,
+      steps,
+      summary: summarize(given, output),
+      // Without the local server (e.g. plain `vite`) the calculator still works, just without history.
+    }).catch(() => {});
+  };
+
+  /**
+   * Refills a tab and solves it again; only state setters are used, so it is safe in event listeners.
+   * Links and history entries come from outside, so a side type or unit that does not fit is ignored.
+   */
+  const restore = (mode: CalculatorMode, input: HistoryInput) => {
+    const { fields } = input;
+    const sideType = fields['trig.sideType'] ?? '';
+    switch (mode) {
+      case 'pythagoras':
+        setPythA(fields['pythagoras.a'] ?? '');
+        setPythB(fields['pythagoras.b'] ?? '');
+        setPythC(fields['pythagoras.c'] ?? '');
+        break;
+      case 'trig':
+        setTrigAngle(fields['trig.alpha'] ?? '');
+        setTrigSideVal(fields['trig.side'] ?? '');
+        setTrigSideType(SIDES.includes(sideType) ? sideType as Side : 'c');
+        break;
+      case 'right':
+        setRightInput(Object.fromEntries(RIGHT_FIELDS.map(({ key }) => [key, fields[`right.${key}`] ?? ''])) as Record<Quantity, string>);
+        break;
+      case 'oblique':
+        setObliqueInput(Object.fromEntries(OBLIQUE_FIELDS.map(({ key }) => [key, fields[`oblique.${key}`] ?? ''])) as Record<ObliqueQuantity, string>);
+        break;
+    }
+    setFieldUnits(current => ({
+      ...Object.fromEntries(Object.entries(current).filter(([id]) => !id.startsWith(`${mode}.`))),
+      ...fittingFieldUnits(input.fieldUnits),
+    }));
+    setUnits(input.units);
+    setActiveTab(mode);
+    setRerun({ mode, save: false });
+  };
+
+  /** Fills a tab with an example from a lesson, keeping the units already chosen. */
+  const openExample = ({ mode, input }: SharedProblem) => {
+    restore(mode, { ...input, units });
+    setShowReview(false);
+  };
+
+  const reopen = ({ mode, input }: HistoryEntry) => {
+    restore(mode, input);
+    setShowHistory(false);
+  };
+
+  // Links open their problem, and back/forward move between solved problems.
+  useEffect(() => {
+    const open = () => {
+      const problem = decodeProblem(window.location.search);
+      if (!problem) return;
+      setPrecision(problem.precision);
+      restore(problem.mode, problem.input);
+    };
+    open();
+    window.addEventListener('popstate', open);
+    return () => window.removeEventListener('popstate', open);
+  }, []);
+
+  // --- Dragging ---
+
+  /** Refills the active tab from legs dragged in the visualizer, which are in the result unit. */
+  const dragTo = ({ a, b }: { a: number; b: number }) => {
+    const text = (v: number) => `${+v.toFixed(4)}`;
+    let converted: string[];
+    switch (activeTab) {
+      case 'pythagoras':
+        setPythA(text(a));
+        setPythB(text(b));
+        setPythC('');
+        converted = ['pythagoras.a', 'pythagoras.b', 'pythagoras.c'];
+        break;
+      case 'trig':
+        setTrigAngle(text(toDeg(Math.atan2(a, b))));
+        setTrigSideVal(text({ a, b, c: Math.hypot(a, b) }[trigSideType]));
+        converted = ['trig.side'];
+        break;
+      case 'right':
+        setRightInput({ a: text(a), b: text(b), c: '', alpha: '', beta: '' });
+        converted = ['right.a', 'right.b', 'right.c'];
+        break;
+      default:
+        return;
+    }
+    setFieldUnits(current => ({
+      ...Object.fromEntries(Object.entries(current).filter(([id]) => !converted.includes(id))),
+      ...(activeTab === 'trig' && { 'trig.alpha': 'deg' as const }),
+    }));
+    setRerun({ mode: activeTab, save: false });
+  };
+
+  // --- Word problems ---
+
+  // What the last confirmed word problem asked for, answered from the right-triangle result.
+  const [wordTarget, setWordTarget] = useState<WordTarget | null>(null);
+
+  /** Fills the right-triangle fields with a confirmed word problem and solves it. */
+  const applyWordProblem = ({ values, target }: WordProblem) => {
+    const given = values.filter(v => v.quantity !== null);
+    const text = (v: number) => `${v}`.replace('.', decimalSeparator(locale));
+    setRightInput(Object.fromEntries(RIGHT_FIELDS.map(({ key }) => {
+      const value = given.find(v => v.quantity === key);
+      return [key, value ? text(value.value) : ''];
+    })) as Record<Quantity, string>);
+    setFieldUnits(current => ({
+      ...Object.fromEntries(Object.entries(current).filter(([id]) => !id.startsWith('right.'))),
+      ...Object.fromEntries(given.map(v => [`right.${v.quantity}`, v.unit])),
+    }));
+    // Unitless results would drop the units the problem is written in.
+    const length = given.find(v => !ANGLES.includes(v.quantity!))?.unit as LengthUnit | undefined;
+    if (units.length === 'u' && length && length !== 'u') setUnits({ ...units, length });
+    setWordTarget(target);
+    setRerun({ mode: 'right', save: true });
+  };
+
+  const wordAnswer = (() => {
+    if (!rightResult || !wordTarget) return undefined;
+    switch (wordTarget) {
+      case 'area':
+        return `${t('quantity.area')} = ${formatLength(rightResult.area, display, 2)}`;
+      case 'perimeter':
+        return `${t('quantity.perimeter')} = ${formatLength(rightResult.perimeter, display)}`;
+      default: {
+        const value = rightResult[wordTarget];
+        return `${plainNotation(display).sym(wordTarget)} = ${ANGLES.includes(wordTarget) ? formatAngle(value, display) : formatLength(value, display)}`;
+      }
+    }
+  })();
+
+  // --- Unit circle ---
+
+  /** Moves the explorer's α; an acute one is also the calculator's angle, solved again if there is a side. */
+  const exploreAngle = (degrees: number) => {
+    setCircleAngle(degrees);
+    if (degrees <= 0 || degrees >= 90) return;
+    setTrigAngle(`${degrees}`.replace('.', decimalSeparator(locale)));
+    setFieldUnits(current => ({ ...current, 'trig.alpha': 'deg' }));
+    if (trigSideVal.trim()) setRerun({ mode: 'trig', save: false });
+  };
+
+  useEffect(() => {
+    if (trigResult) setCircleAngle(+trigResult.alpha.toFixed(4));
+  }, [trigResult]);
+
+  const exportDocument = (): ExportDocument => {
+    if (activeTab === 'oblique' && obliqueResult) {
+      return {
+        title: t('tab.oblique.title'),
+        note: t('result.case', { name: t(`case.${obliqueResult.triangleCase}`) }),
+        steps: activeSteps ?? [],
+        sections: obliqueResult.solutions.map((solution, i) => ({
+          title: obliqueResult.solutions.length > 1 ? t('result.solution', { n: i + 1 }) : undefined,
+          values: exportValues(solution, OUTPUT_QUANTITIES),
+          triangle: solution,
+        })),
+      };
+    }
+    const result = activeTab === 'trig' ? trigResult : activeResult;
+    return {
+      title: t(`tab.${activeTab}.title`),
+      steps: activeSteps ?? [],
+      sections: result ? [{
+        values: exportValues(result, activeTab === 'trig' ? [...OUTPUT_QUANTITIES, 'sin', 'cos', 'tan'] : OUTPUT_QUANTITIES),
+        triangle: result,
+      }] : [],
+    };
+  };
+
+  const handleShare = () => {
+    if (!isCalculator(activeTab)) return;
+    const query = encodeProblem({ mode: activeTab, input: inputOf(activeTab), precision });
+    navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}?${query}`);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const calculatePythagoras = (save = true) => {
+    const { input, steps } = convertInput(measuredOf('pythagoras'), units);
+    const solution = runSolver(input);
+    if (!solution) {
+      setPythResult(null);
+      return;
+    }
+
+    const unknown = (['c', 'b', 'a'] as Side[]).find(s => !solution.known.includes(s))!;
+    const result = { ...withConversions(solution, steps), val: solution[unknown] };
+    setPythResult(result);
+    if (save) record('pythagoras', pick(solution, solution.known), [pick(solution, OUTPUT_QUANTITIES)], result.steps);
+  };
+
+  const calculateTrig = (save = true) => {
+    const { input, steps } = convertInput(measuredOf('trig'), units);
+    const solution = runSolver(input);
+    if (!solution) {
+      setTrigResult(null);
+      return;
+    }
+
+    const angleRad = (solution.alpha * Math.PI) / 180;
+    const result = {
+      ...withConversions(solution, steps),
       sin: Math.sin(angleRad),
       cos: Math.cos(angleRad),
-      tan: Math.tan(angleRad),
-      steps
-    });
+      tan: Math.tan(angleRad)
+    };
+    setTrigResult(result);
+    if (save) record('trig', pick(solution, solution.known), [pick(result, [...OUTPUT_QUANTITIES, 'sin', 'cos', 'tan'])], result.steps);
+  };
+
+  const calculateRight = (save = true) => {
+    const { input, steps } = convertInput(measuredOf('right'), units);
+    const solution = runSolver(input);
+    const result = solution && withConversions(solution, steps);
+    setRightResult(result);
+    if (save && result) record('right', pick(result, result.known), [pick(result, OUTPUT_QUANTITIES)], result.steps);
+  };
+
+  const calculateOblique = (save = true) => {
+    const { input, steps } = convertInput(measuredOf('oblique'), units);
+    try {
+      const result = withConversions(solveTriangle(input), steps);
+      setObliqueResult(result);
+      if (save) {
+        const given = Object.fromEntries(Object.entries(input).filter(([, v]) => !isNaN(v as number))) as Record<string, number>;
+        const allSteps = [...result.steps, ...result.solutions.flatMap(s => s.steps)];
+        record('oblique', given, result.solutions.map(s => pick(s, OUTPUT_QUANTITIES)), allSteps);
+      }
+    } catch (err) {
+      if (!(err instanceof SolverError)) throw err;
+      setObliqueResult(null);
+    }
+  };
+
+  const CALCULATORS: Record<CalculatorMode, (save?: boolean) => void> = {
+    pythagoras: calculatePythagoras,
+    trig: calculateTrig,
+    right: calculateRight,
+    oblique: calculateOblique,
   };
 
+  // Lengths are converted to the result unit when solving, so existing results are solved again.
+  useEffect(() => {
+    if (pythResult) calculatePythagoras(false);
+    if (trigResult) calculateTrig(false);
+    if (rightResult) calculateRight(false);
+    if (obliqueResult) calculateOblique(false);
+  }, [units]);
+
+  useEffect(() => {
+    if (!rerun) return;
+    CALCULATORS[rerun.mode](rerun.save);
+    setRerun(null);
+  }, [rerun]);
+
+  const presentButton = (
+    <button
+      onClick={() => setPresenting(true)}
+      className="px-3 py-1.5 rounded-xl text-xs font-semibold text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/30 flex items-center gap-1.5 transition-colors"
+    >
+      <Presentation className="w-4 h-4" />
+      {t('presenter.open')}
+    </button>
+  );
+
   return (
-    <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 font-sans transition-colors duration-300">
-      {/* --- Header --- */}
-      <header className="sticky top-0 z-40 w-full bg-white/80 dark:bg-slate-900/80 backdrop-blur-md border-b border-slate-200 dark:border-slate-800">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <div className="bg-blue-600 p-2 rounded-xl shadow-lg shadow-blue-500/20">
-              <Triangle className="w-6 h-6 text-white" />
+    <LocaleContext.Provider value={locale}>
+      <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 font-sans transition-colors duration-300">
+        {/* --- Header --- */}
+        <header className="sticky top-0 z-40 w-full bg-white/80 dark:bg-slate-900/80 backdrop-blur-md border-b border-slate-200 dark:border-slate-800">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <div className="bg-blue-600 p-2 rounded-xl shadow-lg shadow-blue-500/20">
+                <Triangle className="w-6 h-6 text-white" />
+              </div>
+              <h1 className="text-xl font-bold tracking-tight bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">GeoMaster</h1>
             </div>
-            <h1 className="text-xl font-bold tracking-tight bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">GeoMaster</h1>
-          </div>
 
-          <div className="flex items-center gap-2">
-            <button
-              onClick={() => setShowReview(true)}
-              className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors"
-            >
-              <BookOpen className="w-5 h-5" />
-            </button>
-            <button
-              onClick={() => setDarkMode(!darkMode)}
-              className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors"
-            >
-              {darkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
-            </button>
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1 px-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors" title={t('app.language')}>
+                <Languages className="w-5 h-5" />
+                <select
+                  value={locale}
+                  onChange={(e) => setLocale(e.target.value as Locale)}
+                  aria-label={t('app.language')}
+                  className="py-2 bg-transparent text-sm outline-none cursor-pointer"
+                >
+                  {(Object.keys(LOCALES) as Locale[]).map(id => <option key={id} value={id}>{LOCALES[id].name}</option>)}
+                </select>
+              </label>
+              <button
+                onClick={() => setShowHistory(true)}
+                title={t('app.history')}
+                aria-label={t('app.history')}
+                className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors"
+              >
+                <History className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowReview(true)}
+                title={t('app.review')}
+                aria-label={t('app.review')}
+                className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors"
+              >
+                <BookOpen className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setDarkMode(!darkMode)}
+                title={t('app.theme')}
+                aria-label={t('app.theme')}
+                aria-pressed={darkMode}
+                className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors"
+              >
+                {darkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
+              </button>
+            </div>
           </div>
-        </div>
-      </header>
-
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* --- Tabs --- */}
-        <div className="flex p-1 bg-slate-200/50 dark:bg-slate-800/50 rounded-2xl mb-8 max-w-md mx-auto">
-          <button
-            onClick={() => setActiveTab('pythagoras')}
-            className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl text-sm font-medium transition-all ${activeTab === 'pythagoras' ? 'bg-white dark:bg-slate-700 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
-          >
-            <Calculator className="w-4 h-4" />
-            Pitágoras
-          </button>
-          <button
-            onClick={() => setActiveTab('trig')}
-            className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl text-sm font-medium transition-all ${activeTab === 'trig' ? 'bg-white dark:bg-slate-700 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
-          >
-            <RotateCcw className="w-4 h-4" />
-            Trigonometría
-          </button>
-        </div>
-
-        <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
-          {/* --- Input Section --- */}
-          <div className="lg:col-span-4 space-y-6">
-            <motion.div
-              key={activeTab}
-              initial={{ opacity: 0, x: -20 }}
-              animate={{ opacity: 1, x: 0 }}
-              className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm"
-            >
-              <h2 className="text-lg font-bold mb-6 flex items-center gap-2">
-                {activeTab === 'pythagoras' ? 'Calculadora de Pitágoras' : 'Razones Trigonométricas'}
-                <Tooltip text={activeTab === 'pythagoras' ? "Ingresa 2 valores para hallar el tercero." : "Ingresa un ángulo y un lado."}>
-                  <Info className="w-4 h-4 text-slate-400 cursor-help" />
-                </Tooltip>
-              </h2>
-
-              {activeTab === 'pythagoras' ? (
-                <div className="space-y-4">
-                  <div>
-                    <label className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">Cateto a</label>
-                    <input
-                      type="number"
-                      value={pythA}
-                      onChange={(e) => setPythA(e.target.value)}
-                      placeholder="Valor de a"
-                      className="w-full px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">Cateto b</label>
-                    <input
-                      type="number"
-                      value={pythB}
-                      onChange={(e) => setPythB(e.target.value)}
-                      placeholder="Valor de b"
-                      className="w-full px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">Hipotenusa c</label>
-                    <input
-                      type="number"
-                      value={pythC}
-                      onChange={(e) => setPythC(e.target.value)}
-                      placeholder="Valor de c"
-                      className="w-full px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
-                    />
-                  </div>
-                  <button
-                    onClick={calculatePythagoras}
-                    className="w-full py-4 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-2xl shadow-lg shadow-blue-500/30 transition-all flex items-center justify-center gap-2 group"
-                  >
-                    Calcular
-                    <ChevronRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
-                  </button>
-                </div>
-              ) : (
-                <div className="space-y-4">
-                  <div>
-                    <label className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">Ángulo α (Grados)</label>
-                    <input
-                      type="number"
-                      value={trigAngle}
-                      onChange={(e) => setTrigAngle(e.target.value)}
-                      placeholder="Ej: 30"
-                      className="w-full px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
-                    />
-                  </div>
-                  <div className="flex gap-2">
-                    <div className="flex-1">
-                      <label className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">Lado conocido</label>
-                      <select
-                        value={trigSideType}
-                        onChange={(e) => setTrigSideType(e.target.value as Side)}
-                        className="w-full px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 outline-none"
-                      >
-                        <option value="c">Hipotenusa (c)</option>
-                        <option value="a">Cateto Opuesto (a)</option>
-                        <option value="b">Cateto Adyacente (b)</option>
-                      </select>
-                    </div>
-                    <div className="flex-1">
-                      <label className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">Valor</label>
-                      <input
-                        type="number"
-                        value={trigSideVal}
-                        onChange={(e) => setTrigSideVal(e.target.value)}
-                        placeholder="Valor"
-                        className="w-full px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
-                      />
-                    </div>
-                  </div>
-                  <button
-                    onClick={calculateTrig}
-                    className="w-full py-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-2xl shadow-lg shadow-indigo-500/30 transition-all flex items-center justify-center gap-2 group"
-                  >
-                    Calcular
-                    <ChevronRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
-                  </button>
-                </div>
-              )}
-            </motion.div>
+        </header>
 
-            {/* --- Results Summary --- */}
-            {(pythResult || trigResult) && (
-              <motion.div
-                initial={{ opacity: 0, scale: 0.95 }}
-                animate={{ opacity: 1, scale: 1 }}
-                className="bg-blue-600 dark:bg-blue-700 p-6 rounded-3xl text-white shadow-xl shadow-blue-500/20"
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* --- Tabs --- */}
+          <div role="tablist" aria-label={t('app.modes')} onKeyDown={moveTab} className="flex p-1 bg-slate-200/50 dark:bg-slate-800/50 rounded-2xl mb-8 max-w-4xl mx-auto">
+            {TABS.map(({ id, icon: Icon }) => (
+              <button
+                key={id}
+                id={`tab-${id}`}
+                role="tab"
+                aria-selected={activeTab === id}
+                aria-controls="tab-panel"
+                tabIndex={activeTab === id ? 0 : -1}
+                onClick={() => setActiveTab(id)}
+                className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl text-sm font-medium transition-all ${activeTab === id ? 'bg-white dark:bg-slate-700 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
               >
-                <div className="flex justify-between items-start mb-4">
-                  <h3 className="font-bold text-lg">Resultado</h3>
-                  <button
-                    onClick={handleCopy}
-                    className="p-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
-                  >
-                    {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                  </button>
-                </div>
-                {activeTab === 'pythagoras' ? (
-                  <div className="text-3xl font-mono font-bold">
-                    {pythResult?.val.toFixed(4)}
-                  </div>
-                ) : (
-                  <div className="space-y-2">
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm opacity-80">Seno (sin α)</span>
-                      <span className="font-mono font-bold">{trigResult?.sin.toFixed(4)}</span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm opacity-80">Coseno (cos α)</span>
-                      <span className="font-mono font-bold">{trigResult?.cos.toFixed(4)}</span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm opacity-80">Tangente (tan α)</span>
-                      <span className="font-mono font-bold">{trigResult?.tan.toFixed(4)}</span>
-                    </div>
-                  </div>
-                )}
-              </motion.div>
-            )}
+                <Icon className="w-4 h-4" />
+                {t(`tab.${id}`)}
+              </button>
+            ))}
           </div>
 
-          {/* --- Visualization & Steps --- */}
-          <div className="lg:col-span-8 space-y-8">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-              <TriangleVisualizer
-                a={activeTab === 'pythagoras' ? (parseFloat(pythA) || 0) : (trigResult?.a || 0)}
-                b={activeTab === 'pythagoras' ? (parseFloat(pythB) || 0) : (trigResult?.b || 0)}
-                c={activeTab === 'pythagoras' ? (pythResult?.val || parseFloat(pythC) || 0) : (trigResult?.c || 0)}
-                angleA={activeTab === 'trig' ? parseFloat(trigAngle) : undefined}
-              />
+          <div role="tabpanel" id="tab-panel" aria-labelledby={`tab-${activeTab}`}>
+            {activeTab === 'practice' ? (
+              <PracticeMode options={display} />
+            ) : activeTab === 'worksheet' ? (
+              <WorksheetBuilder options={display} />
+            ) : activeTab === 'templates' ? (
+              <TemplateMode options={display} onUnitsChange={setUnits} />
+            ) : activeTab === 'coordinates' ? (
+              <CoordinateMode options={display} onUnitsChange={setUnits} />
+            ) : activeTab === 'classroom' ? (
+              <ClassroomMode options={display} />
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+                {/* --- Input Section --- */}
+                <div className="lg:col-span-4 space-y-6">
+                  <motion.div
+                    key={activeTab}
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm"
+                  >
+                    <h2 className="text-lg font-bold mb-6 flex items-center gap-2">
+                      {t(`tab.${activeTab}.title`)}
+                      <Tooltip text={t(`tab.${activeTab}.hint`)}>
+                        <Info className="w-4 h-4 text-slate-400 cursor-help" />
+                      </Tooltip>
+                    </h2>
+
+                    {activeTab === 'pythagoras' ? (
+                      <div className="space-y-4">
+                        <MeasureInput
+                          {...fieldText(t, 'a', 'right')}
+                          value={pythA}
+                          onChange={setPythA}
+                          {...issueProps('a')}
+                          {...unitProps('pythagoras.a', 'length')}
+                        />
+                        <MeasureInput
+                          {...fieldText(t, 'b', 'right')}
+                          value={pythB}
+                          onChange={setPythB}
+                          {...issueProps('b')}
+                          {...unitProps('pythagoras.b', 'length')}
+                        />
+                        <MeasureInput
+                          {...fieldText(t, 'c', 'right')}
+                          value={pythC}
+                          onChange={setPythC}
+                          {...issueProps('c')}
+                          {...unitProps('pythagoras.c', 'length')}
+                        />
+                        {formNotice}
+                        <button
+                          onClick={() => calculatePythagoras()}
+                          disabled={!solvable}
+                          className="w-full py-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-2xl shadow-lg shadow-blue-500/30 transition-all flex items-center justify-center gap-2 group"
+                        >
+                          {t('action.calculate')}
+                          <ChevronRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+                        </button>
+                      </div>
+                    ) : activeTab === 'trig' ? (
+                      <div className="space-y-4">
+                        <MeasureInput
+                          label={fieldText(t, 'alpha', 'right').label}
+                          value={trigAngle}
+                          onChange={setTrigAngle}
+                          {...issueProps('alpha')}
+                          {...unitProps('trig.alpha', 'angle')}
+                        />
+                        <div className="flex gap-2">
+                          <div className="flex-1">
+                            <label htmlFor={fieldId} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{t('field.known-side')}</label>
+                            <select
+                              id={fieldId}
+                              value={trigSideType}
+                              onChange={(e) => setTrigSideType(e.target.value as Side)}
+                              className="w-full px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 outline-none"
+                            >
+                              {(['c', 'a', 'b'] as const).map(side => <option key={side} value={side}>{t(`side.${side}`)}</option>)}
+                            </select>
+                          </div>
+                          <div className="flex-1">
+                            <MeasureInput
+                              label={t('field.value')}
+                              value={trigSideVal}
+                              onChange={setTrigSideVal}
+                              placeholder={t('field.value')}
+                              {...issueProps(trigSideType)}
+                              {...unitProps('trig.side', 'length')}
+                            />
+                          </div>
+                        </div>
+                        {formNotice}
+                        <button
+                          onClick={() => calculateTrig()}
+                          disabled={!solvable}
+                          className="w-full py-4 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-2xl shadow-lg shadow-indigo-500/30 transition-all flex items-center justify-center gap-2 group"
+                        >
+                          {t('action.calculate')}
+                          <ChevronRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+                        </button>
+                      </div>
+                    ) : activeTab === 'right' ? (
+                      <div className="space-y-4">
+                        <WordProblemInput onSolve={applyWordProblem} answer={wordAnswer} />
+                        {RIGHT_FIELDS.map(({ key, kind }) => (
+                          <MeasureInput
+                            key={key}
+                            {...fieldText(t, key, 'right')}
+                            value={rightInput[key]}
+                            onChange={(value) => {
+                              setRightInput({ ...rightInput, [key]: value });
+                              setWordTarget(null);
+                            }}
+                            {...issueProps(key)}
+                            {...unitProps(`right.${key}`, kind)}
+                          />
+                        ))}
+                        {formNotice}
+                        <button
+                          onClick={() => calculateRight()}
+                          disabled={!solvable}
+                          className="w-full py-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-2xl shadow-lg shadow-blue-500/30 transition-all flex items-center justify-center gap-2 group"
+                        >
+                          {t('action.calculate')}
+                          <ChevronRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="space-y-4">
+                        <div className="grid grid-cols-2 gap-3">
+                          {OBLIQUE_FIELDS.map(({ key, kind }) => (
+                            <MeasureInput
+                              key={key}
+                              {...fieldText(t, key, 'oblique')}
+                              value={obliqueInput[key]}
+                              onChange={(value) => setObliqueInput({ ...obliqueInput, [key]: value })}
+                              {...issueProps(key)}
+                              {...unitProps(`oblique.${key}`, kind)}
+                            />
+                          ))}
+                        </div>
+                        {formNotice}
+                        <button
+                          onClick={() => calculateOblique()}
+                          disabled={!solvable}
+                          className="w-full py-4 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-2xl shadow-lg shadow-indigo-500/30 transition-all flex items-center justify-center gap-2 group"
+                        >
+                          {t('action.calculate')}
+                          <ChevronRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+                        </button>
+                      </div>
+                    )}
+                  </motion.div>
 
-              <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm overflow-hidden flex flex-col">
-                <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 mb-6 uppercase tracking-wider">Procedimiento Paso a Paso</h3>
-                <div className="flex-1 space-y-6 overflow-y-auto pr-2 custom-scrollbar">
-                  {(activeTab === 'pythagoras' ? pythResult?.steps : trigResult?.steps)?.map((step, i) => (
+                  <UnitControls value={units} onChange={setUnits} />
+                  <PrecisionControls value={precision} onChange={setPrecision} />
+
+                  {activeResult && activeResult.warnings.length > 0 && (
+                    <div className="p-4 rounded-2xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-300 space-y-1">
+                      {activeResult.warnings.map((warning, i) => <p key={i}>{renderWarning(warning, display)}</p>)}
+                    </div>
+                  )}
+
+                  {/* --- Results Summary --- */}
+                  {(activeResult || (activeTab === 'oblique' && obliqueResult)) && (
                     <motion.div
-                      initial={{ opacity: 0, y: 10 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      transition={{ delay: i * 0.1 }}
-                      key={i}
-                      className="relative pl-8 border-l-2 border-slate-100 dark:border-slate-800 pb-2"
+                      initial={{ opacity: 0, scale: 0.95 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      className="bg-blue-600 dark:bg-blue-700 p-6 rounded-3xl text-white shadow-xl shadow-blue-500/20"
                     >
-                      <div className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-blue-100 dark:bg-blue-900/30 border-2 border-blue-600 flex items-center justify-center">
-                        <div className="w-1.5 h-1.5 rounded-full bg-blue-600" />
+                      <div className="flex justify-between items-start mb-4">
+                        <h3 className="font-bold text-lg">{t('result.title')}</h3>
+                        <div className="flex gap-2">
+                          <ExportMenu name={`geomaster-${activeTab}`} getDocument={exportDocument} figures={figuresRef} options={display} />
+                          <button
+                            onClick={handleShare}
+                            title={t('result.share')}
+                            aria-label={t('result.share')}
+                            className="p-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
+                          >
+                            {linkCopied ? <Check className="w-4 h-4" /> : <Link className="w-4 h-4" />}
+                          </button>
+                          <button
+                            onClick={handleCopy}
+                            title={t('result.copy')}
+                            aria-label={t('result.copy')}
+                            className="p-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
+                          >
+                            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                          </button>
+                        </div>
                       </div>
-                      <p className="text-sm text-slate-600 dark:text-slate-400 mb-2">{step.text}</p>
-                      {step.math && (
-                        <div className="bg-slate-50 dark:bg-slate-800/50 p-3 rounded-xl inline-block">
-                          <InlineMath math={step.math} />
+                      {activeTab === 'oblique' && obliqueResult ? (
+                        <div className="space-y-4">
+                          <p className="text-sm opacity-80">{t('result.case', { name: t(`case.${obliqueResult.triangleCase}`) })}</p>
+                          {obliqueResult.solutions.length === 0 && (
+                            <p className="font-bold">{t('result.no-triangle')}</p>
+                          )}
+                          {obliqueResult.solutions.map((solution, i) => (
+                            <div key={i} className="space-y-1">
+                              {obliqueResult.solutions.length > 1 && <p className="text-xs uppercase font-bold opacity-70">{t('result.solution', { n: i + 1 })}</p>}
+                              {([
+                                ['a', formatLength(solution.a, display)],
+                                ['b', formatLength(solution.b, display)],
+                                ['c', formatLength(solution.c, display)],
+                                ['α', formatAngle(solution.alpha, display)],
+                                ['β', formatAngle(solution.beta, display)],
+                                ['γ', formatAngle(solution.gamma, display)],
+                                [t('quantity.area'), formatLength(solution.area, display, 2)],
+                              ] as const).map(([label, value]) => (
+                                <div key={label} className="flex justify-between items-center">
+                                  <span className="text-sm opacity-80">{label}</span>
+                                  <span className="font-mono font-bold">{value}</span>
+                                </div>
+                              ))}
+                            </div>
+                          ))}
+                        </div>
+                      ) : activeTab === 'pythagoras' ? (
+                        <div className="text-3xl font-mono font-bold">
+                          {pythResult && formatLength(pythResult.val, display)}
+                        </div>
+                      ) : activeTab === 'right' ? (
+                        <div className="space-y-2">
+                          {rightResult && ([
+                            [fieldText(t, 'a', 'right').label, formatLength(rightResult.a, display)],
+                            [fieldText(t, 'b', 'right').label, formatLength(rightResult.b, display)],
+                            [fieldText(t, 'c', 'right').label, formatLength(rightResult.c, display)],
+                            [fieldText(t, 'alpha', 'right').label, formatAngle(rightResult.alpha, display)],
+                            [fieldText(t, 'beta', 'right').label, formatAngle(rightResult.beta, display)],
+                            [t('quantity.area'), formatLength(rightResult.area, display, 2)],
+                            [t('quantity.perimeter'), formatLength(rightResult.perimeter, display)],
+                          ] as const).map(([label, value]) => (
+                            <div key={label} className="flex justify-between items-center">
+                              <span className="text-sm opacity-80">{label}</span>
+                              <span className="font-mono font-bold">{value}</span>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          {(['sin', 'cos', 'tan'] as const).map(fn => (
+                            <div key={fn} className="flex justify-between items-center">
+                              <span className="text-sm opacity-80">{t(`quantity.${fn}`)}</span>
+                              <span className="font-mono font-bold">{trigResult && plainNotation(display).res(trigResult[fn])}</span>
+                            </div>
+                          ))}
                         </div>
                       )}
                     </motion.div>
-                  )) || (
-                      <div className="h-full flex flex-col items-center justify-center text-slate-400 text-center px-8">
-                        <Calculator className="w-12 h-12 mb-4 opacity-20" />
-                        <p className="text-sm">Ingresa los datos y presiona calcular para ver el procedimiento detallado.</p>
-                      </div>
-                    )}
+                  )}
                 </div>
-              </div>
-            </div>
-          </div>
-        </div>
-      </main>
 
-      {/* --- Review Modal --- */}
-      <AnimatePresence>
-        {showReview && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
-            <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              onClick={() => setShowReview(false)}
-              className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
-            />
-            <motion.div
-              initial={{ opacity: 0, scale: 0.9, y: 20 }}
-              animate={{ opacity: 1, scale: 1, y: 0 }}
-              exit={{ opacity: 0, scale: 0.9, y: 20 }}
-              className="relative w-full max-w-2xl bg-white dark:bg-slate-900 rounded-3xl shadow-2xl overflow-hidden"
-            >
-              <div className="p-8 max-h-[80vh] overflow-y-auto custom-scrollbar">
-                <h2 className="text-2xl font-bold mb-6 flex items-center gap-2">
-                  <BookOpen className="w-6 h-6 text-blue-600" />
-                  Repaso de Geometría
-                </h2>
-
-                <div className="space-y-8">
-                  <section>
-                    <h3 className="text-lg font-bold text-blue-600 mb-3">1. El Triángulo Rectángulo</h3>
-                    <p className="text-slate-600 dark:text-slate-400 mb-4">Es aquel que tiene un ángulo de 90° (ángulo recto). Sus lados tienen nombres especiales:</p>
-                    <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <li className="p-4 rounded-2xl bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700">
-                        <span className="font-bold text-slate-900 dark:text-white block mb-1">Catetos</span>
-                        Los dos lados que forman el ángulo recto.
-                      </li>
-                      <li className="p-4 rounded-2xl bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-800">
-                        <span className="font-bold text-blue-600 block mb-1">Hipotenusa</span>
-                        El lado más largo, opuesto al ángulo recto.
-                      </li>
-                    </ul>
-                  </section>
-
-                  <section>
-                    <h3 className="text-lg font-bold text-blue-600 mb-3">2. Teorema de Pitágoras</h3>
-                    <div className="bg-slate-900 text-white p-6 rounded-2xl mb-4">
-                      <BlockMath math="a^2 + b^2 = c^2" />
-                    </div>
-                    <p className="text-slate-600 dark:text-slate-400">"En todo triángulo rectángulo, el cuadrado de la hipotenusa es igual a la suma de los cuadrados de los catetos."</p>
-                  </section>
-
-                  <section>
-                    <h3 className="text-lg font-bold text-blue-600 mb-3">3. Razones Trigonométricas (SOH-CAH-TOA)</h3>
-                    <p className="text-slate-600 dark:text-slate-400 mb-4">Mnemotecnia para recordar las fórmulas básicas:</p>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      <div className="p-4 rounded-2xl border border-slate-200 dark:border-slate-800">
-                        <span className="font-black text-2xl text-blue-600 block mb-2">SOH</span>
-                        <InlineMath math="\sin(\alpha) = \frac{Opuesto}{Hipotenusa}" />
-                      </div>
-                      <div className="p-4 rounded-2xl border border-slate-200 dark:border-slate-800">
-                        <span className="font-black text-2xl text-indigo-600 block mb-2">CAH</span>
-                        <InlineMath math="\cos(\alpha) = \frac{Adyacente}{Hipotenusa}" />
+                {/* --- Visualization & Steps --- */}
+                <div ref={figuresRef} className="lg:col-span-8 space-y-8">
+                  {activeTab === 'oblique' ? (
+                    <>
+                      {obliqueResult && obliqueResult.solutions.length > 0 && (
+                        <div className={`grid grid-cols-1 gap-8 ${obliqueResult.solutions.length > 1 ? 'md:grid-cols-2' : ''}`}>
+                          {obliqueResult.solutions.map((solution, i) => (
+                            <ObliqueTriangleVisualizer
+                              key={i}
+                              solution={solution}
+                              title={obliqueResult.solutions.length > 1 ? t('result.solution', { n: i + 1 }) : undefined}
+                              options={display}
+                            />
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm overflow-hidden flex flex-col">
+                        <div className="flex items-center justify-between mb-6">
+                          <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{t('steps.title')}</h3>
+                          {obliqueResult && presentButton}
+                        </div>
+                        {obliqueResult ? (
+                          <div className="space-y-6">
+                            <StepList steps={obliqueResult.steps} options={display} />
+                            <div className={`grid grid-cols-1 gap-8 ${obliqueResult.solutions.length > 1 ? 'md:grid-cols-2' : ''}`}>
+                              {obliqueResult.solutions.map((solution, i) => (
+                                <div key={i} className="space-y-6">
+                                  {obliqueResult.solutions.length > 1 && (
+                                    <h4 className="text-xs font-bold text-indigo-600 uppercase tracking-wider">{t('result.solution', { n: i + 1 })}</h4>
+                                  )}
+                                  <StepList steps={solution.steps} delayOffset={obliqueResult.steps.length} options={display} />
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="py-12 flex flex-col items-center justify-center text-slate-400 text-center px-8">
+                            <Calculator className="w-12 h-12 mb-4 opacity-20" />
+                            <p className="text-sm">{t('steps.empty')}</p>
+                          </div>
+                        )}
                       </div>
-                      <div className="p-4 rounded-2xl border border-slate-200 dark:border-slate-800">
-                        <span className="font-black text-2xl text-purple-600 block mb-2">TOA</span>
-                        <InlineMath math="\tan(\alpha) = \frac{Opuesto}{Adyacente}" />
+                    </>
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                      <TriangleVisualizer
+                        a={activeTab === 'pythagoras' ? (pythResult?.a || pythTyped.a || 0) : (activeResult?.a || 0)}
+                        b={activeTab === 'pythagoras' ? (pythResult?.b || pythTyped.b || 0) : (activeResult?.b || 0)}
+                        c={activeTab === 'pythagoras' ? (pythResult?.c || pythTyped.c || 0) : (activeResult?.c || 0)}
+                        angleA={activeTab === 'pythagoras' ? pythResult?.alpha : activeResult?.alpha}
+                        options={display}
+                        onChange={dragTo}
+                      />
+
+                      <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm overflow-hidden flex flex-col">
+                        <div className="flex items-center justify-between mb-6">
+                          <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{t('steps.title')}</h3>
+                          {activeResult && presentButton}
+                        </div>
+                        <div className="flex-1 space-y-6 overflow-y-auto pr-2 custom-scrollbar">
+                          {activeResult ? <StepList steps={activeResult.steps} options={display} /> : (
+                            <div className="h-full flex flex-col items-center justify-center text-slate-400 text-center px-8">
+                              <Calculator className="w-12 h-12 mb-4 opacity-20" />
+                              <p className="text-sm">{t('steps.empty')}</p>
+                            </div>
+                          )}
+                        </div>
                       </div>
                     </div>
-                  </section>
-                </div>
+                  )}
 
-                <button
-                  onClick={() => setShowReview(false)}
-                  className="mt-8 w-full py-4 bg-slate-900 dark:bg-white dark:text-slate-900 text-white font-bold rounded-2xl hover:opacity-90 transition-opacity"
-                >
-                  Entendido
-                </button>
+                  {activeTab === 'trig' && <UnitCircleExplorer angle={circleAngle} onChange={exploreAngle} options={display} />}
+
+                  {activeSteps && <TutorPanel mode={activeTab as CalculatorMode} steps={activeSteps} />}
+                </div>
               </div>
-            </motion.div>
+            )}
           </div>
-        )}
-      </AnimatePresence>
+        </main>
 
-      <style>{`
-        .custom-scrollbar::-webkit-scrollbar {
-          width: 6px;
-        }
-        .custom-scrollbar::-webkit-scrollbar-track {
-          background: transparent;
-        }
-        .custom-scrollbar::-webkit-scrollbar-thumb {
-          background: #e2e8f0;
-          border-radius: 10px;
-        }
-        .dark .custom-scrollbar::-webkit-scrollbar-thumb {
-          background: #334155;
-        }
-      `}</style>
-    </div>
+        <HistoryPanel open={showHistory} onClose={() => setShowHistory(false)} onOpen={reopen} />
+        <UpdatePrompt />
+        <p role="status" className="sr-only">{copied || linkCopied ? t('app.copied') : ''}</p>
+
+        {/* --- Review Modal --- */}
+        <AnimatePresence>
+          {showReview && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                onClick={() => setShowReview(false)}
+                className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+              />
+              <motion.div
+                ref={reviewRef}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="review-title"
+                initial={{ opacity: 0, scale: 0.9, y: 20 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.9, y: 20 }}
+                className="relative w-full max-w-5xl bg-white dark:bg-slate-900 rounded-3xl shadow-2xl overflow-hidden"
+              >
+                <div className="p-8 max-h-[80vh] overflow-y-auto custom-scrollbar">
+                  <h2 id="review-title" className="text-2xl font-bold mb-6 flex items-center gap-2">
+                    <BookOpen className="w-6 h-6 text-blue-600" />
+                    {t('review.title')}
+                  </h2>
+
+                  <LessonBrowser sides={proofTriangle} options={display} onOpen={openExample} />
+
+                  <button
+                    onClick={() => setShowReview(false)}
+                    className="mt-8 w-full py-4 bg-slate-900 dark:bg-white dark:text-slate-900 text-white font-bold rounded-2xl hover:opacity-90 transition-opacity"
+                  >
+                    {t('review.close')}
+                  </button>
+                </div>
+              </motion.div>
+            </div>
+          )}
+        </AnimatePresence>
+
+        <AnimatePresence>
+          {presenting && activeResult && (
+            <PresenterMode steps={activeResult.steps} triangle={activeResult} options={display} onClose={() => setPresenting(false)} />
+          )}
+          {presenting && activeTab === 'oblique' && obliqueResult && (
+            <PresenterMode
+              steps={activeSteps!}
+              figure={highlight => obliqueResult.solutions.map((solution, i) => (
+                <ObliqueTriangleVisualizer
+                  key={i}
+                  solution={solution}
+                  title={obliqueResult.solutions.length > 1 ? t('result.solution', { n: i + 1 }) : undefined}
+                  options={display}
+                  highlight={highlight}
+                />
+              ))}
+              options={display}
+              onClose={() => setPresenting(false)}
+            />
+          )}
+        </AnimatePresence>
+
+        <style>{`
+          .custom-scrollbar::-webkit-scrollbar {
+            width: 6px;
+          }
+          .custom-scrollbar::-webkit-scrollbar-track {
+            background: transparent;
+          }
+          .custom-scrollbar::-webkit-scrollbar-thumb {
+            background: #e2e8f0;
+            border-radius: 10px;
+          }
+          .dark .custom-scrollbar::-webkit-scrollbar-thumb {
+            background: #334155;
+          }
+        `}</style>
+      </div>
+    </LocaleContext.Provider>
   );
 }
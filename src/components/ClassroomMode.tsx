@@ -0,0 +1,654 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Check, ChevronRight, Dices, Download, LogOut, Plus, RefreshCw, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useEffect, useId, useState } from 'react';
+import {
+  assignWorksheet,
+  classMastery,
+  classroomFailure,
+  classTopics,
+  createClass,
+  gradebookCsv,
+  joinClass,
+  leaveClass,
+  loadDashboard,
+  loadStudentView,
+  masteryPercent,
+  SavedClass,
+  savedClasses,
+  sendAnswer,
+  studentKey,
+} from '../lib/classroom';
+import { download } from '../lib/files';
+import { decimalSeparator } from '../lib/i18n';
+import { useTranslation } from '../lib/i18n/context';
+import { answerOptions, DIFFICULTIES } from '../lib/practice';
+import { randomSeed } from '../lib/random';
+import { renderKatex, RenderOptions, renderSpeech } from '../lib/steps/render';
+import { makeStep } from '../lib/steps/rules';
+import { TOPICS } from '../lib/worksheet';
+import { AnswerGrade, ClassDashboard, Difficulty, Mastery, StudentView, WorksheetSettings, WorksheetTopic } from '../types';
+import SpokenMath from './SpokenMath';
+
+type Role = 'teacher' | 'student';
+
+const ROLES: Role[] = ['teacher', 'student'];
+
+const COUNTS = [4, 6, 8, 10, 12, 16, 20];
+
+const inputClass = "w-full px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all";
+const cardClass = "bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm";
+const labelClass = "block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1";
+const buttonClass = "w-full py-3 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold rounded-2xl transition-all flex items-center justify-center gap-2";
+
+const useFailure = () => {
+  const { t } = useTranslation();
+  return (err: unknown) => classroomFailure(err, t);
+};
+
+const ErrorNote = ({ error }: { error: string | null }) =>
+  error && (
+    <p role="alert" className="p-4 rounded-2xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-300">
+      {error}
+    </p>
+  );
+
+// --- Teacher ---
+
+const masteryClass = (percent: number | null) =>
+  percent === null ? 'text-slate-400'
+    : percent >= 80 ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400'
+    : percent >= 50 ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
+    : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400';
+
+const MasteryCell = ({ mastery }: { mastery?: Mastery }) => {
+  const { t } = useTranslation();
+  const percent = masteryPercent(mastery);
+  return (
+    <td className="p-1">
+      <span
+        title={mastery ? t('classroom.mastery-detail', { correct: mastery.correct, answered: mastery.answered }) : undefined}
+        className={`block px-2 py-1.5 rounded-lg text-center font-mono font-bold ${masteryClass(percent)}`}
+      >
+        {percent === null ? '—' : `${percent}%`}
+      </span>
+    </td>
+  );
+};
+
+/** Students by topic, with the whole class in the last row. */
+const MasteryTable = ({ dashboard }: { dashboard: ClassDashboard }) => {
+  const { t } = useTranslation();
+  const topics = classTopics(dashboard);
+  const { students, mastery } = dashboard;
+
+  if (!students.length) return <p className="text-sm text-slate-500">{t('classroom.no-students')}</p>;
+  if (!topics.length) return <p className="text-sm text-slate-500">{t('classroom.no-assignments')}</p>;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-slate-500 uppercase">
+            <th scope="col" className="p-2 text-left font-semibold">{t('classroom.student')}</th>
+            {topics.map(topic => <th key={topic} scope="col" className="p-2 font-semibold">{t(`topic.${topic}`)}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {students.map(student => (
+            <tr key={student.id} className="border-t border-slate-100 dark:border-slate-800">
+              <th scope="row" className="p-2 text-left font-medium">{student.name}</th>
+              {topics.map(topic => <MasteryCell key={topic} mastery={mastery[student.id][topic]} />)}
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t-2 border-slate-200 dark:border-slate-700">
+            <th scope="row" className="p-2 text-left font-bold">{t('classroom.whole-class')}</th>
+            {topics.map(topic => <MasteryCell key={topic} mastery={classMastery(dashboard, topic)} />)}
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+const AssignmentForm = ({ onAssign }: { onAssign: (title: string, settings: WorksheetSettings) => Promise<boolean> }) => {
+  const [title, setTitle] = useState('');
+  const [topics, setTopics] = useState<WorksheetTopic[]>(['hypotenuse', 'leg']);
+  const [difficulty, setDifficulty] = useState<Difficulty>('easy');
+  const [count, setCount] = useState(8);
+  const [seed, setSeed] = useState(randomSeed);
+  const { t } = useTranslation();
+  const fieldId = useId();
+
+  const toggle = (topic: WorksheetTopic) =>
+    setTopics(topics.includes(topic) ? topics.filter(t => t !== topic) : (Object.keys(TOPICS) as WorksheetTopic[]).filter(t => t === topic || topics.includes(t)));
+
+  const submit = async () => {
+    if (await onAssign(title.trim(), { topics, count, difficulty, seed: seed.trim() })) {
+      setTitle('');
+      setSeed(randomSeed());
+    }
+  };
+
+  return (
+    <div className={`${cardClass} space-y-4`}>
+      <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{t('classroom.assign')}</h3>
+      <div>
+        <label htmlFor={`${fieldId}-0`} className={labelClass}>{t('classroom.assignment-title')}</label>
+        <input id={`${fieldId}-0`} value={title} maxLength={60} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+      </div>
+      <div>
+        <p id={`${fieldId}-topics`} className={labelClass}>{t('worksheet.topics')}</p>
+        <div role="group" aria-labelledby={`${fieldId}-topics`} className="space-y-2">
+          {(Object.keys(TOPICS) as WorksheetTopic[]).map(topic => (
+            <label key={topic} className="flex items-center gap-3 text-sm cursor-pointer">
+              <input type="checkbox" checked={topics.includes(topic)} onChange={() => toggle(topic)} className="w-4 h-4 rounded accent-blue-600" />
+              {t(`topic.${topic}`)}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label htmlFor={`${fieldId}-1`} className={labelClass}>{t('difficulty.label')}</label>
+        <select id={`${fieldId}-1`} value={difficulty} onChange={(e) => setDifficulty(e.target.value as Difficulty)} className={inputClass}>
+          {DIFFICULTIES.map(d => <option key={d} value={d}>{t(`difficulty.${d}`)}</option>)}
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor={`${fieldId}-2`} className={labelClass}>{t('worksheet.count')}</label>
+          <select id={`${fieldId}-2`} value={count} onChange={(e) => setCount(parseInt(e.target.value))} className={inputClass}>
+            {COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`${fieldId}-3`} className={labelClass}>{t('seed.label')}</label>
+          <div className="flex gap-1">
+            <input
+              id={`${fieldId}-3`}
+              value={seed}
+              maxLength={20}
+              onChange={(e) => setSeed(e.target.value.toUpperCase())}
+              className={`${inputClass} font-mono uppercase`}
+            />
+            <button
+              onClick={() => setSeed(randomSeed())}
+              title={t('seed.new')}
+              aria-label={t('seed.new')}
+              className="px-3 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors"
+            >
+              <Dices className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+      <button onClick={submit} disabled={!title.trim() || !topics.length || !seed.trim()} className={buttonClass}>
+        <Plus className="w-4 h-4" />
+        {t('classroom.assign-button')}
+      </button>
+    </div>
+  );
+};
+
+const TeacherView = () => {
+  const [classes, setClasses] = useState(savedClasses);
+  const [current, setCurrent] = useState<SavedClass | null>(() => savedClasses()[0] ?? null);
+  const [dashboard, setDashboard] = useState<ClassDashboard | null>(null);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const failure = useFailure();
+  const { t } = useTranslation();
+  const fieldId = useId();
+
+  const refresh = async (saved = current) => {
+    if (!saved) return;
+    try {
+      setDashboard(await loadDashboard(saved));
+      setError(null);
+    } catch (err) {
+      setError(failure(err));
+    }
+  };
+
+  useEffect(() => {
+    setDashboard(null);
+    refresh();
+  }, [current?.code]);
+
+  const create = async () => {
+    try {
+      const saved = await createClass(name.trim());
+      setClasses(savedClasses());
+      setCurrent(saved);
+      setName('');
+    } catch (err) {
+      setError(failure(err));
+    }
+  };
+
+  const assign = async (title: string, settings: WorksheetSettings) => {
+    if (!current) return false;
+    try {
+      await assignWorksheet(current, title, settings);
+      await refresh();
+      return true;
+    } catch (err) {
+      setError(failure(err));
+      return false;
+    }
+  };
+
+  const exportGradebook = () =>
+    dashboard && download(`${t('classroom.file')}-${dashboard.classroom.code}.csv`, gradebookCsv(dashboard, t), 'text/csv');
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      {/* --- Classes --- */}
+      <div className="lg:col-span-4 space-y-6">
+        <div className={`${cardClass} space-y-4`}>
+          <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{t('classroom.classes')}</h3>
+          {classes.length > 0 && (
+            <ul className="space-y-1">
+              {classes.map(saved => (
+                <li key={saved.code}>
+                  <button
+                    onClick={() => setCurrent(saved)}
+                    aria-current={saved.code === current?.code ? 'true' : undefined}
+                    className={`w-full text-left px-3 py-2 rounded-xl text-sm flex justify-between gap-2 transition-all ${saved.code === current?.code ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400' : 'hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+                  >
+                    <span className="font-semibold truncate">{saved.name}</span>
+                    <span className="font-mono text-slate-400">{saved.code}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div>
+            <label htmlFor={`${fieldId}-name`} className={labelClass}>{t('classroom.class-name')}</label>
+            <div className="flex gap-2">
+              <input
+                id={`${fieldId}-name`}
+                value={name}
+                maxLength={60}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && name.trim() && create()}
+                className={inputClass}
+              />
+              <button
+                onClick={create}
+                disabled={!name.trim()}
+                title={t('classroom.create')}
+                aria-label={t('classroom.create')}
+                className="px-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-xl transition-all"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+        {current && <AssignmentForm key={current.code} onAssign={assign} />}
+      </div>
+
+      {/* --- Dashboard --- */}
+      <div className="lg:col-span-8 space-y-6">
+        <ErrorNote error={error} />
+        {!dashboard ? (
+          !error && (
+            <div className="py-24 text-center text-sm text-slate-400 bg-white dark:bg-slate-900 rounded-3xl border border-slate-200 dark:border-slate-800">
+              {t('classroom.empty')}
+            </div>
+          )
+        ) : (
+          <>
+            <div className={`${cardClass} flex flex-wrap items-center justify-between gap-4`}>
+              <div>
+                <h2 className="text-lg font-bold">{dashboard.classroom.name}</h2>
+                <p className="text-sm text-slate-500">{t('classroom.code-hint')}</p>
+              </div>
+              <p aria-label={t('classroom.code')} className="px-4 py-2 rounded-2xl bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 font-mono text-2xl font-bold tracking-widest">
+                {dashboard.classroom.code}
+              </p>
+            </div>
+
+            <div className={`${cardClass} space-y-4`}>
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{t('classroom.mastery')}</h3>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => refresh()}
+                    title={t('classroom.refresh')}
+                    aria-label={t('classroom.refresh')}
+                    className="p-2 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={exportGradebook}
+                    disabled={!dashboard.students.length}
+                    className="px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50 text-sm font-semibold flex items-center gap-2 transition-all"
+                  >
+                    <Download className="w-4 h-4" />
+                    {t('classroom.export')}
+                  </button>
+                </div>
+              </div>
+              <MasteryTable dashboard={dashboard} />
+            </div>
+
+            <div className={`${cardClass} space-y-3`}>
+              <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{t('classroom.assignments')}</h3>
+              {dashboard.assignments.length === 0 ? (
+                <p className="text-sm text-slate-500">{t('classroom.no-assignments')}</p>
+              ) : (
+                <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+                  {dashboard.assignments.map(assignment => {
+                    const right = dashboard.students.reduce((sum, s) => sum + dashboard.scores[s.id][assignment.id], 0);
+                    const possible = dashboard.students.length * assignment.settings.count;
+                    return (
+                      <li key={assignment.id} className="py-3 flex flex-wrap justify-between gap-2 text-sm">
+                        <div>
+                          <p className="font-semibold">{assignment.title}</p>
+                          <p className="text-slate-500">
+                            {assignment.settings.topics.map(topic => t(`topic.${topic}`)).join(', ')} · {t(`difficulty.${assignment.settings.difficulty}`)}
+                          </p>
+                        </div>
+                        <span className="font-mono text-slate-500">
+                          {t('classroom.average', { percent: possible ? Math.round((100 * right) / possible) : 0 })}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- Student ---
+
+const JoinForm = ({ onJoin }: { onJoin: (view: StudentView) => void }) => {
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const failure = useFailure();
+  const { t } = useTranslation();
+  const fieldId = useId();
+
+  const join = async () => {
+    if (!code.trim() || !name.trim()) return;
+    try {
+      onJoin(await joinClass(code.trim(), name.trim()));
+    } catch (err) {
+      setError(failure(err));
+    }
+  };
+
+  return (
+    <div className={`${cardClass} max-w-md mx-auto space-y-4`}>
+      <h2 className="text-lg font-bold">{t('classroom.join')}</h2>
+      <div>
+        <label htmlFor={`${fieldId}-1`} className={labelClass}>{t('classroom.code')}</label>
+        <input
+          id={`${fieldId}-1`}
+          value={code}
+          maxLength={20}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          className={`${inputClass} font-mono uppercase`}
+        />
+      </div>
+      <div>
+        <label htmlFor={`${fieldId}-2`} className={labelClass}>{t('classroom.your-name')}</label>
+        <input
+          id={`${fieldId}-2`}
+          value={name}
+          maxLength={60}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && join()}
+          className={inputClass}
+        />
+      </div>
+      <ErrorNote error={error} />
+      <button onClick={join} disabled={!code.trim() || !name.trim()} className={buttonClass}>
+        {t('classroom.join-button')}
+        <ChevronRight className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+/** The student's assignments and the one being answered; a wrong answer may be tried again. */
+const StudentPanel = ({ view, options, onChange, onLeave }: {
+  view: StudentView;
+  options: RenderOptions;
+  onChange: (view: StudentView) => void;
+  onLeave: () => void;
+}) => {
+  const [selected, setSelected] = useState(view.assignments[0]?.id);
+  const [current, setCurrent] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [grade, setGrade] = useState<AnswerGrade | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const failure = useFailure();
+  const { locale, t } = useTranslation();
+
+  // Answers are graded in degrees, so the data is shown in degrees as well.
+  const display = answerOptions(options);
+  const assignment = view.assignments.find(a => a.id === selected);
+  const problems = assignment?.problems ?? [];
+  const problem = problems[current];
+  const given = problem && makeStep('triangle.given', { values: problem.given });
+  const question = problem && t('exercise.ask', { question: t(`question.${problem.target}`) });
+
+  const goTo = (id: number, index: number) => {
+    setSelected(id);
+    setCurrent(index);
+    setAnswer(view.assignments.find(a => a.id === id)?.answers[index]?.answer ?? '');
+    setGrade(null);
+  };
+
+  const check = async () => {
+    if (!assignment || !answer.trim()) return;
+    try {
+      const result = await sendAnswer(studentKey() ?? '', assignment.id, current, answer.trim());
+      setGrade(result);
+      setError(null);
+      onChange({
+        ...view,
+        assignments: view.assignments.map(a => a.id === assignment.id
+          ? { ...a, answers: { ...a.answers, [current]: { answer: answer.trim(), correct: result.correct } } }
+          : a),
+      });
+    } catch (err) {
+      setError(failure(err));
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      {/* --- Assignments --- */}
+      <div className="lg:col-span-4 space-y-6">
+        <div className={`${cardClass} space-y-4`}>
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <h2 className="text-lg font-bold">{view.classroom.name}</h2>
+              <p className="text-sm text-slate-500">{view.student.name}</p>
+            </div>
+            <button
+              onClick={onLeave}
+              title={t('classroom.leave')}
+              aria-label={t('classroom.leave')}
+              className="p-2 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors"
+            >
+              <LogOut className="w-4 h-4" />
+            </button>
+          </div>
+          {view.assignments.length === 0 && <p className="text-sm text-slate-500">{t('classroom.no-assignments')}</p>}
+          {view.assignments.map(a => {
+            const right = Object.values(a.answers).filter(answer => answer.correct).length;
+            return (
+              <div key={a.id} className="space-y-2">
+                <div className="flex justify-between items-center gap-2 text-sm">
+                  <span className="font-semibold">{a.title}</span>
+                  <span className="font-mono font-bold">{right} / {a.problems.length}</span>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {a.problems.map((_, i) => (
+                    <button
+                      key={i}
+                      onClick={() => goTo(a.id, i)}
+                      aria-label={t('practice.exercise', { n: i + 1, total: a.problems.length })}
+                      className={`w-9 h-9 rounded-xl text-sm font-bold transition-all ${a.id === selected && i === current ? 'ring-2 ring-blue-500' : ''} ${
+                        !a.answers[i] ? 'bg-slate-100 dark:bg-slate-800 text-slate-500'
+                          : a.answers[i].correct ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400'
+                          : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
+                      }`}
+                    >
+                      {i + 1}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* --- Exercise --- */}
+      <div className="lg:col-span-8">
+        <div className={`${cardClass} space-y-6`}>
+          {!problem ? (
+            <div className="py-12 text-center text-sm text-slate-400">{t('classroom.pick')}</div>
+          ) : (
+            <motion.div key={`${selected}-${current}`} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+              <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                {assignment!.title} · {t('practice.exercise', { n: current + 1, total: problems.length })}
+              </h3>
+              <div className="space-y-2">
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t('exercise.given')}</p>
+                <div className="bg-slate-50 dark:bg-slate-800/50 p-3 rounded-xl inline-block">
+                  <SpokenMath math={renderKatex(given, display).math!} speech={renderSpeech(given, display)} />
+                </div>
+                <p className="font-semibold">{question}</p>
+              </div>
+
+              <div className="flex gap-2">
+                <input
+                  value={answer}
+                  onChange={(e) => setAnswer(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && check()}
+                  aria-label={question}
+                  placeholder={t('practice.placeholder', { example: `12${decimalSeparator(locale)}5` })}
+                  className={inputClass}
+                />
+                <button
+                  onClick={check}
+                  disabled={!answer.trim()}
+                  className="px-6 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold rounded-xl transition-all"
+                >
+                  {t('practice.check')}
+                </button>
+              </div>
+
+              <ErrorNote error={error} />
+              {/* Always present, so screen readers announce each verdict as it appears. */}
+              <div role="status">
+                {grade && (
+                  <div className={`p-4 rounded-2xl border text-sm flex items-start gap-2 ${grade.correct
+                    ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800 text-emerald-800 dark:text-emerald-300'
+                    : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800 dark:text-red-300'}`}
+                  >
+                    {grade.correct ? <Check className="w-4 h-4 mt-0.5" /> : <X className="w-4 h-4 mt-0.5" />}
+                    <p>
+                      {grade.correct ? t('practice.correct') : isNaN(grade.received) ? t('practice.unreadable') : t('practice.incorrect')}
+                      {!grade.correct && ` ${t('classroom.try-again')}`}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {grade?.correct && current < problems.length - 1 && (
+                <button
+                  onClick={() => goTo(assignment!.id, current + 1)}
+                  className="w-full py-3 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 font-bold rounded-2xl transition-all flex items-center justify-center gap-2 group"
+                >
+                  {t('practice.next')}
+                  <ChevronRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+                </button>
+              )}
+            </motion.div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const StudentMode = ({ options }: { options: RenderOptions }) => {
+  const [view, setView] = useState<StudentView | null>(null);
+  const [loading, setLoading] = useState(() => !!studentKey());
+  const [error, setError] = useState<string | null>(null);
+  const failure = useFailure();
+
+  useEffect(() => {
+    const key = studentKey();
+    if (!key) return;
+    loadStudentView(key)
+      .then(setView)
+      .catch(err => setError(failure(err)))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const leave = () => {
+    leaveClass();
+    setView(null);
+  };
+
+  if (loading) return null;
+  if (!view) {
+    return (
+      <div className="space-y-4">
+        {error && <div className="max-w-md mx-auto"><ErrorNote error={error} /></div>}
+        <JoinForm onJoin={(joined) => { setView(joined); setError(null); }} />
+      </div>
+    );
+  }
+  return <StudentPanel view={view} options={options} onChange={setView} onLeave={leave} />;
+};
+
+// --- Mode ---
+
+/** Teachers open classes and assign problem sets; students join one with its code and answer them. */
+const ClassroomMode = ({ options }: { options: RenderOptions }) => {
+  const [role, setRole] = useState<Role>(() => (studentKey() || !savedClasses().length ? 'student' : 'teacher'));
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-6">
+      <div role="group" aria-label={t('classroom.role')} className="flex p-1 bg-slate-200/50 dark:bg-slate-800/50 rounded-2xl max-w-sm">
+        {ROLES.map(which => (
+          <button
+            key={which}
+            onClick={() => setRole(which)}
+            aria-pressed={role === which}
+            className={`flex-1 py-2 rounded-xl text-sm font-medium transition-all ${role === which ? 'bg-white dark:bg-slate-700 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+          >
+            {t(`classroom.${which}`)}
+          </button>
+        ))}
+      </div>
+      {role === 'teacher' ? <TeacherView /> : <StudentMode options={options} />}
+    </div>
+  );
+};
+
+export default ClassroomMode;
@@ -0,0 +1,393 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Calculator } from 'lucide-react';
+import { motion } from 'motion/react';
+import React, { useId, useRef, useState } from 'react';
+import { SegmentSolution, solveSegment, solveSpaceDiagonal } from '../lib/coordinates';
+import { parseNumber } from '../lib/format';
+import { useTranslation } from '../lib/i18n/context';
+import { SolverError } from '../lib/solver';
+import { plainNotation } from '../lib/steps/notation';
+import { formatAngle, formatLength, RenderOptions } from '../lib/steps/render';
+import { DEFAULT_UNITS } from '../lib/units';
+import { CoordinatePoint, UnitSettings } from '../types';
+import StepList from './StepList';
+import UnitControls from './UnitControls';
+
+type Variant = 'plane' | 'space';
+
+const VARIANTS: Variant[] = ['plane', 'space'];
+
+const AXES: Record<Variant, ('x' | 'y' | 'z')[]> = { plane: ['x', 'y'], space: ['x', 'y', 'z'] };
+
+// A segment with a 3-4-5 triangle, and a box whose diagonal is a whole number too.
+const DEFAULTS: Record<Variant, Record<string, string>> = {
+  plane: { x1: '1', y1: '1', x2: '4', y2: '5' },
+  space: { x1: '0', y1: '0', z1: '0', x2: '3', y2: '4', z2: '12' },
+};
+
+const SIZE = 280;
+const CENTER = SIZE / 2;
+const MARGIN = 16;
+// The plane shows at least -10 to 10 on both axes and grows to fit typed points.
+const MIN_RANGE = 10;
+const HANDLE_RADIUS = 8;
+
+const NAMES = ['P₁', 'P₂'];
+
+const inputClass = "w-full px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all font-mono text-sm";
+
+const labelClass = "text-[10px] font-mono fill-slate-500";
+
+// --- Plane ---
+
+const ARROWS: Record<string, [number, number]> = { ArrowRight: [1, 0], ArrowLeft: [-1, 0], ArrowUp: [0, 1], ArrowDown: [0, -1] };
+
+/**
+ * Both points on a Cartesian grid, with the right triangle of Δx and Δy under
+ * the segment. The points can be dragged, or moved a unit at a time with the arrow keys.
+ */
+const Plane = ({ points, solution, options, onMove }: {
+  points: CoordinatePoint[];
+  solution: SegmentSolution | null;
+  options: RenderOptions;
+  onMove: (index: number, point: CoordinatePoint) => void;
+}) => {
+  const { t } = useTranslation();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<{ index: number; range: number } | null>(null);
+  const n = plainNotation(options);
+
+  // Kept while dragging, so the grid doesn't rescale under the pointer.
+  const range = drag?.range ?? Math.max(MIN_RANGE, ...points.flatMap(p => [Math.ceil(Math.abs(p.x)), Math.ceil(Math.abs(p.y))]));
+  const scale = (CENTER - MARGIN) / range;
+  const tick = Math.ceil(range / MIN_RANGE);
+  const toSvg = (p: CoordinatePoint) => ({ x: CENTER + p.x * scale, y: CENTER - p.y * scale });
+  const ticks = Array.from({ length: 2 * Math.floor(range / tick) + 1 }, (_, i) => (i - Math.floor(range / tick)) * tick);
+
+  const [P, Q] = points.map(toSvg);
+  const K = { x: Q.x, y: P.y };
+  const M = solution && toSvg(solution.midpoint);
+  const shown = (p: CoordinatePoint) => n.point([n.val(p.x), n.val(p.y)]);
+
+  const moveDrag = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(svgRef.current!.getScreenCTM()!.inverse());
+    const clamp = (v: number) => Math.max(-drag.range, Math.min(drag.range, Math.round(v)));
+    onMove(drag.index, { x: clamp((p.x - CENTER) / scale), y: clamp((CENTER - p.y) / scale) });
+  };
+
+  const nudge = (index: number) => (e: React.KeyboardEvent) => {
+    const arrow = ARROWS[e.key];
+    if (!arrow) return;
+    e.preventDefault();
+    onMove(index, { x: Math.round(points[index].x) + arrow[0], y: Math.round(points[index].y) + arrow[1] });
+  };
+
+  // The right-angle mark points from K towards both legs.
+  const corner = (dx: number, dy: number) => `M ${K.x + dx} ${K.y} L ${K.x + dx} ${K.y + dy} L ${K.x} ${K.y + dy}`;
+
+  return (
+    <svg
+      ref={svgRef}
+      data-figure
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      role="group"
+      aria-label={solution ? t('coordinates.description', { p1: shown(points[0]), p2: shown(points[1]), distance: formatLength(solution.distance, options) }) : t('coordinates.plane-title')}
+      className="w-full max-w-[360px] mx-auto h-auto select-none touch-none"
+    >
+      {/* Grid and axes */}
+      <g className="stroke-slate-100 dark:stroke-slate-800">
+        {ticks.map(v => (
+          <React.Fragment key={v}>
+            <line x1={toSvg({ x: v, y: 0 }).x} y1={MARGIN} x2={toSvg({ x: v, y: 0 }).x} y2={SIZE - MARGIN} />
+            <line x1={MARGIN} y1={toSvg({ x: 0, y: v }).y} x2={SIZE - MARGIN} y2={toSvg({ x: 0, y: v }).y} />
+          </React.Fragment>
+        ))}
+      </g>
+      <g className="stroke-slate-400 dark:stroke-slate-500">
+        <line x1={MARGIN / 2} y1={CENTER} x2={SIZE - MARGIN / 2} y2={CENTER} />
+        <line x1={CENTER} y1={MARGIN / 2} x2={CENTER} y2={SIZE - MARGIN / 2} />
+      </g>
+      <text x={SIZE - MARGIN / 2} y={CENTER - 4} textAnchor="end" className={labelClass}>x</text>
+      <text x={CENTER + 4} y={MARGIN} className={labelClass}>y</text>
+      <text x={toSvg({ x: range, y: 0 }).x} y={CENTER + 12} textAnchor="middle" className={labelClass}>{range}</text>
+      <text x={CENTER - 4} y={toSvg({ x: 0, y: range }).y + 3} textAnchor="end" className={labelClass}>{range}</text>
+
+      {/* The right triangle: Δx along the first point's row, Δy up to the second */}
+      {solution?.triangle && (
+        <g>
+          <path d={`M ${P.x} ${P.y} L ${K.x} ${K.y} L ${Q.x} ${Q.y} Z`} className="fill-blue-500/10" />
+          <line x1={P.x} y1={P.y} x2={K.x} y2={K.y} strokeWidth="2" strokeDasharray="4 3" className="stroke-amber-500" />
+          <line x1={K.x} y1={K.y} x2={Q.x} y2={Q.y} strokeWidth="2" strokeDasharray="4 3" className="stroke-emerald-500" />
+          <path d={corner(Math.sign(P.x - K.x) * 8, Math.sign(Q.y - K.y) * 8)} fill="none" className="stroke-slate-500" />
+          <text x={(P.x + K.x) / 2} y={K.y + (Q.y < K.y ? 14 : -6)} textAnchor="middle" className="text-[10px] font-mono fill-amber-600">
+            Δx = {n.val(solution.delta.x)}
+          </text>
+          <text x={K.x + (P.x < K.x ? 6 : -6)} y={(K.y + Q.y) / 2} textAnchor={P.x < K.x ? 'start' : 'end'} className="text-[10px] font-mono fill-emerald-600">
+            Δy = {n.val(solution.delta.y)}
+          </text>
+        </g>
+      )}
+      {solution && (
+        <text x={(P.x + Q.x) / 2 + (Q.x > P.x === Q.y < P.y ? -8 : 8)} y={(P.y + Q.y) / 2 - 8} textAnchor={Q.x > P.x === Q.y < P.y ? 'end' : 'start'} className="text-[10px] font-mono font-bold fill-blue-600">
+          d = {formatLength(solution.distance, options)}
+        </text>
+      )}
+      <line x1={P.x} y1={P.y} x2={Q.x} y2={Q.y} strokeWidth="2.5" className="stroke-slate-700 dark:stroke-slate-200" />
+      {M && <circle cx={M.x} cy={M.y} r={3} className="fill-slate-700 dark:fill-slate-200" />}
+
+      {[P, Q].map((at, index) => (
+        <g key={index}>
+          <circle
+            cx={at.x}
+            cy={at.y}
+            r={HANDLE_RADIUS}
+            data-export="skip"
+            tabIndex={0}
+            role="button"
+            aria-label={`${t('coordinates.handle', { name: NAMES[index], point: shown(points[index]) })}. ${t('coordinates.drag-hint')}`}
+            onKeyDown={nudge(index)}
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              setDrag({ index, range });
+            }}
+            onPointerMove={moveDrag}
+            onPointerUp={() => setDrag(null)}
+            onPointerCancel={() => setDrag(null)}
+            className={`fill-blue-500/30 stroke-blue-600 cursor-grab outline-none focus-visible:stroke-[3] focus-visible:fill-blue-500/60 ${drag?.index === index ? 'fill-blue-500/60' : ''}`}
+            strokeWidth="1.5"
+          />
+          <text x={at.x + 10} y={at.y - 10} className="text-[10px] font-mono font-bold fill-slate-600 dark:fill-slate-300">
+            {NAMES[index]} {shown(points[index])}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+// --- Box ---
+
+// A cavalier projection: depth recedes up and to the right at half scale.
+const DEPTH = { x: Math.cos(Math.PI / 6) / 2, y: -Math.sin(Math.PI / 6) / 2 };
+
+/** The box with edges |Δx|, |Δy| and |Δz|: the base diagonal first, then the space diagonal. */
+const Box = ({ solution, options }: { solution: SegmentSolution; options: RenderOptions }) => {
+  const { t } = useTranslation();
+  const [ex, ey, ez] = [solution.delta.x, solution.delta.y, solution.delta.z ?? 0].map(Math.abs);
+  const project = (x: number, y: number, z: number) => ({ x: x + y * DEPTH.x, y: y * DEPTH.y - z });
+
+  const corners = [0, ex].flatMap(x => [0, ey].flatMap(y => [0, ez].map(z => project(x, y, z))));
+  const [minX, maxX] = [Math.min(...corners.map(c => c.x)), Math.max(...corners.map(c => c.x))];
+  const [minY, maxY] = [Math.min(...corners.map(c => c.y)), Math.max(...corners.map(c => c.y))];
+  const scale = (SIZE - 4 * MARGIN) / Math.max(maxX - minX, maxY - minY);
+  const at = (x: number, y: number, z: number) => {
+    const p = project(x, y, z);
+    return {
+      x: (SIZE - (maxX - minX) * scale) / 2 + (p.x - minX) * scale,
+      y: (SIZE - (maxY - minY) * scale) / 2 + (p.y - minY) * scale,
+    };
+  };
+  const line = (from: [number, number, number], to: [number, number, number], className: string, dashed = false) => {
+    const [a, b] = [at(...from), at(...to)];
+    return <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} strokeDasharray={dashed ? '4 3' : undefined} className={className} />;
+  };
+
+  const edge = "stroke-slate-400 dark:stroke-slate-500";
+  // The corner at the back, bottom left is the one hidden behind the box.
+  const hidden = [0, ey, 0] as [number, number, number];
+  const [O, F, T] = [at(0, 0, 0), at(ex, ey, 0), at(ex, ey, ez)];
+  const base = [at(0, 0, 0), at(ex, 0, 0), at(ex, ey, 0), at(0, ey, 0)];
+
+  return (
+    <svg
+      data-figure
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      role="img"
+      aria-label={t('coordinates.box-description', {
+        dx: formatLength(ex, options),
+        dy: formatLength(ey, options),
+        dz: formatLength(ez, options),
+        base: formatLength(solution.base ?? 0, options),
+        distance: formatLength(solution.distance, options),
+      })}
+      className="w-full max-w-[360px] mx-auto h-auto"
+    >
+      <path d={`M ${base.map(p => `${p.x} ${p.y}`).join(' L ')} Z`} className="fill-amber-500/10" />
+      <g strokeWidth="1.5">
+        {line(hidden, [0, 0, 0], edge, true)}
+        {line(hidden, [ex, ey, 0], edge, true)}
+        {line(hidden, [0, ey, ez], edge, true)}
+        {line([0, 0, 0], [ex, 0, 0], edge)}
+        {line([ex, 0, 0], [ex, ey, 0], edge)}
+        {line([0, 0, 0], [0, 0, ez], edge)}
+        {line([ex, 0, 0], [ex, 0, ez], edge)}
+        {line([0, 0, ez], [ex, 0, ez], edge)}
+        {line([ex, 0, ez], [ex, ey, ez], edge)}
+        {line([0, ey, ez], [ex, ey, ez], edge)}
+        {line([0, 0, ez], [0, ey, ez], edge)}
+      </g>
+      <g strokeWidth="2.5">
+        {line([0, 0, 0], [ex, ey, 0], 'stroke-amber-500', true)}
+        {line([ex, ey, 0], [ex, ey, ez], 'stroke-emerald-500')}
+        {line([0, 0, 0], [ex, ey, ez], 'stroke-blue-600')}
+      </g>
+      <text x={(O.x + F.x) / 2} y={(O.y + F.y) / 2 + 14} textAnchor="middle" className="text-[10px] font-mono fill-amber-600">
+        d₁ = {formatLength(solution.base ?? 0, options)}
+      </text>
+      <text x={F.x + 6} y={(F.y + T.y) / 2} className="text-[10px] font-mono fill-emerald-600">Δz</text>
+      <text x={(O.x + T.x) / 2 - 8} y={(O.y + T.y) / 2 - 8} textAnchor="end" className="text-[10px] font-mono font-bold fill-blue-600">
+        d = {formatLength(solution.distance, options)}
+      </text>
+      <circle cx={O.x} cy={O.y} r={4} className="fill-blue-600" />
+      <circle cx={T.x} cy={T.y} r={4} className="fill-blue-600" />
+      <text x={O.x - 6} y={O.y + 14} textAnchor="end" className="text-[10px] font-mono font-bold fill-slate-600 dark:fill-slate-300">{NAMES[0]}</text>
+      <text x={T.x + 6} y={T.y - 6} className="text-[10px] font-mono font-bold fill-slate-600 dark:fill-slate-300">{NAMES[1]}</text>
+    </svg>
+  );
+};
+
+// --- Mode ---
+
+const CoordinateMode = ({ options, onUnitsChange }: { options: RenderOptions; onUnitsChange: (units: UnitSettings) => void }) => {
+  const { t } = useTranslation();
+  const fieldId = useId();
+  const units = { ...DEFAULT_UNITS, ...options.units };
+  const [variant, setVariant] = useState<Variant>('plane');
+  const [texts, setTexts] = useState<Record<string, string>>(DEFAULTS.plane);
+  const n = plainNotation(options);
+  const axes = AXES[variant];
+
+  const values = Object.fromEntries(Object.keys(texts).map(key => [key, parseNumber(texts[key])]));
+  const points: CoordinatePoint[] = [1, 2].map(i => ({ x: values[`x${i}`], y: values[`y${i}`], ...(variant === 'space' && { z: values[`z${i}`] }) }));
+
+  // Solved on every change, so the answer follows the points while they are dragged.
+  const outcome = ((): { solution: SegmentSolution } | { error: string } => {
+    if (Object.keys(texts).some(key => texts[key].trim() && isNaN(values[key]))) return { error: t('error.not-a-number') };
+    try {
+      return { solution: variant === 'space' ? solveSpaceDiagonal(points[0], points[1]) : solveSegment(points[0], points[1]) };
+    } catch (err) {
+      if (!(err instanceof SolverError)) throw err;
+      return { error: t(err.key, err.params) };
+    }
+  })();
+  const solution = 'solution' in outcome ? outcome.solution : null;
+
+  const choose = (next: Variant) => {
+    setVariant(next);
+    setTexts(DEFAULTS[next]);
+  };
+
+  const move = (index: number, { x, y }: CoordinatePoint) => setTexts({ ...texts, [`x${index + 1}`]: `${x}`, [`y${index + 1}`]: `${y}` });
+
+  const results = solution && [
+    { key: 'distance', value: formatLength(solution.distance, options) },
+    ...(solution.base !== undefined ? [{ key: 'base', value: formatLength(solution.base, options) }] : []),
+    { key: 'midpoint', value: n.point(axes.map(axis => n.val(solution.midpoint[axis]!))) },
+    ...(solution.slope !== undefined ? [{ key: 'slope', value: solution.slope === null ? t('coordinates.vertical') : n.res(solution.slope) }] : []),
+    ...(solution.inclination !== undefined ? [{ key: 'inclination', value: formatAngle(solution.inclination, options) }] : []),
+  ] as { key: 'distance' | 'base' | 'midpoint' | 'slope' | 'inclination'; value: string }[];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      {/* --- Data --- */}
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm space-y-4">
+          <h2 className="text-lg font-bold">{t('tab.coordinates.title')}</h2>
+          <p className="text-sm text-slate-500">{t('tab.coordinates.hint')}</p>
+          <div role="group" aria-label={t('coordinates.variant')} className="flex p-1 bg-slate-100 dark:bg-slate-800 rounded-xl text-sm">
+            {VARIANTS.map(v => (
+              <button
+                key={v}
+                onClick={() => choose(v)}
+                aria-pressed={variant === v}
+                className={`flex-1 px-3 py-1.5 rounded-lg font-medium transition-all ${variant === v ? 'bg-white dark:bg-slate-700 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+              >
+                {t(`coordinates.${v}`)}
+              </button>
+            ))}
+          </div>
+          {NAMES.map((name, index) => (
+            <fieldset key={name}>
+              <legend className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{t('coordinates.point', { name })}</legend>
+              <div className={`grid gap-2 ${variant === 'space' ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                {axes.map(axis => {
+                  const key = `${axis}${index + 1}`;
+                  return (
+                    <div key={key} className="flex items-center gap-1.5">
+                      <label htmlFor={`${fieldId}-${key}`} className="text-sm font-mono text-slate-400">{n.sub(axis, index + 1)}</label>
+                      <input
+                        id={`${fieldId}-${key}`}
+                        type="text"
+                        inputMode="decimal"
+                        aria-label={t('coordinates.coordinate', { axis, name })}
+                        value={texts[key] ?? ''}
+                        onChange={(e) => setTexts({ ...texts, [key]: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            </fieldset>
+          ))}
+          {'error' in outcome && <p role="alert" className="text-xs text-red-600 dark:text-red-400">{outcome.error}</p>}
+        </div>
+
+        <UnitControls value={units} onChange={onUnitsChange} />
+
+        {results && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="bg-blue-600 dark:bg-blue-700 p-6 rounded-3xl text-white shadow-xl shadow-blue-500/20 space-y-2"
+          >
+            <h3 className="font-bold text-lg mb-4">{t('coordinates.results')}</h3>
+            {results.map(({ key, value }) => (
+              <div key={key} className="flex justify-between items-center gap-4">
+                <span className="text-sm opacity-80">{t(`coordinates.${key}`)}</span>
+                <span className="font-mono font-bold text-right">{value}</span>
+              </div>
+            ))}
+          </motion.div>
+        )}
+      </div>
+
+      {/* --- Figure & Steps --- */}
+      <div className="lg:col-span-8 grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
+        <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-6 flex flex-col items-center justify-center border border-slate-200 dark:border-slate-700 min-h-[300px]">
+          <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 mb-4 uppercase tracking-wider">
+            {t(variant === 'space' ? 'coordinates.box-title' : 'coordinates.plane-title')}
+          </h3>
+          {variant === 'plane' && points.every(p => !isNaN(p.x) && !isNaN(p.y)) ? (
+            <>
+              <Plane points={points} solution={solution} options={options} onMove={move} />
+              <p className="text-xs text-slate-400 mt-3">{t('coordinates.drag-hint')}</p>
+            </>
+          ) : variant === 'space' && solution ? (
+            <Box solution={solution} options={options} />
+          ) : (
+            <Calculator className="w-12 h-12 opacity-20 text-slate-400" />
+          )}
+        </div>
+        <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm overflow-hidden flex flex-col">
+          <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 mb-6 uppercase tracking-wider">{t('steps.title')}</h3>
+          <div className="flex-1 space-y-6 overflow-y-auto pr-2 custom-scrollbar">
+            {solution ? <StepList steps={solution.steps} options={options} /> : (
+              <div className="h-full flex flex-col items-center justify-center text-slate-400 text-center px-8">
+                <Calculator className="w-12 h-12 mb-4 opacity-20" />
+                <p className="text-sm">{t('steps.empty')}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CoordinateMode;
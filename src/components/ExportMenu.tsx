@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Download, FileCode, FileText, Image, Printer } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportDocument, exportHtml, exportLatex, exportMarkdown } from '../lib/export';
+import { download, print } from '../lib/files';
+import { useTranslation } from '../lib/i18n/context';
+import { RenderOptions } from '../lib/steps/render';
+
+type Format = 'pdf' | 'html' | 'markdown' | 'latex' | 'svg' | 'png';
+
+/** Labelled by the `export.<id>` messages. */
+const FORMATS: { id: Format; icon: typeof Download }[] = [
+  { id: 'pdf', icon: Printer },
+  { id: 'html', icon: FileText },
+  { id: 'markdown', icon: FileText },
+  { id: 'latex', icon: FileCode },
+  { id: 'svg', icon: Image },
+  { id: 'png', icon: Image },
+];
+
+// Tailwind classes do not travel with the markup, so the computed styles are inlined.
+const STYLE_PROPERTIES = [
+  'fill', 'stroke', 'stroke-width', 'stroke-linecap', 'stroke-linejoin', 'stroke-dasharray', 'stroke-dashoffset',
+  'opacity', 'font-family', 'font-size', 'font-weight', 'text-anchor', 'dominant-baseline',
+];
+
+const PNG_SCALE = 2;
+
+// --- Figures ---
+
+/** Standalone SVG markup for a drawing, without the drag handles. */
+const serializeSvg = (svg: SVGSVGElement) => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const source = [svg, ...svg.querySelectorAll('*')];
+  const target = [clone, ...clone.querySelectorAll('*')];
+  source.forEach((element, i) => {
+    const computed = getComputedStyle(element);
+    target[i].setAttribute('style', STYLE_PROPERTIES.map(p => `${p}:${computed.getPropertyValue(p)}`).join(';'));
+    target[i].removeAttribute('class');
+  });
+  clone.querySelectorAll('[data-export="skip"]').forEach(element => element.remove());
+  const { width, height } = svg.viewBox.baseVal;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', `${width}`);
+  clone.setAttribute('height', `${height}`);
+  return new XMLSerializer().serializeToString(clone);
+};
+
+/** Rejects with no message; the caller reports the failure in its locale. */
+const toPng = (svg: string) => new Promise<Blob>((resolve, reject) => {
+  const image = new window.Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width * PNG_SCALE;
+    canvas.height = image.height * PNG_SCALE;
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = 'white';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error())), 'image/png');
+  };
+  image.onerror = () => reject(new Error());
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+});
+
+const ExportMenu = ({ name, getDocument, figures, options }: {
+  /** File name without extension. */
+  name: string;
+  getDocument: () => ExportDocument;
+  /** Where to look for the drawings, marked with `data-figure`, one per section. */
+  figures: React.RefObject<HTMLElement | null>;
+  options: RenderOptions;
+}) => {
+  const [open, setOpen] = useState(false);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLUListElement>(null);
+  const { t } = useTranslation();
+
+  const items = () => [...(menuRef.current?.querySelectorAll<HTMLButtonElement>('[role="menuitem"]') ?? [])];
+
+  useEffect(() => {
+    if (open) items()[0]?.focus();
+  }, [open]);
+
+  // Arrows move between the formats; Escape and Tab leave the menu.
+  const onMenuKey = (e: React.KeyboardEvent) => {
+    const all = items();
+    const i = all.indexOf(document.activeElement as HTMLButtonElement);
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      all[(i + (e.key === 'ArrowDown' ? 1 : all.length - 1)) % all.length]?.focus();
+    } else if (e.key === 'Home' || e.key === 'End') {
+      e.preventDefault();
+      all[e.key === 'Home' ? 0 : all.length - 1]?.focus();
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+      buttonRef.current?.focus();
+    } else if (e.key === 'Tab') {
+      setOpen(false);
+    }
+  };
+
+  const exportAs = async (format: Format) => {
+    setOpen(false);
+    const svgs = [...(figures.current?.querySelectorAll<SVGSVGElement>('svg[data-figure]') ?? [])].map(serializeSvg);
+    const doc = getDocument();
+    doc.sections = doc.sections.map((section, i) => ({ ...section, figure: svgs[i] }));
+    // Several solutions give one file per figure.
+    const numbered = (i: number, extension: string) => `${name}${svgs.length > 1 ? `-${i + 1}` : ''}.${extension}`;
+
+    try {
+      switch (format) {
+        case 'pdf':
+          return print(exportHtml(doc, options));
+        case 'html':
+          return download(`${name}.html`, exportHtml(doc, options), 'text/html');
+        case 'markdown':
+          return download(`${name}.md`, exportMarkdown(doc, options), 'text/markdown');
+        case 'latex':
+          return download(`${name}.tex`, exportLatex(doc, options), 'application/x-tex');
+        case 'svg':
+          return svgs.forEach((svg, i) => download(numbered(i, 'svg'), svg, 'image/svg+xml'));
+        case 'png':
+          for (const [i, svg] of svgs.entries()) download(numbered(i, 'png'), await toPng(svg));
+      }
+    } catch {
+      alert(t('export.image-error'));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        ref={buttonRef}
+        onClick={() => setOpen(!open)}
+        title={t('export.title')}
+        aria-label={t('export.title')}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        className="p-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
+      >
+        <Download className="w-4 h-4" />
+      </button>
+      <AnimatePresence>
+        {open && (
+          <>
+            <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+            <motion.ul
+              ref={menuRef}
+              role="menu"
+              aria-label={t('export.title')}
+              onKeyDown={onMenuKey}
+              initial={{ opacity: 0, y: -5 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -5 }}
+              className="absolute right-0 mt-2 z-50 w-48 py-2 bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 rounded-2xl shadow-xl border border-slate-200 dark:border-slate-800"
+            >
+              {FORMATS.map(({ id, icon: Icon }) => (
+                <li key={id} role="none">
+                  <button
+                    role="menuitem"
+                    onClick={() => exportAs(id)}
+                    className="w-full px-4 py-2 flex items-center gap-3 text-sm text-left hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                  >
+                    <Icon className="w-4 h-4 text-slate-400" />
+                    {t(`export.${id}`)}
+                  </button>
+                </li>
+              ))}
+            </motion.ul>
+          </>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FolderOpen, History, Search, Trash2, X } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import { useEffect, useRef, useState } from 'react';
+import { useFocusTrap } from '../lib/focus';
+import { deleteHistory, historyFailure, listHistory } from '../lib/history';
+import { useTranslation } from '../lib/i18n/context';
+import { HistoryEntry } from '../types';
+
+const SEARCH_DELAY = 250;
+
+const HistoryPanel = ({ open, onClose, onOpen }: {
+  open: boolean;
+  onClose: () => void;
+  onOpen: (entry: HistoryEntry) => void;
+}) => {
+  const [query, setQuery] = useState('');
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { locale, t } = useTranslation();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef, open, onClose);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(() => {
+      listHistory(query)
+        .then(result => {
+          if (cancelled) return;
+          setEntries(result);
+          setError(null);
+        })
+        .catch(err => {
+          if (!cancelled) setError(historyFailure(err, t));
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    }, query ? SEARCH_DELAY : 0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, query]);
+
+  const remove = async (id: number) => {
+    try {
+      await deleteHistory(id);
+      setEntries(entries.filter(e => e.id !== id));
+    } catch (err) {
+      setError(historyFailure(err, t));
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+          />
+          <motion.div
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="history-title"
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            className="relative w-full max-w-2xl bg-white dark:bg-slate-900 rounded-3xl shadow-2xl overflow-hidden"
+          >
+            <div className="p-8 max-h-[80vh] overflow-y-auto custom-scrollbar">
+              <div className="flex justify-between items-center mb-6">
+                <h2 id="history-title" className="text-2xl font-bold flex items-center gap-2">
+                  <History className="w-6 h-6 text-blue-600" />
+                  {t('app.history')}
+                </h2>
+                <button onClick={onClose} aria-label={t('review.close')} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="relative mb-6">
+                <Search className="w-4 h-4 absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" />
+                <input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={t('history.search')}
+                  aria-label={t('history.search')}
+                  className="w-full pl-10 pr-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+                />
+              </div>
+
+              {error ? (
+                <p className="p-4 rounded-2xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-300">{error}</p>
+              ) : entries.length === 0 ? (
+                <p className="py-12 text-center text-sm text-slate-400">
+                  {loading ? t('history.loading') : query ? t('history.no-match') : t('history.empty')}
+                </p>
+              ) : (
+                <ul className="space-y-3">
+                  {entries.map(entry => (
+                    <li key={entry.id} className="p-4 rounded-2xl bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 flex items-center gap-4">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs text-slate-400 mb-1">
+                          <span className="font-bold uppercase text-blue-600">{t(`tab.${entry.mode}`)}</span>
+                          {' · '}
+                          {new Date(entry.createdAt).toLocaleString(locale)}
+                        </p>
+                        <p className="font-mono text-sm truncate" title={entry.summary}>{entry.summary}</p>
+                      </div>
+                      <button
+                        onClick={() => onOpen(entry)}
+                        title={t('history.open')}
+                        aria-label={t('history.open')}
+                        className="p-2 rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/30 text-blue-600 transition-colors"
+                      >
+                        <FolderOpen className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => remove(entry.id)}
+                        title={t('history.delete')}
+                        aria-label={t('history.delete')}
+                        className="p-2 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/30 text-red-600 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Calculator, Search } from 'lucide-react';
+import { useId, useState } from 'react';
+import { Components } from 'react-markdown';
+import { MessageKey } from '../lib/i18n';
+import { useTranslation } from '../lib/i18n/context';
+import { exampleInput, LessonBlock, lessonExample, lessonsFor, searchLessons, solveExample, splitLesson } from '../lib/lessons';
+import { ProofSides } from '../lib/proofs';
+import { plainNotation } from '../lib/steps/notation';
+import { formatAngle, formatLength, RenderOptions } from '../lib/steps/render';
+import { Quantity, SharedProblem } from '../types';
+import MathMarkdown from './MathMarkdown';
+import PythagoreanProofs from './PythagoreanProofs';
+import TriangleVisualizer from './TriangleVisualizer';
+
+interface LessonProps {
+  /** The triangle the proofs are drawn with. */
+  sides: ProofSides | null;
+  options: RenderOptions;
+  /** Fills a calculator tab with an example from a lesson. */
+  onOpen: (problem: SharedProblem) => void;
+}
+
+const QUANTITIES: Quantity[] = ['a', 'b', 'c', 'alpha', 'beta'];
+const LABELS: Record<Quantity, MessageKey> = { a: 'field.leg', b: 'field.leg', c: 'field.hypotenuse', alpha: 'field.angle', beta: 'field.angle' };
+
+const inputClass = "w-full px-3 py-2 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-mono text-sm";
+
+const Invalid = () => {
+  const { t } = useTranslation();
+  return <p className="text-sm text-red-600 dark:text-red-400">{t('lessons.invalid-example')}</p>;
+};
+
+const OpenButton = ({ problem, onOpen }: { problem: SharedProblem; onOpen: LessonProps['onOpen'] }) => {
+  const { t } = useTranslation();
+  return (
+    <button
+      onClick={() => onOpen(problem)}
+      className="px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold flex items-center gap-2 transition-all"
+    >
+      <Calculator className="w-4 h-4" />
+      {t('lessons.open')}
+    </button>
+  );
+};
+
+/** The values of an example as editable fields, solved again on every keystroke. */
+const LessonCalculator = ({ example, options, onOpen }: { example: SharedProblem } & Pick<LessonProps, 'options' | 'onOpen'>) => {
+  const { t } = useTranslation();
+  const fieldId = useId();
+  const [fields, setFields] = useState(example.input.fields);
+  const problem = { ...example, input: { ...example.input, fields } };
+  const solution = solveExample(problem);
+  const n = plainNotation(options);
+  const given = exampleInput(problem);
+  const quantityOf = (id: string) => {
+    const key = id.slice(example.mode.length + 1);
+    return (key === 'side' ? fields[`${example.mode}.sideType`] ?? 'c' : key) as Quantity;
+  };
+
+  return (
+    <div className="p-5 rounded-2xl bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        {Object.keys(example.input.fields).filter(id => !id.endsWith('.sideType')).map(id => {
+          const quantity = quantityOf(id);
+          return (
+            <div key={id}>
+              <label htmlFor={`${fieldId}-${id}`} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">
+                {t(LABELS[quantity], { side: quantity, angle: n.sym(quantity) })}
+              </label>
+              <input
+                id={`${fieldId}-${id}`}
+                type="text"
+                inputMode="decimal"
+                value={fields[id]}
+                onChange={(e) => setFields({ ...fields, [id]: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <div aria-live="polite">
+        {solution ? (
+          <dl className="grid grid-cols-2 sm:grid-cols-3 gap-2 font-mono text-sm">
+            {QUANTITIES.filter(quantity => !(quantity in given)).map(quantity => (
+              <div key={quantity} className="px-3 py-2 rounded-xl bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800">
+                <dt className="inline text-slate-400">{n.sym(quantity)} = </dt>
+                <dd className="inline font-bold text-blue-600 dark:text-blue-400">
+                  {quantity === 'alpha' || quantity === 'beta' ? formatAngle(solution[quantity], options) : formatLength(solution[quantity], options)}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        ) : <Invalid />}
+      </div>
+      <OpenButton problem={problem} onOpen={onOpen} />
+    </div>
+  );
+};
+
+const LessonBlockView = ({ block, source, sides, options, onOpen }: { block: LessonBlock; source: string } & LessonProps) => {
+  const example = block === 'proofs' ? null : lessonExample(source);
+  switch (block) {
+    case 'proofs':
+      return <PythagoreanProofs sides={sides} options={options} />;
+    case 'triangle': {
+      const solution = example && solveExample(example);
+      return solution
+        ? <TriangleVisualizer a={solution.a} b={solution.b} c={solution.c} angleA={solution.alpha} options={options} />
+        : <Invalid />;
+    }
+    case 'calculator':
+      return example ? <LessonCalculator example={example} options={options} onOpen={onOpen} /> : <Invalid />;
+  }
+};
+
+/** A lesson's Markdown and blocks; links to `?m=…` open their example in the calculator. */
+const LessonContent = ({ body, ...props }: { body: string } & LessonProps) => {
+  const components: Components = {
+    a: ({ href = '', children }) => {
+      const example = href.startsWith('?') ? lessonExample(href) : null;
+      return example ? (
+        <a
+          href={href}
+          onClick={(e) => {
+            e.preventDefault();
+            props.onOpen(example);
+          }}
+          className="inline-flex items-center gap-1.5 font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <Calculator className="w-4 h-4" />
+          {children}
+        </a>
+      ) : <a href={href} target="_blank" rel="noreferrer" className="text-blue-600 dark:text-blue-400 underline">{children}</a>;
+    },
+    h2: ({ children }) => <h4 className="pt-2 text-base font-bold text-slate-900 dark:text-white">{children}</h4>,
+    strong: ({ children }) => <strong className="font-semibold text-slate-900 dark:text-white">{children}</strong>,
+  };
+
+  return (
+    <div className="space-y-4 text-slate-600 dark:text-slate-400">
+      {splitLesson(body).map((segment, i) => 'markdown' in segment
+        ? <MathMarkdown key={i} text={segment.markdown} components={components} className="[&_blockquote]:pl-4 [&_blockquote]:border-l-4 [&_blockquote]:border-blue-200 dark:[&_blockquote]:border-blue-800 [&_blockquote]:italic" />
+        : <LessonBlockView key={i} block={segment.block} source={segment.source} {...props} />)}
+    </div>
+  );
+};
+
+/** The lesson index with a search box, and the lesson chosen from it. */
+const LessonBrowser = (props: LessonProps) => {
+  const { locale, t } = useTranslation();
+  const lessons = lessonsFor(locale);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(lessons[0]?.id);
+  const matches = searchLessons(lessons, query);
+  const lesson = lessons.find(item => item.id === selected) ?? lessons[0];
+  const titleId = useId();
+
+  if (!lesson) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-8 items-start">
+      <nav aria-label={t('lessons.index')} className="space-y-3 md:sticky md:top-0">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('lessons.search')}
+            aria-label={t('lessons.search')}
+            className="w-full pl-9 pr-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 outline-none transition-all text-sm"
+          />
+        </div>
+        {matches.length > 0 ? (
+          <ol className="space-y-1">
+            {matches.map(({ lesson: item, excerpt }) => (
+              <li key={item.id}>
+                <button
+                  onClick={() => setSelected(item.id)}
+                  aria-current={item.id === lesson.id ? 'true' : undefined}
+                  className={`w-full text-left px-3 py-2 rounded-xl text-sm transition-all ${item.id === lesson.id ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400' : 'hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+                >
+                  <span className="block font-semibold">{item.title}</span>
+                  {excerpt && <span className="block mt-0.5 text-xs text-slate-500">{excerpt}</span>}
+                </button>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p role="status" className="px-3 text-sm text-slate-500">{t('lessons.no-results', { query })}</p>
+        )}
+      </nav>
+
+      <article aria-labelledby={titleId} className="min-w-0">
+        <h3 id={titleId} className="text-lg font-bold text-blue-600 mb-4">{lesson.title}</h3>
+        <LessonContent key={lesson.id} body={lesson.body} {...props} />
+      </article>
+    </div>
+  );
+};
+
+export default LessonBrowser;
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BlockMath, InlineMath } from 'react-katex';
+import Markdown, { Components } from 'react-markdown';
+import { splitMath } from '../lib/tutor';
+
+/** Markdown with KaTeX for `$…$` and `$$…$$`; `components` replace how other elements are drawn. */
+const MathMarkdown = ({ text, components, className = '' }: { text: string; components?: Components; className?: string }) => (
+  <div className={`space-y-2 [&_h3]:font-bold [&_ol]:list-decimal [&_ol]:pl-5 [&_ul]:list-disc [&_ul]:pl-5 [&_p]:leading-relaxed ${className}`}>
+    {splitMath(text).map((segment, i) => segment.math
+      ? <div key={i} className="overflow-x-auto"><BlockMath math={segment.text} /></div>
+      : (
+        <Markdown
+          key={i}
+          components={{
+            ...components,
+            code: ({ children }) => {
+              const code = String(children);
+              return /^\$[^$]+\$$/.test(code)
+                ? <InlineMath math={code.slice(1, -1)} />
+                : <code className="px-1 rounded bg-slate-100 dark:bg-slate-800 font-mono text-xs">{children}</code>;
+            },
+          }}
+        >
+          {segment.text}
+        </Markdown>
+      ))}
+  </div>
+);
+
+export default MathMarkdown;
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useId } from 'react';
+import { decimalSeparator } from '../lib/i18n';
+import { useTranslation } from '../lib/i18n/context';
+import { ANGLE_UNITS, LENGTH_UNITS } from '../lib/units';
+import { ValidationIssue } from '../lib/validation';
+import { AngleUnit, LengthUnit } from '../types';
+
+const ANGLE_EXAMPLES: Record<AngleUnit, string> = {
+  deg: '30',
+  rad: 'π/6',
+  grad: '33.33',
+  dms: `30°15'10"`,
+};
+
+const ANGLE_SYMBOLS: Record<AngleUnit, string> = { deg: '°', rad: 'rad', grad: 'grad', dms: "° ' \"" };
+
+const ISSUE_STYLES = {
+  error: { border: 'border-red-400 dark:border-red-500', text: 'text-red-600 dark:text-red-400' },
+  warning: { border: 'border-amber-400 dark:border-amber-500', text: 'text-amber-600 dark:text-amber-400' },
+};
+
+type MeasureInputProps = {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  /** Marks the field as invalid; the message is left out for the other fields of the same issue. */
+  issue?: ValidationIssue;
+  showMessage?: boolean;
+} & (
+  | { kind: 'length'; unit: LengthUnit; onUnitChange: (unit: LengthUnit) => void }
+  | { kind: 'angle'; unit: AngleUnit; onUnitChange: (unit: AngleUnit) => void }
+);
+
+/** A number field with the unit it is typed in; generic length units show no selector. */
+const MeasureInput = (props: MeasureInputProps) => {
+  const { label, value, onChange, placeholder, issue, showMessage = true } = props;
+  const { locale, t } = useTranslation();
+  const messageId = useId();
+  const inputId = useId();
+  const style = issue && ISSUE_STYLES[issue.severity];
+  const units = props.kind === 'angle'
+    ? (Object.keys(ANGLE_UNITS) as AngleUnit[]).map(unit => [unit, ANGLE_SYMBOLS[unit]])
+    : props.unit === 'u'
+      ? []
+      : (Object.keys(LENGTH_UNITS) as LengthUnit[]).filter(unit => unit !== 'u').map(unit => [unit, LENGTH_UNITS[unit].symbol]);
+
+  return (
+    <div>
+      <label htmlFor={inputId} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{label}</label>
+      <div className={`flex rounded-xl bg-slate-50 dark:bg-slate-800 border ${style?.border ?? 'border-slate-200 dark:border-slate-700'} focus-within:ring-2 focus-within:ring-blue-500 transition-all`}>
+        <input
+          // Text rather than a number field: decimal commas, π/6 or 30°15'10" are all valid.
+          id={inputId}
+          type="text"
+          inputMode="decimal"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          aria-invalid={issue?.severity === 'error'}
+          aria-describedby={issue && showMessage ? messageId : undefined}
+          placeholder={placeholder ?? (props.kind === 'angle'
+            ? t('field.example', { value: ANGLE_EXAMPLES[props.unit].replace('.', decimalSeparator(locale)) })
+            : undefined)}
+          className="flex-1 min-w-0 px-4 py-3 bg-transparent outline-none"
+        />
+        {units.length > 0 && (
+          <select
+            value={props.unit}
+            aria-label={t('field.unit', { field: label })}
+            onChange={(e) => (props.kind === 'angle'
+              ? props.onUnitChange(e.target.value as AngleUnit)
+              : props.onUnitChange(e.target.value as LengthUnit))}
+            className="px-2 rounded-r-xl bg-transparent border-l border-slate-200 dark:border-slate-700 text-sm text-slate-500 outline-none"
+          >
+            {units.map(([unit, symbol]) => <option key={unit} value={unit}>{symbol}</option>)}
+          </select>
+        )}
+      </div>
+      {issue && showMessage && (
+        <div id={messageId} className="mt-1 ml-1 space-y-0.5 text-xs">
+          <p className={`font-medium ${style!.text}`}>{issue.message}</p>
+          {issue.explanation && <p className="text-slate-500">{issue.explanation}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MeasureInput;
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { motion, useReducedMotion } from 'motion/react';
+import { useTranslation } from '../lib/i18n/context';
+import { arcPath } from '../lib/layout';
+import { StepHighlight } from '../lib/steps/highlight';
+import { formatAngle, formatLength, RenderOptions } from '../lib/steps/render';
+import { TriangleSolution } from '../types';
+
+type Point = { x: number; y: number };
+
+const SIZE = 200;
+const PAD = 30;
+const HIGHLIGHT_ARC = 16;
+
+const ObliqueTriangleVisualizer = ({ solution, title, options, highlight }: {
+  solution: TriangleSolution;
+  title?: string;
+  options?: RenderOptions;
+  /** Sides and angles of the step being presented. */
+  highlight?: StepHighlight;
+}) => {
+  const { a, b, c, alpha, beta, gamma } = solution;
+  const { t } = useTranslation();
+  const reduceMotion = useReducedMotion();
+
+  // A at the origin, B along the x axis, C above it (y grows upwards here).
+  const alphaRad = (alpha * Math.PI) / 180;
+  const raw: Point[] = [
+    { x: 0, y: 0 },
+    { x: c, y: 0 },
+    { x: b * Math.cos(alphaRad), y: b * Math.sin(alphaRad) },
+  ];
+
+  const minX = Math.min(...raw.map(p => p.x));
+  const maxX = Math.max(...raw.map(p => p.x));
+  const maxY = Math.max(...raw.map(p => p.y));
+  const scale = (SIZE - 2 * PAD) / (Math.max(maxX - minX, maxY) || 1);
+  const offsetX = (SIZE - (maxX - minX) * scale) / 2;
+  const offsetY = (SIZE - maxY * scale) / 2;
+
+  const [A, B, C] = raw.map(p => ({ x: offsetX + (p.x - minX) * scale, y: SIZE - offsetY - p.y * scale }));
+  const centroid = { x: (A.x + B.x + C.x) / 3, y: (A.y + B.y + C.y) / 3 };
+
+  // Pushes a point away from (or, with a negative distance, towards) the centroid.
+  const nudge = (p: Point, distance: number): Point => {
+    const dx = p.x - centroid.x;
+    const dy = p.y - centroid.y;
+    const len = Math.hypot(dx, dy) || 1;
+    return { x: p.x + (dx / len) * distance, y: p.y + (dy / len) * distance };
+  };
+  const midpoint = (p: Point, q: Point): Point => ({ x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 });
+
+  const pathData = `M ${A.x} ${A.y} L ${B.x} ${B.y} L ${C.x} ${C.y} Z`;
+  const sides = { a: [B, C], b: [A, C], c: [A, B] };
+  const corners = { alpha: [A, B, C], beta: [B, C, A], gamma: [C, A, B] };
+
+  const sideLabels = [
+    { key: 'a', at: nudge(midpoint(B, C), 14), value: a },
+    { key: 'b', at: nudge(midpoint(A, C), 14), value: b },
+    { key: 'c', at: nudge(midpoint(A, B), 14), value: c },
+  ];
+  const angleLabels = [
+    { key: 'α', at: nudge(A, -22), value: alpha },
+    { key: 'β', at: nudge(B, -22), value: beta },
+    { key: 'γ', at: nudge(C, -22), value: gamma },
+  ];
+
+  return (
+    <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-6 flex flex-col items-center justify-center border border-slate-200 dark:border-slate-700 h-full min-h-[300px]">
+      <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 mb-4 uppercase tracking-wider">{title ?? t('visualizer.title')}</h3>
+      <svg
+        data-figure
+        width={SIZE}
+        height={SIZE}
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        role="img"
+        aria-label={t('visualizer.oblique-description', {
+          a: formatLength(a, options),
+          b: formatLength(b, options),
+          c: formatLength(c, options),
+          alpha: formatAngle(alpha, options),
+          beta: formatAngle(beta, options),
+          gamma: formatAngle(gamma, options),
+        })}
+        className="drop-shadow-xl overflow-visible"
+      >
+        <motion.path
+          d={pathData}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="3"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="text-indigo-500 dark:text-indigo-400"
+          initial={reduceMotion ? false : { pathLength: 0, opacity: 0 }}
+          animate={{ d: pathData, pathLength: 1, opacity: 1 }}
+          transition={{
+            d: reduceMotion ? { duration: 0 } : { type: "spring", stiffness: 100, damping: 20 },
+            pathLength: { duration: 1.5, ease: "easeInOut" },
+            opacity: { duration: 0.5 }
+          }}
+        />
+
+        {highlight && (
+          <g className="stroke-amber-500 fill-amber-400/40" strokeLinecap="round">
+            {highlight.sides.map(side => {
+              const [from, to] = sides[side];
+              return <line key={side} x1={from.x} y1={from.y} x2={to.x} y2={to.y} strokeWidth="6" strokeOpacity="0.7" />;
+            })}
+            {highlight.angles.map(angle => {
+              const [vertex, from, to] = corners[angle];
+              return <path key={angle} d={`${arcPath(vertex, from, to, HIGHLIGHT_ARC)} L ${vertex.x} ${vertex.y} Z`} strokeWidth="1" />;
+            })}
+          </g>
+        )}
+
+        {sideLabels.map(({ key, at, value }) => (
+          <motion.text
+            key={key}
+            animate={{ x: at.x, y: at.y }}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            className="text-[10px] fill-slate-500 font-mono"
+          >
+            {key} = {formatLength(value, options)}
+          </motion.text>
+        ))}
+
+        {angleLabels.map(({ key, at, value }) => (
+          <motion.text
+            key={key}
+            animate={{ x: at.x, y: at.y }}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            className="text-[10px] fill-indigo-600 font-bold"
+          >
+            {key} = {formatAngle(value, options)}
+          </motion.text>
+        ))}
+      </svg>
+      <div className="mt-6 grid grid-cols-3 gap-4 w-full text-center">
+        <div className="p-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800">
+          <p className="text-[10px] text-slate-400 uppercase">{t('quantity.area')}</p>
+          <p className="font-mono font-bold text-slate-700 dark:text-slate-200">{formatLength(solution.area, options, 2)}</p>
+        </div>
+        <div className="p-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800">
+          <p className="text-[10px] text-slate-400 uppercase">{t('quantity.perimeter')}</p>
+          <p className="font-mono font-bold text-slate-700 dark:text-slate-200">{formatLength(solution.perimeter, options)}</p>
+        </div>
+        <div className="p-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800">
+          <p className="text-[10px] text-slate-400 uppercase">γ</p>
+          <p className="font-mono font-bold text-indigo-600 dark:text-indigo-400">{formatAngle(gamma, options)}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ObliqueTriangleVisualizer;
@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Check, ChevronRight, Dices, Eye, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useId, useState } from 'react';
+import { decimalSeparator } from '../lib/i18n';
+import { useTranslation } from '../lib/i18n/context';
+import { answerOptions, DIFFICULTIES, formatAnswer, generateExercises, gradeAnswer } from '../lib/practice';
+import { randomSeed } from '../lib/random';
+import { renderKatex, RenderOptions, renderSpeech } from '../lib/steps/render';
+import { makeStep } from '../lib/steps/rules';
+import { Difficulty, Exercise, Grade } from '../types';
+import SpokenMath from './SpokenMath';
+import StepList from './StepList';
+
+const COUNTS = [5, 10, 15];
+
+interface Attempt {
+  answer: string;
+  grade: Grade;
+  /** How many solution steps have been revealed so far. */
+  revealed: number;
+}
+
+const inputClass = "w-full px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all";
+
+const PracticeMode = ({ options }: { options: RenderOptions }) => {
+  const [difficulty, setDifficulty] = useState<Difficulty>('easy');
+  const [count, setCount] = useState(5);
+  const [seed, setSeed] = useState(randomSeed);
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [current, setCurrent] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [attempts, setAttempts] = useState<(Attempt | undefined)[]>([]);
+  const { locale, t } = useTranslation();
+  const fieldId = useId();
+
+  // Answers are graded in degrees, so the data is shown in degrees as well.
+  const display = answerOptions(options);
+  const exercise = exercises[current];
+  const given = exercise && makeStep('triangle.given', { values: exercise.given });
+  const attempt = attempts[current];
+  const score = attempts.filter(a => a?.grade.correct).length;
+
+  const generate = () => {
+    setExercises(generateExercises({ seed, difficulty, count }));
+    setAttempts([]);
+    setCurrent(0);
+    setAnswer('');
+  };
+
+  const check = () => {
+    if (!exercise || attempt || !answer.trim()) return;
+    const next = [...attempts];
+    next[current] = { answer, grade: gradeAnswer(exercise, answer), revealed: 0 };
+    setAttempts(next);
+  };
+
+  const reveal = () => {
+    if (!attempt) return;
+    const next = [...attempts];
+    next[current] = { ...attempt, revealed: attempt.revealed + 1 };
+    setAttempts(next);
+  };
+
+  const goTo = (index: number) => {
+    setCurrent(index);
+    setAnswer(attempts[index]?.answer ?? '');
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      {/* --- Settings --- */}
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm space-y-4">
+          <h2 className="text-lg font-bold">{t('tab.practice.title')}</h2>
+          <div>
+            <label htmlFor={`${fieldId}-1`} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{t('difficulty.label')}</label>
+            <select id={`${fieldId}-1`} value={difficulty} onChange={(e) => setDifficulty(e.target.value as Difficulty)} className={inputClass}>
+              {DIFFICULTIES.map(d => <option key={d} value={d}>{t(`difficulty.${d}`)}</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor={`${fieldId}-2`} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{t('practice.count')}</label>
+              <select id={`${fieldId}-2`} value={count} onChange={(e) => setCount(parseInt(e.target.value))} className={inputClass}>
+                {COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`${fieldId}-3`} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{t('seed.label')}</label>
+              <div className="flex gap-1">
+                <input
+                  id={`${fieldId}-3`}
+                  value={seed}
+                  onChange={(e) => setSeed(e.target.value.toUpperCase())}
+                  className={`${inputClass} font-mono uppercase`}
+                />
+                <button
+                  onClick={() => setSeed(randomSeed())}
+                  title={t('seed.new')}
+                  aria-label={t('seed.new')}
+                  className="px-3 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors"
+                >
+                  <Dices className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">{t('practice.seed-hint')}</p>
+          <button
+            onClick={generate}
+            disabled={!seed.trim()}
+            className="w-full py-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold rounded-2xl shadow-lg shadow-blue-500/30 transition-all flex items-center justify-center gap-2 group"
+          >
+            {t('practice.generate')}
+            <ChevronRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+          </button>
+        </div>
+
+        {exercises.length > 0 && (
+          <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{t('practice.progress')}</h3>
+              <span className="font-mono font-bold">{score} / {exercises.length}</span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {exercises.map((_, i) => (
+                <button
+                  key={i}
+                  onClick={() => goTo(i)}
+                  className={`w-9 h-9 rounded-xl text-sm font-bold transition-all ${i === current ? 'ring-2 ring-blue-500' : ''} ${
+                    !attempts[i] ? 'bg-slate-100 dark:bg-slate-800 text-slate-500'
+                      : attempts[i]!.grade.correct ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400'
+                      : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
+                  }`}
+                >
+                  {i + 1}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* --- Exercise --- */}
+      <div className="lg:col-span-8">
+        <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm space-y-6">
+          {!exercise ? (
+            <div className="py-12 flex flex-col items-center justify-center text-slate-400 text-center px-8">
+              <Dices className="w-12 h-12 mb-4 opacity-20" />
+              <p className="text-sm">{t('practice.empty')}</p>
+            </div>
+          ) : (
+            <motion.div key={current} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+              <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                {t('practice.exercise', { n: current + 1, total: exercises.length })}
+              </h3>
+              <div className="space-y-2">
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t('exercise.given')}</p>
+                <div className="bg-slate-50 dark:bg-slate-800/50 p-3 rounded-xl inline-block">
+                  <SpokenMath math={renderKatex(given, display).math!} speech={renderSpeech(given, display)} />
+                </div>
+                <p className="font-semibold">{t('exercise.ask', { question: t(`question.${exercise.target}`) })}</p>
+              </div>
+
+              <div className="flex gap-2">
+                <input
+                  value={answer}
+                  onChange={(e) => setAnswer(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && check()}
+                  disabled={!!attempt}
+                  aria-label={t('exercise.ask', { question: t(`question.${exercise.target}`) })}
+                  placeholder={t('practice.placeholder', { example: `12${decimalSeparator(locale)}5` })}
+                  className={inputClass}
+                />
+                <button
+                  onClick={check}
+                  disabled={!!attempt || !answer.trim()}
+                  className="px-6 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold rounded-xl transition-all"
+                >
+                  {t('practice.check')}
+                </button>
+              </div>
+
+              {/* Always present, so screen readers announce each verdict as it appears. */}
+              <div role="status">
+                {attempt && (
+                  <div className={`p-4 rounded-2xl border text-sm flex items-start gap-2 ${attempt.grade.correct
+                    ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800 text-emerald-800 dark:text-emerald-300'
+                    : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800 dark:text-red-300'}`}
+                  >
+                    {attempt.grade.correct ? <Check className="w-4 h-4 mt-0.5" /> : <X className="w-4 h-4 mt-0.5" />}
+                    <p>
+                      {attempt.grade.correct ? t('practice.correct') : isNaN(attempt.grade.received) ? t('practice.unreadable') : t('practice.incorrect')}
+                      {' '}
+                      {/* Without params the placeholder is kept, so the answer can be set in bold. */}
+                      {t('practice.answer').split('{answer}').flatMap((text, i) => i === 0 ? [text] : [
+                        <span key={i} className="font-mono font-bold">{formatAnswer(exercise.target, exercise.answer, options)}</span>,
+                        text,
+                      ])}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {attempt && !attempt.grade.correct && (
+                <div className="space-y-6">
+                  {attempt.revealed > 0 && <StepList steps={exercise.steps.slice(0, attempt.revealed)} options={display} />}
+                  {attempt.revealed < exercise.steps.length && (
+                    <button
+                      onClick={reveal}
+                      className="flex items-center gap-2 text-sm font-semibold text-blue-600 hover:text-blue-700"
+                    >
+                      <Eye className="w-4 h-4" />
+                      {attempt.revealed === 0 ? t('practice.first-step') : t('practice.next-step')}
+                      <span className="text-slate-400 font-normal">{t('practice.revealed', { n: attempt.revealed, total: exercise.steps.length })}</span>
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {attempt && current < exercises.length - 1 && (
+                <button
+                  onClick={() => goTo(current + 1)}
+                  className="w-full py-3 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 font-bold rounded-2xl transition-all flex items-center justify-center gap-2 group"
+                >
+                  {t('practice.next')}
+                  <ChevronRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+                </button>
+              )}
+            </motion.div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PracticeMode;
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SlidersHorizontal } from 'lucide-react';
+import { useId } from 'react';
+import { useTranslation } from '../lib/i18n/context';
+import { PrecisionSettings, RoundingMode } from '../types';
+
+const ROUNDING_MODES: RoundingMode[] = ['half-up', 'half-even', 'up', 'down'];
+
+const MAX_DIGITS = 10;
+
+const selectClass = "w-full px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 outline-none text-sm";
+
+const PrecisionControls = ({ value, onChange }: { value: PrecisionSettings; onChange: (value: PrecisionSettings) => void }) => {
+  const { t } = useTranslation();
+  const fieldId = useId();
+  const update = (changes: Partial<PrecisionSettings>) => onChange({ ...value, ...changes });
+  const minDigits = value.mode === 'significant' ? 1 : 0;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm space-y-4">
+      <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <SlidersHorizontal className="w-4 h-4" />
+        {t('precision.title')}
+      </h3>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor={`${fieldId}-1`} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{t('precision.round-to')}</label>
+          <select
+            id={`${fieldId}-1`}
+            value={value.mode}
+            onChange={(e) => update({ mode: e.target.value as PrecisionSettings['mode'], digits: Math.max(1, value.digits) })}
+            className={selectClass}
+          >
+            <option value="decimals">{t('precision.decimals')}</option>
+            <option value="significant">{t('precision.significant')}</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`${fieldId}-2`} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{t('precision.digits')}</label>
+          <input
+            id={`${fieldId}-2`}
+            type="number"
+            min={minDigits}
+            max={MAX_DIGITS}
+            value={value.digits}
+            onChange={(e) => {
+              const digits = parseInt(e.target.value);
+              if (!isNaN(digits)) update({ digits: Math.min(MAX_DIGITS, Math.max(minDigits, digits)) });
+            }}
+            className={selectClass}
+          />
+        </div>
+      </div>
+      <div>
+        <label htmlFor={`${fieldId}-3`} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{t('precision.rounding')}</label>
+        <select
+          id={`${fieldId}-3`}
+          value={value.rounding}
+          onChange={(e) => update({ rounding: e.target.value as RoundingMode })}
+          className={selectClass}
+        >
+          {ROUNDING_MODES.map(mode => (
+            <option key={mode} value={mode}>{t(`precision.${mode}`)}</option>
+          ))}
+        </select>
+      </div>
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.exact}
+          onChange={(e) => update({ exact: e.target.checked })}
+          className="mt-1 accent-blue-600"
+        />
+        <span className="text-sm">
+          <span className="font-semibold">{t('precision.exact')}</span>
+          <span className="block text-xs text-slate-500">{t('precision.exact.hint')}</span>
+        </span>
+      </label>
+    </div>
+  );
+};
+
+export default PrecisionControls;
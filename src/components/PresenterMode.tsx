@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ChevronLeft, ChevronRight, Maximize, Minimize, Presentation, X } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useFocusTrap } from '../lib/focus';
+import { useTranslation } from '../lib/i18n/context';
+import { StepHighlight, stepHighlight } from '../lib/steps/highlight';
+import { renderKatex, RenderOptions, renderSpeech } from '../lib/steps/render';
+import { CalculationStep, RightTriangleSolution } from '../types';
+import SpokenMath from './SpokenMath';
+import TriangleVisualizer from './TriangleVisualizer';
+
+const NEXT_KEYS = ['ArrowRight', 'ArrowDown', 'PageDown', ' ', 'Enter'];
+const PREVIOUS_KEYS = ['ArrowLeft', 'ArrowUp', 'PageUp', 'Backspace'];
+
+const buttonClass = "p-2 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors";
+
+/**
+ * The steps one at a time, large enough to project, with the triangle showing
+ * what each step is about. A `figure` given instead, such as the oblique
+ * triangles, is drawn with the highlight of the current step. Keys move
+ * through them the way presentation remotes do; F toggles full screen.
+ */
+const PresenterMode = ({ steps, triangle, figure, options, onClose }: {
+  steps: CalculationStep[];
+  triangle?: Pick<RightTriangleSolution, 'a' | 'b' | 'c' | 'alpha'>;
+  figure?: (highlight: StepHighlight) => React.ReactNode;
+  options: RenderOptions;
+  onClose: () => void;
+}) => {
+  const { t } = useTranslation();
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Escape is handled below, since in full screen it belongs to the browser.
+  useFocusTrap(containerRef, true);
+  const [chosen, setChosen] = useState(0);
+  const [fullscreen, setFullscreen] = useState(false);
+
+  // A new solution may have fewer steps than the one being presented.
+  const current = Math.min(chosen, steps.length - 1);
+  useEffect(() => setChosen(c => Math.min(c, steps.length - 1)), [steps.length]);
+
+  const step = steps[current];
+  const { text, math } = renderKatex(step, options);
+  const roomForSquares = steps.some(s => stepHighlight(s).squares.length > 0);
+
+  const goTo = (index: number) => setChosen(Math.max(0, Math.min(steps.length - 1, index)));
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else containerRef.current?.requestFullscreen();
+  };
+
+  useEffect(() => {
+    const changed = () => setFullscreen(document.fullscreenElement === containerRef.current);
+    document.addEventListener('fullscreenchange', changed);
+    return () => {
+      document.removeEventListener('fullscreenchange', changed);
+      if (document.fullscreenElement) document.exitFullscreen();
+    };
+  }, []);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey) return;
+      // A focused button already takes Space and Enter as a click.
+      if (e.target instanceof HTMLButtonElement && (e.key === ' ' || e.key === 'Enter')) return;
+      if (NEXT_KEYS.includes(e.key)) goTo(current + 1);
+      else if (PREVIOUS_KEYS.includes(e.key)) goTo(current - 1);
+      else if (e.key === 'Home') goTo(0);
+      else if (e.key === 'End') goTo(steps.length - 1);
+      else if (e.key === 'f' || e.key === 'F') toggleFullscreen();
+      // In full screen, the browser takes Escape to leave it.
+      else if (e.key === 'Escape' && !document.fullscreenElement) onClose();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [current, steps.length, onClose]);
+
+  return (
+    <motion.div
+      ref={containerRef}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      role="dialog"
+      aria-modal="true"
+      aria-label={t('presenter.title')}
+      tabIndex={-1}
+      className="outline-none fixed inset-0 z-50 flex flex-col bg-white dark:bg-slate-950 text-slate-900 dark:text-slate-100"
+    >
+      <header className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+        <h2 className="font-bold flex items-center gap-2">
+          <Presentation className="w-5 h-5 text-blue-600" />
+          {t('presenter.title')}
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={toggleFullscreen}
+            title={t(fullscreen ? 'presenter.exit-fullscreen' : 'presenter.fullscreen')}
+            aria-label={t(fullscreen ? 'presenter.exit-fullscreen' : 'presenter.fullscreen')}
+            className={buttonClass}
+          >
+            {fullscreen ? <Minimize className="w-5 h-5" /> : <Maximize className="w-5 h-5" />}
+          </button>
+          <button onClick={onClose} title={t('presenter.close')} aria-label={t('presenter.close')} className={buttonClass}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-2 gap-8 p-8 items-center overflow-y-auto">
+        {triangle ? (
+          <TriangleVisualizer
+            a={triangle.a}
+            b={triangle.b}
+            c={triangle.c}
+            angleA={triangle.alpha}
+            options={options}
+            highlight={stepHighlight(step)}
+            roomForSquares={roomForSquares}
+          />
+        ) : <div className="space-y-6">{figure?.(stepHighlight(step))}</div>}
+        <AnimatePresence mode="wait">
+          <motion.div
+            key={current}
+            initial={{ opacity: 0, y: 16 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -16 }}
+            transition={{ duration: 0.2 }}
+            aria-live="polite"
+            className="space-y-6"
+          >
+            <p className="text-sm font-semibold text-blue-600 uppercase tracking-wider">{t('presenter.step', { n: current + 1, total: steps.length })}</p>
+            <p className="text-2xl lg:text-3xl font-bold leading-snug">{text}</p>
+            {math && (
+              <div className="text-xl lg:text-2xl p-6 rounded-3xl bg-slate-50 dark:bg-slate-900 overflow-x-auto">
+                <SpokenMath math={math} speech={renderSpeech(step, options)} block />
+              </div>
+            )}
+          </motion.div>
+        </AnimatePresence>
+      </main>
+
+      <footer className="flex items-center justify-between gap-4 px-6 py-4 border-t border-slate-200 dark:border-slate-800">
+        <button
+          onClick={() => goTo(current - 1)}
+          disabled={current === 0}
+          className="px-4 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40 font-semibold flex items-center gap-1 transition-all"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          {t('presenter.previous')}
+        </button>
+        <div className="flex-1 flex flex-col items-center gap-2">
+          <div className="flex flex-wrap justify-center gap-1.5">
+            {steps.map((_, i) => (
+              <button
+                key={i}
+                onClick={() => goTo(i)}
+                aria-label={t('presenter.step', { n: i + 1, total: steps.length })}
+                className={`w-2.5 h-2.5 rounded-full transition-all ${i === current ? 'bg-blue-600 scale-125' : i < current ? 'bg-blue-300 dark:bg-blue-800' : 'bg-slate-300 dark:bg-slate-700'}`}
+              />
+            ))}
+          </div>
+          <p className="hidden sm:block text-xs text-slate-400">{t('presenter.keys')}</p>
+        </div>
+        <button
+          onClick={() => goTo(current + 1)}
+          disabled={current === steps.length - 1}
+          className="px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white font-semibold flex items-center gap-1 transition-all"
+        >
+          {t('presenter.next')}
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </footer>
+    </motion.div>
+  );
+};
+
+export default PresenterMode;
@@ -0,0 +1,326 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { motion } from 'motion/react';
+import React, { useState } from 'react';
+import { MessageKey, MessageParams } from '../lib/i18n';
+import { useTranslation } from '../lib/i18n/context';
+import { Point } from '../lib/layout';
+import {
+  checkPythagoras,
+  euclid,
+  garfield,
+  PROOF_IDS,
+  PROOF_STAGES,
+  ProofId,
+  ProofSides,
+  rearrangement,
+  squareOn,
+  trianglePoints,
+} from '../lib/proofs';
+import { latexNotation, Notation, plainNotation, speechNotation, spokenOperators } from '../lib/steps/notation';
+import { RenderOptions } from '../lib/steps/render';
+import SpokenMath from './SpokenMath';
+
+/** Shown until a triangle has been solved. */
+const SAMPLE: ProofSides = { a: 3, b: 4, c: 5 };
+
+const SIZE = 260;
+const MARGIN = 24;
+
+// The same colour for a side, its square and whatever matches that square.
+const FILLS = { a: 'fill-amber-400/40 stroke-amber-500', b: 'fill-emerald-400/40 stroke-emerald-500', c: 'fill-blue-400/30 stroke-blue-500' };
+const TRIANGLE = 'fill-slate-300/60 dark:fill-slate-600/60 stroke-slate-600 dark:stroke-slate-300';
+const LABEL = 'text-[11px] font-mono font-bold fill-slate-700 dark:fill-slate-200';
+
+// --- Drawing ---
+
+type ToSvg = (p: Point) => Point;
+
+/** Scales a figure given in drawing units (y up) into the square viewBox, centred. */
+const fit = (points: Point[]): ToSvg => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const [width, height] = [Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)];
+  const scale = (SIZE - 2 * MARGIN) / Math.max(width, height, 1e-9);
+  const [left, bottom] = [(SIZE - width * scale) / 2, SIZE - (SIZE - height * scale) / 2];
+  return p => ({ x: left + (p.x - Math.min(...xs)) * scale, y: bottom - (p.y - Math.min(...ys)) * scale });
+};
+
+const centroid = (points: Point[]) => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+/** A polygon that animates to new corners and fades in or out with `show`. */
+const Shape = ({ points, to, show = true, className, dashed = false }: {
+  points: Point[];
+  to: ToSvg;
+  show?: boolean;
+  className: string;
+  dashed?: boolean;
+}) => (
+  <motion.path
+    initial={false}
+    animate={{ d: `M ${points.map(to).map(p => `${p.x.toFixed(2)} ${p.y.toFixed(2)}`).join(' L ')} Z`, opacity: show ? 1 : 0 }}
+    transition={{ duration: 0.6 }}
+    strokeWidth="1.5"
+    strokeDasharray={dashed ? '4 3' : undefined}
+    className={className}
+  />
+);
+
+const Label = ({ at, to, show = true, children }: { at: Point; to: ToSvg; show?: boolean; children: string }) => {
+  const p = to(at);
+  return (
+    <motion.text initial={false} animate={{ x: p.x, y: p.y + 4, opacity: show ? 1 : 0 }} transition={{ duration: 0.6 }} textAnchor="middle" className={LABEL}>
+      {children}
+    </motion.text>
+  );
+};
+
+interface FigureProps {
+  sides: ProofSides;
+  stage: number;
+  n: Notation;
+}
+
+/** The triangle as given, so squares that don't add up show it; a right one when the sides make no triangle. */
+const SquaresFigure = ({ sides, stage, n }: FigureProps) => {
+  const { A, B, C } = trianglePoints(sides) ?? { A: { x: sides.b, y: 0 }, B: { x: 0, y: sides.a }, C: { x: 0, y: 0 } };
+  const squares = { a: squareOn(B, C), b: squareOn(C, A), c: squareOn(A, B) };
+  const to = fit([...squares.a, ...squares.b, ...squares.c]);
+  const { a2, b2, c2 } = checkPythagoras(sides);
+  return (
+    <>
+      <Shape points={squares.a} to={to} show={stage >= 1} className={FILLS.a} />
+      <Shape points={squares.b} to={to} show={stage >= 1} className={FILLS.b} />
+      <Shape points={squares.c} to={to} show={stage >= 2} className={FILLS.c} />
+      <Shape points={[A, B, C]} to={to} className={TRIANGLE} />
+      <Label at={centroid(squares.a)} to={to} show={stage >= 1}>{`a² = ${n.val(a2)}`}</Label>
+      <Label at={centroid(squares.b)} to={to} show={stage >= 1}>{`b² = ${n.val(b2)}`}</Label>
+      <Label at={centroid(squares.c)} to={to} show={stage >= 2}>{`c² = ${n.val(c2)}`}</Label>
+    </>
+  );
+};
+
+const RearrangementFigure = ({ sides: { a, b }, stage, n }: FigureProps) => {
+  const { size, hypotenuseSquare, around, apart, legSquares } = rearrangement(a, b);
+  const frame = [{ x: 0, y: 0 }, { x: size, y: 0 }, { x: size, y: size }, { x: 0, y: size }];
+  const to = fit(frame);
+  const moved = stage >= 2;
+  return (
+    <>
+      <Shape points={frame} to={to} className="fill-none stroke-slate-400" />
+      <Shape points={hypotenuseSquare} to={to} show={!moved} className={FILLS.c} />
+      <Shape points={legSquares.a} to={to} show={moved} className={FILLS.a} />
+      <Shape points={legSquares.b} to={to} show={moved} className={FILLS.b} />
+      {around.map((triangle, i) => (
+        <Shape key={i} points={moved ? apart[i] : triangle} to={to} className={TRIANGLE} />
+      ))}
+      <Label at={centroid(hypotenuseSquare)} to={to} show={!moved}>{`c² = ${n.val(a * a + b * b)}`}</Label>
+      <Label at={centroid(legSquares.a)} to={to} show={moved}>{`a² = ${n.val(a * a)}`}</Label>
+      <Label at={centroid(legSquares.b)} to={to} show={moved}>{`b² = ${n.val(b * b)}`}</Label>
+    </>
+  );
+};
+
+const EuclidFigure = ({ sides: { a, b }, stage, n }: FigureProps) => {
+  const { A, B, C, squares, H, far, rectangles } = euclid(a, b);
+  const to = fit([...squares.a, ...squares.b, ...squares.c]);
+  const [from, through] = [to(C), to(far)];
+  return (
+    <>
+      <Shape points={squares.a} to={to} className={stage >= 3 ? FILLS.a : 'fill-slate-100 dark:fill-slate-800 stroke-amber-500'} />
+      <Shape points={squares.b} to={to} className={stage === 2 || stage === 4 ? FILLS.b : 'fill-slate-100 dark:fill-slate-800 stroke-emerald-500'} />
+      <Shape points={squares.c} to={to} className="fill-slate-100 dark:fill-slate-800 stroke-blue-500" />
+      <Shape points={rectangles.byA} to={to} show={stage === 2 || stage === 4} className={FILLS.b} />
+      <Shape points={rectangles.byB} to={to} show={stage >= 3} className={FILLS.a} />
+      <Shape points={[A, B, C]} to={to} className={TRIANGLE} />
+      <motion.line
+        x1={from.x}
+        y1={from.y}
+        x2={through.x}
+        y2={through.y}
+        initial={false}
+        animate={{ pathLength: stage >= 1 ? 1 : 0, opacity: stage >= 1 ? 1 : 0 }}
+        transition={{ duration: 0.6 }}
+        strokeWidth="1.5"
+        strokeDasharray="4 3"
+        className="stroke-slate-700 dark:stroke-slate-200"
+      />
+      <Label at={H} to={to} show={stage >= 1}>H</Label>
+      <Label at={centroid(squares.a)} to={to}>{`a² = ${n.val(a * a)}`}</Label>
+      <Label at={centroid(squares.b)} to={to}>{`b² = ${n.val(b * b)}`}</Label>
+      <Label at={centroid(rectangles.byA)} to={to} show={stage === 2 || stage === 4}>{n.val(b * b)}</Label>
+      <Label at={centroid(rectangles.byB)} to={to} show={stage >= 3}>{n.val(a * a)}</Label>
+    </>
+  );
+};
+
+const GarfieldFigure = ({ sides: { a, b }, stage, n }: FigureProps) => {
+  const { first, second, middle, trapezoid } = garfield(a, b);
+  const to = fit(trapezoid);
+  return (
+    <>
+      <Shape points={trapezoid} to={to} show={stage >= 2} className="fill-none stroke-violet-500" dashed />
+      <Shape points={first} to={to} className={TRIANGLE} />
+      <Shape points={second} to={to} className={TRIANGLE} />
+      <Shape points={middle} to={to} show={stage >= 1} className={FILLS.c} />
+      <Label at={centroid(middle)} to={to} show={stage >= 1}>{`c²/2 = ${n.val((a * a + b * b) / 2)}`}</Label>
+      <Label at={centroid(first)} to={to}>{n.val((a * b) / 2)}</Label>
+      <Label at={centroid(second)} to={to}>{n.val((a * b) / 2)}</Label>
+    </>
+  );
+};
+
+const FIGURES: Record<ProofId, (props: FigureProps) => React.ReactNode> = {
+  squares: SquaresFigure,
+  rearrangement: RearrangementFigure,
+  euclid: EuclidFigure,
+  garfield: GarfieldFigure,
+};
+
+// --- Proofs ---
+
+/** a² + b² against c², with the numbers; `≠` when they don't agree. */
+const equation = (n: Notation, sides: ProofSides) => {
+  const { a2, b2, c2, sum, holds } = checkPythagoras(sides);
+  const left = `${n.sq('a')} + ${n.sq('b')} = ${n.val(a2)} + ${n.val(b2)} = ${n.val(sum)}`;
+  return holds ? `${left} = ${n.sq('c')}` : `${left} ${n.neq} ${n.val(c2)} = ${n.sq('c')}`;
+};
+
+/** a² and b² stacked against c², to the same scale. */
+const AreaBars = ({ sides, n }: { sides: ProofSides; n: Notation }) => {
+  const { a2, b2, c2, sum } = checkPythagoras(sides);
+  const width = (v: number) => `${(100 * v) / Math.max(sum, c2)}%`;
+  const bar = (className: string, v: number, label: string) => (
+    <motion.div initial={{ width: 0 }} animate={{ width: width(v) }} transition={{ duration: 0.6 }} className={`h-6 flex items-center justify-center overflow-hidden text-[11px] font-mono font-bold ${className}`}>
+      {label}
+    </motion.div>
+  );
+  return (
+    <div aria-hidden="true" className="space-y-1.5">
+      <div className="flex rounded-lg overflow-hidden">
+        {bar('bg-amber-400/60', a2, `a² = ${n.val(a2)}`)}
+        {bar('bg-emerald-400/60', b2, `b² = ${n.val(b2)}`)}
+      </div>
+      <div className="flex rounded-lg overflow-hidden">{bar('bg-blue-400/50', c2, `c² = ${n.val(c2)}`)}</div>
+    </div>
+  );
+};
+
+/**
+ * Four classic proofs of a² + b² = c², drawn with the sides of the triangle
+ * on screen and shown a stage at a time. A triangle that isn't right goes
+ * through the same figures and ends with the numbers that fail to agree.
+ */
+const PythagoreanProofs = ({ sides, options }: { sides: ProofSides | null; options: RenderOptions }) => {
+  const { t } = useTranslation();
+  const [id, setId] = useState<ProofId>('squares');
+  const [stage, setStage] = useState(0);
+  const given = sides ?? SAMPLE;
+  const n = plainNotation(options);
+  const check = checkPythagoras(given);
+  const total = PROOF_STAGES[id];
+  const last = stage === total - 1;
+  const Figure = FIGURES[id];
+
+  const { a, b } = given;
+  const { segments } = euclid(a, b);
+  const params: MessageParams = {
+    a: n.val(a),
+    b: n.val(b),
+    c: n.val(given.c),
+    a2: n.val(check.a2),
+    b2: n.val(check.b2),
+    c2: n.val(check.c2),
+    sum: n.val(check.sum),
+    s: n.val(a + b),
+    big: n.val((a + b) * (a + b)),
+    triangles: n.val(2 * a * b),
+    area: n.val(((a + b) * (a + b)) / 2),
+    byA: n.val(segments.byA),
+    byB: n.val(segments.byB),
+  };
+  const caption = last
+    ? `${t(`proofs.${id}.${stage}` as MessageKey, params)} ${t(check.holds ? 'proofs.holds' : 'proofs.fails', params)}`
+    : t(`proofs.${id}.${stage}` as MessageKey, params);
+
+  const choose = (next: ProofId) => {
+    setId(next);
+    setStage(0);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-slate-600 dark:text-slate-400">
+        {t('proofs.intro', { a: params.a, b: params.b, c: params.c })} {!sides && t('proofs.sample')}
+      </p>
+      <div role="group" aria-label={t('proofs.title')} className="flex flex-wrap gap-1 p-1 bg-slate-100 dark:bg-slate-800 rounded-xl text-sm">
+        {PROOF_IDS.map(proof => (
+          <button
+            key={proof}
+            onClick={() => choose(proof)}
+            aria-pressed={id === proof}
+            className={`flex-1 px-3 py-1.5 rounded-lg font-medium whitespace-nowrap transition-all ${id === proof ? 'bg-white dark:bg-slate-700 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+          >
+            {t(`proofs.${proof}.title` as MessageKey)}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
+        <svg viewBox={`0 0 ${SIZE} ${SIZE}`} role="img" aria-label={caption} className="w-full max-w-[280px] mx-auto h-auto rounded-2xl bg-slate-50 dark:bg-slate-800/50">
+          <Figure key={id} sides={given} stage={stage} n={n} />
+        </svg>
+        <div className="space-y-4">
+          <p className="text-xs font-semibold text-blue-600 uppercase tracking-wider">{t('proofs.stage', { n: stage + 1, total })}</p>
+          <p aria-live="polite" className="text-slate-700 dark:text-slate-300">{caption}</p>
+          {last && (
+            <>
+              <div className={`p-3 rounded-2xl overflow-x-auto ${check.holds ? 'bg-slate-900 text-white' : 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'}`}>
+                <SpokenMath math={equation(latexNotation(options), given)} speech={spokenOperators(equation(speechNotation(options), given), t)} block />
+              </div>
+              <AreaBars sides={given} n={n} />
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <button
+          onClick={() => setStage(stage - 1)}
+          disabled={stage === 0}
+          className="px-4 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40 font-semibold flex items-center gap-1 transition-all"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          {t('proofs.previous')}
+        </button>
+        <div className="flex gap-1.5">
+          {Array.from({ length: total }, (_, i) => (
+            <button
+              key={i}
+              onClick={() => setStage(i)}
+              aria-label={t('proofs.stage', { n: i + 1, total })}
+              className={`w-2.5 h-2.5 rounded-full transition-all ${i === stage ? 'bg-blue-600 scale-125' : i < stage ? 'bg-blue-300 dark:bg-blue-800' : 'bg-slate-300 dark:bg-slate-700'}`}
+            />
+          ))}
+        </div>
+        <button
+          onClick={() => setStage(stage + 1)}
+          disabled={last}
+          className="px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white font-semibold flex items-center gap-1 transition-all"
+        >
+          {t('proofs.next')}
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PythagoreanProofs;
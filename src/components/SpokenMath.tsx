@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BlockMath, InlineMath } from 'react-katex';
+
+/**
+ * KaTeX for the eye and `speech` for screen readers, which otherwise depend
+ * on their MathML support to read it at all.
+ */
+const SpokenMath = ({ math, speech, block = false }: { math: string; speech?: string; block?: boolean }) => {
+  const rendered = block ? <BlockMath math={math} /> : <InlineMath math={math} />;
+  if (!speech) return rendered;
+  return (
+    <>
+      <span className="sr-only">{speech}</span>
+      <span aria-hidden="true">{rendered}</span>
+    </>
+  );
+};
+
+export default SpokenMath;
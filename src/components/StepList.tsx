@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { motion } from 'motion/react';
+import { renderKatex, RenderOptions, renderSpeech } from '../lib/steps/render';
+import { CalculationStep } from '../types';
+import SpokenMath from './SpokenMath';
+
+const StepList = ({ steps, delayOffset = 0, options }: {
+  steps: CalculationStep[];
+  delayOffset?: number;
+  options?: RenderOptions;
+}) => (
+  <>
+    {steps.map(step => ({ ...renderKatex(step, options), speech: renderSpeech(step, options) })).map((step, i) => (
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: (delayOffset + i) * 0.1 }}
+        key={i}
+        className="relative pl-8 border-l-2 border-slate-100 dark:border-slate-800 pb-2"
+      >
+        <div className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-blue-100 dark:bg-blue-900/30 border-2 border-blue-600 flex items-center justify-center">
+          <div className="w-1.5 h-1.5 rounded-full bg-blue-600" />
+        </div>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mb-2">{step.text}</p>
+        {step.math && (
+          <div className="bg-slate-50 dark:bg-slate-800/50 p-3 rounded-xl inline-block max-w-full overflow-x-auto">
+            <SpokenMath math={step.math} speech={step.speech} />
+          </div>
+        )}
+      </motion.div>
+    ))}
+  </>
+);
+
+export default StepList;
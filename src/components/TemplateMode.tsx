@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Calculator, ChevronRight } from 'lucide-react';
+import { motion } from 'motion/react';
+import React, { useId, useState } from 'react';
+import { MessageKey } from '../lib/i18n';
+import { useTranslation } from '../lib/i18n/context';
+import { convertInput, Measured } from '../lib/input';
+import { RIGHT_TRIANGLE_BOX } from '../lib/layout';
+import { SolverError } from '../lib/solver';
+import { formatAngle, formatLength, RenderOptions } from '../lib/steps/render';
+import { APPLIED_TEMPLATES, AppliedSolution, solveTemplate, TEMPLATE_IDS, TemplateValues } from '../lib/templates';
+import { DEFAULT_UNITS } from '../lib/units';
+import { AngleUnit, AppliedTemplateId, LengthUnit, UnitSettings } from '../types';
+import MeasureInput from './MeasureInput';
+import StepList from './StepList';
+import TriangleVisualizer, { SceneFrame } from './TriangleVisualizer';
+import UnitControls from './UnitControls';
+
+const { width: WIDTH, height: HEIGHT } = RIGHT_TRIANGLE_BOX;
+
+const inputClass = "w-full px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all";
+
+// --- Scenes ---
+//
+// Drawn around the triangle in its own coordinates: C is the right angle at
+// the bottom left, A the end of b on the ground and B the top of a.
+
+const ground = (y: number) => <line x1={0} y1={y} x2={WIDTH} y2={y} strokeWidth="2" className="stroke-slate-300 dark:stroke-slate-600" />;
+
+const SCENES: Record<AppliedTemplateId, (frame: SceneFrame, values: TemplateValues) => React.ReactNode> = {
+  building: ({ A, B, C, scale }, values) => {
+    // The triangle starts at eye level, so the ground is the eye height below it.
+    const floor = Math.min(C.y + (values.h || 0) * scale, HEIGHT - 2);
+    return (
+      <g>
+        {ground(floor)}
+        <rect x={C.x - 36} y={B.y} width={36} height={floor - B.y} className="fill-slate-200 dark:fill-slate-700 stroke-slate-400" />
+        {Array.from({ length: Math.floor((floor - B.y - 8) / 16) }, (_, i) => (
+          <g key={i} className="fill-sky-100 dark:fill-sky-900">
+            <rect x={C.x - 30} y={B.y + 8 + i * 16} width={9} height={8} />
+            <rect x={C.x - 15} y={B.y + 8 + i * 16} width={9} height={8} />
+          </g>
+        ))}
+        <g className="stroke-slate-500" strokeWidth="2" strokeLinecap="round">
+          <line x1={A.x} y1={floor} x2={A.x} y2={A.y + 6} />
+          <circle cx={A.x} cy={A.y} r={4} className="fill-white dark:fill-slate-900" />
+        </g>
+      </g>
+    );
+  },
+  ladder: ({ A, B, C }) => {
+    const [dx, dy] = [B.x - A.x, B.y - A.y];
+    const length = Math.hypot(dx, dy);
+    // The second rail, on the side away from the wall.
+    const [nx, ny] = [(-dy / length) * 6, (dx / length) * 6];
+    const rungs = Math.floor(length / 14);
+    return (
+      <g>
+        <rect x={C.x - 14} y={Math.max(0, B.y - 20)} width={14} height={C.y - Math.max(0, B.y - 20)} className="fill-orange-100 dark:fill-orange-900/40 stroke-orange-300" />
+        {ground(C.y)}
+        <g className="stroke-amber-600" strokeWidth="1.5">
+          <line x1={A.x + nx} y1={A.y + ny} x2={B.x + nx} y2={B.y + ny} />
+          {Array.from({ length: rungs }, (_, i) => {
+            const [x, y] = [A.x + (dx * (i + 0.5)) / rungs, A.y + (dy * (i + 0.5)) / rungs];
+            return <line key={i} x1={x} y1={y} x2={x + nx} y2={y + ny} />;
+          })}
+        </g>
+      </g>
+    );
+  },
+  ramp: ({ A, B, C }) => (
+    <g>
+      <rect x={Math.max(0, C.x - 50)} y={B.y} width={C.x - Math.max(0, C.x - 50)} height={C.y - B.y} className="fill-slate-200 dark:fill-slate-700 stroke-slate-400" />
+      <path d={`M ${C.x} ${C.y} L ${A.x} ${A.y} L ${B.x} ${B.y} Z`} className="fill-amber-100 dark:fill-amber-900/30" />
+      {ground(C.y)}
+    </g>
+  ),
+  shadow: ({ A, B, C }) => {
+    const [dx, dy] = [B.x - A.x, B.y - A.y];
+    const length = Math.hypot(dx, dy);
+    // The sun is further along the ray that grazes the top of the pole.
+    const sun = {
+      x: Math.min(WIDTH - 14, Math.max(14, B.x + (dx / length) * 36)),
+      y: Math.min(HEIGHT - 14, Math.max(14, B.y + (dy / length) * 36)),
+    };
+    return (
+      <g>
+        {ground(C.y)}
+        <line x1={C.x} y1={C.y} x2={A.x} y2={A.y} strokeWidth="6" className="stroke-slate-700/30 dark:stroke-slate-300/30" />
+        <line x1={C.x} y1={C.y} x2={B.x} y2={B.y} strokeWidth="5" className="stroke-slate-500" />
+        <circle cx={sun.x} cy={sun.y} r={11} className="fill-amber-300 stroke-amber-400" />
+      </g>
+    );
+  },
+  lighthouse: ({ A, B, C }) => (
+    <g>
+      <path d={`M ${C.x - 26} ${C.y} L ${C.x} ${C.y} L ${C.x} ${B.y} L ${C.x - 16} ${B.y} Z`} className="fill-red-100 dark:fill-red-900/40 stroke-red-300" />
+      <rect x={C.x - 18} y={B.y - 10} width={20} height={10} className="fill-amber-300 stroke-amber-400" />
+      <line x1={B.x} y1={B.y} x2={A.x} y2={B.y} strokeDasharray="4 4" className="stroke-slate-400" />
+      <path d={`M 0 ${C.y} ${'q 5 -4 10 0 q 5 4 10 0 '.repeat(Math.ceil(WIDTH / 20))}`} fill="none" strokeWidth="1.5" className="stroke-sky-400" />
+      <path d={`M ${A.x - 12} ${A.y - 6} L ${A.x + 12} ${A.y - 6} L ${A.x + 7} ${A.y} L ${A.x - 7} ${A.y} Z`} className="fill-slate-500" />
+    </g>
+  ),
+  bearing: ({ A, B }) => (
+    <g>
+      <line x1={A.x} y1={A.y} x2={A.x} y2={Math.max(12, B.y - 12)} strokeDasharray="4 4" className="stroke-slate-400" />
+      <text x={A.x} y={Math.max(12, B.y - 12) - 6} textAnchor="middle" className="text-[10px] font-bold fill-slate-500">N</text>
+      <path d={`M ${B.x - 8} ${B.y + 4} L ${B.x} ${B.y - 8} L ${B.x + 8} ${B.y + 4} Z`} className="fill-slate-500" />
+    </g>
+  ),
+};
+
+const TemplateMode = ({ options, onUnitsChange }: { options: RenderOptions; onUnitsChange: (units: UnitSettings) => void }) => {
+  const { t } = useTranslation();
+  const fieldId = useId();
+  const units = { ...DEFAULT_UNITS, ...options.units };
+  const [id, setId] = useState<AppliedTemplateId>('building');
+  const [texts, setTexts] = useState<Record<string, string>>({});
+  // Units chosen for individual fields; others follow `units`.
+  const [fieldUnits, setFieldUnits] = useState<Record<string, LengthUnit | AngleUnit>>({});
+  const [submitted, setSubmitted] = useState(false);
+  const template = APPLIED_TEMPLATES[id];
+  const label = (key: string) => t(`template.${id}.${key}` as MessageKey);
+
+  const unitOf = (field: string, kind: 'length' | 'angle') => kind === 'angle'
+    ? (fieldUnits[field] as AngleUnit | undefined) ?? units.angle
+    : units.length === 'u' ? 'u' : (fieldUnits[field] as LengthUnit | undefined) ?? units.length;
+
+  // Solved on every change once asked for, so the answer follows the data and the units.
+  const outcome = ((): { solution: AppliedSolution; values: TemplateValues } | { error: string } => {
+    const measured: Measured<string> = Object.fromEntries(template.fields
+      .filter(field => !field.optional || texts[field.id]?.trim())
+      .map(field => [field.id, { text: texts[field.id] ?? '', unit: unitOf(field.id, field.kind) }]));
+    const { input: values, steps } = convertInput(measured, units);
+    if (Object.keys(measured).some(field => measured[field]!.text.trim() && isNaN(values[field]!))) {
+      return { error: t('error.not-a-number') };
+    }
+    try {
+      const solution = solveTemplate(id, values as TemplateValues);
+      return { solution: { ...solution, steps: [...steps, ...solution.steps] }, values: values as TemplateValues };
+    } catch (err) {
+      if (!(err instanceof SolverError)) throw err;
+      return { error: t(err.key, err.params) };
+    }
+  })();
+  const solved = submitted && 'solution' in outcome ? outcome : null;
+
+  const choose = (next: AppliedTemplateId) => {
+    setId(next);
+    setTexts({});
+    setSubmitted(false);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      {/* --- Data --- */}
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm space-y-4">
+          <h2 className="text-lg font-bold">{t('tab.templates.title')}</h2>
+          <div>
+            <label htmlFor={fieldId} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{t('templates.situation')}</label>
+            <select id={fieldId} value={id} onChange={(e) => choose(e.target.value as AppliedTemplateId)} className={inputClass}>
+              {TEMPLATE_IDS.map(template => <option key={template} value={template}>{t(`template.${template}.title` as MessageKey)}</option>)}
+            </select>
+          </div>
+          <p className="text-sm text-slate-500">{label('description')}</p>
+          {template.fields.map(field => (
+            <MeasureInput
+              key={`${id}.${field.id}`}
+              label={label(`field.${field.id}`)}
+              value={texts[field.id] ?? ''}
+              onChange={(value) => setTexts({ ...texts, [field.id]: value })}
+              {...(field.kind === 'angle'
+                ? { kind: 'angle' as const, unit: unitOf(field.id, 'angle') as AngleUnit, onUnitChange: (unit: AngleUnit) => setFieldUnits({ ...fieldUnits, [field.id]: unit }) }
+                : { kind: 'length' as const, unit: unitOf(field.id, 'length') as LengthUnit, onUnitChange: (unit: LengthUnit) => setFieldUnits({ ...fieldUnits, [field.id]: unit }) })}
+            />
+          ))}
+          {submitted && 'error' in outcome && <p role="alert" className="text-xs text-red-600 dark:text-red-400">{outcome.error}</p>}
+          <button
+            onClick={() => setSubmitted(true)}
+            className="w-full py-4 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-2xl shadow-lg shadow-blue-500/30 transition-all flex items-center justify-center gap-2 group"
+          >
+            {t('action.calculate')}
+            <ChevronRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+          </button>
+        </div>
+
+        <UnitControls value={units} onChange={onUnitsChange} />
+
+        {solved && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="bg-blue-600 dark:bg-blue-700 p-6 rounded-3xl text-white shadow-xl shadow-blue-500/20 space-y-2"
+          >
+            <h3 className="font-bold text-lg mb-4">{t('templates.answer')}</h3>
+            {solved.solution.results.map(result => (
+              <div key={result.id} className="flex justify-between items-center gap-4">
+                <span className="text-sm opacity-80">{label(`result.${result.id}`)}</span>
+                <span className="font-mono font-bold">{result.kind === 'angle' ? formatAngle(result.value, options) : formatLength(result.value, options)}</span>
+              </div>
+            ))}
+          </motion.div>
+        )}
+      </div>
+
+      {/* --- Scene & Steps --- */}
+      <div className="lg:col-span-8 grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
+        <TriangleVisualizer
+          a={solved?.solution.triangle.a ?? 0}
+          b={solved?.solution.triangle.b ?? 0}
+          c={solved?.solution.triangle.c ?? 0}
+          angleA={solved?.solution.triangle.alpha}
+          options={options}
+          scene={solved ? (frame) => SCENES[id](frame, solved.values) : undefined}
+        />
+        <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm overflow-hidden flex flex-col">
+          <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 mb-6 uppercase tracking-wider">{t('steps.title')}</h3>
+          <div className="flex-1 space-y-6 overflow-y-auto pr-2 custom-scrollbar">
+            {solved ? <StepList steps={solved.solution.steps} options={options} /> : (
+              <div className="h-full flex flex-col items-center justify-center text-slate-400 text-center px-8">
+                <Calculator className="w-12 h-12 mb-4 opacity-20" />
+                <p className="text-sm">{t('steps.empty')}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateMode;
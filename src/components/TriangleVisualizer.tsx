@@ -0,0 +1,320 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { motion, useReducedMotion } from 'motion/react';
+import React, { useRef, useState } from 'react';
+import {
+  arcPath,
+  fitRightTriangle,
+  fitRightTriangleSquares,
+  Point,
+  RIGHT_TRIANGLE_BOX,
+  rightTriangleLabels,
+  rightTriangleVertices,
+} from '../lib/layout';
+import { useTranslation } from '../lib/i18n/context';
+import { toDeg, toRad } from '../lib/math';
+import { StepHighlight } from '../lib/steps/highlight';
+import { formatAngle, formatLength, RenderOptions } from '../lib/steps/render';
+import { Side } from '../types';
+
+type Snap = 'free' | 'length' | 'angle';
+
+const SNAPS: Snap[] = ['free', 'length', 'angle'];
+
+const { width: WIDTH, height: HEIGHT } = RIGHT_TRIANGLE_BOX;
+const HANDLE_RADIUS = 7;
+const ARC_RADIUS = 20;
+// The shortest a leg can be dragged to, in pixels.
+const MIN_LEG = 4;
+
+/** The vertex being dragged: `A` moves along b, `B` along a. The scale and C stay put meanwhile. */
+interface Drag {
+  vertex: 'A' | 'B';
+  scale: number;
+  origin: Point;
+  a: number;
+  b: number;
+}
+
+/** The triangle's vertices and pixels per unit, for drawing a scene around it. */
+export interface SceneFrame {
+  A: Point;
+  B: Point;
+  C: Point;
+  scale: number;
+}
+
+const TriangleVisualizer = ({ a, b, c, angleA, options, onChange, scene, highlight, roomForSquares = false }: {
+  a: number;
+  b: number;
+  c: number;
+  angleA?: number;
+  options: RenderOptions;
+  /** Called with the new legs while a vertex is dragged; without it the drawing is static. */
+  onChange?: (legs: { a: number; b: number }) => void;
+  /** Drawn behind the triangle, e.g. the building or the wall a problem is about. */
+  scene?: (frame: SceneFrame) => React.ReactNode;
+  /** The sides, angles and squares the step being presented is about. */
+  highlight?: StepHighlight;
+  /** Leaves room for squares on the sides, so the drawing does not jump when they appear. */
+  roomForSquares?: boolean;
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { t } = useTranslation();
+  const [snap, setSnap] = useState<Snap>('free');
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const reduceMotion = useReducedMotion();
+
+  const legs = drag ?? { a, b };
+  const draggable = !!onChange && a > 0 && b > 0;
+
+  // While dragging, the scale and C stay put so that the vertex follows the pointer.
+  const { scale, origin } = drag ?? (roomForSquares ? fitRightTriangleSquares : fitRightTriangle)(a, b);
+  const { A, B, C } = rightTriangleVertices(origin, legs.a, legs.b, scale);
+  const [width, height] = [A.x - C.x, C.y - B.y];
+
+  const pathData = `M ${C.x} ${C.y} L ${A.x} ${A.y} L ${B.x} ${B.y} Z`;
+  const square = Math.min(12, width / 2, height / 2);
+  const arc = Math.min(ARC_RADIUS, 0.45 * Math.min(width, height));
+
+  // Each side with the corners of the square drawn outwards on it.
+  const sides: Record<Side, [Point, Point, Point, Point]> = {
+    a: [C, B, { x: B.x - height, y: B.y }, { x: C.x - height, y: C.y }],
+    b: [C, A, { x: A.x, y: A.y + width }, { x: C.x, y: C.y + width }],
+    c: [A, B, { x: B.x + height, y: B.y - width }, { x: A.x + height, y: A.y - width }],
+  };
+
+  const alpha = drag ? toDeg(Math.atan2(legs.a, legs.b)) : angleA;
+  const placed = rightTriangleLabels({ A, B, C }, {
+    a: `a = ${formatLength(legs.a, options)}`,
+    b: `b = ${formatLength(legs.b, options)}`,
+    c: `c = ${formatLength(drag ? Math.hypot(legs.a, legs.b) : c, options)}`,
+    alpha: alpha !== undefined ? `α = ${formatAngle(alpha, options)}` : undefined,
+    beta: alpha !== undefined ? `β = ${formatAngle(90 - alpha, options)}` : undefined,
+  });
+
+  const description = [
+    t('visualizer.description', { a: formatLength(a, options), b: formatLength(b, options), c: formatLength(c, options) }),
+    angleA !== undefined ? t('visualizer.description-angles', { alpha: formatAngle(angleA, options), beta: formatAngle(90 - angleA, options) }) : '',
+  ].join(' ').trim();
+
+  // --- Dragging ---
+
+  const toSvg = (e: React.PointerEvent): Point => {
+    const matrix = svgRef.current!.getScreenCTM()!.inverse();
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix);
+    return { x: p.x, y: p.y };
+  };
+
+  const startDrag = (vertex: Drag['vertex']) => (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ vertex, scale, origin: C, a, b });
+  };
+
+  const moveDrag = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const p = toSvg(e);
+    const { vertex, origin } = drag;
+    const [min, max] = vertex === 'A'
+      ? [MIN_LEG / scale, (WIDTH - HANDLE_RADIUS - origin.x) / scale]
+      : [MIN_LEG / scale, (origin.y - HANDLE_RADIUS) / scale];
+    const raw = Math.min(max, Math.max(min, vertex === 'A' ? (p.x - origin.x) / scale : (origin.y - p.y) / scale));
+
+    let next = vertex === 'A' ? { a: drag.a, b: raw } : { a: raw, b: drag.b };
+    if (snap === 'length') {
+      const whole = Math.max(1, Math.round(raw));
+      next = vertex === 'A' ? { ...next, b: whole } : { ...next, a: whole };
+    } else if (snap === 'angle') {
+      // The other leg stays fixed and α is rounded to whole degrees.
+      const degrees = Math.min(89, Math.max(1, Math.round(toDeg(Math.atan2(next.a, next.b)))));
+      next = vertex === 'A' ? { ...next, b: next.a / Math.tan(toRad(degrees)) } : { ...next, a: next.b * Math.tan(toRad(degrees)) };
+    }
+    setDrag({ ...drag, ...next });
+    onChange?.(next);
+  };
+
+  const endDrag = () => setDrag(null);
+
+  /** The keyboard version of dragging: one step of the snap mode longer or shorter. */
+  const nudge = (vertex: Drag['vertex'], direction: 1 | -1) => {
+    let next = { a, b };
+    if (snap === 'angle') {
+      // Moving A lengthens b, which closes α; moving B lengthens a, which opens it.
+      const current = Math.round(toDeg(Math.atan2(a, b)));
+      const degrees = Math.min(89, Math.max(1, current + (vertex === 'A' ? -direction : direction)));
+      next = vertex === 'A' ? { a, b: a / Math.tan(toRad(degrees)) } : { a: b * Math.tan(toRad(degrees)), b };
+    } else {
+      const leg = vertex === 'A' ? 'b' : 'a';
+      const step = snap === 'length' ? 1 : 0.1;
+      const value = snap === 'length' ? Math.round(next[leg]) + direction : next[leg] + direction * step;
+      next = { ...next, [leg]: Math.max(step, +value.toFixed(10)) };
+    }
+    onChange?.(next);
+  };
+
+  const keyNudge = (vertex: Drag['vertex']) => (e: React.KeyboardEvent) => {
+    const direction = e.key === 'ArrowUp' || e.key === 'ArrowRight' ? 1 : e.key === 'ArrowDown' || e.key === 'ArrowLeft' ? -1 : 0;
+    if (!direction) return;
+    e.preventDefault();
+    nudge(vertex, direction);
+  };
+
+  const handle = (vertex: Drag['vertex'], at: Point) => (
+    <circle
+      cx={at.x}
+      cy={at.y}
+      r={HANDLE_RADIUS}
+      data-export="skip"
+      tabIndex={0}
+      role="slider"
+      aria-label={t('field.leg', { side: vertex === 'A' ? 'b' : 'a' })}
+      aria-valuenow={vertex === 'A' ? legs.b : legs.a}
+      aria-valuetext={formatLength(vertex === 'A' ? legs.b : legs.a, options)}
+      aria-valuemin={0}
+      onKeyDown={keyNudge(vertex)}
+      onPointerDown={startDrag(vertex)}
+      onPointerMove={moveDrag}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+      className={`fill-blue-500/20 stroke-blue-500 touch-none outline-none focus-visible:stroke-[3] focus-visible:fill-blue-500/50 ${vertex === 'A' ? 'cursor-ew-resize' : 'cursor-ns-resize'} ${drag?.vertex === vertex ? 'fill-blue-500/50' : ''}`}
+      strokeWidth="1.5"
+    />
+  );
+
+  return (
+    <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-6 flex flex-col items-center justify-center border border-slate-200 dark:border-slate-700 h-full min-h-[300px]">
+      <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 mb-4 uppercase tracking-wider">{t('visualizer.title')}</h3>
+      {draggable && (
+        <div className="flex p-1 bg-slate-200/50 dark:bg-slate-800 rounded-xl mb-2 text-xs">
+          {SNAPS.map(mode => (
+            <button
+              key={mode}
+              onClick={() => setSnap(mode)}
+              className={`px-3 py-1 rounded-lg font-medium transition-all ${snap === mode ? 'bg-white dark:bg-slate-700 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+            >
+              {t(`visualizer.snap.${mode}`)}
+            </button>
+          ))}
+        </div>
+      )}
+      <svg
+        ref={svgRef}
+        data-figure
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        // With handles it holds controls, which an image would hide from screen readers.
+        role={draggable ? 'group' : 'img'}
+        aria-label={description}
+        className="w-full max-w-[340px] h-auto drop-shadow-xl select-none"
+      >
+        {scene?.({ A, B, C, scale })}
+
+        {/* Squares of the step being presented */}
+        {highlight?.squares.map(side => {
+          const corners = sides[side];
+          const centre = { x: (corners[0].x + corners[2].x) / 2, y: (corners[0].y + corners[2].y) / 2 };
+          return (
+            <g key={side}>
+              <path d={`M ${corners.map(p => `${p.x} ${p.y}`).join(' L ')} Z`} strokeWidth="1.5" className="fill-amber-400/20 stroke-amber-500" />
+              <text x={centre.x} y={centre.y} textAnchor="middle" dominantBaseline="central" className="text-[12px] font-mono font-bold fill-amber-700 dark:fill-amber-300">
+                {side}²
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Triangle */}
+        <motion.path
+          d={pathData}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="3"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="text-blue-500 dark:text-blue-400"
+          initial={reduceMotion ? false : { pathLength: 0, opacity: 0 }}
+          animate={{
+            d: pathData,
+            pathLength: 1,
+            opacity: 1
+          }}
+          transition={{
+            d: drag || reduceMotion ? { duration: 0 } : { type: "spring", stiffness: 100, damping: 20 },
+            pathLength: { duration: 1.5, ease: "easeInOut" },
+            opacity: { duration: 0.5 }
+          }}
+        />
+
+        {/* Sides and angles of the step being presented */}
+        {highlight && (
+          <g className="stroke-amber-500 fill-amber-400/40" strokeLinecap="round">
+            {highlight.sides.map(side => {
+              const [from, to] = sides[side];
+              return <line key={side} x1={from.x} y1={from.y} x2={to.x} y2={to.y} strokeWidth="6" strokeOpacity="0.7" />;
+            })}
+            {highlight.angles.map(angle => {
+              const [vertex, from, to] = { alpha: [A, C, B], beta: [B, A, C], gamma: [C, B, A] }[angle];
+              return <path key={angle} d={`${arcPath(vertex, from, to, arc + 6)} L ${vertex.x} ${vertex.y} Z`} strokeWidth="1" />;
+            })}
+          </g>
+        )}
+
+        {/* Right angle square */}
+        <rect
+          x={C.x}
+          y={C.y - square}
+          width={square}
+          height={square}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="1.5"
+          className="text-slate-400"
+        />
+
+        {/* Angle arcs */}
+        {alpha !== undefined && arc > 2 && (
+          <g fill="none" strokeWidth="1.5" className="stroke-blue-600 dark:stroke-blue-400">
+            <path d={arcPath(A, C, B, arc)} />
+            <path d={arcPath(B, A, C, arc)} />
+          </g>
+        )}
+
+        {/* Labels */}
+        {placed.map(label => (
+          <text
+            key={label.id}
+            x={label.x}
+            y={label.y}
+            textAnchor="middle"
+            dominantBaseline="central"
+            className={`text-[10px] font-mono ${label.id === 'alpha' || label.id === 'beta' ? 'fill-blue-600 font-bold' : 'fill-slate-500'}`}
+          >
+            {label.text}
+          </text>
+        ))}
+
+        {draggable && handle('A', A)}
+        {draggable && handle('B', B)}
+      </svg>
+      {draggable && <p className="mt-2 text-xs text-slate-400">{t('visualizer.drag-hint')}</p>}
+      <div className="mt-6 grid grid-cols-3 gap-4 w-full text-center">
+        <div className="p-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800">
+          <p className="text-[10px] text-slate-400 uppercase">{t('field.leg', { side: 'a' })}</p>
+          <p className="font-mono font-bold text-slate-700 dark:text-slate-200">{formatLength(a, options)}</p>
+        </div>
+        <div className="p-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800">
+          <p className="text-[10px] text-slate-400 uppercase">{t('field.leg', { side: 'b' })}</p>
+          <p className="font-mono font-bold text-slate-700 dark:text-slate-200">{formatLength(b, options)}</p>
+        </div>
+        <div className="p-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800">
+          <p className="text-[10px] text-slate-400 uppercase">{t('field.hypotenuse', { side: 'c' })}</p>
+          <p className="font-mono font-bold text-blue-600 dark:text-blue-400">{formatLength(c, options)}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TriangleVisualizer;
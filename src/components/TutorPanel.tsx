@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Send, Sparkles, Square } from 'lucide-react';
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import { useTranslation } from '../lib/i18n/context';
+import { askTutor, tutorFailure } from '../lib/tutor';
+import { CalculationStep, CalculatorMode, TutorMessage } from '../types';
+import MathMarkdown from './MathMarkdown';
+
+const TutorPanel = ({ mode, steps }: { mode: CalculatorMode; steps: CalculationStep[] }) => {
+  const { locale, t } = useTranslation();
+  const [messages, setMessages] = useState<TutorMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [failure, setFailure] = useState<string | null>(null);
+  const request = useRef<AbortController | null>(null);
+
+  // A new problem starts a new conversation.
+  const problem = JSON.stringify(steps);
+  useEffect(() => {
+    request.current?.abort();
+    setMessages([]);
+    setFailure(null);
+  }, [problem]);
+
+  const ask = async (history: TutorMessage[]) => {
+    const controller = new AbortController();
+    request.current = controller;
+    setMessages([...history, { role: 'tutor', text: '' }]);
+    setBusy(true);
+    setFailure(null);
+    let text = '';
+    try {
+      for await (const chunk of askTutor({ mode, locale, steps, messages: history }, controller.signal)) {
+        text += chunk;
+        setMessages([...history, { role: 'tutor', text }]);
+      }
+    } catch (err) {
+      // Stopping keeps what was already written.
+      if (controller.signal.aborted) {
+        setMessages(current => current.filter(m => m.text));
+        return;
+      }
+      setFailure(tutorFailure(err, t));
+      setMessages(text ? [...history, { role: 'tutor', text }] : history);
+    } finally {
+      if (request.current === controller) setBusy(false);
+    }
+  };
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    const question = draft.trim();
+    if (!question || busy) return;
+    setDraft('');
+    ask([...messages, { role: 'student', text: question }]);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm space-y-4">
+      <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <Sparkles className="w-4 h-4 text-indigo-500" />
+        {t('tutor.title')}
+      </h3>
+
+      {messages.length === 0 ? (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+          <p className="flex-1 text-sm text-slate-500">{t('tutor.intro')}</p>
+          <button
+            onClick={() => ask([])}
+            className="px-5 py-3 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold rounded-2xl transition-all"
+          >
+            {t('tutor.explain')}
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4 max-h-[32rem] overflow-y-auto pr-2 custom-scrollbar" aria-live="polite">
+          {messages.map((message, i) => message.role === 'student' ? (
+            <p key={i} className="ml-auto w-fit max-w-[80%] px-4 py-2 rounded-2xl bg-indigo-600 text-white text-sm">{message.text}</p>
+          ) : (
+            <div key={i} className="text-sm text-slate-700 dark:text-slate-300">
+              {message.text ? <MathMarkdown text={message.text} /> : <p className="text-slate-400 animate-pulse">{t('tutor.thinking')}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {failure && <p role="alert" className="text-xs text-red-600 dark:text-red-400">{failure}</p>}
+
+      {messages.length > 0 && (
+        <form onSubmit={submit} className="flex gap-2">
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={t('tutor.ask')}
+            aria-label={t('tutor.ask')}
+            maxLength={2000}
+            className="flex-1 min-w-0 px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+          />
+          {busy ? (
+            <button
+              type="button"
+              onClick={() => request.current?.abort()}
+              title={t('tutor.stop')}
+              aria-label={t('tutor.stop')}
+              className="px-4 rounded-xl bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all"
+            >
+              <Square className="w-4 h-4" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!draft.trim()}
+              title={t('tutor.send')}
+              aria-label={t('tutor.send')}
+              className="px-4 rounded-xl bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white transition-all"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          )}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TutorPanel;
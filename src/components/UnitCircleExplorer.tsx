@@ -0,0 +1,271 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CircleDot } from 'lucide-react';
+import React, { useId, useRef, useState } from 'react';
+import {
+  CIRCLE_FUNCTIONS,
+  circlePoint,
+  circleValues,
+  GraphBox,
+  graphPath,
+  graphPoint,
+  normalizeAngle,
+  quadrant,
+  QUADRANT_SIGNS,
+  referenceAngle,
+} from '../lib/circle';
+import { useTranslation } from '../lib/i18n/context';
+import { toDeg, toRad } from '../lib/math';
+import { plainNotation } from '../lib/steps/notation';
+import { formatAngle, RenderOptions } from '../lib/steps/render';
+import { TrigFunction } from '../types';
+
+const SIZE = 260;
+const CENTER = SIZE / 2;
+const RADIUS = 100;
+// The slider's range; dragging the point winds within it too.
+const MAX_ANGLE = 360;
+
+const GRAPH: GraphBox = { width: 300, height: 90, from: -MAX_ANGLE, to: MAX_ANGLE, yMax: 2.5 };
+
+const COLORS: Record<TrigFunction, { stroke: string; fill: string }> = {
+  cos: { stroke: 'stroke-blue-500', fill: 'fill-blue-500' },
+  sin: { stroke: 'stroke-rose-500', fill: 'fill-rose-500' },
+  tan: { stroke: 'stroke-emerald-500', fill: 'fill-emerald-500' },
+};
+
+/** A point at `degrees` and `r` pixels from the centre, in SVG coordinates. */
+const polar = (degrees: number, r: number) => ({ x: CENTER + r * Math.cos(toRad(degrees)), y: CENTER - r * Math.sin(toRad(degrees)) });
+
+/** A polyline from `from` to `to` degrees; the radius grows with the turns, so windings stay apart. */
+const arc = (from: number, to: number, r: number) => {
+  const samples = Math.max(2, Math.ceil(Math.abs(to - from) / 3));
+  return Array.from({ length: samples + 1 }, (_, i) => {
+    const degrees = from + ((to - from) * i) / samples;
+    const { x, y } = polar(degrees, r + (6 * Math.abs(degrees - from)) / 360);
+    return `${i ? 'L' : 'M'} ${x.toFixed(1)} ${y.toFixed(1)}`;
+  }).join(' ');
+};
+
+const QUADRANT_CORNERS = [
+  { n: 1, x: SIZE - 8, y: 14, anchor: 'end' },
+  { n: 2, x: 8, y: 14, anchor: 'start' },
+  { n: 3, x: 8, y: SIZE - 8, anchor: 'start' },
+  { n: 4, x: SIZE - 8, y: SIZE - 8, anchor: 'end' },
+] as const;
+
+const ROMAN = ['I', 'II', 'III', 'IV'];
+
+/** Sin, cos or tan over a turn either way, with a marker at α. */
+const Graph = ({ fn, angle, label, description }: { fn: TrigFunction; angle: number; label: string; description: string }) => {
+  const value = circleValues(angle)[fn];
+  const marker = graphPoint(GRAPH, angle, 0);
+  const point = value !== null && Math.abs(value) <= GRAPH.yMax ? graphPoint(GRAPH, angle, value) : null;
+  return (
+    <figure className="space-y-1">
+      <figcaption className="text-xs font-semibold text-slate-500">{label}</figcaption>
+      <svg data-figure viewBox={`0 0 ${GRAPH.width} ${GRAPH.height}`} role="img" aria-label={description} className="w-full h-auto rounded-xl bg-slate-50 dark:bg-slate-800/50">
+        {[-360, -270, -180, -90, 90, 180, 270, 360].map(degrees => {
+          const { x } = graphPoint(GRAPH, degrees, 0);
+          return <line key={degrees} x1={x} y1={0} x2={x} y2={GRAPH.height} className="stroke-slate-200 dark:stroke-slate-700" />;
+        })}
+        <line x1={0} y1={GRAPH.height / 2} x2={GRAPH.width} y2={GRAPH.height / 2} className="stroke-slate-300 dark:stroke-slate-600" />
+        <line x1={GRAPH.width / 2} y1={0} x2={GRAPH.width / 2} y2={GRAPH.height} className="stroke-slate-300 dark:stroke-slate-600" />
+        <path d={graphPath(fn, GRAPH)} fill="none" strokeWidth="1.5" className={COLORS[fn].stroke} />
+        <line x1={marker.x} y1={0} x2={marker.x} y2={GRAPH.height} strokeDasharray="3 3" className="stroke-slate-400" />
+        {point && <circle cx={point.x} cy={point.y} r={3.5} className={COLORS[fn].fill} />}
+      </svg>
+    </figure>
+  );
+};
+
+/**
+ * α on the unit circle, for any angle: cos and sin as the coordinates of the
+ * point, tan on the tangent line, and the three functions plotted alongside.
+ */
+const UnitCircleExplorer = ({ angle, onChange, options }: {
+  angle: number;
+  onChange: (degrees: number) => void;
+  options: RenderOptions;
+}) => {
+  const { t } = useTranslation();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const id = useId();
+  const [dragging, setDragging] = useState(false);
+  const n = plainNotation(options);
+
+  const { cos, sin } = circlePoint(angle);
+  const values = circleValues(angle);
+  const q = quadrant(angle);
+  const normalized = normalizeAngle(angle);
+  const acute = angle > 0 && angle < 90;
+  const shown = (value: number | null) => (value === null ? t('circle.undefined') : n.res(value));
+
+  const P = polar(angle, RADIUS);
+  const foot = { x: P.x, y: CENTER };
+  // The tangent line x = 1, cut off at the edge of the drawing.
+  const tangent = values.tan !== null && Math.abs(values.tan * RADIUS) < CENTER - 4
+    ? { x: CENTER + RADIUS, y: CENTER - values.tan * RADIUS }
+    : null;
+  // Measured from whichever half of the x-axis is nearer.
+  const axis = q === 2 || q === 3 ? 180 : normalized > 180 ? 360 : 0;
+
+  // --- Dragging ---
+
+  const moveTo = (e: React.PointerEvent) => {
+    const matrix = svgRef.current!.getScreenCTM()!.inverse();
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix);
+    const pointed = toDeg(Math.atan2(CENTER - p.y, p.x - CENTER));
+    // The shortest way round from the current angle, so dragging past 0° keeps winding.
+    const delta = normalizeAngle(pointed - angle + 180) - 180;
+    onChange(Math.max(-MAX_ANGLE, Math.min(MAX_ANGLE, Math.round(angle + delta))));
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm space-y-6">
+      <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <CircleDot className="w-4 h-4" />
+        {t('circle.title')}
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
+        <div className="space-y-3">
+          <svg
+            ref={svgRef}
+            data-figure
+            viewBox={`0 0 ${SIZE} ${SIZE}`}
+            role="img"
+            aria-label={t('circle.description', { angle: formatAngle(angle, options), cos: n.res(cos), sin: n.res(sin) })}
+            className="w-full max-w-[320px] mx-auto h-auto select-none touch-none"
+            onPointerMove={(e) => dragging && moveTo(e)}
+            onPointerUp={() => setDragging(false)}
+            onPointerCancel={() => setDragging(false)}
+          >
+            {/* Quadrants and their signs */}
+            {QUADRANT_CORNERS.map(({ n: number, x, y, anchor }) => (
+              <text
+                key={number}
+                x={x}
+                y={y}
+                textAnchor={anchor}
+                className={`text-[9px] font-mono ${q === number ? 'fill-blue-600 font-bold' : 'fill-slate-400'}`}
+              >
+                {`${ROMAN[number - 1]}: ${(['sin', 'cos', 'tan'] as const).map(fn => `${fn} ${QUADRANT_SIGNS[number][fn] > 0 ? '+' : '−'}`).join(' ')}`}
+              </text>
+            ))}
+
+            {/* Axes and circle */}
+            <g className="stroke-slate-300 dark:stroke-slate-600">
+              <line x1={0} y1={CENTER} x2={SIZE} y2={CENTER} />
+              <line x1={CENTER} y1={0} x2={CENTER} y2={SIZE} />
+              <line x1={CENTER + RADIUS} y1={0} x2={CENTER + RADIUS} y2={SIZE} strokeDasharray="2 4" />
+            </g>
+            <circle cx={CENTER} cy={CENTER} r={RADIUS} fill="none" strokeWidth="1.5" className="stroke-slate-400" />
+
+            {/* The right triangle of an acute α */}
+            {acute && <path d={`M ${CENTER} ${CENTER} L ${foot.x} ${foot.y} L ${P.x} ${P.y} Z`} className="fill-blue-500/10" />}
+
+            {/* α and its reference angle */}
+            <path d={arc(0, angle, 18)} fill="none" strokeWidth="1.5" className="stroke-slate-600 dark:stroke-slate-300" />
+            {q !== null && referenceAngle(angle) !== normalized && (
+              <path d={arc(axis, normalized, 32)} fill="none" strokeWidth="1.5" strokeDasharray="3 2" className="stroke-amber-500" />
+            )}
+
+            {/* tan on the tangent line, then cos and sin as the coordinates of P */}
+            {tangent && (
+              <>
+                <line x1={CENTER} y1={CENTER} x2={tangent.x} y2={tangent.y} strokeDasharray="3 3" className="stroke-emerald-500/60" />
+                <line x1={CENTER + RADIUS} y1={CENTER} x2={tangent.x} y2={tangent.y} strokeWidth="3" className={COLORS.tan.stroke} />
+              </>
+            )}
+            <line x1={CENTER} y1={CENTER} x2={foot.x} y2={foot.y} strokeWidth="3" className={COLORS.cos.stroke} />
+            <line x1={foot.x} y1={foot.y} x2={P.x} y2={P.y} strokeWidth="3" className={COLORS.sin.stroke} />
+            <line x1={CENTER} y1={CENTER} x2={P.x} y2={P.y} strokeWidth="2" className="stroke-slate-700 dark:stroke-slate-200" />
+            {acute && (
+              <text x={(CENTER + P.x) / 2 - 6} y={(CENTER + P.y) / 2 - 6} textAnchor="middle" className="text-[10px] font-mono fill-slate-500">1</text>
+            )}
+
+            <circle
+              cx={P.x}
+              cy={P.y}
+              r={8}
+              onPointerDown={(e) => {
+                svgRef.current?.setPointerCapture(e.pointerId);
+                setDragging(true);
+              }}
+              className={`fill-blue-500/30 stroke-blue-600 cursor-grab ${dragging ? 'fill-blue-500/60' : ''}`}
+              strokeWidth="1.5"
+            />
+            <text x={P.x + (cos >= 0 ? 12 : -12)} y={P.y + (sin >= 0 ? -10 : 16)} textAnchor={cos >= 0 ? 'start' : 'end'} className="text-[10px] font-mono fill-slate-500">
+              ({n.res(cos)}, {n.res(sin)})
+            </text>
+          </svg>
+
+          <label htmlFor={`${id}-range`} className="block text-xs font-semibold text-slate-500 uppercase ml-1">{t('circle.angle')}</label>
+          <div className="flex items-center gap-3">
+            <input
+              id={`${id}-range`}
+              type="range"
+              min={-MAX_ANGLE}
+              max={MAX_ANGLE}
+              step={1}
+              value={angle}
+              onChange={(e) => onChange(Number(e.target.value))}
+              className="flex-1 accent-blue-600"
+            />
+            <input
+              type="number"
+              aria-label={t('circle.angle')}
+              min={-MAX_ANGLE}
+              max={MAX_ANGLE}
+              value={angle}
+              onChange={(e) => {
+                const degrees = Number(e.target.value);
+                if (e.target.value !== '' && !isNaN(degrees)) onChange(Math.max(-MAX_ANGLE, Math.min(MAX_ANGLE, degrees)));
+              }}
+              className="w-20 px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 outline-none text-sm font-mono"
+            />
+          </div>
+          <p className="text-xs text-slate-400">{t('circle.drag-hint')}</p>
+        </div>
+
+        <div className="space-y-4">
+          <div className="space-y-1 text-sm">
+            <p className="font-bold">{q === null ? t('circle.on-axis') : t('circle.quadrant', { n: ROMAN[q - 1] })}</p>
+            <p className="text-amber-600 dark:text-amber-400">{t('circle.reference', { angle: formatAngle(referenceAngle(angle), options) })}</p>
+            {normalized !== angle && <p className="text-slate-500">{t('circle.coterminal', { angle: formatAngle(normalized, options) })}</p>}
+          </div>
+          <dl className="space-y-2">
+            {CIRCLE_FUNCTIONS.map(fn => (
+              <div key={fn} className="flex justify-between items-center gap-4">
+                <dt className="text-sm text-slate-500">{t(`quantity.${fn}`)}</dt>
+                <dd className="font-mono font-bold">{shown(values[fn])}</dd>
+              </div>
+            ))}
+          </dl>
+          {acute && <p className="text-xs text-slate-500 p-3 rounded-xl bg-blue-50 dark:bg-blue-900/20">{t('circle.acute')}</p>}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-xs font-semibold text-slate-500 uppercase">{t('circle.graphs')}</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {(['sin', 'cos', 'tan'] as const).map(fn => (
+            <Graph
+              key={fn}
+              fn={fn}
+              angle={angle}
+              label={t(`quantity.${fn}`)}
+              description={t('circle.graph-description', { fn: t(`quantity.${fn}`), angle: formatAngle(angle, options), value: shown(values[fn]) })}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnitCircleExplorer;
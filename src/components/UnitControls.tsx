@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Ruler } from 'lucide-react';
+import { useId } from 'react';
+import { useTranslation } from '../lib/i18n/context';
+import { ANGLE_UNITS, LENGTH_UNITS } from '../lib/units';
+import { AngleUnit, LengthUnit, UnitSettings } from '../types';
+
+const selectClass = "w-full px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 outline-none text-sm";
+
+const UnitControls = ({ value, onChange }: { value: UnitSettings; onChange: (value: UnitSettings) => void }) => {
+  const { t } = useTranslation();
+  const fieldId = useId();
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm space-y-4">
+      <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <Ruler className="w-4 h-4" />
+        {t('units.title')}
+      </h3>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor={`${fieldId}-1`} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{t('units.length')}</label>
+          <select
+            id={`${fieldId}-1`}
+            value={value.length}
+            onChange={(e) => onChange({ ...value, length: e.target.value as LengthUnit })}
+            className={selectClass}
+          >
+            {(Object.keys(LENGTH_UNITS) as LengthUnit[]).map(unit => (
+              <option key={unit} value={unit}>{t(`unit.${unit}`)} ({LENGTH_UNITS[unit].symbol})</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`${fieldId}-2`} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{t('units.angle')}</label>
+          <select
+            id={`${fieldId}-2`}
+            value={value.angle}
+            onChange={(e) => onChange({ ...value, angle: e.target.value as AngleUnit })}
+            className={selectClass}
+          >
+            {(Object.keys(ANGLE_UNITS) as AngleUnit[]).map(unit => (
+              <option key={unit} value={unit}>{t(`unit.${unit}`)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {value.length !== 'u' && (
+        <p className="text-xs text-slate-500">{t('units.hint')}</p>
+      )}
+    </div>
+  );
+};
+
+export default UnitControls;
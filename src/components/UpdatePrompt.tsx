@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { RefreshCw, X } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import { useEffect, useState } from 'react';
+import { useTranslation } from '../lib/i18n/context';
+import { registerServiceWorker } from '../lib/pwa';
+
+/** Registers the service worker and offers each new build once it is ready offline. */
+const UpdatePrompt = () => {
+  const { t } = useTranslation();
+  const [apply, setApply] = useState<(() => void) | null>(null);
+
+  useEffect(() => registerServiceWorker(update => setApply(() => update)), []);
+
+  return (
+    <AnimatePresence>
+      {apply && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          role="status"
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 pl-5 pr-2 py-2 rounded-2xl bg-slate-900 dark:bg-slate-800 text-white text-sm shadow-2xl"
+        >
+          <span>{t('update.available')}</span>
+          <button
+            onClick={apply}
+            className="px-3 py-1.5 rounded-xl bg-blue-600 hover:bg-blue-700 font-semibold flex items-center gap-1.5 transition-colors"
+          >
+            <RefreshCw className="w-4 h-4" />
+            {t('update.reload')}
+          </button>
+          <button onClick={() => setApply(null)} title={t('update.later')} aria-label={t('update.later')} className="p-1.5 rounded-xl hover:bg-white/10 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default UpdatePrompt;
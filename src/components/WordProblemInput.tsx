@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BookOpenText, Check, ChevronRight } from 'lucide-react';
+import { useState } from 'react';
+import { useTranslation } from '../lib/i18n/context';
+import { parseWordProblem } from '../lib/problem';
+import { Quantity, WordProblem, WordTarget } from '../types';
+
+const QUANTITIES: Quantity[] = ['a', 'b', 'c', 'alpha', 'beta'];
+const TARGETS: WordTarget[] = [...QUANTITIES, 'area', 'perimeter'];
+
+const selectClass = "px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 outline-none text-sm";
+
+/**
+ * A pasted exercise read into the right-triangle solver: the interpretation is
+ * shown first, so each value's role and the unknown can be corrected before solving.
+ */
+const WordProblemInput = ({ onSolve, answer }: { onSolve: (problem: WordProblem) => void; answer?: string }) => {
+  const { t } = useTranslation();
+  const [text, setText] = useState('');
+  const [problem, setProblem] = useState<WordProblem | null>(null);
+
+  const assigned = problem ? problem.values.filter(v => v.quantity !== null).length : 0;
+
+  const assign = (i: number, quantity: Quantity | null) => problem && setProblem({
+    ...problem,
+    values: problem.values.map((v, j) => (j === i
+      ? { ...v, quantity }
+      // A quantity is given once; whichever value had it before is let go.
+      : v.quantity === quantity ? { ...v, quantity: null } : v)),
+  });
+
+  return (
+    <div className="p-4 rounded-2xl bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 space-y-3">
+      <label htmlFor="word-problem" className="text-xs font-semibold text-slate-500 uppercase flex items-center gap-2">
+        <BookOpenText className="w-4 h-4" />
+        {t('word.title')}
+      </label>
+      <textarea
+        id="word-problem"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setProblem(null);
+        }}
+        placeholder={t('word.placeholder')}
+        rows={3}
+        className="w-full px-4 py-3 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 outline-none text-sm resize-y"
+      />
+      {!problem && (
+        <button
+          onClick={() => setProblem(parseWordProblem(text))}
+          disabled={!text.trim()}
+          className="px-4 py-2 rounded-xl bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-50 text-sm font-semibold transition-all flex items-center gap-1"
+        >
+          {t('word.interpret')}
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      )}
+
+      {problem && problem.values.length === 0 && (
+        <p role="status" className="text-xs text-amber-700 dark:text-amber-400">{t('word.nothing')}</p>
+      )}
+
+      {problem && problem.values.length > 0 && (
+        <div className="space-y-3">
+          <p className="text-xs font-semibold text-slate-500 uppercase">{t('word.given')}</p>
+          <ul className="space-y-2">
+            {problem.values.map((value, i) => (
+              <li key={i} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="min-w-16 font-mono font-bold">{value.source}</span>
+                <select
+                  value={value.quantity ?? ''}
+                  onChange={(e) => assign(i, (e.target.value || null) as Quantity | null)}
+                  aria-label={value.source}
+                  className={selectClass}
+                >
+                  <option value="">{t('word.role.none')}</option>
+                  {QUANTITIES.map(q => <option key={q} value={q}>{t(`word.role.${q}`)}</option>)}
+                </select>
+                {value.cue && <span className="text-xs text-slate-400">{t('word.cue', { cue: value.cue })}</span>}
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <label htmlFor="word-target" className="text-xs font-semibold text-slate-500 uppercase">{t('word.unknown')}</label>
+            <select
+              id="word-target"
+              value={problem.target ?? ''}
+              onChange={(e) => setProblem({ ...problem, target: (e.target.value || null) as WordTarget | null })}
+              className={selectClass}
+            >
+              <option value="">{t('word.role.none')}</option>
+              {TARGETS.map(q => <option key={q} value={q}>{t(`word.role.${q}`)}</option>)}
+            </select>
+          </div>
+          <button
+            onClick={() => onSolve(problem)}
+            disabled={assigned < 2}
+            className="px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-bold transition-all flex items-center gap-1"
+          >
+            <Check className="w-4 h-4" />
+            {t('word.confirm')}
+          </button>
+        </div>
+      )}
+
+      {answer && <p role="status" className="text-sm font-bold text-blue-600 dark:text-blue-400">{t('word.answer', { answer })}</p>}
+    </div>
+  );
+};
+
+export default WordProblemInput;
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Dices, Download, Printer } from 'lucide-react';
+import { useId, useState } from 'react';
+import { download, print } from '../lib/files';
+import { useTranslation } from '../lib/i18n/context';
+import { DIFFICULTIES } from '../lib/practice';
+import { randomSeed } from '../lib/random';
+import { RenderOptions } from '../lib/steps/render';
+import { answerKeyHtml, generateWorksheet, TOPICS, worksheetHtml } from '../lib/worksheet';
+import { Difficulty, WorksheetTopic } from '../types';
+
+const COUNTS = [4, 6, 8, 10, 12, 16, 20];
+
+type Page = 'sheet' | 'key';
+
+const PAGES: Page[] = ['sheet', 'key'];
+
+const inputClass = "w-full px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all";
+
+const WorksheetBuilder = ({ options }: { options: RenderOptions }) => {
+  const [topics, setTopics] = useState<WorksheetTopic[]>(['hypotenuse', 'leg']);
+  const [difficulty, setDifficulty] = useState<Difficulty>('easy');
+  const [count, setCount] = useState(8);
+  const [seed, setSeed] = useState(randomSeed);
+  const [page, setPage] = useState<Page>('sheet');
+  const { t } = useTranslation();
+  const fieldId = useId();
+
+  const settings = { topics, count, difficulty, seed: seed.trim() };
+  const exercises = settings.seed ? generateWorksheet(settings) : [];
+  const html = (which: Page) => (which === 'sheet' ? worksheetHtml : answerKeyHtml)(exercises, settings, options);
+
+  const toggle = (topic: WorksheetTopic) =>
+    setTopics(topics.includes(topic) ? topics.filter(t => t !== topic) : (Object.keys(TOPICS) as WorksheetTopic[]).filter(t => t === topic || topics.includes(t)));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      {/* --- Settings --- */}
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm space-y-4">
+          <h2 className="text-lg font-bold">{t('worksheet.title')}</h2>
+          <div>
+            <p id={`${fieldId}-topics`} className="block text-xs font-semibold text-slate-500 uppercase mb-2 ml-1">{t('worksheet.topics')}</p>
+            <div role="group" aria-labelledby={`${fieldId}-topics`} className="space-y-2">
+              {(Object.keys(TOPICS) as WorksheetTopic[]).map(topic => (
+                <label key={topic} className="flex items-center gap-3 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={topics.includes(topic)}
+                    onChange={() => toggle(topic)}
+                    className="w-4 h-4 rounded accent-blue-600"
+                  />
+                  {t(`topic.${topic}`)}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label htmlFor={`${fieldId}-1`} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{t('difficulty.label')}</label>
+            <select id={`${fieldId}-1`} value={difficulty} onChange={(e) => setDifficulty(e.target.value as Difficulty)} className={inputClass}>
+              {DIFFICULTIES.map(d => <option key={d} value={d}>{t(`difficulty.${d}`)}</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor={`${fieldId}-2`} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{t('worksheet.count')}</label>
+              <select id={`${fieldId}-2`} value={count} onChange={(e) => setCount(parseInt(e.target.value))} className={inputClass}>
+                {COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`${fieldId}-3`} className="block text-xs font-semibold text-slate-500 uppercase mb-1 ml-1">{t('seed.label')}</label>
+              <div className="flex gap-1">
+                <input
+                  id={`${fieldId}-3`}
+                  value={seed}
+                  onChange={(e) => setSeed(e.target.value.toUpperCase())}
+                  className={`${inputClass} font-mono uppercase`}
+                />
+                <button
+                  onClick={() => setSeed(randomSeed())}
+                  title={t('seed.new')}
+                  aria-label={t('seed.new')}
+                  className="px-3 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors"
+                >
+                  <Dices className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">{t('worksheet.seed-hint')}</p>
+        </div>
+
+        <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm space-y-3">
+          {PAGES.map(which => (
+            <div key={which} className="flex gap-2">
+              <button
+                onClick={() => print(html(which))}
+                disabled={exercises.length === 0}
+                className="flex-1 py-3 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold rounded-2xl transition-all flex items-center justify-center gap-2"
+              >
+                <Printer className="w-4 h-4" />
+                {t('worksheet.print', { page: t(`worksheet.${which}`).toLowerCase() })}
+              </button>
+              <button
+                onClick={() => download(`${t(`worksheet.file.${which}`)}-${settings.seed}.html`, html(which), 'text/html')}
+                disabled={exercises.length === 0}
+                title={t('worksheet.download')}
+                aria-label={t('worksheet.download')}
+                className="px-4 rounded-2xl bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50 transition-all"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* --- Preview --- */}
+      <div className="lg:col-span-8 space-y-4">
+        <div className="flex p-1 bg-slate-200/50 dark:bg-slate-800/50 rounded-2xl max-w-sm">
+          {PAGES.map(which => (
+            <button
+              key={which}
+              onClick={() => setPage(which)}
+              className={`flex-1 py-2 rounded-xl text-sm font-medium transition-all ${page === which ? 'bg-white dark:bg-slate-700 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+            >
+              {t(`worksheet.${which}`)}
+            </button>
+          ))}
+        </div>
+        {exercises.length === 0 ? (
+          <div className="py-24 text-center text-sm text-slate-400 bg-white dark:bg-slate-900 rounded-3xl border border-slate-200 dark:border-slate-800">
+            {t('worksheet.empty')}
+          </div>
+        ) : (
+          <iframe
+            title={t(`worksheet.${page}`)}
+            srcDoc={html(page)}
+            className="w-full h-[75vh] bg-white rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WorksheetBuilder;
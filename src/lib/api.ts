@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * An error response from the local server. `code` is the stable code it sent
+ * as `error` (`name-taken`…), which the client words in the user's locale.
+ */
+export class ServerError extends Error {
+  constructor(
+    public code: string,
+    public status: number,
+  ) {
+    super(`${status} ${code}`);
+    this.name = 'ServerError';
+  }
+}
+
+/** The error a failed response carries; its code is `server` when the body has none. */
+export const responseError = async (response: Response) => {
+  const body = await response.json().catch(() => null);
+  return new ServerError(typeof body?.error === 'string' ? body.error : 'server', response.status);
+};
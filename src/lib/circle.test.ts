@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { circleValues, graphPath, normalizeAngle, quadrant, QUADRANT_SIGNS, referenceAngle } from './circle';
+
+describe('angles on the unit circle', () => {
+  it('brings any angle, negative or beyond a turn, into [0°, 360°)', () => {
+    expect(normalizeAngle(-30)).toBe(330);
+    expect(normalizeAngle(450)).toBe(90);
+    expect(normalizeAngle(-720)).toBe(0);
+  });
+
+  it('finds the quadrant and the reference angle', () => {
+    expect([quadrant(30), quadrant(150), quadrant(200), quadrant(-30)]).toEqual([1, 2, 3, 4]);
+    expect(quadrant(180)).toBeNull();
+    expect([referenceAngle(150), referenceAngle(200), referenceAngle(-30), referenceAngle(90)]).toEqual([30, 20, 30, 90]);
+  });
+
+  it('gives all six functions and leaves undefined ones out', () => {
+    const v = circleValues(150);
+    expect(v.sin).toBeCloseTo(0.5);
+    expect(v.cos).toBeCloseTo(-Math.sqrt(3) / 2);
+    expect(v.csc).toBeCloseTo(2);
+    expect(v.cot).toBeCloseTo(-Math.sqrt(3));
+    expect(circleValues(90)).toMatchObject({ cos: 0, tan: null, sec: null, cot: 0 });
+    expect(circleValues(-180)).toMatchObject({ sin: 0, csc: null, cot: null });
+  });
+
+  it('has the signs of each quadrant', () => {
+    for (const degrees of [45, 135, 225, 315]) {
+      const v = circleValues(degrees);
+      const signs = QUADRANT_SIGNS[quadrant(degrees)!];
+      expect([Math.sign(v.sin), Math.sign(v.cos), Math.sign(v.tan!)]).toEqual([signs.sin, signs.cos, signs.tan]);
+    }
+  });
+});
+
+describe('graphPath', () => {
+  const box = { width: 360, height: 100, from: 0, to: 360, yMax: 3 };
+
+  it('draws sin in one stroke', () => {
+    const path = graphPath('sin', box);
+    expect(path.match(/M/g)).toHaveLength(1);
+    expect(path.startsWith('M 0 50')).toBe(true);
+  });
+
+  it('breaks tan at its asymptotes', () => {
+    expect(graphPath('tan', box).match(/M/g)).toHaveLength(3);
+  });
+});
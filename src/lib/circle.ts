@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TrigFunction } from '../types';
+import { toRad } from './math';
+
+export type CircleFunction = TrigFunction | 'csc' | 'sec' | 'cot';
+
+export const CIRCLE_FUNCTIONS: CircleFunction[] = ['sin', 'cos', 'tan', 'csc', 'sec', 'cot'];
+
+export type Quadrant = 1 | 2 | 3 | 4;
+
+// Below this, sin and cos are rounding noise around an axis (cos 90° ≈ 6·10⁻¹⁷).
+const EPSILON = 1e-12;
+
+/** The same point of the circle as `degrees`, in [0°, 360°). */
+export const normalizeAngle = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+/** The quadrant of the angle's terminal side; null when it lies on an axis. */
+export const quadrant = (degrees: number): Quadrant | null => {
+  const angle = normalizeAngle(degrees);
+  return angle % 90 === 0 ? null : (Math.floor(angle / 90) + 1) as Quadrant;
+};
+
+/** The acute angle between the terminal side and the x-axis. */
+export const referenceAngle = (degrees: number) => {
+  const angle = normalizeAngle(degrees) % 180;
+  return Math.min(angle, 180 - angle);
+};
+
+/** The point of the unit circle at `degrees`, exactly on the axes when it should be. */
+export const circlePoint = (degrees: number) => {
+  const snap = (v: number) => (Math.abs(v) < EPSILON ? 0 : v);
+  return { cos: snap(Math.cos(toRad(degrees))), sin: snap(Math.sin(toRad(degrees))) };
+};
+
+/** All six functions at `degrees`; null where one is undefined (tan 90°, csc 0°…). */
+export const circleValues = (degrees: number): Record<CircleFunction, number | null> => {
+  const { cos, sin } = circlePoint(degrees);
+  const ratio = (num: number, den: number) => (den === 0 ? null : num / den);
+  return { sin, cos, tan: ratio(sin, cos), csc: ratio(1, sin), sec: ratio(1, cos), cot: ratio(cos, sin) };
+};
+
+/** Signs of sin, cos and tan in each quadrant (their reciprocals share them). */
+export const QUADRANT_SIGNS: Record<Quadrant, Record<TrigFunction, 1 | -1>> = {
+  1: { sin: 1, cos: 1, tan: 1 },
+  2: { sin: 1, cos: -1, tan: -1 },
+  3: { sin: -1, cos: -1, tan: 1 },
+  4: { sin: -1, cos: 1, tan: -1 },
+};
+
+// --- Graphs ---
+
+export interface GraphBox {
+  width: number;
+  height: number;
+  /** Angles shown, in degrees. */
+  from: number;
+  to: number;
+  /** Values beyond ±yMax are cut off. */
+  yMax: number;
+}
+
+/** Where `degrees` and `value` fall inside the box. */
+export const graphPoint = ({ width, height, from, to, yMax }: GraphBox, degrees: number, value: number) => ({
+  x: ((degrees - from) / (to - from)) * width,
+  y: height / 2 - (value / yMax) * (height / 2),
+});
+
+/**
+ * An SVG path of `fn` over the box, sampled every degree. The line breaks
+ * where the function leaves the box, so tan has no lines across its asymptotes.
+ */
+export const graphPath = (fn: TrigFunction, box: GraphBox) => {
+  const parts: string[] = [];
+  let drawing = false;
+  for (let degrees = box.from; degrees <= box.to; degrees++) {
+    const value = circleValues(degrees)[fn];
+    if (value === null || Math.abs(value) > box.yMax) {
+      drawing = false;
+      continue;
+    }
+    const { x, y } = graphPoint(box, degrees, value);
+    parts.push(`${drawing ? 'L' : 'M'} ${+x.toFixed(2)} ${+y.toFixed(2)}`);
+    drawing = true;
+  }
+  return parts.join(' ');
+};
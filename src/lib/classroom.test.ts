@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ClassDashboard } from '../types';
+import { ServerError } from './api';
+import { classMastery, classroomFailure, classTopics, gradebookCsv, loadStudentView, masteryPercent, studentKey } from './classroom';
+import { translator } from './i18n';
+
+const DASHBOARD: ClassDashboard = {
+  classroom: { id: 1, name: '3.º B', code: 'ABC234', createdAt: '' },
+  students: [{ id: 1, name: 'Ana' }, { id: 2, name: '=Luis, "el nuevo"' }],
+  assignments: [
+    { id: 7, title: 'Pitágoras', settings: { topics: ['leg', 'hypotenuse'], count: 4, difficulty: 'easy', seed: 'X' }, createdAt: '' },
+    { id: 8, title: 'Seno', settings: { topics: ['sin'], count: 2, difficulty: 'easy', seed: 'Y' }, createdAt: '' },
+  ],
+  mastery: {
+    1: { hypotenuse: { answered: 2, correct: 2 }, leg: { answered: 2, correct: 1 }, sin: { answered: 1, correct: 0 } },
+    2: { leg: { answered: 1, correct: 1 } },
+  },
+  scores: { 1: { 7: 3, 8: 0 }, 2: { 7: 1, 8: 0 } },
+};
+
+describe('mastery', () => {
+  it('rounds to a percentage and is null with nothing answered', () => {
+    expect(masteryPercent({ answered: 3, correct: 2 })).toBe(67);
+    expect(masteryPercent({ answered: 0, correct: 0 })).toBeNull();
+    expect(masteryPercent(undefined)).toBeNull();
+  });
+
+  it('lists the assigned topics in worksheet order and sums the class', () => {
+    expect(classTopics(DASHBOARD)).toEqual(['hypotenuse', 'leg', 'sin']);
+    expect(classMastery(DASHBOARD, 'leg')).toEqual({ answered: 3, correct: 2 });
+    expect(classMastery(DASHBOARD, 'tan')).toEqual({ answered: 0, correct: 0 });
+  });
+});
+
+describe('gradebookCsv', () => {
+  it('has a row per student with scores, mastery and the total', () => {
+    expect(gradebookCsv(DASHBOARD, translator('en')).split('\n')).toEqual([
+      'Student,Pitágoras (out of 4),Seno (out of 2),Pythagoras: hypotenuse,Pythagoras: leg,Sine,Total',
+      'Ana,3,0,100%,50%,0%,50%',
+      `"'=Luis, ""el nuevo""",1,0,,100%,,17%`,
+    ]);
+  });
+});
+
+describe('classroomFailure', () => {
+  it('words the server code in the locale', () => {
+    expect(classroomFailure(new ServerError('name-taken', 409), translator('en'))).toBe("Someone in the class already has that name.");
+    expect(classroomFailure(new ServerError('unknown-code', 404), translator('pt-BR'))).toBe("Não existe nenhuma turma com esse código.");
+  });
+
+  it('falls back to a generic message, or says the server could not be reached', () => {
+    const t = translator('en');
+    expect(classroomFailure(new ServerError('server', 500), t)).toBe(t('classroom.error.server'));
+    expect(classroomFailure(new TypeError('Failed to fetch'), t)).toBe(t('history.offline'));
+  });
+});
+
+describe('loadStudentView', () => {
+  beforeEach(() => {
+    const items = new Map<string, string>([['geomaster.classroom.student', 'KEY']]);
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    });
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  const failing = (status: number, body: object) => vi.fn(async () => new Response(JSON.stringify(body), { status }));
+
+  it('keeps the key when the server fails', async () => {
+    vi.stubGlobal('fetch', failing(502, {}));
+    await expect(loadStudentView('KEY')).rejects.toMatchObject({ code: 'server', status: 502 });
+    vi.stubGlobal('fetch', failing(500, { error: 'server' }));
+    await expect(loadStudentView('KEY')).rejects.toBeInstanceOf(ServerError);
+    expect(studentKey()).toBe('KEY');
+  });
+
+  it('forgets a key the server no longer knows', async () => {
+    vi.stubGlobal('fetch', failing(401, { error: 'not-joined' }));
+    await expect(loadStudentView('KEY')).rejects.toMatchObject({ code: 'not-joined' });
+    expect(studentKey()).toBeNull();
+  });
+});
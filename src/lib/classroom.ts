@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AnswerGrade, Assignment, ClassDashboard, Classroom, ClassroomErrorCode, Mastery, StudentView, WorksheetSettings, WorksheetTopic } from '../types';
+import { responseError, ServerError } from './api';
+import { Translate } from './i18n';
+import { TOPICS } from './worksheet';
+
+const ENDPOINT = '/api/classroom';
+
+/** Classes created in this browser, with the key that opens each one's dashboard. */
+const CLASSES_KEY = 'geomaster.classroom.classes';
+/** The key of the student who joined a class from this browser. */
+const STUDENT_KEY = 'geomaster.classroom.student';
+
+export interface SavedClass {
+  code: string;
+  name: string;
+  key: string;
+}
+
+const request = async <T>(url: string, key: string | null, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${ENDPOINT}${url}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(key ? { Authorization: `Bearer ${key}` } : {}) },
+  });
+  if (!response.ok) throw await responseError(response);
+  return response.json() as Promise<T>;
+};
+
+const ERRORS: ClassroomErrorCode[] = [
+  'class-not-found',
+  'not-joined',
+  'class-name-missing',
+  'invalid-assignment',
+  'name-missing',
+  'unknown-code',
+  'name-taken',
+  'invalid-answer',
+  'unknown-problem',
+  'too-many-classes',
+];
+
+/** What went wrong, in words of the locale: the server's reason, or that it could not be reached. */
+export const classroomFailure = (err: unknown, t: Translate) => {
+  // fetch rejects with a TypeError only when no response arrived at all.
+  if (err instanceof TypeError) return t('history.offline');
+  const code = err instanceof ServerError && ERRORS.find(known => known === err.code);
+  return code ? t(`classroom.error.${code}`) : t('classroom.error.server');
+};
+
+// --- Teacher ---
+
+export const savedClasses = (): SavedClass[] => {
+  try {
+    return JSON.parse(localStorage.getItem(CLASSES_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+/** The key is only ever sent back once, so it is kept right away. */
+export const createClass = async (name: string) => {
+  const { classroom, key } = await request<{ classroom: Classroom; key: string }>('/classes', null, {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+  });
+  const saved = { code: classroom.code, name: classroom.name, key };
+  localStorage.setItem(CLASSES_KEY, JSON.stringify([saved, ...savedClasses()]));
+  return saved;
+};
+
+export const loadDashboard = ({ code, key }: SavedClass) => request<ClassDashboard>(`/classes/${code}`, key);
+
+export const assignWorksheet = ({ code, key }: SavedClass, title: string, settings: WorksheetSettings) =>
+  request<Assignment>(`/classes/${code}/assignments`, key, { method: 'POST', body: JSON.stringify({ title, settings }) });
+
+// --- Student ---
+
+export const studentKey = () => localStorage.getItem(STUDENT_KEY);
+
+export const joinClass = async (code: string, name: string) => {
+  const { key, ...view } = await request<StudentView & { key: string }>('/join', null, {
+    method: 'POST',
+    body: JSON.stringify({ code, name }),
+  });
+  localStorage.setItem(STUDENT_KEY, key);
+  return view;
+};
+
+/**
+ * A key the server no longer knows is forgotten, so the student can join again.
+ * Any other failure keeps it: it is handed out only once, and joining again
+ * under the same name would be refused.
+ */
+export const loadStudentView = async (key: string) => {
+  try {
+    return await request<StudentView>('/me', key);
+  } catch (err) {
+    if (err instanceof ServerError && err.code === 'not-joined') leaveClass();
+    throw err;
+  }
+};
+
+/** Graded by the server; an answer it could not read comes back as NaN, like `gradeAnswer` gives it. */
+export const sendAnswer = async (key: string, assignment: number, problem: number, answer: string): Promise<AnswerGrade> => {
+  const grade = await request<AnswerGrade>(`/assignments/${assignment}/answers`, key, {
+    method: 'POST',
+    body: JSON.stringify({ problem, answer }),
+  });
+  return { ...grade, received: grade.received ?? NaN };
+};
+
+/** Forgets the class on this browser; the student's answers stay on the server. */
+export const leaveClass = () => localStorage.removeItem(STUDENT_KEY);
+
+// --- Gradebook ---
+
+/** Right answers as a whole percentage of those given; null with none. */
+export const masteryPercent = (mastery?: Mastery) =>
+  mastery?.answered ? Math.round((100 * mastery.correct) / mastery.answered) : null;
+
+/** The topics of a class's assignments, in the order the worksheet lists them. */
+export const classTopics = ({ assignments }: Pick<ClassDashboard, 'assignments'>) =>
+  (Object.keys(TOPICS) as WorksheetTopic[]).filter(topic => assignments.some(a => a.settings.topics.includes(topic)));
+
+/** The whole class on a topic. */
+export const classMastery = ({ mastery }: Pick<ClassDashboard, 'mastery'>, topic: WorksheetTopic): Mastery =>
+  Object.values(mastery).reduce(
+    (sum, topics) => ({ answered: sum.answered + (topics[topic]?.answered ?? 0), correct: sum.correct + (topics[topic]?.correct ?? 0) }),
+    { answered: 0, correct: 0 },
+  );
+
+/** Quoted when needed, and never read as a formula by a spreadsheet. */
+const csvCell = (value: string | number) => {
+  const text = String(value).replace(/^[=+\-@\t\r]/, "'$&");
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per student: right answers on each assignment, mastery of each
+ * topic and the share of every assigned problem answered right.
+ */
+export const gradebookCsv = (dashboard: ClassDashboard, t: Translate) => {
+  const { students, assignments, mastery, scores } = dashboard;
+  const topics = classTopics(dashboard);
+  const total = assignments.reduce((sum, a) => sum + a.settings.count, 0);
+  const percent = (v: number | null) => (v === null ? '' : `${v}%`);
+  const rows = [
+    [
+      t('classroom.student'),
+      ...assignments.map(a => t('classroom.csv.assignment', { title: a.title, count: a.settings.count })),
+      ...topics.map(topic => t(`topic.${topic}`)),
+      t('classroom.csv.total'),
+    ],
+    ...students.map(student => {
+      const right = assignments.reduce((sum, a) => sum + scores[student.id][a.id], 0);
+      return [
+        student.name,
+        ...assignments.map(a => scores[student.id][a.id]),
+        ...topics.map(topic => percent(masteryPercent(mastery[student.id][topic]))),
+        percent(total ? Math.round((100 * right) / total) : null),
+      ];
+    }),
+  ];
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+};
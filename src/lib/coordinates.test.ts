@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { solveSegment, solveSpaceDiagonal } from './coordinates';
+import { SolverError } from './solver';
+import { renderPlainText } from './steps/render';
+
+describe('solveSegment', () => {
+  it('measures the segment as the hypotenuse of the Δx, Δy triangle', () => {
+    const { distance, midpoint, slope, inclination, steps } = solveSegment({ x: 1, y: 1 }, { x: 4, y: 5 });
+    expect(distance).toBe(5);
+    expect(midpoint).toEqual({ x: 2.5, y: 3 });
+    expect(slope).toBeCloseTo(4 / 3);
+    expect(inclination).toBeCloseTo(53.13, 2);
+    expect(steps.map(step => step.rule)).toEqual([
+      'coordinates.differences',
+      'coordinates.legs',
+      'pythagoras.hypotenuse-formula',
+      'pythagoras.substitute-legs',
+      'pythagoras.square-legs',
+      'pythagoras.sum-squares',
+      'pythagoras.solve-hypotenuse',
+      'coordinates.distance',
+      'coordinates.midpoint',
+      'coordinates.slope',
+      'inverse-trig.arctan',
+      'coordinates.inclination-rising',
+    ]);
+  });
+
+  it('takes the supplement of α when the line falls', () => {
+    const { slope, inclination, steps } = solveSegment({ x: -1, y: 2 }, { x: 2, y: -1 });
+    expect(slope).toBe(-1);
+    expect(inclination).toBeCloseTo(135);
+    expect(steps.at(-1)?.rule).toBe('coordinates.inclination-falling');
+    expect(renderPlainText([steps[0]])).toContain('Δx = 2 - (-1) = 3,  Δy = -1 - 2 = -3');
+  });
+
+  it('needs no triangle along an axis', () => {
+    const vertical = solveSegment({ x: 2, y: 7 }, { x: 2, y: 1 });
+    expect(vertical).toMatchObject({ distance: 6, slope: null, inclination: 90 });
+    expect(vertical.triangle).toBeUndefined();
+    expect(vertical.steps.map(step => step.rule)).toEqual(['coordinates.differences', 'coordinates.aligned', 'coordinates.midpoint', 'coordinates.vertical']);
+    expect(solveSegment({ x: 3, y: 0 }, { x: -1, y: 0 })).toMatchObject({ distance: 4, slope: 0, inclination: 0 });
+  });
+
+  it('rejects missing coordinates and a point paired with itself', () => {
+    expect(() => solveSegment({ x: NaN, y: 0 }, { x: 1, y: 1 })).toThrow(SolverError);
+    expect(() => solveSegment({ x: 1, y: 1 }, { x: 1, y: 1 })).toThrow(SolverError);
+  });
+});
+
+describe('solveSpaceDiagonal', () => {
+  it('goes through the base diagonal first', () => {
+    const { base, distance, midpoint, steps } = solveSpaceDiagonal({ x: 0, y: 0, z: 0 }, { x: 3, y: 4, z: 12 });
+    expect(base).toBe(5);
+    expect(distance).toBe(13);
+    expect(midpoint).toEqual({ x: 1.5, y: 2, z: 6 });
+    expect(steps.map(step => step.rule)).toEqual([
+      'coordinates.differences',
+      'coordinates.base-diagonal',
+      'coordinates.space-diagonal',
+      'coordinates.box-diagonal',
+      'coordinates.midpoint',
+    ]);
+    expect(renderPlainText([steps[2]])).toContain('d = √(5² + 12²) = √169,0000 ≈ 13,0000');
+  });
+
+  it('needs the third coordinate', () => {
+    expect(() => solveSpaceDiagonal({ x: 0, y: 0 }, { x: 3, y: 4, z: 12 })).toThrow(SolverError);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CalculationStep, CoordinatePoint, RightTriangleSolution, StepValues } from '../types';
+import { isKnown } from './math';
+import { SolverError, solveRightTriangle } from './solver';
+import { makeStep } from './steps/rules';
+
+export interface SegmentSolution {
+  /** P₂ − P₁ along each axis, with its sign. */
+  delta: CoordinatePoint;
+  distance: number;
+  midpoint: CoordinatePoint;
+  /** In the plane only; null when the segment is vertical. */
+  slope?: number | null;
+  /** The angle from the positive x-axis, in [0°, 180°); in the plane only. */
+  inclination?: number;
+  /** The triangle with legs |Δy| and |Δx|, unless the segment runs along an axis. */
+  triangle?: RightTriangleSolution;
+  /** In space, the diagonal of the base: the first of the two stages. */
+  base?: number;
+  steps: CalculationStep[];
+}
+
+type Axis = 'x' | 'y' | 'z';
+
+/** The coordinates of both points as step values: `x1`, `y1`, `x2`… */
+const coordinates = (p: CoordinatePoint, q: CoordinatePoint, axes: Axis[]): StepValues =>
+  Object.fromEntries(axes.flatMap(axis => [[`${axis}1`, p[axis]!], [`${axis}2`, q[axis]!]]));
+
+const check = (p: CoordinatePoint, q: CoordinatePoint, axes: Axis[]) => {
+  if (axes.some(axis => !isKnown(p[axis]) || !isKnown(q[axis]))) {
+    throw new SolverError('insufficient-data', 'error.coordinates-missing');
+  }
+  if (axes.every(axis => p[axis] === q[axis])) {
+    throw new SolverError('non-positive-length', 'error.same-points');
+  }
+};
+
+/** The differences and the midpoint, common to the plane and to space. */
+const measure = (p: CoordinatePoint, q: CoordinatePoint, axes: Axis[]) => {
+  const values = coordinates(p, q, axes);
+  const params = { axes: axes.join('') };
+  const along = (f: (axis: Axis) => number): CoordinatePoint => ({ x: f('x'), y: f('y'), ...(axes.includes('z') && { z: f('z') }) });
+  const delta = along(axis => q[axis]! - p[axis]!);
+  const midpoint = along(axis => (p[axis]! + q[axis]!) / 2);
+  return {
+    delta,
+    midpoint,
+    differences: makeStep('coordinates.differences', {
+      values,
+      results: Object.fromEntries(axes.map(axis => [`d${axis}`, delta[axis]!])),
+      params,
+    }),
+    midpointStep: makeStep('coordinates.midpoint', {
+      values,
+      results: Object.fromEntries(axes.map(axis => [`m${axis}`, midpoint[axis]!])),
+      params,
+    }),
+  };
+};
+
+/**
+ * Distance, midpoint, slope and inclination of the segment from `p` to `q` in
+ * the plane. Δx and Δy are the legs of a right triangle whose hypotenuse is
+ * the segment, so the distance and the angle with the x-axis come from the
+ * right-triangle solver.
+ *
+ * @throws {SolverError} when a coordinate is missing or the points coincide.
+ */
+export const solveSegment = (p: CoordinatePoint, q: CoordinatePoint): SegmentSolution => {
+  check(p, q, ['x', 'y']);
+  const { delta, midpoint, differences, midpointStep } = measure(p, q, ['x', 'y']);
+  const { x: dx, y: dy } = delta;
+
+  // Along an axis there is no triangle: the distance is the one difference that isn't 0.
+  if (dx === 0 || dy === 0) {
+    const axis = dx === 0 ? 'y' : 'x';
+    const distance = Math.abs(delta[axis]);
+    return {
+      delta,
+      distance,
+      midpoint,
+      slope: dx === 0 ? null : 0,
+      inclination: dx === 0 ? 90 : 0,
+      steps: [
+        differences,
+        makeStep('coordinates.aligned', { values: { [`d${axis}`]: delta[axis] }, results: { d: distance }, params: { axis } }),
+        midpointStep,
+        dx === 0
+          ? makeStep('coordinates.vertical', { results: { theta: 90 } })
+          : makeStep('coordinates.horizontal', { values: { dx }, results: { m: 0, theta: 0 } }),
+      ],
+    };
+  }
+
+  const triangle = solveRightTriangle({ a: Math.abs(dy), b: Math.abs(dx) });
+  const slope = dy / dx;
+  const inclination = slope > 0 ? triangle.alpha : 180 - triangle.alpha;
+  // The legs step already names a and b, and β plays no part in the segment.
+  const pythagoras = triangle.steps.filter(step => step.rule.startsWith('pythagoras.') && step.rule !== 'pythagoras.identify-legs');
+  const arctan = triangle.steps.filter(step => step.rule === 'inverse-trig.arctan');
+
+  return {
+    delta,
+    distance: triangle.c,
+    midpoint,
+    slope,
+    inclination,
+    triangle,
+    steps: [
+      differences,
+      makeStep('coordinates.legs', { values: { dx, dy }, results: { a: triangle.a, b: triangle.b } }),
+      ...pythagoras,
+      makeStep('coordinates.distance', { results: { d: triangle.c } }),
+      midpointStep,
+      makeStep('coordinates.slope', { values: { dx, dy }, results: { m: slope } }),
+      ...arctan,
+      slope > 0
+        ? makeStep('coordinates.inclination-rising', { values: { alpha: triangle.alpha }, results: { theta: inclination } })
+        : makeStep('coordinates.inclination-falling', { values: { alpha: triangle.alpha }, results: { theta: inclination } }),
+    ],
+  };
+};
+
+/**
+ * Distance and midpoint of two points in space, explained in two stages: the
+ * diagonal of the base from Δx and Δy, then the space diagonal from it and Δz,
+ * as in a box with those edges.
+ *
+ * @throws {SolverError} when a coordinate is missing or the points coincide.
+ */
+export const solveSpaceDiagonal = (p: CoordinatePoint, q: CoordinatePoint): SegmentSolution => {
+  check(p, q, ['x', 'y', 'z']);
+  const { delta, midpoint, differences, midpointStep } = measure(p, q, ['x', 'y', 'z']);
+  const { x: dx, y: dy, z: dz = 0 } = delta;
+  const base = Math.hypot(dx, dy);
+  const distance = Math.hypot(base, dz);
+
+  return {
+    delta,
+    distance,
+    midpoint,
+    base,
+    steps: [
+      differences,
+      makeStep('coordinates.base-diagonal', { values: { dx, dy }, results: { base } }),
+      makeStep('coordinates.space-diagonal', { values: { base, dz }, results: { d: distance } }),
+      makeStep('coordinates.box-diagonal', { values: { dx, dy, dz }, results: { d: distance } }),
+      midpointStep,
+    ],
+  };
+};
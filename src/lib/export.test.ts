@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { ExportDocument, exportHtml, exportLatex, exportMarkdown } from './export';
+import { solveRightTriangle } from './solver';
+
+const solution = solveRightTriangle({ a: 3, b: 4 });
+
+const doc: ExportDocument = {
+  title: 'Triángulo Rectángulo',
+  note: 'Catetos a & b',
+  steps: solution.steps,
+  sections: [{
+    values: [
+      { quantity: 'c', value: solution.c },
+      { quantity: 'alpha', value: solution.alpha },
+      { quantity: 'area', value: solution.area },
+    ],
+    figure: '<svg xmlns="http://www.w3.org/2000/svg"><path d="M 0 0 L 10 0"/></svg>',
+    triangle: { a: 3, b: 4, c: 5, alpha: solution.alpha },
+  }],
+};
+
+describe('exportLatex', () => {
+  const latex = exportLatex(doc, { units: { length: 'cm' } });
+
+  it('writes a standalone document with the steps and a TikZ drawing', () => {
+    expect(latex).toMatch(/^\\documentclass/);
+    expect(latex).toContain('\\begin{enumerate}');
+    expect(latex).toContain('\\begin{tikzpicture}');
+    expect(latex.trim()).toMatch(/\\end\{document\}$/);
+  });
+
+  it('escapes special characters and aligns the results', () => {
+    expect(latex).toContain('Catetos a \\&{} b');
+    expect(latex).toContain('c &\\approx 5{,}0000\\,\\text{cm}');
+    expect(latex).toContain('\\text{Área} &\\approx 6{,}0000\\,\\text{cm}^2');
+  });
+});
+
+describe('exportMarkdown', () => {
+  it('writes the math between dollar signs and embeds the figure', () => {
+    const markdown = exportMarkdown(doc, { exact: true });
+    expect(markdown).toMatch(/^# Triángulo Rectángulo\n/);
+    expect(markdown).toContain('- $c = 5$');
+    expect(markdown).toContain('- $\\alpha \\approx 36{,}8699^\\circ$');
+    expect(markdown).toContain('![Triángulo](data:image/svg+xml;charset=utf-8,%3Csvg');
+  });
+});
+
+describe('exportHtml', () => {
+  it('renders the math as MathML and escapes the text', () => {
+    const html = exportHtml(doc);
+    expect(html).toContain('<!DOCTYPE html>');
+    expect(html).toContain('<math');
+    expect(html).toContain('Catetos a &amp; b');
+    expect(html).toContain('<figure><svg');
+    expect(html).toContain('<td>Área</td><td>6,0000</td>');
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import katex from 'katex';
+import { CalculationStep, Locale } from '../types';
+import { DEFAULT_LOCALE, translator } from './i18n';
+import { latexNotation, Notation, plainNotation } from './steps/notation';
+import { formatAngle, formatLength, renderKatex, renderMarkdown, RenderOptions } from './steps/render';
+
+/** A quantity of the final result: a side, an angle, the area, the perimeter or a trig ratio of α. */
+export interface ExportValue {
+  quantity: string;
+  value: number;
+}
+
+/** One solved triangle: the ambiguous case can have two. */
+export interface ExportSection {
+  title?: string;
+  values: ExportValue[];
+  /** The drawing as standalone SVG markup, for HTML and Markdown. */
+  figure?: string;
+  /** Sides and α, to draw the triangle with TikZ in LaTeX. */
+  triangle?: { a: number; b: number; c: number; alpha: number };
+}
+
+export interface ExportDocument {
+  title: string;
+  note?: string;
+  steps: CalculationStep[];
+  sections: ExportSection[];
+}
+
+const ANGLES = ['alpha', 'beta', 'gamma'];
+const RATIOS = ['sin', 'cos', 'tan'];
+
+const NAMED = ['area', 'perimeter'] as const;
+
+const isNamed = (quantity: string): quantity is typeof NAMED[number] => (NAMED as readonly string[]).includes(quantity);
+
+// --- Values ---
+
+const plainLabel = (quantity: string, n: Notation) =>
+  isNamed(quantity) ? n.t(`quantity.${quantity}`) : RATIOS.includes(quantity) ? `${quantity} α` : n.sym(quantity);
+
+const latexLabel = (quantity: string, n: Notation) =>
+  isNamed(quantity) ? `\\text{${n.t(`quantity.${quantity}`)}}` : RATIOS.includes(quantity) ? `\\${quantity}\\alpha` : n.sym(quantity);
+
+const plainValue = ({ quantity, value }: ExportValue, options: RenderOptions) =>
+  ANGLES.includes(quantity) ? formatAngle(value, options)
+    : RATIOS.includes(quantity) ? plainNotation(options).res(value)
+    : formatLength(value, options, quantity === 'area' ? 2 : 1);
+
+/** `a \approx 5.0000\,\text{cm}`, `\text{Área} = 6\,\text{cm}^2`… */
+const latexValue = ({ quantity, value }: ExportValue, options: RenderOptions) => {
+  const n = latexNotation(options);
+  const label = latexLabel(quantity, n);
+  if (ANGLES.includes(quantity)) return `${label} ${n.eq(value, true)}`;
+  if (RATIOS.includes(quantity)) return `${label} ${n.eq(value)}`;
+  const unit = options.units?.length ?? 'u';
+  const power = quantity === 'area' && unit !== 'u' ? '^2' : '';
+  return `${label} ${n.eq(value).replace(/^(\S+) (.*)$/, (_, sign, x) => `${sign} ${n.len(x)}${power}`)}`;
+};
+
+// --- LaTeX ---
+
+// Characters the plain-text explanations use, for pdfLaTeX.
+const UNICODE_CHARS: Record<string, string> = {
+  'α': '\\alpha', 'β': '\\beta', 'γ': '\\gamma', 'π': '\\pi', '°': '^\\circ', '²': '^2', '√': '\\surd',
+  '≈': '\\approx', '·': '\\cdot', '⇒': '\\Rightarrow', '≥': '\\geq', '′': '\'', '″': '\'\'', 'ᵍ': '^{g}',
+  ...Object.fromEntries([...'₀₁₂₃₄₅₆₇₈₉'].map((c, i) => [c, `_${i}`])),
+};
+
+const escapeLatex = (text: string) => text.replace(/[\\{}$&#%_~^]/g, c => (c === '\\' ? '\\textbackslash{}' : `\\${c}{}`));
+
+const tikzTriangle = ({ a, b, c, alpha }: NonNullable<ExportSection['triangle']>, options: RenderOptions) => {
+  const n = latexNotation(options);
+  const rad = (alpha * Math.PI) / 180;
+  const raw = [{ x: 0, y: 0 }, { x: c, y: 0 }, { x: b * Math.cos(rad), y: b * Math.sin(rad) }];
+  const minX = Math.min(...raw.map(p => p.x));
+  const size = Math.max(...raw.map(p => p.x)) - minX || 1;
+  const scale = 8 / Math.max(size, ...raw.map(p => p.y));
+  const [A, B, C] = raw.map(p => ({ x: (p.x - minX) * scale, y: p.y * scale }));
+  const centroid = { x: (A.x + B.x + C.x) / 3, y: (A.y + B.y + C.y) / 3 };
+  const point = (p: { x: number; y: number }) => `(${p.x.toFixed(3)}, ${p.y.toFixed(3)})`;
+  // Side labels sit just outside each side, angle labels just inside each vertex.
+  const away = (p: { x: number; y: number }, distance: number) => {
+    const len = Math.hypot(p.x - centroid.x, p.y - centroid.y) || 1;
+    return { x: p.x + ((p.x - centroid.x) / len) * distance, y: p.y + ((p.y - centroid.y) / len) * distance };
+  };
+  const mid = (p: typeof A, q: typeof A) => ({ x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 });
+  return [
+    '\\begin{center}',
+    '\\begin{tikzpicture}',
+    `  \\draw[thick] ${point(A)} -- ${point(B)} -- ${point(C)} -- cycle;`,
+    `  \\node at ${point(away(mid(B, C), 0.4))} {$a = ${n.len(n.res(a))}$};`,
+    `  \\node at ${point(away(mid(A, C), 0.4))} {$b = ${n.len(n.res(b))}$};`,
+    `  \\node at ${point(away(mid(A, B), 0.4))} {$c = ${n.len(n.res(c))}$};`,
+    `  \\node at ${point(away(A, -0.6))} {$\\alpha$};`,
+    `  \\node at ${point(away(B, -0.6))} {$\\beta$};`,
+    `  \\node at ${point(away(C, -0.6))} {$\\gamma$};`,
+    '\\end{tikzpicture}',
+    '\\end{center}',
+  ].join('\n');
+};
+
+/** A standalone article for pdfLaTeX, with the triangle drawn in TikZ. */
+export const exportLatex = (doc: ExportDocument, options: RenderOptions = {}) => {
+  const t = translator(options.locale);
+  const steps = doc.steps.map(step => renderKatex(step, options)).map(({ text, math }) =>
+    `  \\item ${escapeLatex(text)}${math ? `\n\n  \\[ ${math} \\]` : ''}`);
+  const sections = doc.sections.map(section => [
+    section.title && `\\subsection*{${escapeLatex(section.title)}}`,
+    section.triangle && tikzTriangle(section.triangle, options),
+    '\\begin{align*}',
+    section.values.map(v => `  ${latexValue(v, options).replace(/ (=|\\approx) /, ' &$1 ')}`).join(' \\\\\n'),
+    '\\end{align*}',
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '\\documentclass[11pt]{article}',
+    '\\usepackage[utf8]{inputenc}',
+    '\\usepackage[margin=2.5cm]{geometry}',
+    '\\usepackage{amsmath, amssymb, tikz, newunicodechar}',
+    ...Object.entries(UNICODE_CHARS).map(([c, latex]) => `\\newunicodechar{${c}}{\\ensuremath{${latex}}}`),
+    '',
+    '\\begin{document}',
+    `\\section*{${escapeLatex(doc.title)}}`,
+    doc.note && `${escapeLatex(doc.note)}\n`,
+    `\\subsection*{${escapeLatex(t('export.procedure'))}}`,
+    '\\begin{enumerate}',
+    ...steps,
+    '\\end{enumerate}',
+    '',
+    `\\subsection*{${escapeLatex(t('export.result'))}}`,
+    ...sections,
+    '\\end{document}',
+    '',
+  ].filter(line => line !== undefined).join('\n');
+};
+
+// --- Markdown ---
+
+const svgDataUri = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+/** Markdown with `$…$` math and the drawings embedded as data URIs. */
+export const exportMarkdown = (doc: ExportDocument, options: RenderOptions = {}) => {
+  const t = translator(options.locale);
+  return [
+    `# ${doc.title}`,
+    doc.note,
+    `## ${t('export.procedure')}`,
+    renderMarkdown(doc.steps, options),
+    `## ${t('export.result')}`,
+    ...doc.sections.map(section => [
+      section.title && `### ${section.title}`,
+      section.figure && `![${t('export.figure')}](${svgDataUri(section.figure)})`,
+      section.values.map(v => `- $${latexValue(v, options)}$`).join('\n'),
+    ].filter(Boolean).join('\n\n')),
+  ].filter(Boolean).join('\n\n') + '\n';
+};
+
+// --- HTML ---
+
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!);
+
+// MathML needs no stylesheet or fonts, so the handout works offline and prints as is.
+export const mathml = (math: string, displayMode = false) => katex.renderToString(math, { output: 'mathml', throwOnError: false, displayMode });
+
+const HANDOUT_STYLE = `
+  body { font-family: system-ui, sans-serif; color: #0f172a; max-width: 48rem; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.5; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.15rem; margin-top: 2rem; border-bottom: 1px solid #cbd5e1; padding-bottom: 0.25rem; }
+  ol li { margin-bottom: 0.75rem; }
+  figure { margin: 1rem auto; text-align: center; }
+  figure svg { max-width: 100%; height: auto; }
+  table { border-collapse: collapse; margin: 0.5rem 0 1rem; }
+  td { padding: 0.25rem 1rem; border-bottom: 1px solid #e2e8f0; }
+  td:first-child { color: #475569; }
+  footer { margin-top: 3rem; font-size: 0.75rem; color: #94a3b8; }
+  @media print { body { margin: 0 auto; } h2 { break-after: avoid; } figure, table { break-inside: avoid; } }
+`;
+
+/** A printable page with the handout style; `style` adds rules of its own. */
+export const htmlPage = (title: string, body: string, style = '', locale: Locale = DEFAULT_LOCALE) => `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HANDOUT_STYLE}${style}</style>
+</head>
+<body>
+${body}
+<footer>${escapeHtml(translator(locale)('export.footer'))}</footer>
+</body>
+</html>
+`;
+
+/** A self-contained page to print or save as PDF. */
+export const exportHtml = (doc: ExportDocument, options: RenderOptions = {}) => {
+  const plain = plainNotation(options);
+  const { t } = plain;
+  const steps = doc.steps.map(step => renderKatex(step, options)).map(({ text, math }) =>
+    `<li>${escapeHtml(text)}${math ? `<div>${mathml(math, true)}</div>` : ''}</li>`);
+  const sections = doc.sections.map(section => [
+    section.title && `<h3>${escapeHtml(section.title)}</h3>`,
+    section.figure && `<figure>${section.figure}</figure>`,
+    '<table>',
+    ...section.values.map(v => `<tr><td>${escapeHtml(plainLabel(v.quantity, plain))}</td><td>${escapeHtml(plainValue(v, options))}</td></tr>`),
+    '</table>',
+  ].filter(Boolean).join('\n'));
+
+  return htmlPage(doc.title, `<h1>${escapeHtml(doc.title)}</h1>
+${doc.note ? `<p>${escapeHtml(doc.note)}</p>` : ''}
+<h2>${escapeHtml(t('export.procedure'))}</h2>
+<ol>
+${steps.join('\n')}
+</ol>
+<h2>${escapeHtml(t('export.result'))}</h2>
+${sections.join('\n')}`, '', options.locale);
+};
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { RefObject, useEffect } from 'react';
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Modal dialog behaviour while `open`: focus moves into `ref` (to the
+ * dialog itself when it has tabIndex -1, else to its first control), Tab and
+ * Shift+Tab cycle inside it, Escape calls `onEscape`, and focus returns to
+ * whatever had it before once the dialog closes.
+ */
+export const useFocusTrap = (ref: RefObject<HTMLElement | null>, open: boolean, onEscape?: () => void) => {
+  useEffect(() => {
+    if (!open) return;
+    const previous = document.activeElement as HTMLElement | null;
+    const focusable = () => [...(ref.current?.querySelectorAll<HTMLElement>(FOCUSABLE) ?? [])];
+    (ref.current?.getAttribute('tabindex') === '-1' ? ref.current : focusable()[0] ?? ref.current)?.focus();
+
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && onEscape) {
+        e.preventDefault();
+        onEscape();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+      const elements = focusable();
+      if (elements.length === 0) return e.preventDefault();
+      const [first, last] = [elements[0], elements[elements.length - 1]];
+      const inside = ref.current?.contains(document.activeElement);
+      if (e.shiftKey && (document.activeElement === first || !inside)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (document.activeElement === last || !inside)) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    document.addEventListener('keydown', onKey);
+    return () => {
+      document.removeEventListener('keydown', onKey);
+      previous?.focus();
+    };
+  }, [open]);
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PRECISION, formatExact, formatFixed, formatNumber, recognizeExact, roundTo } from './format';
+
+const settings = (overrides: Partial<typeof DEFAULT_PRECISION>) => ({ ...DEFAULT_PRECISION, ...overrides });
+
+describe('roundTo', () => {
+  it('supports every rounding mode', () => {
+    expect(roundTo(2.5, 0, 'half-up')).toBe(3);
+    expect(roundTo(2.5, 0, 'half-even')).toBe(2);
+    expect(roundTo(3.5, 0, 'half-even')).toBe(4);
+    expect(roundTo(2.1, 0, 'up')).toBe(3);
+    expect(roundTo(2.9, 0, 'down')).toBe(2);
+  });
+
+  it('is symmetric around zero and tolerates float noise', () => {
+    expect(roundTo(-2.5, 0, 'half-up')).toBe(-3);
+    expect(roundTo(-2.9, 0, 'down')).toBe(-2);
+    expect(roundTo(2.675, 2, 'half-up')).toBe(2.68);
+    expect(roundTo(0.1 + 0.2, 1, 'up')).toBe(0.3);
+  });
+});
+
+describe('formatFixed', () => {
+  it('keeps trailing zeros at the configured decimals', () => {
+    expect(formatFixed(5, DEFAULT_PRECISION)).toBe("5.0000");
+    expect(formatFixed(36.869897, settings({ digits: 2 }))).toBe("36.87");
+  });
+
+  it('counts significant figures', () => {
+    const sig = settings({ mode: 'significant', digits: 3 });
+    expect(formatFixed(36.869897, sig)).toBe("36.9");
+    expect(formatFixed(0.0123456, sig)).toBe("0.0123");
+    expect(formatFixed(12345, sig)).toBe("12300");
+    expect(formatFixed(9.996, sig)).toBe("10.0");
+  });
+});
+
+describe('recognizeExact', () => {
+  it('recognizes surds and fractions', () => {
+    expect(formatExact(recognizeExact(Math.SQRT2)!, 'plain')).toBe("√2");
+    expect(formatExact(recognizeExact(2 * Math.sqrt(3))!, 'plain')).toBe("2√3");
+    expect(formatExact(recognizeExact(2.5)!, 'plain')).toBe("5/2");
+    expect(formatExact(recognizeExact(Math.sin(Math.PI / 3))!, 'latex')).toBe("\\frac{\\sqrt{3}}{2}");
+    expect(formatExact(recognizeExact(-0.5)!, 'plain')).toBe("-1/2");
+  });
+
+  it('rejects values without a simple exact form', () => {
+    expect(recognizeExact(Math.PI)).toBeNull();
+    expect(recognizeExact(36.86989764584402)).toBeNull();
+  });
+
+  it('leaves plain decimals alone, however close to some surd', () => {
+    // The perimeter for a = 10, b = 28.1, once taken for 4√127173/21.
+    expect(recognizeExact(10 + 28.1 + Math.hypot(10, 28.1))).toBeNull();
+    expect(recognizeExact(Math.sqrt(3588661) / 23)).toBeNull();
+    expect(recognizeExact(82.3645)).toBeNull();
+  });
+});
+
+describe('formatNumber', () => {
+  it('prefers the exact form only in exact mode', () => {
+    expect(formatNumber(Math.SQRT2)).toBe("1.4142");
+    expect(formatNumber(Math.SQRT2, settings({ exact: true }))).toBe("√2");
+    expect(formatNumber(Math.PI, settings({ exact: true, digits: 2 }))).toBe("3.14");
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PrecisionSettings, RoundingMode } from '../types';
+
+export const DEFAULT_PRECISION: PrecisionSettings = {
+  mode: 'decimals',
+  digits: 4,
+  rounding: 'half-up',
+  exact: false,
+};
+
+// --- Rounding ---
+
+/** Slack for binary floating point noise, e.g. 2.675 being stored as 2.67499999… */
+const FLOAT_SLACK = 1e-9;
+
+const roundScaled = (x: number, rounding: RoundingMode) => {
+  const floor = Math.floor(x);
+  const fraction = x - floor;
+  switch (rounding) {
+    case 'down':
+      return fraction > 1 - FLOAT_SLACK ? floor + 1 : floor;
+    case 'up':
+      return fraction < FLOAT_SLACK ? floor : floor + 1;
+    case 'half-even':
+      if (Math.abs(fraction - 0.5) < FLOAT_SLACK) return floor % 2 === 0 ? floor : floor + 1;
+      return fraction > 0.5 ? floor + 1 : floor;
+    default:
+      return fraction >= 0.5 - FLOAT_SLACK ? floor + 1 : floor;
+  }
+};
+
+/** Rounds `v` to `decimals` places (negative for tens, hundreds…); modes are symmetric around zero. */
+export const roundTo = (v: number, decimals: number, rounding: RoundingMode = 'half-up') => {
+  const factor = 10 ** decimals;
+  const rounded = roundScaled(Math.abs(v) * factor, rounding) / factor;
+  return v < 0 ? -rounded : rounded;
+};
+
+/** Decimal places needed to show `v` with the configured decimals or significant figures. */
+const decimalsFor = (v: number, { mode, digits }: PrecisionSettings) => {
+  if (mode === 'decimals' || v === 0) return digits;
+  return Math.max(1, digits) - 1 - Math.floor(Math.log10(Math.abs(v)));
+};
+
+/** `v` at the configured precision, keeping trailing zeros ("5.0000"). */
+export const formatFixed = (v: number, settings: PrecisionSettings) => {
+  if (!isFinite(v)) return `${v}`;
+  let decimals = decimalsFor(v, settings);
+  let rounded = roundTo(v, decimals, settings.rounding);
+  // Rounding up can add a digit (9.99 → 10.0); recompute for significant figures.
+  if (settings.mode === 'significant' && rounded !== 0 && decimalsFor(rounded, settings) !== decimals) {
+    decimals = decimalsFor(rounded, settings);
+    rounded = roundTo(v, decimals, settings.rounding);
+  }
+  return rounded.toFixed(Math.max(0, decimals));
+};
+
+/** `v` at the configured precision without trailing zeros ("5", "36.8699"). */
+export const formatTrimmed = (v: number, settings: PrecisionSettings) =>
+  isFinite(v) ? `${+formatFixed(v, settings)}` : `${v}`;
+
+// --- Exact values ---
+
+/** `sign · coefficient · √radicand / denominator`, radicand square-free. */
+export interface ExactValue {
+  negative: boolean;
+  coefficient: number;
+  radicand: number;
+  denominator: number;
+}
+
+const MAX_DENOMINATOR = 24;
+const MAX_SQUARE = 1e7;
+/** Larger square-free radicands are too rare to be more than a coincidence of digits. */
+const MAX_RADICAND = 500;
+/** Absolute, on `x · denominator`, so large values get no looser a match than small ones. */
+const EXACT_TOLERANCE = 1e-9;
+
+const gcd = (x: number, y: number): number => (y === 0 ? x : gcd(y, x % y));
+
+/** Splits n into k²·m with m square-free. */
+const simplifyRoot = (n: number) => {
+  let coefficient = 1;
+  let radicand = n;
+  for (let f = 2; f * f <= radicand; f++) {
+    while (radicand % (f * f) === 0) {
+      radicand /= f * f;
+      coefficient *= f;
+    }
+  }
+  return { coefficient, radicand };
+};
+
+/**
+ * Recognizes floating point values that are really simple surds or fractions
+ * (√2, 2√3, 5/2, √3/2…), as produced by integer inputs and special angles.
+ */
+export const recognizeExact = (v: number): ExactValue | null => {
+  if (!isFinite(v)) return null;
+  const x = Math.abs(v);
+  if (x === 0) return { negative: false, coefficient: 0, radicand: 1, denominator: 1 };
+
+  for (let denominator = 1; denominator <= MAX_DENOMINATOR; denominator++) {
+    const scaled = x * denominator;
+    const n = Math.round(scaled ** 2);
+    if (n === 0 || n > MAX_SQUARE || Math.abs(scaled - Math.sqrt(n)) > EXACT_TOLERANCE) continue;
+
+    const { coefficient, radicand } = simplifyRoot(n);
+    if (radicand > MAX_RADICAND) continue;
+    const divisor = gcd(coefficient, denominator);
+    return { negative: v < 0, coefficient: coefficient / divisor, radicand, denominator: denominator / divisor };
+  }
+  return null;
+};
+
+export const formatExact = ({ negative, coefficient, radicand, denominator }: ExactValue, style: 'latex' | 'plain') => {
+  const root = radicand === 1 ? '' : style === 'latex' ? `\\sqrt{${radicand}}` : `√${radicand}`;
+  const numerator = root && coefficient === 1 ? root : `${coefficient}${root}`;
+  const sign = negative ? '-' : '';
+  if (denominator === 1) return `${sign}${numerator}`;
+  return style === 'latex' ? `${sign}\\frac{${numerator}}{${denominator}}` : `${sign}${numerator}/${denominator}`;
+};
+
+const NUMBER = String.raw`\d+(?:[.,]\d+)?`;
+const EXACT_PATTERN = new RegExp(`^(-)?(${NUMBER})?(?:(?:√|sqrt)\\(?(${NUMBER})\\)?)?(?:/(${NUMBER}))?°?$`, 'i');
+
+/**
+ * Reads a typed answer: decimals with a point or comma ("0,5"), or the exact
+ * forms `formatExact` writes ("2√3", "√3/2", "5/2"). NaN when unreadable or
+ * not finite, as with a zero denominator.
+ */
+export const parseNumber = (text: string): number => {
+  const match = text.replace(/\s+/g, '').match(EXACT_PATTERN);
+  if (!match || (match[2] === undefined && match[3] === undefined)) return NaN;
+  const [, sign, coefficient = '1', radicand = '1', denominator = '1'] = match;
+  const read = (s: string) => parseFloat(s.replace(',', '.'));
+  const value = ((sign ? -1 : 1) * read(coefficient) * Math.sqrt(read(radicand))) / read(denominator);
+  return Number.isFinite(value) ? value : NaN;
+};
+
+// --- UI ---
+
+/** A result for display outside of KaTeX: exact when possible in exact mode, else rounded. */
+export const formatNumber = (v: number, settings: PrecisionSettings = DEFAULT_PRECISION) => {
+  const exact = settings.exact ? recognizeExact(v) : null;
+  return exact ? formatExact(exact, 'plain') : formatFixed(v, settings);
+};
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HistoryEntry, NewHistoryEntry } from '../types';
+import { ServerError } from './api';
+import { deleteHistory, filterHistory, historyFailure, listHistory, saveHistory, syncHistory } from './history';
+import { translator } from './i18n';
+import { DEFAULT_UNITS } from './units';
+
+const entry = (summary: string): NewHistoryEntry => ({
+  mode: 'pythagoras',
+  input: { fields: { a: '3', b: '4' }, fieldUnits: {}, units: DEFAULT_UNITS },
+  output: [{ c: 5 }],
+  steps: [],
+  summary,
+});
+
+const offline = () => Promise.reject(new TypeError('Failed to fetch'));
+
+describe('filterHistory', () => {
+  const entries = [
+    { ...entry("a = 3, b = 4 → c = 5"), id: 1, createdAt: '' },
+    { ...entry("C = 10, α = 30°"), id: 2, createdAt: '', mode: 'trig' },
+  ] as HistoryEntry[];
+
+  it('matches the summary ignoring case, or the mode', () => {
+    expect(filterHistory(entries, 'c = 5').map(e => e.id)).toEqual([1]);
+    expect(filterHistory(entries, 'trig').map(e => e.id)).toEqual([2]);
+    expect(filterHistory(entries, '')).toHaveLength(2);
+  });
+});
+
+describe('historyFailure', () => {
+  it('words the server code in the locale', () => {
+    const t = translator('en');
+    expect(historyFailure(new ServerError('entry-not-found', 404), t)).toBe("That calculation is no longer in the history.");
+    expect(historyFailure(new ServerError('server', 500), t)).toBe(t('history.error.server'));
+    expect(historyFailure(new TypeError('Failed to fetch'), translator('pt-BR'))).toBe(translator('pt-BR')('history.offline'));
+  });
+});
+
+describe('history without the server', () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+    });
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('keeps what was saved offline and sends it once the server is back', async () => {
+    vi.stubGlobal('fetch', vi.fn(offline));
+    const saved = await saveHistory(entry("a = 3, b = 4 → c = 5"));
+    expect(saved.id).toBeLessThan(0);
+    expect(await listHistory('c = 5')).toEqual([saved]);
+
+    const fetch = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify({ ...saved, id: 7 }), { status: 201 }));
+    vi.stubGlobal('fetch', fetch);
+    await syncHistory();
+    expect(JSON.parse(fetch.mock.calls[0][1]!.body as string)).toEqual(entry("a = 3, b = 4 → c = 5"));
+
+    vi.stubGlobal('fetch', vi.fn(offline));
+    expect(await listHistory()).toEqual([]);
+  });
+
+  it('shows the last list the server sent', async () => {
+    const list = [{ ...entry("c = 5"), id: 1, createdAt: '2026-01-01T00:00:00.000Z' }];
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(list))));
+    await listHistory();
+
+    vi.stubGlobal('fetch', vi.fn(offline));
+    expect(await listHistory()).toEqual(list);
+  });
+
+  it('deletes an entry saved offline without the server', async () => {
+    vi.stubGlobal('fetch', vi.fn(offline));
+    const saved = await saveHistory(entry("c = 5"));
+    await deleteHistory(saved.id);
+    expect(await listHistory()).toEqual([]);
+  });
+
+  it('keeps at most as many entries as the server lists and survives a full storage', async () => {
+    let id = 0;
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ ...entry("c = 5"), id: ++id, createdAt: '' }), { status: 201 })));
+    for (let i = 0; i < 201; i++) await saveHistory(entry("c = 5"));
+    vi.stubGlobal('fetch', vi.fn(offline));
+    const copy = await listHistory();
+    expect(copy).toHaveLength(200);
+    expect(copy[0].id).toBe(201);
+
+    localStorage.setItem = () => {
+      throw new DOMException('full', 'QuotaExceededError');
+    };
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ ...entry("c = 5"), id: 202, createdAt: '' }), { status: 201 })));
+    expect((await saveHistory(entry("c = 5"))).id).toBe(202);
+  });
+});
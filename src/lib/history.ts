@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { HistoryEntry, HistoryErrorCode, NewHistoryEntry } from '../types';
+import { responseError, ServerError } from './api';
+import { Translate } from './i18n';
+
+const ENDPOINT = '/api/history';
+
+/** The last list the server sent, shown while it can't be reached. */
+const COPY_KEY = 'geomaster.history';
+/** Calculations saved while offline, sent once the server is back. */
+const PENDING_KEY = 'geomaster.history.pending';
+/** The most the server lists at once (`MAX_LIMIT` there), and so the most worth keeping a copy of. */
+const COPY_LIMIT = 200;
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) throw await responseError(response);
+  return (response.status === 204 ? undefined : await response.json()) as T;
+};
+
+// fetch rejects with a TypeError only when no response arrived at all.
+const isOffline = (err: unknown) => err instanceof TypeError;
+
+const ERRORS: HistoryErrorCode[] = ['invalid-entry', 'entry-not-found'];
+
+/** What went wrong, in words of the locale: the server's reason, or that it could not be reached. */
+export const historyFailure = (err: unknown, t: Translate) => {
+  if (isOffline(err)) return t('history.offline');
+  const code = err instanceof ServerError && ERRORS.find(known => known === err.code);
+  return code ? t(`history.error.${code}`) : t('history.error.server');
+};
+
+// --- Offline copy ---
+
+const read = (key: string): HistoryEntry[] => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+/** A full localStorage leaves the copy as it was rather than failing the calculation being saved. */
+const write = (key: string, entries: HistoryEntry[]) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(entries));
+  } catch (err) {
+    if (!(err instanceof DOMException && err.name === 'QuotaExceededError')) throw err;
+  }
+};
+
+/** The same matching as the server: anywhere in the summary, ignoring case, or a mode name exactly. */
+export const filterHistory = (entries: HistoryEntry[], query: string) => {
+  const needle = query.toLowerCase();
+  return entries.filter(e => !query || e.summary.toLowerCase().includes(needle) || e.mode === query);
+};
+
+const sendPending = async () => {
+  for (const { id, createdAt, ...entry } of read(PENDING_KEY).reverse()) {
+    try {
+      await request<HistoryEntry>(ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(entry),
+      });
+    } catch (err) {
+      // Still offline: the rest waits for the next try. One the server rejects would never get in.
+      if (isOffline(err)) throw err;
+    }
+    write(PENDING_KEY, read(PENDING_KEY).filter(e => e.id !== id));
+  }
+};
+
+let syncing: Promise<void> | null = null;
+
+/**
+ * Sends the calculations saved offline, oldest first. Each one leaves the
+ * queue as soon as the server has it, so a connection lost halfway loses nothing.
+ */
+export const syncHistory = () => {
+  syncing ??= sendPending().finally(() => (syncing = null));
+  return syncing;
+};
+
+// --- API ---
+
+/** Newest first. Without the server, the last list it sent plus whatever was saved since. */
+export const listHistory = async (query = '') => {
+  try {
+    await syncHistory();
+    const entries = await request<HistoryEntry[]>(`${ENDPOINT}?${new URLSearchParams({ q: query })}`);
+    if (!query) write(COPY_KEY, entries);
+    return entries;
+  } catch (err) {
+    if (!isOffline(err)) throw err;
+    return filterHistory([...read(PENDING_KEY), ...read(COPY_KEY)], query);
+  }
+};
+
+/** Offline, the entry waits in this browser with a negative id until `syncHistory` sends it. */
+export const saveHistory = async (entry: NewHistoryEntry) => {
+  try {
+    const saved = await request<HistoryEntry>(ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(entry),
+    });
+    write(COPY_KEY, [saved, ...read(COPY_KEY)].slice(0, COPY_LIMIT));
+    return saved;
+  } catch (err) {
+    if (!isOffline(err)) throw err;
+    const pending: HistoryEntry = { ...entry, id: -Date.now(), createdAt: new Date().toISOString() };
+    write(PENDING_KEY, [pending, ...read(PENDING_KEY)]);
+    return pending;
+  }
+};
+
+export const deleteHistory = async (id: number) => {
+  if (id < 0) return write(PENDING_KEY, read(PENDING_KEY).filter(e => e.id !== id));
+  await request<void>(`${ENDPOINT}/${id}`, { method: 'DELETE' });
+  write(COPY_KEY, read(COPY_KEY).filter(e => e.id !== id));
+};
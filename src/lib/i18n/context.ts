@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createContext, useContext } from 'react';
+import { Locale } from '../../types';
+import { DEFAULT_LOCALE, translator } from './index';
+
+/** The interface language, provided by `App`. */
+export const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+export const useTranslation = () => {
+  const locale = useContext(LocaleContext);
+  return { locale, t: translator(locale) };
+};
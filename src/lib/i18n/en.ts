@@ -0,0 +1,550 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Messages } from './es';
+
+export const en: Messages = {
+  // --- App ---
+  'app.history': "History",
+  'app.review': "Geometry review",
+  'app.theme': "Toggle theme",
+  'app.language': "Language",
+  'app.close': "Close",
+  'app.info': "More information",
+  'app.modes': "Modes",
+  'app.copied': "Copied to the clipboard.",
+
+  'tab.pythagoras': "Pythagoras",
+  'tab.trig': "Trigonometry",
+  'tab.right': "Solve",
+  'tab.oblique': "General",
+  'tab.practice': "Practice",
+  'tab.worksheet': "Worksheets",
+  'tab.templates': "Applications",
+  'tab.coordinates': "Coordinates",
+  'tab.classroom': "Class",
+  'tab.pythagoras.title': "Pythagoras Calculator",
+  'tab.pythagoras.hint': "Enter 2 values to find the third.",
+  'tab.trig.title': "Trigonometric Ratios",
+  'tab.trig.hint': "Enter an angle and a side.",
+  'tab.right.title': "Right Triangle",
+  'tab.right.hint': "Enter any 2 values (at least one side) to solve the whole triangle.",
+  'tab.oblique.title': "General Triangle",
+  'tab.oblique.hint': "Enter 3 values (at least one side): SSS, SAS, ASA, AAS or SSA.",
+  'tab.practice.title': "Practice Mode",
+  'tab.practice.hint': "Solve generated exercises and check your answers.",
+  'tab.worksheet.title': "Worksheets",
+  'tab.worksheet.hint': "Generate printable exercise sheets with their answer key.",
+  'tab.templates.title': "Applied Problems",
+  'tab.templates.hint': "Pick a situation and enter its data: it is solved as a right triangle.",
+  'tab.coordinates.title': "Coordinate Geometry",
+  'tab.coordinates.hint': "Place two points in the plane or in space: the distance between them is the hypotenuse of a right triangle.",
+  'tab.classroom.title': "Class",
+  'tab.classroom.hint': "Create a class and assign work, or join one with its code and solve it.",
+
+  'field.leg': "Leg {side}",
+  'field.hypotenuse': "Hypotenuse {side}",
+  'field.side': "Side {side}",
+  'field.angle': "Angle {angle}",
+  'field.value-of': "Value of {side}",
+  'field.opposite': "Opposite {side}",
+  'field.known-side': "Known side",
+  'field.value': "Value",
+  'field.example': "E.g. {value}",
+  'field.unit': "Unit of {field}",
+  'action.calculate': "Calculate",
+
+  'side.a': "Opposite Leg (a)",
+  'side.b': "Adjacent Leg (b)",
+  'side.c': "Hypotenuse (c)",
+
+  'case.SSS': "SSS (three sides)",
+  'case.SAS': "SAS (two sides and the included angle)",
+  'case.ASA': "ASA (two angles and the included side)",
+  'case.AAS': "AAS (two angles and a non-included side)",
+  'case.SSA': "SSA (ambiguous case)",
+
+  'result.title': "Result",
+  'result.case': "Case {name}",
+  'result.solution': "Solution {n}",
+  'result.no-triangle': "No triangle exists with these values.",
+  'result.none': "no solution",
+  'result.share': "Copy link",
+  'result.copy': "Copy solution",
+  'quantity.area': "Area",
+  'quantity.perimeter': "Perimeter",
+  'quantity.sin': "Sine (sin α)",
+  'quantity.cos': "Cosine (cos α)",
+  'quantity.tan': "Tangent (tan α)",
+  'quantity.sec': "Secant (sec α)",
+  'quantity.csc': "Cosecant (csc α)",
+  'quantity.cot': "Cotangent (cot α)",
+
+  'steps.title': "Step-by-Step Solution",
+  'steps.empty': "Enter the data and press calculate to see the detailed solution.",
+
+  // --- Review ---
+  'review.title': "Geometry Review",
+  'review.close': "Got it",
+
+  // --- Lessons ---
+  'lessons.index': "Lessons",
+  'lessons.search': "Search the lessons",
+  'lessons.no-results': "No lesson mentions “{query}”.",
+  'lessons.open': "Open in the calculator",
+  'lessons.invalid-example': "These values make no right triangle.",
+
+  // --- Proofs ---
+  'proofs.title': "Proofs",
+  'proofs.intro': "Each proof is drawn with your triangle: a = {a}, b = {b} and c = {c}.",
+  'proofs.sample': "You haven't solved one yet, so the 3-4-5 triangle is used.",
+  'proofs.stage': "Step {n} of {total}",
+  'proofs.previous': "Previous",
+  'proofs.next': "Next",
+  'proofs.holds': "The areas match: a² + b² = c².",
+  'proofs.fails': "With c = {c} the numbers don't add up: a² + b² = {sum}, but c² = {c2}. This triangle is not right-angled.",
+  'proofs.squares.title': "Squares",
+  'proofs.squares.0': "The triangle with sides a = {a}, b = {b} and c = {c}.",
+  'proofs.squares.1': "A square stands on each leg: their areas are a² = {a2} and b² = {b2}.",
+  'proofs.squares.2': "On side c, another square of area c² = {c2}.",
+  'proofs.squares.3': "Together, the two small squares have an area of {sum}.",
+  'proofs.rearrangement.title': "Rearrangement",
+  'proofs.rearrangement.0': "Four copies of the triangle inside a square of side a + b = {s} leave a tilted square of side c free in the middle.",
+  'proofs.rearrangement.1': "The big square is (a + b)² = {big}: the four triangles, 4 · ab/2 = {triangles}, plus the gap c².",
+  'proofs.rearrangement.2': "Move the same triangles into the corners: the gap becomes two squares, a² = {a2} and b² = {b2}.",
+  'proofs.rearrangement.3': "Neither the big square nor the triangles changed, so neither did the gap: c² is a² + b².",
+  'proofs.euclid.title': "Euclid",
+  'proofs.euclid.0': "The squares on the three sides of the right triangle, as in Euclid's Elements.",
+  'proofs.euclid.1': "The altitude from the right angle meets the hypotenuse at H and splits the square on c into two rectangles.",
+  'proofs.euclid.2': "The rectangle by A is c · {byA} = {b2}: two congruent triangles (SAS) show it equals b².",
+  'proofs.euclid.3': "In the same way, the rectangle by B is c · {byB} = {a2}, the same as a².",
+  'proofs.euclid.4': "The two rectangles fill the square on c, so c² is the sum of a² and b².",
+  'proofs.garfield.title': "Garfield",
+  'proofs.garfield.0': "Two copies of the triangle standing on a line, one on leg a and the other on leg b.",
+  'proofs.garfield.1': "Their hypotenuses meet at a right angle and close a third triangle of area c²/2.",
+  'proofs.garfield.2': "The three make a trapezoid of area (a + b)²/2 = {area}, which is also ab/2 + ab/2 + c²/2.",
+  'proofs.garfield.3': "Setting the two areas equal and doubling: a² + 2ab + b² = 2ab + c², that is, a² + b² = c².",
+
+  // --- Visualizer ---
+  'visualizer.title': "Visualization",
+  'visualizer.snap.free': "Free",
+  'visualizer.snap.length': "Whole sides",
+  'visualizer.snap.angle': "Whole angles",
+  'visualizer.drag-hint': "Drag the vertices, or focus them and use the arrow keys, to change the legs.",
+  'visualizer.description': "Right triangle with legs a = {a} and b = {b} and hypotenuse c = {c}.",
+  'visualizer.description-angles': "Its acute angles measure α = {alpha} and β = {beta}.",
+  'visualizer.oblique-description': "Triangle with sides a = {a}, b = {b} and c = {c}, and angles α = {alpha}, β = {beta} and γ = {gamma}.",
+
+  // --- Unit circle ---
+  'circle.title': "Unit circle",
+  'circle.angle': "Angle α (degrees)",
+  'circle.drag-hint': "Drag the point or the slider; negative angles and angles over 360° work too.",
+  'circle.quadrant': "Quadrant {n}",
+  'circle.on-axis': "On an axis",
+  'circle.reference': "Reference angle: {angle}",
+  'circle.coterminal': "Same position as {angle}",
+  'circle.undefined': "undefined",
+  'circle.acute': "α is acute: it is an angle of the right triangle with hypotenuse 1, whose opposite leg is sin α and adjacent leg cos α.",
+  'circle.graphs': "Graphs",
+  'circle.description': "Unit circle with α = {angle}; its point is ({cos}, {sin}).",
+  'circle.graph-description': "{fn}: at α = {angle} it is {value}.",
+
+  // --- Presenter ---
+  'presenter.open': "Present",
+  'presenter.title': "Presentation",
+  'presenter.step': "Step {n} of {total}",
+  'presenter.previous': "Previous",
+  'presenter.next': "Next",
+  'presenter.fullscreen': "Full screen",
+  'presenter.exit-fullscreen': "Exit full screen",
+  'presenter.close': "Close",
+  'presenter.keys': "← → or space to move on, F for full screen, Esc to leave.",
+
+  // --- Units and precision ---
+  'units.title': "Result units",
+  'units.length': "Length",
+  'units.angle': "Angles",
+  'units.hint': "Each value can be entered in another unit; a conversion step is added.",
+  'unit.u': "Units",
+  'unit.cm': "Centimeters",
+  'unit.m': "Meters",
+  'unit.in': "Inches",
+  'unit.ft': "Feet",
+  'unit.deg': "Degrees",
+  'unit.rad': "Radians",
+  'unit.grad': "Gradians",
+  'unit.dms': "Degrees, minutes and seconds",
+
+  'precision.title': "Precision",
+  'precision.round-to': "Round to",
+  'precision.decimals': "Decimal places",
+  'precision.significant': "Significant figures",
+  'precision.digits': "Digits",
+  'precision.rounding': "Rounding mode",
+  'precision.half-up': "Nearest (halves up)",
+  'precision.half-even': "Nearest even (banker's)",
+  'precision.up': "Up",
+  'precision.down': "Down (truncate)",
+  'precision.exact': "Exact mode",
+  'precision.exact.hint': "Keeps roots (2√3), fractions (5/2) and special angle values (sin 30° = 1/2).",
+
+  // --- History ---
+  'history.search': "Search (e.g. c = 5, α = 30°)",
+  'history.offline': "Could not connect to the local server. Start the app with npm run dev.",
+  'history.loading': "Loading…",
+  'history.no-match': "No calculation matches the search.",
+  'history.empty': "No saved calculations yet.",
+  'history.open': "Open",
+  'history.delete': "Delete",
+  'history.error.invalid-entry': "The local server did not accept that calculation.",
+  'history.error.entry-not-found': "That calculation is no longer in the history.",
+  'history.error.server': "The local server could not handle the request.",
+
+  // --- Updates ---
+  'update.available': "A new version of GeoMaster is available.",
+  'update.reload': "Update",
+  'update.later': "Later",
+
+  // --- Export ---
+  'export.title': "Export",
+  'export.pdf': "PDF (print)",
+  'export.html': "HTML handout",
+  'export.markdown': "Markdown",
+  'export.latex': "LaTeX",
+  'export.svg': "SVG figure",
+  'export.png': "PNG figure",
+  'export.image-error': "The image could not be generated.",
+  'export.procedure': "Solution",
+  'export.result': "Result",
+  'export.figure': "Triangle",
+  'export.footer': "Generated with GeoMaster",
+
+  // --- Practice ---
+  'difficulty.label': "Difficulty",
+  'difficulty.easy': "Easy (Pythagorean triples)",
+  'difficulty.medium': "Medium (special angles)",
+  'difficulty.hard': "Hard (decimals)",
+  'seed.label': "Code",
+  'seed.new': "New code",
+
+  'question.a': "leg a",
+  'question.b': "leg b",
+  'question.c': "the hypotenuse c",
+  'question.alpha': "the angle α (in degrees)",
+  'question.sin': "sin α",
+  'question.cos': "cos α",
+  'question.tan': "tan α",
+  'exercise.given': "In a right triangle (γ = 90°) you know:",
+  'exercise.ask': "Find {question}.",
+
+  'practice.count': "Exercises",
+  'practice.seed-hint': "The same code with the same difficulty and count always generates the same exercises.",
+  'practice.generate': "Generate exercises",
+  'practice.progress': "Progress",
+  'practice.empty': "Choose a difficulty and generate a set of exercises to practice.",
+  'practice.exercise': "Exercise {n} of {total}",
+  'practice.placeholder': "Your answer (e.g. {example}, 2√3, 1/2)",
+  'practice.check': "Check",
+  'practice.correct': "Correct!",
+  'practice.unreadable': "The answer could not be read.",
+  'practice.incorrect': "Incorrect.",
+  'practice.answer': "The answer is {answer}.",
+  'practice.first-step': "Show the first step",
+  'practice.next-step': "Show the next step",
+  'practice.revealed': "({n} of {total})",
+  'practice.next': "Next exercise",
+
+  // --- Worksheets ---
+  'topic.hypotenuse': "Pythagoras: hypotenuse",
+  'topic.leg': "Pythagoras: leg",
+  'topic.sin': "Sine",
+  'topic.cos': "Cosine",
+  'topic.tan': "Tangent",
+  'topic.angle': "Find the angle",
+
+  'worksheet.title': "Exercise worksheets",
+  'worksheet.topics': "Topics",
+  'worksheet.count': "Problems",
+  'worksheet.seed-hint': "The same code and settings always give the same worksheet.",
+  'worksheet.sheet': "Student sheet",
+  'worksheet.key': "Answer key",
+  'worksheet.print': "Print {page}",
+  'worksheet.download': "Download HTML",
+  'worksheet.file.sheet': "worksheet",
+  'worksheet.file.key': "answer-key",
+  'worksheet.empty': "Choose at least one topic and a code to generate the worksheet.",
+  'worksheet.sheet-title': "Exercise sheet",
+  'worksheet.key-title': "Answer key",
+  'worksheet.settings': "{topics} — {difficulty}, code {seed}",
+  'worksheet.problem': "Problem {n}",
+  'worksheet.answer': "Answer:",
+  'worksheet.name': "Name:",
+  'worksheet.date': "Date:",
+
+  // --- Word problems ---
+  'word.title': "Word problem",
+  'word.placeholder': "Paste a problem here, e.g.: A 5 m ladder leans against a wall at an angle of 60° with the ground; how high does it reach?",
+  'word.interpret': "Interpret",
+  'word.nothing': "No measurements found in the text. Write the numbers with their unit, for example 5 m or 60°.",
+  'word.given': "Data",
+  'word.unknown': "Unknown",
+  'word.cue': "from \"{cue}\"",
+  'word.role.none': "Unused",
+  'word.role.a': "a: height (opposite leg)",
+  'word.role.b': "b: distance (adjacent leg)",
+  'word.role.c': "c: hypotenuse",
+  'word.role.alpha': "α: angle with the ground",
+  'word.role.beta': "β: angle with the wall",
+  'word.role.area': "Area",
+  'word.role.perimeter': "Perimeter",
+  'word.confirm': "Confirm and solve",
+  'word.answer': "Answer: {answer}",
+
+  // --- Applied problems ---
+  'templates.situation': "Situation",
+  'templates.answer': "Answer",
+  'template.building.title': "Height of a building",
+  'template.building.description': "An observer some distance from a building looks at its top with an angle of elevation.",
+  'template.building.field.b': "Distance to the building",
+  'template.building.field.alpha': "Angle of elevation",
+  'template.building.field.h': "Eye height (optional)",
+  'template.building.result.H': "Height of the building",
+  'template.building.result.c': "Line of sight to the top",
+  'template.ladder.title': "Ladder against a wall",
+  'template.ladder.description': "A ladder leans against a wall with its foot some distance from it.",
+  'template.ladder.field.c': "Length of the ladder",
+  'template.ladder.field.b': "Distance from the foot to the wall",
+  'template.ladder.result.a': "Height it reaches on the wall",
+  'template.ladder.result.alpha': "Angle with the ground",
+  'template.ramp.title': "Ramp",
+  'template.ramp.description': "A ramp climbs a rise at a given incline.",
+  'template.ramp.field.a': "Rise to climb",
+  'template.ramp.field.alpha': "Incline of the ramp",
+  'template.ramp.result.c': "Length of the ramp",
+  'template.ramp.result.b': "Horizontal run",
+  'template.shadow.title': "Shadow and height of the sun",
+  'template.shadow.description': "A vertical pole casts its shadow on level ground.",
+  'template.shadow.field.a': "Height of the pole",
+  'template.shadow.field.b': "Length of the shadow",
+  'template.shadow.result.alpha': "Angle of elevation of the sun",
+  'template.shadow.result.c': "From the tip of the shadow to the top of the pole",
+  'template.lighthouse.title': "Angle of depression from a lighthouse",
+  'template.lighthouse.description': "From the top of a lighthouse a boat is seen at an angle of depression.",
+  'template.lighthouse.field.a': "Height of the lighthouse above the sea",
+  'template.lighthouse.field.delta': "Angle of depression",
+  'template.lighthouse.result.b': "Distance from the boat to the lighthouse",
+  'template.lighthouse.result.c': "Straight-line distance to the boat",
+  'template.bearing.title': "Navigation bearing",
+  'template.bearing.description': "A ship sails some distance on a bearing N β W: β degrees west of north.",
+  'template.bearing.field.c': "Distance sailed",
+  'template.bearing.field.beta': "Bearing (degrees west of north)",
+  'template.bearing.result.a': "Distance made good to the north",
+  'template.bearing.result.b': "Distance made good to the west",
+
+  // --- Coordinates ---
+  'coordinates.plane': "Plane",
+  'coordinates.space': "Space (3D)",
+  'coordinates.variant': "Where the points are",
+  'coordinates.point': "Point {name}",
+  'coordinates.coordinate': "{axis} coordinate of {name}",
+  'coordinates.results': "Results",
+  'coordinates.distance': "Distance",
+  'coordinates.midpoint': "Midpoint",
+  'coordinates.slope': "Slope",
+  'coordinates.inclination': "Inclination",
+  'coordinates.base': "Base diagonal",
+  'coordinates.vertical': "undefined (vertical line)",
+  'coordinates.plane-title': "Cartesian plane",
+  'coordinates.box-title': "Box",
+  'coordinates.drag-hint': "Drag the points, or select them and move them with the arrow keys.",
+  'coordinates.handle': "Point {name} at {point}",
+  'coordinates.description': "Cartesian plane with {p1} and {p2}; the distance between them is {distance}.",
+  'coordinates.box-description': "Box with edges {dx}, {dy} and {dz}; the base diagonal is {base} and the space diagonal {distance}.",
+
+  // --- Classroom ---
+  'classroom.role': "Who you are",
+  'classroom.teacher': "Teacher",
+  'classroom.student': "Student",
+  'classroom.classes': "Your classes",
+  'classroom.class-name': "Name of a new class",
+  'classroom.create': "Create class",
+  'classroom.empty': "Create a class to get started. It is kept in this browser.",
+  'classroom.code': "Class code",
+  'classroom.code-hint': "Students join in the Class tab with this code.",
+  'classroom.assign': "Assign work",
+  'classroom.assignment-title': "Title",
+  'classroom.assign-button': "Assign",
+  'classroom.assignments': "Assignments",
+  'classroom.no-assignments': "No assignments yet.",
+  'classroom.no-students': "No one has joined yet.",
+  'classroom.mastery': "Mastery by topic",
+  'classroom.mastery-detail': "{correct} of {answered} right",
+  'classroom.whole-class': "Whole class",
+  'classroom.average': "Average: {percent}%",
+  'classroom.refresh': "Refresh",
+  'classroom.export': "Download grades (CSV)",
+  'classroom.file': "grades",
+  'classroom.csv.assignment': "{title} (out of {count})",
+  'classroom.csv.total': "Total",
+  'classroom.join': "Join a class",
+  'classroom.your-name': "Your name",
+  'classroom.join-button': "Join",
+  'classroom.leave': "Leave the class",
+  'classroom.pick': "Pick a problem from an assignment.",
+  'classroom.try-again': "You can try again.",
+  'classroom.error.class-not-found': "That class does not exist or the key is not its teacher's.",
+  'classroom.error.not-joined': "You are not in any class.",
+  'classroom.error.class-name-missing': "The class needs a name.",
+  'classroom.error.invalid-assignment': "Invalid assignment.",
+  'classroom.error.name-missing': "Enter your name.",
+  'classroom.error.unknown-code': "There is no class with that code.",
+  'classroom.error.name-taken': "Someone in the class already has that name.",
+  'classroom.error.invalid-answer': "Invalid answer.",
+  'classroom.error.unknown-problem': "That problem does not exist.",
+  'classroom.error.too-many-classes': "Too many classes have been created from here. Try again in an hour.",
+  'classroom.error.server': "The local server could not handle the request.",
+
+  // --- Tutor ---
+  'tutor.title': "Tutor",
+  'tutor.intro': "Do the numbers make sense but not the why? The tutor explains each step and answers your questions.",
+  'tutor.explain': "Explain the steps",
+  'tutor.ask': "Ask something about this problem…",
+  'tutor.send': "Send",
+  'tutor.stop': "Stop",
+  'tutor.thinking': "Thinking…",
+  'tutor.error': "The tutor is not available. Start the app with npm run dev.",
+  'tutor.error.invalid-question': "The tutor could not read the question about this problem.",
+  'tutor.error.unavailable': "The tutor is not available right now. Try again in a moment.",
+  'tutor.mock.title': "Why each step is taken",
+  'tutor.mock.offline': "Offline tutor: sample explanation generated locally.",
+  'tutor.mock.step': "In step {n} ({text}):",
+  'tutor.mock.follow-up': "I can only go over the steps of this problem. Ask about a specific one, for example: \"Why step 2?\"",
+  'tutor.why.pythagoras': "In a right triangle the squares of the legs add up to the square of the hypotenuse, so two sides are enough to find the third.",
+  'tutor.why.trig': "Sine, cosine and tangent relate an angle to the ratio of two sides, so one angle and one side determine the rest.",
+  'tutor.why.inverse-trig': "The inverse functions undo sine, cosine or tangent: from the ratio of two sides they give back the angle.",
+  'tutor.why.right-angle': "The angles add up to 180° and one of them is 90°, so the two acute angles are complementary: they add up to 90°.",
+  'tutor.why.triangle': "Before calculating, it helps to gather the data and see which case applies.",
+  'tutor.why.triangle.angle-sum': "The three interior angles of any triangle add up to 180°, so once two are known, the third is what is left.",
+  'tutor.why.law-of-cosines': "The Law of Cosines extends Pythagoras to any triangle; it applies when three sides, or two sides and the angle between them, are known.",
+  'tutor.why.law-of-sines': "The Law of Sines says each side is proportional to the sine of its opposite angle; it applies when a side and its opposite angle are known.",
+  'tutor.why.ssa': "With two sides and a non-included angle there can be zero, one or two solutions, because the same sine belongs to two supplementary angles.",
+  'tutor.why.units': "All the values must be in the same unit before they are combined in a formula.",
+  'tutor.why.applied': "A real situation is solved by seeing which side or angle of the right triangle each value is.",
+  'tutor.why.applied.depression': "The horizontal through the top is parallel to the ground, so the angles of depression and elevation are alternate angles: they are equal.",
+  'tutor.why.applied.add-height': "The line of sight starts at the eyes, not at the ground, so the triangle only measures the height above them.",
+  'tutor.why.coordinates': "The coordinate differences are the legs of a right triangle whose hypotenuse is the segment, so the distance comes from the Pythagorean theorem.",
+  'tutor.why.coordinates.inclination-falling': "With a negative slope the line makes an obtuse angle with the positive x-axis: the supplement of the triangle's acute angle.",
+  'tutor.why.coordinates.space-diagonal': "The base diagonal is horizontal and the edge Δz vertical, so they meet at a right angle and Pythagoras applies again.",
+
+  // --- Solver ---
+  'error.insufficient-data': "Two values are needed, at least one of them a side.",
+  'error.right-angle-range': "The angle must be between 0° and 90°.",
+  'error.hypotenuse-not-longest': "The hypotenuse must be longer than the leg.",
+  'error.triangle-inequality': "Each side must be shorter than the sum of the other two.",
+  'error.angle-sum': "The two angles must add up to less than 180°.",
+  'error.over-determined': "Enter exactly three values of the triangle.",
+  'error.oblique-insufficient-data': "Three values are needed, at least one of them a side.",
+  'error.no-side': "Three angles give infinitely many similar triangles: at least one side is needed.",
+  'error.oblique-angle-range': "The angles must be between 0° and 180°.",
+  'error.not-a-number': "This is not a valid number.",
+  'error.non-positive-length': "Side {side} must be greater than 0.",
+  'error.negative-height': "The eye height cannot be negative.",
+  'error.coordinates-missing': "Enter every coordinate of both points.",
+  'error.same-points': "The two points are the same: there is no segment to measure.",
+  'why.non-positive-length': "A side is the distance between two different vertices, so it is always positive.",
+  'why.hypotenuse-not-longest': "The hypotenuse is opposite the right angle, the largest angle of the triangle, and c² = a² + b² is greater than the square of either leg.",
+  'why.right-angle-range': "The angles of a triangle add up to 180°; with the right angle, α + β = 90°, so each one is between 0° and 90°.",
+  'why.triangle-inequality': "The straight path between two vertices is shorter than the one through the third (triangle inequality); otherwise the sides cannot meet.",
+  'why.angle-sum': "The three angles of a triangle add up to 180°, so two of them must leave room for the third.",
+  'why.oblique-angle-range': "The three angles add up to 180° and none of them can be 0°, so each one is between 0° and 180°.",
+  'why.no-side': "The angles fix the shape of the triangle but not its size: a side gives the scale.",
+  'why.inconsistent': "Two values, one of them a side, are enough to determine a right triangle, so any extra value must agree with the result.",
+  'warning.inconsistent': "Inconsistent data: you entered {quantity} = {given}, but {first} and {second} give {quantity} ≈ {expected}.",
+
+  // --- Speech ---
+  'speech.equals': "equals",
+  'speech.plus': "plus",
+  'speech.minus': "minus",
+  'speech.times': "times",
+  'speech.approx': "is approximately",
+  'speech.implies': "therefore",
+  'speech.geq': "is greater than or equal to",
+  'speech.neq': "is not equal to",
+  'speech.squared': "{x} squared",
+  'speech.sqrt': "square root of {x}",
+  'speech.frac': "{numerator} over {denominator}",
+  'speech.degrees': "{x} degrees",
+  'speech.gradians': "{x} gradians",
+  'speech.dms': "{minutes} minutes {seconds} seconds",
+  'speech.pi': "pi",
+  'speech.sub': "{x} sub {index}",
+  'speech.alpha': "alpha",
+  'speech.beta': "beta",
+  'speech.gamma': "gamma",
+  'speech.delta': "delta",
+  'speech.theta': "theta",
+  'speech.fn.sin': "sine of {arg}",
+  'speech.fn.cos': "cosine of {arg}",
+  'speech.fn.tan': "tangent of {arg}",
+  'speech.fn.arcsin': "arcsine of {arg}",
+  'speech.fn.arccos': "arccosine of {arg}",
+  'speech.fn.arctan': "arctangent of {arg}",
+  'speech.increment': "change in {axis}",
+  'speech.abs': "absolute value of {x}",
+
+  // --- Steps ---
+  'step.pythagoras.identify-legs': "Identify the legs:",
+  'step.pythagoras.hypotenuse-formula': "Use the formula:",
+  'step.pythagoras.substitute-legs': "Substitute the values:",
+  'step.pythagoras.square-legs': "Compute the squares:",
+  'step.pythagoras.sum-squares': "Add:",
+  'step.pythagoras.solve-hypotenuse': "Final result:",
+  'step.pythagoras.identify-sides': "Identify the sides:",
+  'step.pythagoras.leg-formula': "Solve the formula for {target}:",
+  'step.pythagoras.substitute-sides': "Substitute the values:",
+  'step.pythagoras.solve-leg': "Final result:",
+  'step.trig.given': "Given {side} and angle (α):",
+  'step.trig.solve-opposite': "Compute the opposite leg (a):",
+  'step.trig.solve-adjacent': "Compute the adjacent leg (b):",
+  'step.trig.solve-hypotenuse': "Compute the hypotenuse (c):",
+  'step.right-angle.complement': "Compute the complementary angle ({target}):",
+  'step.inverse-trig.arctan': "Find α with the inverse tangent (arctan):",
+  'step.inverse-trig.arcsin': "Find α with the inverse sine (arcsin):",
+  'step.inverse-trig.arccos': "Find α with the inverse cosine (arccos):",
+  'step.triangle.given': "Known data:",
+  'step.triangle.angle-sum': "The interior angles add up to 180°:",
+  'step.law-of-cosines.side-formula': "Apply the Law of Cosines to find {target}:",
+  'step.law-of-cosines.solve-side': "Substitute the values:",
+  'step.law-of-cosines.angle-formula': "Apply the Law of Cosines to find {target}:",
+  'step.law-of-cosines.solve-angle': "Substitute the values and apply the inverse cosine (arccos):",
+  'step.law-of-sines.side-formula': "Apply the Law of Sines to find {target}:",
+  'step.law-of-sines.solve-side': "Substitute the values:",
+  'step.ssa.sine-ratio': "Ambiguous case (SSA): apply the Law of Sines to find {target}:",
+  'step.ssa.no-solution-sine': "The sine of an angle cannot be greater than 1: no triangle exists with these values.",
+  'step.ssa.no-solution-angle-sum': "With {target} {value} the angles would add up to 180° or more: no triangle exists with these values.",
+  'step.ssa.two-solutions': "There are two solutions: {target} can be acute or obtuse.",
+  'step.ssa.one-solution': "There is only one solution: the supplementary angle of {target} does not fit in the triangle.",
+  'step.ssa.right-angle': "There is only one solution: the sine is 1, so {target} is a right angle.",
+  'step.ssa.acute-branch': "Take the acute angle (arcsin):",
+  'step.ssa.obtuse-branch': "Take the obtuse angle (supplementary):",
+  'step.trig.ratio': "Compute {ratio} from the sides:",
+  'step.units.convert-length': "Convert {quantity} from {from} to {to}:",
+  'step.units.convert-angle': "Convert {quantity} from {from} to {to}:",
+  'step.applied.depression': "The angles of depression and elevation are alternate angles, so they are equal:",
+  'step.applied.add-height': "Add the observer's eye height:",
+  'step.coordinates.differences': "Subtract the coordinates of the first point from those of the second:",
+  'step.coordinates.legs': "The legs of the right triangle are the differences without their sign:",
+  'step.coordinates.distance': "The distance between the points is the hypotenuse:",
+  'step.coordinates.aligned': "The points lie on a parallel to the {axis}-axis, so the distance is the difference without its sign:",
+  'step.coordinates.midpoint': "The midpoint averages the coordinates:",
+  'step.coordinates.slope': "The slope is how much the line rises for each unit it runs:",
+  'step.coordinates.inclination-rising': "The slope is positive, so the inclination is the angle α itself:",
+  'step.coordinates.inclination-falling': "The slope is negative: the line falls, and its inclination is the supplement of α:",
+  'step.coordinates.horizontal': "The line is horizontal: its slope and its inclination are zero.",
+  'step.coordinates.vertical': "The line is vertical: it has no slope, since you cannot divide by Δx = 0, and it is perpendicular to the x-axis.",
+  'step.coordinates.base-diagonal': "Stage 1: the base diagonal is the hypotenuse of the triangle with legs Δx and Δy:",
+  'step.coordinates.space-diagonal': "Stage 2: the space diagonal is the hypotenuse of the upright triangle with legs d₁ and Δz:",
+  'step.coordinates.box-diagonal': "Putting both stages together, since d₁² = Δx² + Δy², the distance comes from a single formula:",
+};
@@ -0,0 +1,553 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** The reference catalog: every other locale must define the same keys and placeholders. */
+export const es = {
+  // --- App ---
+  'app.history': "Historial",
+  'app.review': "Repaso de geometría",
+  'app.theme': "Cambiar tema",
+  'app.language': "Idioma",
+  'app.close': "Cerrar",
+  'app.info': "Más información",
+  'app.modes': "Modos",
+  'app.copied': "Copiado al portapapeles.",
+
+  'tab.pythagoras': "Pitágoras",
+  'tab.trig': "Trigonometría",
+  'tab.right': "Resolver",
+  'tab.oblique': "General",
+  'tab.practice': "Práctica",
+  'tab.worksheet': "Fichas",
+  'tab.templates': "Aplicaciones",
+  'tab.coordinates': "Coordenadas",
+  'tab.classroom': "Clase",
+  'tab.pythagoras.title': "Calculadora de Pitágoras",
+  'tab.pythagoras.hint': "Ingresa 2 valores para hallar el tercero.",
+  'tab.trig.title': "Razones Trigonométricas",
+  'tab.trig.hint': "Ingresa un ángulo y un lado.",
+  'tab.right.title': "Triángulo Rectángulo",
+  'tab.right.hint': "Ingresa 2 datos cualesquiera (al menos un lado) para resolver todo el triángulo.",
+  'tab.oblique.title': "Triángulo General",
+  'tab.oblique.hint': "Ingresa 3 datos (al menos un lado): LLL, LAL, ALA, AAL o LLA.",
+  'tab.practice.title': "Modo Práctica",
+  'tab.practice.hint': "Resuelve ejercicios generados y comprueba tus respuestas.",
+  'tab.worksheet.title': "Fichas",
+  'tab.worksheet.hint': "Genera hojas de ejercicios imprimibles con su solucionario.",
+  'tab.templates.title': "Problemas Aplicados",
+  'tab.templates.hint': "Elige una situación y escribe sus datos: se resuelve como un triángulo rectángulo.",
+  'tab.coordinates.title': "Geometría Analítica",
+  'tab.coordinates.hint': "Coloca dos puntos en el plano o en el espacio: la distancia entre ellos es la hipotenusa de un triángulo rectángulo.",
+  'tab.classroom.title': "Clase",
+  'tab.classroom.hint': "Crea una clase y asigna tareas, o únete a una con su código y resuélvelas.",
+
+  'field.leg': "Cateto {side}",
+  'field.hypotenuse': "Hipotenusa {side}",
+  'field.side': "Lado {side}",
+  'field.angle': "Ángulo {angle}",
+  'field.value-of': "Valor de {side}",
+  'field.opposite': "Opuesto a {side}",
+  'field.known-side': "Lado conocido",
+  'field.value': "Valor",
+  'field.example': "Ej: {value}",
+  'field.unit': "Unidad de {field}",
+  'action.calculate': "Calcular",
+
+  'side.a': "Cateto Opuesto (a)",
+  'side.b': "Cateto Adyacente (b)",
+  'side.c': "Hipotenusa (c)",
+
+  'case.SSS': "LLL (tres lados)",
+  'case.SAS': "LAL (dos lados y el ángulo comprendido)",
+  'case.ASA': "ALA (dos ángulos y el lado comprendido)",
+  'case.AAS': "AAL (dos ángulos y un lado opuesto)",
+  'case.SSA': "LLA (caso ambiguo)",
+
+  'result.title': "Resultado",
+  'result.case': "Caso {name}",
+  'result.solution': "Solución {n}",
+  'result.no-triangle': "No existe ningún triángulo con estos datos.",
+  'result.none': "sin solución",
+  'result.share': "Copiar enlace",
+  'result.copy': "Copiar procedimiento",
+  'quantity.area': "Área",
+  'quantity.perimeter': "Perímetro",
+  'quantity.sin': "Seno (sin α)",
+  'quantity.cos': "Coseno (cos α)",
+  'quantity.tan': "Tangente (tan α)",
+  'quantity.sec': "Secante (sec α)",
+  'quantity.csc': "Cosecante (csc α)",
+  'quantity.cot': "Cotangente (cot α)",
+
+  'steps.title': "Procedimiento Paso a Paso",
+  'steps.empty': "Ingresa los datos y presiona calcular para ver el procedimiento detallado.",
+
+  // --- Review ---
+  'review.title': "Repaso de Geometría",
+  'review.close': "Entendido",
+
+  // --- Lessons ---
+  'lessons.index': "Lecciones",
+  'lessons.search': "Buscar en las lecciones",
+  'lessons.no-results': "Ninguna lección menciona «{query}».",
+  'lessons.open': "Abrir en la calculadora",
+  'lessons.invalid-example': "Con estos valores no hay ningún triángulo rectángulo.",
+
+  // --- Proofs ---
+  'proofs.title': "Demostraciones",
+  'proofs.intro': "Cada demostración se dibuja con tu triángulo: a = {a}, b = {b} y c = {c}.",
+  'proofs.sample': "Aún no has resuelto ninguno, así que se usa el triángulo 3-4-5.",
+  'proofs.stage': "Paso {n} de {total}",
+  'proofs.previous': "Anterior",
+  'proofs.next': "Siguiente",
+  'proofs.holds': "Las áreas coinciden: a² + b² = c².",
+  'proofs.fails': "Con c = {c} los números no cuadran: a² + b² = {sum}, pero c² = {c2}. Este triángulo no es rectángulo.",
+  'proofs.squares.title': "Cuadrados",
+  'proofs.squares.0': "El triángulo de lados a = {a}, b = {b} y c = {c}.",
+  'proofs.squares.1': "Sobre cada cateto se levanta un cuadrado: sus áreas son a² = {a2} y b² = {b2}.",
+  'proofs.squares.2': "Sobre el lado c, otro cuadrado de área c² = {c2}.",
+  'proofs.squares.3': "Juntas, las áreas de los dos cuadrados pequeños suman {sum}.",
+  'proofs.rearrangement.title': "Reordenación",
+  'proofs.rearrangement.0': "Cuatro copias del triángulo dentro de un cuadrado de lado a + b = {s} dejan libre en el centro un cuadrado inclinado de lado c.",
+  'proofs.rearrangement.1': "El cuadrado grande mide (a + b)² = {big}: los cuatro triángulos, 4 · ab/2 = {triangles}, más el hueco c².",
+  'proofs.rearrangement.2': "Movemos los mismos triángulos a las esquinas: el hueco pasa a ser dos cuadrados, a² = {a2} y b² = {b2}.",
+  'proofs.rearrangement.3': "El cuadrado grande y los triángulos no han cambiado, así que el hueco tampoco: c² es a² + b².",
+  'proofs.euclid.title': "Euclides",
+  'proofs.euclid.0': "Los cuadrados sobre los tres lados del triángulo rectángulo, como en los Elementos de Euclides.",
+  'proofs.euclid.1': "La altura desde el ángulo recto corta la hipotenusa en H y divide el cuadrado de c en dos rectángulos.",
+  'proofs.euclid.2': "El rectángulo junto a A mide c · {byA} = {b2}: dos triángulos congruentes (LAL) muestran que vale lo mismo que b².",
+  'proofs.euclid.3': "Del mismo modo, el rectángulo junto a B mide c · {byB} = {a2}, igual que a².",
+  'proofs.euclid.4': "Los dos rectángulos llenan el cuadrado de c, así que c² es la suma de a² y b².",
+  'proofs.garfield.title': "Garfield",
+  'proofs.garfield.0': "Dos copias del triángulo apoyadas en una recta, una con el cateto a y otra con el b en el suelo.",
+  'proofs.garfield.1': "Sus hipotenusas forman un ángulo recto y cierran un tercer triángulo de área c²/2.",
+  'proofs.garfield.2': "Los tres forman un trapecio de área (a + b)²/2 = {area}, que también es ab/2 + ab/2 + c²/2.",
+  'proofs.garfield.3': "Igualando las dos áreas y multiplicando por 2: a² + 2ab + b² = 2ab + c², es decir, a² + b² = c².",
+
+  // --- Visualizer ---
+  'visualizer.title': "Visualización",
+  'visualizer.snap.free': "Libre",
+  'visualizer.snap.length': "Lados enteros",
+  'visualizer.snap.angle': "Ángulos enteros",
+  'visualizer.drag-hint': "Arrastra los vértices, o enfócalos y usa las flechas, para cambiar los catetos.",
+  'visualizer.description': "Triángulo rectángulo con catetos a = {a} y b = {b} e hipotenusa c = {c}.",
+  'visualizer.description-angles': "Sus ángulos agudos miden α = {alpha} y β = {beta}.",
+  'visualizer.oblique-description': "Triángulo con lados a = {a}, b = {b} y c = {c}, y ángulos α = {alpha}, β = {beta} y γ = {gamma}.",
+
+  // --- Unit circle ---
+  'circle.title': "Circunferencia unitaria",
+  'circle.angle': "Ángulo α (grados)",
+  'circle.drag-hint': "Arrastra el punto o el deslizador; también valen ángulos negativos y mayores que 360°.",
+  'circle.quadrant': "Cuadrante {n}",
+  'circle.on-axis': "Sobre un eje",
+  'circle.reference': "Ángulo de referencia: {angle}",
+  'circle.coterminal': "Misma posición que {angle}",
+  'circle.undefined': "no definida",
+  'circle.acute': "α es agudo: es un ángulo del triángulo rectángulo de hipotenusa 1, cuyo cateto opuesto mide sin α y el adyacente cos α.",
+  'circle.graphs': "Gráficas",
+  'circle.description': "Circunferencia unitaria con α = {angle}; su punto es ({cos}, {sin}).",
+  'circle.graph-description': "{fn}: en α = {angle} vale {value}.",
+
+  // --- Presenter ---
+  'presenter.open': "Presentar",
+  'presenter.title': "Presentación",
+  'presenter.step': "Paso {n} de {total}",
+  'presenter.previous': "Anterior",
+  'presenter.next': "Siguiente",
+  'presenter.fullscreen': "Pantalla completa",
+  'presenter.exit-fullscreen': "Salir de pantalla completa",
+  'presenter.close': "Cerrar",
+  'presenter.keys': "← → o espacio para avanzar, F para pantalla completa, Esc para salir.",
+
+  // --- Units and precision ---
+  'units.title': "Unidades del resultado",
+  'units.length': "Longitud",
+  'units.angle': "Ángulos",
+  'units.hint': "Cada dato puede ingresarse en otra unidad; se agrega un paso de conversión.",
+  'unit.u': "Unidades",
+  'unit.cm': "Centímetros",
+  'unit.m': "Metros",
+  'unit.in': "Pulgadas",
+  'unit.ft': "Pies",
+  'unit.deg': "Grados",
+  'unit.rad': "Radianes",
+  'unit.grad': "Gradianes",
+  'unit.dms': "Grados, minutos y segundos",
+
+  'precision.title': "Precisión",
+  'precision.round-to': "Redondear a",
+  'precision.decimals': "Decimales",
+  'precision.significant': "Cifras significativas",
+  'precision.digits': "Cantidad",
+  'precision.rounding': "Modo de redondeo",
+  'precision.half-up': "Al más cercano (mitades hacia arriba)",
+  'precision.half-even': "Al par más cercano (bancario)",
+  'precision.up': "Hacia arriba",
+  'precision.down': "Hacia abajo (truncar)",
+  'precision.exact': "Modo exacto",
+  'precision.exact.hint': "Conserva raíces (2√3), fracciones (5/2) y valores de ángulos notables (sin 30° = 1/2).",
+
+  // --- History ---
+  'history.search': "Buscar (ej: c = 5, α = 30°)",
+  'history.offline': "No se pudo conectar con el servidor local. Inicia la app con npm run dev.",
+  'history.loading': "Cargando…",
+  'history.no-match': "Ningún cálculo coincide con la búsqueda.",
+  'history.empty': "Todavía no hay cálculos guardados.",
+  'history.open': "Abrir",
+  'history.delete': "Eliminar",
+  'history.error.invalid-entry': "El servidor local no aceptó ese cálculo.",
+  'history.error.entry-not-found': "Ese cálculo ya no está en el historial.",
+  'history.error.server': "El servidor local no pudo atender la petición.",
+
+  // --- Updates ---
+  'update.available': "Hay una nueva versión de GeoMaster.",
+  'update.reload': "Actualizar",
+  'update.later': "Más tarde",
+
+  // --- Export ---
+  'export.title': "Exportar",
+  'export.pdf': "PDF (imprimir)",
+  'export.html': "Hoja HTML",
+  'export.markdown': "Markdown",
+  'export.latex': "LaTeX",
+  'export.svg': "Figura SVG",
+  'export.png': "Figura PNG",
+  'export.image-error': "No se pudo generar la imagen.",
+  'export.procedure': "Procedimiento",
+  'export.result': "Resultado",
+  'export.figure': "Triángulo",
+  'export.footer': "Generado con GeoMaster",
+
+  // --- Practice ---
+  'difficulty.label': "Dificultad",
+  'difficulty.easy': "Fácil (ternas pitagóricas)",
+  'difficulty.medium': "Medio (ángulos notables)",
+  'difficulty.hard': "Difícil (decimales)",
+  'seed.label': "Código",
+  'seed.new': "Nuevo código",
+
+  'question.a': "el cateto a",
+  'question.b': "el cateto b",
+  'question.c': "la hipotenusa c",
+  'question.alpha': "el ángulo α (en grados)",
+  'question.sin': "sin α",
+  'question.cos': "cos α",
+  'question.tan': "tan α",
+  'exercise.given': "En un triángulo rectángulo (γ = 90°) se conocen:",
+  'exercise.ask': "Calcula {question}.",
+
+  'practice.count': "Ejercicios",
+  'practice.seed-hint': "El mismo código con la misma dificultad y cantidad genera siempre los mismos ejercicios.",
+  'practice.generate': "Generar ejercicios",
+  'practice.progress': "Progreso",
+  'practice.empty': "Elige la dificultad y genera una serie de ejercicios para practicar.",
+  'practice.exercise': "Ejercicio {n} de {total}",
+  'practice.placeholder': "Tu respuesta (ej: {example}, 2√3, 1/2)",
+  'practice.check': "Comprobar",
+  'practice.correct': "¡Correcto!",
+  'practice.unreadable': "No se pudo leer la respuesta.",
+  'practice.incorrect': "Incorrecto.",
+  'practice.answer': "La respuesta es {answer}.",
+  'practice.first-step': "Ver el primer paso",
+  'practice.next-step': "Ver el siguiente paso",
+  'practice.revealed': "({n} de {total})",
+  'practice.next': "Siguiente ejercicio",
+
+  // --- Worksheets ---
+  'topic.hypotenuse': "Pitágoras: hipotenusa",
+  'topic.leg': "Pitágoras: cateto",
+  'topic.sin': "Seno",
+  'topic.cos': "Coseno",
+  'topic.tan': "Tangente",
+  'topic.angle': "Hallar el ángulo",
+
+  'worksheet.title': "Fichas de ejercicios",
+  'worksheet.topics': "Temas",
+  'worksheet.count': "Problemas",
+  'worksheet.seed-hint': "Con el mismo código y los mismos ajustes se obtiene siempre la misma ficha.",
+  'worksheet.sheet': "Hoja del alumno",
+  'worksheet.key': "Solucionario",
+  'worksheet.print': "Imprimir {page}",
+  'worksheet.download': "Descargar HTML",
+  'worksheet.file.sheet': "ficha",
+  'worksheet.file.key': "solucionario",
+  'worksheet.empty': "Elige al menos un tema y un código para generar la ficha.",
+  'worksheet.sheet-title': "Hoja de ejercicios",
+  'worksheet.key-title': "Solucionario",
+  'worksheet.settings': "{topics} — {difficulty}, código {seed}",
+  'worksheet.problem': "Problema {n}",
+  'worksheet.answer': "Respuesta:",
+  'worksheet.name': "Nombre:",
+  'worksheet.date': "Fecha:",
+
+  // --- Word problems ---
+  'word.title': "Problema de texto",
+  'word.placeholder': "Pega aquí un problema, p. ej.: Una escalera de 5 m apoyada en una pared forma un ángulo de 60° con el suelo; ¿a qué altura llega?",
+  'word.interpret': "Interpretar",
+  'word.nothing': "No encontré medidas en el texto. Escribe los números con su unidad, por ejemplo 5 m o 60°.",
+  'word.given': "Datos",
+  'word.unknown': "Incógnita",
+  'word.cue': "por «{cue}»",
+  'word.role.none': "Sin usar",
+  'word.role.a': "a: altura (cateto opuesto)",
+  'word.role.b': "b: distancia (cateto adyacente)",
+  'word.role.c': "c: hipotenusa",
+  'word.role.alpha': "α: ángulo con el suelo",
+  'word.role.beta': "β: ángulo con la pared",
+  'word.role.area': "Área",
+  'word.role.perimeter': "Perímetro",
+  'word.confirm': "Confirmar y resolver",
+  'word.answer': "Respuesta: {answer}",
+
+  // --- Applied problems ---
+  'templates.situation': "Situación",
+  'templates.answer': "Respuesta",
+  'template.building.title': "Altura de un edificio",
+  'template.building.description': "Un observador, a cierta distancia de un edificio, mira su parte más alta con un ángulo de elevación.",
+  'template.building.field.b': "Distancia al edificio",
+  'template.building.field.alpha': "Ángulo de elevación",
+  'template.building.field.h': "Altura de los ojos (opcional)",
+  'template.building.result.H': "Altura del edificio",
+  'template.building.result.c': "Distancia visual hasta lo alto",
+  'template.ladder.title': "Escalera contra una pared",
+  'template.ladder.description': "Una escalera se apoya en una pared con el pie a cierta distancia de ella.",
+  'template.ladder.field.c': "Longitud de la escalera",
+  'template.ladder.field.b': "Distancia del pie a la pared",
+  'template.ladder.result.a': "Altura que alcanza en la pared",
+  'template.ladder.result.alpha': "Ángulo con el suelo",
+  'template.ramp.title': "Rampa",
+  'template.ramp.description': "Una rampa salva un desnivel con una inclinación dada.",
+  'template.ramp.field.a': "Desnivel a salvar",
+  'template.ramp.field.alpha': "Inclinación de la rampa",
+  'template.ramp.result.c': "Longitud de la rampa",
+  'template.ramp.result.b': "Distancia horizontal que ocupa",
+  'template.shadow.title': "Sombra y altura del sol",
+  'template.shadow.description': "Un poste vertical proyecta su sombra sobre el suelo horizontal.",
+  'template.shadow.field.a': "Altura del poste",
+  'template.shadow.field.b': "Longitud de la sombra",
+  'template.shadow.result.alpha': "Ángulo de elevación del sol",
+  'template.shadow.result.c': "Del extremo de la sombra a lo alto del poste",
+  'template.lighthouse.title': "Ángulo de depresión desde un faro",
+  'template.lighthouse.description': "Desde lo alto de un faro se ve un barco con un ángulo de depresión.",
+  'template.lighthouse.field.a': "Altura del faro sobre el mar",
+  'template.lighthouse.field.delta': "Ángulo de depresión",
+  'template.lighthouse.result.b': "Distancia del barco al faro",
+  'template.lighthouse.result.c': "Distancia en línea recta hasta el barco",
+  'template.bearing.title': "Rumbo de navegación",
+  'template.bearing.description': "Un barco navega cierta distancia con rumbo N β O: β grados hacia el oeste desde el norte.",
+  'template.bearing.field.c': "Distancia navegada",
+  'template.bearing.field.beta': "Rumbo (grados al oeste del norte)",
+  'template.bearing.result.a': "Avance hacia el norte",
+  'template.bearing.result.b': "Avance hacia el oeste",
+
+  // --- Coordinates ---
+  'coordinates.plane': "Plano",
+  'coordinates.space': "Espacio (3D)",
+  'coordinates.variant': "Dónde están los puntos",
+  'coordinates.point': "Punto {name}",
+  'coordinates.coordinate': "Coordenada {axis} de {name}",
+  'coordinates.results': "Resultados",
+  'coordinates.distance': "Distancia",
+  'coordinates.midpoint': "Punto medio",
+  'coordinates.slope': "Pendiente",
+  'coordinates.inclination': "Inclinación",
+  'coordinates.base': "Diagonal de la base",
+  'coordinates.vertical': "no definida (recta vertical)",
+  'coordinates.plane-title': "Plano cartesiano",
+  'coordinates.box-title': "Caja",
+  'coordinates.drag-hint': "Arrastra los puntos, o selecciónalos y muévelos con las flechas.",
+  'coordinates.handle': "Punto {name} en {point}",
+  'coordinates.description': "Plano cartesiano con {p1} y {p2}; la distancia entre ellos es {distance}.",
+  'coordinates.box-description': "Caja de aristas {dx}, {dy} y {dz}; la diagonal de la base mide {base} y la del espacio {distance}.",
+
+  // --- Classroom ---
+  'classroom.role': "Quién eres",
+  'classroom.teacher': "Docente",
+  'classroom.student': "Estudiante",
+  'classroom.classes': "Tus clases",
+  'classroom.class-name': "Nombre de una clase nueva",
+  'classroom.create': "Crear clase",
+  'classroom.empty': "Crea una clase para empezar. Se guarda en este navegador.",
+  'classroom.code': "Código de la clase",
+  'classroom.code-hint': "Los estudiantes se unen en la pestaña Clase con este código.",
+  'classroom.assign': "Asignar tarea",
+  'classroom.assignment-title': "Título",
+  'classroom.assign-button': "Asignar",
+  'classroom.assignments': "Tareas",
+  'classroom.no-assignments': "Aún no hay tareas.",
+  'classroom.no-students': "Aún no se ha unido nadie.",
+  'classroom.mastery': "Dominio por tema",
+  'classroom.mastery-detail': "{correct} de {answered} bien",
+  'classroom.whole-class': "Toda la clase",
+  'classroom.average': "Media: {percent} %",
+  'classroom.refresh': "Actualizar",
+  'classroom.export': "Descargar notas (CSV)",
+  'classroom.file': "notas",
+  'classroom.csv.assignment': "{title} (de {count})",
+  'classroom.csv.total': "Total",
+  'classroom.join': "Unirse a una clase",
+  'classroom.your-name': "Tu nombre",
+  'classroom.join-button': "Unirse",
+  'classroom.leave': "Salir de la clase",
+  'classroom.pick': "Elige un problema de una tarea.",
+  'classroom.try-again': "Puedes intentarlo de nuevo.",
+  'classroom.error.class-not-found': "No existe esa clase o la clave no es la suya.",
+  'classroom.error.not-joined': "No estás en ninguna clase.",
+  'classroom.error.class-name-missing': "La clase necesita un nombre.",
+  'classroom.error.invalid-assignment': "Tarea inválida.",
+  'classroom.error.name-missing': "Escribe tu nombre.",
+  'classroom.error.unknown-code': "No existe ninguna clase con ese código.",
+  'classroom.error.name-taken': "Ya hay alguien con ese nombre en la clase.",
+  'classroom.error.invalid-answer': "Respuesta inválida.",
+  'classroom.error.unknown-problem': "No existe ese problema.",
+  'classroom.error.too-many-classes': "Se han creado demasiadas clases desde aquí. Inténtalo de nuevo en una hora.",
+  'classroom.error.server': "El servidor local no pudo atender la petición.",
+
+  // --- Tutor ---
+  'tutor.title': "Tutor",
+  'tutor.intro': "¿Entiendes los números pero no el porqué? El tutor explica cada paso y responde tus preguntas.",
+  'tutor.explain': "Explícame los pasos",
+  'tutor.ask': "Pregunta algo sobre este problema…",
+  'tutor.send': "Enviar",
+  'tutor.stop': "Detener",
+  'tutor.thinking': "Pensando…",
+  'tutor.error': "El tutor no está disponible. Inicia la app con npm run dev.",
+  'tutor.error.invalid-question': "El tutor no entendió la pregunta sobre este problema.",
+  'tutor.error.unavailable': "El tutor no está disponible ahora. Inténtalo de nuevo en un momento.",
+  'tutor.mock.title': "Por qué se hace cada paso",
+  'tutor.mock.offline': "Tutor sin conexión: explicación de ejemplo generada localmente.",
+  'tutor.mock.step': "En el paso {n} ({text}):",
+  'tutor.mock.follow-up': "Solo puedo repasar los pasos de este problema. Pregunta por uno concreto, por ejemplo: «¿Por qué el paso 2?»",
+  'tutor.why.pythagoras': "En un triángulo rectángulo los cuadrados de los catetos suman el cuadrado de la hipotenusa, así que dos lados bastan para hallar el tercero.",
+  'tutor.why.trig': "Seno, coseno y tangente relacionan un ángulo con el cociente de dos lados, así que un ángulo y un lado fijan los demás.",
+  'tutor.why.inverse-trig': "Las funciones inversas deshacen el seno, el coseno o la tangente: a partir del cociente de dos lados devuelven el ángulo.",
+  'tutor.why.right-angle': "Los ángulos suman 180° y uno mide 90°, así que los dos agudos son complementarios: suman 90°.",
+  'tutor.why.triangle': "Antes de calcular conviene reunir los datos y ver qué caso de resolución corresponde.",
+  'tutor.why.triangle.angle-sum': "Los tres ángulos interiores de cualquier triángulo suman 180°, así que conocidos dos, el tercero es lo que falta.",
+  'tutor.why.law-of-cosines': "La ley de los cosenos generaliza Pitágoras a cualquier triángulo; sirve cuando se conocen tres lados o dos lados y el ángulo entre ellos.",
+  'tutor.why.law-of-sines': "La ley de los senos dice que cada lado es proporcional al seno de su ángulo opuesto; sirve cuando se conocen un lado y su ángulo opuesto.",
+  'tutor.why.ssa': "Con dos lados y un ángulo no comprendido puede haber cero, una o dos soluciones, porque un mismo seno corresponde a dos ángulos suplementarios.",
+  'tutor.why.units': "Todos los datos tienen que estar en la misma unidad antes de combinarlos en una fórmula.",
+  'tutor.why.applied': "Una situación real se resuelve viendo qué lado o ángulo del triángulo rectángulo es cada dato.",
+  'tutor.why.applied.depression': "La horizontal que pasa por lo alto es paralela al suelo, así que el ángulo de depresión y el de elevación son alternos internos: miden lo mismo.",
+  'tutor.why.applied.add-height': "La visual parte de los ojos y no del suelo, así que el triángulo solo mide la altura por encima de ellos.",
+  'tutor.why.coordinates': "Las diferencias de coordenadas son los catetos de un triángulo rectángulo cuya hipotenusa es el segmento, así que la distancia sale del teorema de Pitágoras.",
+  'tutor.why.coordinates.inclination-falling': "Con pendiente negativa la recta forma con el eje x positivo un ángulo obtuso: el suplemento del ángulo agudo del triángulo.",
+  'tutor.why.coordinates.space-diagonal': "La diagonal de la base es horizontal y la arista Δz vertical, así que forman un ángulo recto y Pitágoras se aplica otra vez.",
+
+  // --- Solver ---
+  'error.insufficient-data': "Se necesitan dos datos, al menos uno de ellos un lado.",
+  'error.right-angle-range': "El ángulo debe estar entre 0° y 90°.",
+  'error.hypotenuse-not-longest': "La hipotenusa debe ser mayor que el cateto.",
+  'error.triangle-inequality': "Cada lado debe ser menor que la suma de los otros dos.",
+  'error.angle-sum': "La suma de los dos ángulos debe ser menor que 180°.",
+  'error.over-determined': "Ingresa exactamente tres datos del triángulo.",
+  'error.oblique-insufficient-data': "Se necesitan tres datos, al menos uno de ellos un lado.",
+  'error.no-side': "Con tres ángulos hay infinitos triángulos semejantes: se necesita al menos un lado.",
+  'error.oblique-angle-range': "Los ángulos deben estar entre 0° y 180°.",
+  'error.not-a-number': "No es un número válido.",
+  'error.non-positive-length': "El lado {side} debe ser mayor que 0.",
+  'error.negative-height': "La altura de los ojos no puede ser negativa.",
+  'error.coordinates-missing': "Escribe todas las coordenadas de los dos puntos.",
+  'error.same-points': "Los dos puntos coinciden: no hay segmento que medir.",
+  'why.non-positive-length': "Un lado es la distancia entre dos vértices distintos, así que siempre es positivo.",
+  'why.hypotenuse-not-longest': "La hipotenusa está opuesta al ángulo recto, el mayor del triángulo, y c² = a² + b² es mayor que el cuadrado de cada cateto.",
+  'why.right-angle-range': "Los ángulos de un triángulo suman 180°; con el ángulo recto, α + β = 90°, así que cada uno está entre 0° y 90°.",
+  'why.triangle-inequality': "El camino recto entre dos vértices es más corto que el que pasa por el tercero (desigualdad triangular); si no, los lados no llegan a cerrarse.",
+  'why.angle-sum': "Los tres ángulos de un triángulo suman 180°, así que dos de ellos deben dejar sitio para el tercero.",
+  'why.oblique-angle-range': "Los tres ángulos suman 180° y ninguno puede ser 0°, así que cada uno está entre 0° y 180°.",
+  'why.no-side': "Los ángulos fijan la forma del triángulo pero no su tamaño: un lado da la escala.",
+  'why.inconsistent': "Dos datos, uno de ellos un lado, bastan para determinar un triángulo rectángulo, así que cualquier dato extra debe coincidir con el resultado.",
+  'warning.inconsistent': "Datos inconsistentes: se ingresó {quantity} = {given}, pero a partir de {first} y {second} se obtiene {quantity} ≈ {expected}.",
+
+  // --- Speech ---
+  'speech.equals': "igual a",
+  'speech.plus': "más",
+  'speech.minus': "menos",
+  'speech.times': "por",
+  'speech.approx': "es aproximadamente",
+  'speech.implies': "por lo tanto",
+  'speech.geq': "mayor o igual que",
+  'speech.neq': "distinto de",
+  'speech.squared': "{x} al cuadrado",
+  'speech.sqrt': "raíz cuadrada de {x}",
+  'speech.frac': "{numerator} sobre {denominator}",
+  'speech.degrees': "{x} grados",
+  'speech.gradians': "{x} gradianes",
+  'speech.dms': "{minutes} minutos {seconds} segundos",
+  'speech.pi': "pi",
+  'speech.sub': "{x} sub {index}",
+  'speech.alpha': "alfa",
+  'speech.beta': "beta",
+  'speech.gamma': "gamma",
+  'speech.delta': "delta",
+  'speech.theta': "theta",
+  'speech.fn.sin': "seno de {arg}",
+  'speech.fn.cos': "coseno de {arg}",
+  'speech.fn.tan': "tangente de {arg}",
+  'speech.fn.arcsin': "arcoseno de {arg}",
+  'speech.fn.arccos': "arcocoseno de {arg}",
+  'speech.fn.arctan': "arcotangente de {arg}",
+  'speech.increment': "incremento de {axis}",
+  'speech.abs': "valor absoluto de {x}",
+
+  // --- Steps ---
+  'step.pythagoras.identify-legs': "Identificamos los catetos:",
+  'step.pythagoras.hypotenuse-formula': "Usamos la fórmula:",
+  'step.pythagoras.substitute-legs': "Sustituimos valores:",
+  'step.pythagoras.square-legs': "Calculamos cuadrados:",
+  'step.pythagoras.sum-squares': "Sumamos:",
+  'step.pythagoras.solve-hypotenuse': "Resultado final:",
+  'step.pythagoras.identify-sides': "Identificamos los lados:",
+  'step.pythagoras.leg-formula': "Despejamos {target} de la fórmula:",
+  'step.pythagoras.substitute-sides': "Sustituimos valores:",
+  'step.pythagoras.solve-leg': "Resultado final:",
+  'step.trig.given': "Dado {side} y ángulo (α):",
+  'step.trig.solve-opposite': "Calculamos cateto opuesto (a):",
+  'step.trig.solve-adjacent': "Calculamos cateto adyacente (b):",
+  'step.trig.solve-hypotenuse': "Calculamos hipotenusa (c):",
+  'step.right-angle.complement': "Calculamos el ángulo complementario ({target}):",
+  'step.inverse-trig.arctan': "Hallamos α con la tangente inversa (arctan):",
+  'step.inverse-trig.arcsin': "Hallamos α con el seno inverso (arcsin):",
+  'step.inverse-trig.arccos': "Hallamos α con el coseno inverso (arccos):",
+  'step.triangle.given': "Datos conocidos:",
+  'step.triangle.angle-sum': "La suma de los ángulos interiores es 180°:",
+  'step.law-of-cosines.side-formula': "Aplicamos la Ley de Cosenos para hallar {target}:",
+  'step.law-of-cosines.solve-side': "Sustituimos valores:",
+  'step.law-of-cosines.angle-formula': "Aplicamos la Ley de Cosenos para hallar {target}:",
+  'step.law-of-cosines.solve-angle': "Sustituimos valores y aplicamos el coseno inverso (arccos):",
+  'step.law-of-sines.side-formula': "Aplicamos la Ley de Senos para hallar {target}:",
+  'step.law-of-sines.solve-side': "Sustituimos valores:",
+  'step.ssa.sine-ratio': "Caso ambiguo (LLA): aplicamos la Ley de Senos para hallar {target}:",
+  'step.ssa.no-solution-sine': "El seno de un ángulo no puede ser mayor que 1: no existe ningún triángulo con estos datos.",
+  'step.ssa.no-solution-angle-sum': "Con {target} {value} los ángulos sumarían 180° o más: no existe ningún triángulo con estos datos.",
+  'step.ssa.two-solutions': "Hay dos soluciones: {target} puede ser agudo u obtuso.",
+  'step.ssa.one-solution': "Solo hay una solución: el ángulo suplementario de {target} no cabe en el triángulo.",
+  'step.ssa.right-angle': "Solo hay una solución: el seno vale 1, así que {target} es recto.",
+  'step.ssa.acute-branch': "Tomamos el ángulo agudo (arcsin):",
+  'step.ssa.obtuse-branch': "Tomamos el ángulo obtuso (suplementario):",
+  'step.trig.ratio': "Calculamos {ratio} con los lados:",
+  'step.units.convert-length': "Convertimos {quantity} de {from} a {to}:",
+  'step.units.convert-angle': "Convertimos {quantity} de {from} a {to}:",
+  'step.applied.depression': "El ángulo de depresión y el de elevación son alternos internos, así que son iguales:",
+  'step.applied.add-height': "Sumamos la altura de los ojos del observador:",
+  'step.coordinates.differences': "Restamos las coordenadas del primer punto a las del segundo:",
+  'step.coordinates.legs': "Los catetos del triángulo rectángulo son las diferencias sin signo:",
+  'step.coordinates.distance': "La distancia entre los puntos es la hipotenusa:",
+  'step.coordinates.aligned': "Los puntos están en una paralela al eje {axis}, así que la distancia es la diferencia sin signo:",
+  'step.coordinates.midpoint': "El punto medio promedia las coordenadas:",
+  'step.coordinates.slope': "La pendiente es lo que sube la recta por cada unidad que avanza:",
+  'step.coordinates.inclination-rising': "La pendiente es positiva, así que la inclinación es el mismo ángulo α:",
+  'step.coordinates.inclination-falling': "La pendiente es negativa: la recta baja, y su inclinación es el suplemento de α:",
+  'step.coordinates.horizontal': "La recta es horizontal: su pendiente y su inclinación son nulas.",
+  'step.coordinates.vertical': "La recta es vertical: no tiene pendiente, porque no se puede dividir entre Δx = 0, y es perpendicular al eje x.",
+  'step.coordinates.base-diagonal': "Etapa 1: la diagonal de la base es la hipotenusa del triángulo de catetos Δx y Δy:",
+  'step.coordinates.space-diagonal': "Etapa 2: la diagonal del espacio es la hipotenusa del triángulo vertical de catetos d₁ y Δz:",
+  'step.coordinates.box-diagonal': "Juntando las dos etapas, como d₁² = Δx² + Δy², la distancia sale de una sola fórmula:",
+};
+
+export type MessageKey = keyof typeof es;
+
+export type Messages = Record<MessageKey, string>;
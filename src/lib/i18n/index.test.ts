@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { solveRightTriangle, SolverError } from '../solver';
+import { renderPlainText } from '../steps/render';
+import { decimalSeparator, detectLocale, LOCALES, translator } from '.';
+
+const placeholders = (message: string) => (message.match(/\{\w+\}/g) ?? []).sort();
+
+describe('catalogs', () => {
+  const es = LOCALES.es.messages;
+
+  it.each(['en', 'pt-BR'] as const)('%s has every message with the same placeholders', (locale) => {
+    const messages = LOCALES[locale].messages;
+    expect(Object.keys(messages).sort()).toEqual(Object.keys(es).sort());
+    for (const key of Object.keys(es) as (keyof typeof es)[]) {
+      expect(placeholders(messages[key]), key).toEqual(placeholders(es[key]));
+    }
+  });
+});
+
+describe('translator', () => {
+  it('fills placeholders and leaves unknown ones alone', () => {
+    expect(translator('en')('result.solution', { n: 2 })).toBe("Solution 2");
+    expect(translator('pt-BR')('result.solution')).toBe(LOCALES['pt-BR'].messages['result.solution']);
+  });
+
+  it('defaults to Spanish', () => {
+    expect(translator()('tab.pythagoras')).toBe("Pitágoras");
+  });
+});
+
+describe('locales', () => {
+  it('writes decimals with a comma in es and pt-BR and a point in en', () => {
+    expect(decimalSeparator('es')).toBe(',');
+    expect(decimalSeparator('pt-BR')).toBe(',');
+    expect(decimalSeparator('en')).toBe('.');
+  });
+
+  it('picks the first supported browser language', () => {
+    expect(detectLocale(['fr-FR', 'en-GB', 'es'])).toBe('en');
+    expect(detectLocale(['pt-PT'])).toBe('pt-BR');
+    expect(detectLocale(['pt-br'])).toBe('pt-BR');
+    expect(detectLocale(['de'])).toBe('es');
+  });
+});
+
+describe('steps per locale', () => {
+  const { steps } = solveRightTriangle({ a: 3, b: 4 });
+
+  it('writes the explanation and the numbers in the chosen locale', () => {
+    expect(renderPlainText(steps, { digits: 2 }).split('\n')[5]).toBe("Resultado final: c ≈ 5,00");
+    expect(renderPlainText(steps, { digits: 2, locale: 'en' }).split('\n')[5]).toBe("Final result: c ≈ 5.00");
+    expect(renderPlainText(steps, { digits: 2, locale: 'pt-BR' }).split('\n')[5]).toMatch(/c ≈ 5,00$/);
+  });
+
+  it('keeps the error key so the message can be shown in another locale', () => {
+    try {
+      solveRightTriangle({ a: 5, c: 3 });
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(SolverError);
+      const { key, params } = err as SolverError;
+      expect(translator('en')(key, params)).toBe("The hypotenuse must be longer than the leg.");
+    }
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Locale } from '../../types';
+import { en } from './en';
+import { es, MessageKey, Messages } from './es';
+import { ptBR } from './pt-BR';
+
+export type { MessageKey, Messages };
+
+export type MessageParams = Record<string, string | number>;
+
+/** A message in one locale, with `{name}` placeholders filled from `params`. */
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const DEFAULT_LOCALE: Locale = 'es';
+
+export const LOCALES: Record<Locale, { name: string; messages: Messages }> = {
+  es: { name: 'Español', messages: es },
+  en: { name: 'English', messages: en },
+  'pt-BR': { name: 'Português (Brasil)', messages: ptBR },
+};
+
+export const translator = (locale: Locale = DEFAULT_LOCALE): Translate => (key, params = {}) =>
+  LOCALES[locale].messages[key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.hasOwn(params, name) ? `${params[name]}` : placeholder);
+
+/** The decimal mark numbers are written with: a comma in es and pt-BR, a point in en. */
+export const decimalSeparator = (locale: Locale = DEFAULT_LOCALE) =>
+  new Intl.NumberFormat(locale).formatToParts(0.5).find(part => part.type === 'decimal')?.value ?? '.';
+
+/**
+ * The first supported locale among the user's preferred languages
+ * (`navigator.languages`), matching `pt-PT` to `pt-BR`, `en-GB` to `en`…
+ */
+export const detectLocale = (languages: readonly string[]): Locale => {
+  const supported = Object.keys(LOCALES) as Locale[];
+  for (const language of languages) {
+    const match = supported.find(locale => locale.toLowerCase() === language.toLowerCase())
+      ?? supported.find(locale => locale.split('-')[0] === language.split('-')[0].toLowerCase());
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE;
+};
@@ -0,0 +1,550 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Messages } from './es';
+
+export const ptBR: Messages = {
+  // --- App ---
+  'app.history': "Histórico",
+  'app.review': "Revisão de geometria",
+  'app.theme': "Alternar tema",
+  'app.language': "Idioma",
+  'app.close': "Fechar",
+  'app.info': "Mais informações",
+  'app.modes': "Modos",
+  'app.copied': "Copiado para a área de transferência.",
+
+  'tab.pythagoras': "Pitágoras",
+  'tab.trig': "Trigonometria",
+  'tab.right': "Resolver",
+  'tab.oblique': "Geral",
+  'tab.practice': "Prática",
+  'tab.worksheet': "Fichas",
+  'tab.templates': "Aplicações",
+  'tab.coordinates': "Coordenadas",
+  'tab.classroom': "Turma",
+  'tab.pythagoras.title': "Calculadora de Pitágoras",
+  'tab.pythagoras.hint': "Informe 2 valores para encontrar o terceiro.",
+  'tab.trig.title': "Razões Trigonométricas",
+  'tab.trig.hint': "Informe um ângulo e um lado.",
+  'tab.right.title': "Triângulo Retângulo",
+  'tab.right.hint': "Informe 2 dados quaisquer (pelo menos um lado) para resolver o triângulo inteiro.",
+  'tab.oblique.title': "Triângulo Qualquer",
+  'tab.oblique.hint': "Informe 3 dados (pelo menos um lado): LLL, LAL, ALA, LAA ou LLA.",
+  'tab.practice.title': "Modo Prática",
+  'tab.practice.hint': "Resolva exercícios gerados e confira suas respostas.",
+  'tab.worksheet.title': "Fichas",
+  'tab.worksheet.hint': "Gere folhas de exercícios para imprimir com o gabarito.",
+  'tab.templates.title': "Problemas Aplicados",
+  'tab.templates.hint': "Escolha uma situação e informe seus dados: ela é resolvida como um triângulo retângulo.",
+  'tab.coordinates.title': "Geometria Analítica",
+  'tab.coordinates.hint': "Coloque dois pontos no plano ou no espaço: a distância entre eles é a hipotenusa de um triângulo retângulo.",
+  'tab.classroom.title': "Turma",
+  'tab.classroom.hint': "Crie uma turma e passe tarefas, ou entre em uma com o código dela e resolva-as.",
+
+  'field.leg': "Cateto {side}",
+  'field.hypotenuse': "Hipotenusa {side}",
+  'field.side': "Lado {side}",
+  'field.angle': "Ângulo {angle}",
+  'field.value-of': "Valor de {side}",
+  'field.opposite': "Oposto a {side}",
+  'field.known-side': "Lado conhecido",
+  'field.value': "Valor",
+  'field.example': "Ex.: {value}",
+  'field.unit': "Unidade de {field}",
+  'action.calculate': "Calcular",
+
+  'side.a': "Cateto Oposto (a)",
+  'side.b': "Cateto Adjacente (b)",
+  'side.c': "Hipotenusa (c)",
+
+  'case.SSS': "LLL (três lados)",
+  'case.SAS': "LAL (dois lados e o ângulo entre eles)",
+  'case.ASA': "ALA (dois ângulos e o lado entre eles)",
+  'case.AAS': "LAA (dois ângulos e um lado oposto)",
+  'case.SSA': "LLA (caso ambíguo)",
+
+  'result.title': "Resultado",
+  'result.case': "Caso {name}",
+  'result.solution': "Solução {n}",
+  'result.no-triangle': "Não existe nenhum triângulo com esses dados.",
+  'result.none': "sem solução",
+  'result.share': "Copiar link",
+  'result.copy': "Copiar resolução",
+  'quantity.area': "Área",
+  'quantity.perimeter': "Perímetro",
+  'quantity.sin': "Seno (sen α)",
+  'quantity.cos': "Cosseno (cos α)",
+  'quantity.tan': "Tangente (tg α)",
+  'quantity.sec': "Secante (sec α)",
+  'quantity.csc': "Cossecante (cossec α)",
+  'quantity.cot': "Cotangente (cotg α)",
+
+  'steps.title': "Resolução Passo a Passo",
+  'steps.empty': "Informe os dados e clique em calcular para ver a resolução detalhada.",
+
+  // --- Review ---
+  'review.title': "Revisão de Geometria",
+  'review.close': "Entendi",
+
+  // --- Lessons ---
+  'lessons.index': "Lições",
+  'lessons.search': "Buscar nas lições",
+  'lessons.no-results': "Nenhuma lição menciona “{query}”.",
+  'lessons.open': "Abrir na calculadora",
+  'lessons.invalid-example': "Com estes valores não há nenhum triângulo retângulo.",
+
+  // --- Proofs ---
+  'proofs.title': "Demonstrações",
+  'proofs.intro': "Cada demonstração é desenhada com o seu triângulo: a = {a}, b = {b} e c = {c}.",
+  'proofs.sample': "Você ainda não resolveu nenhum, então é usado o triângulo 3-4-5.",
+  'proofs.stage': "Passo {n} de {total}",
+  'proofs.previous': "Anterior",
+  'proofs.next': "Próximo",
+  'proofs.holds': "As áreas coincidem: a² + b² = c².",
+  'proofs.fails': "Com c = {c} as contas não fecham: a² + b² = {sum}, mas c² = {c2}. Este triângulo não é retângulo.",
+  'proofs.squares.title': "Quadrados",
+  'proofs.squares.0': "O triângulo de lados a = {a}, b = {b} e c = {c}.",
+  'proofs.squares.1': "Sobre cada cateto se ergue um quadrado: suas áreas são a² = {a2} e b² = {b2}.",
+  'proofs.squares.2': "Sobre o lado c, outro quadrado de área c² = {c2}.",
+  'proofs.squares.3': "Juntas, as áreas dos dois quadrados menores somam {sum}.",
+  'proofs.rearrangement.title': "Rearranjo",
+  'proofs.rearrangement.0': "Quatro cópias do triângulo dentro de um quadrado de lado a + b = {s} deixam livre no centro um quadrado inclinado de lado c.",
+  'proofs.rearrangement.1': "O quadrado grande mede (a + b)² = {big}: os quatro triângulos, 4 · ab/2 = {triangles}, mais o vão c².",
+  'proofs.rearrangement.2': "Movemos os mesmos triângulos para os cantos: o vão vira dois quadrados, a² = {a2} e b² = {b2}.",
+  'proofs.rearrangement.3': "O quadrado grande e os triângulos não mudaram, então o vão também não: c² é a² + b².",
+  'proofs.euclid.title': "Euclides",
+  'proofs.euclid.0': "Os quadrados sobre os três lados do triângulo retângulo, como nos Elementos de Euclides.",
+  'proofs.euclid.1': "A altura a partir do ângulo reto corta a hipotenusa em H e divide o quadrado de c em dois retângulos.",
+  'proofs.euclid.2': "O retângulo junto a A mede c · {byA} = {b2}: dois triângulos congruentes (LAL) mostram que vale o mesmo que b².",
+  'proofs.euclid.3': "Da mesma forma, o retângulo junto a B mede c · {byB} = {a2}, igual a a².",
+  'proofs.euclid.4': "Os dois retângulos preenchem o quadrado de c, então c² é a soma de a² e b².",
+  'proofs.garfield.title': "Garfield",
+  'proofs.garfield.0': "Duas cópias do triângulo apoiadas numa reta, uma sobre o cateto a e a outra sobre o cateto b.",
+  'proofs.garfield.1': "Suas hipotenusas formam um ângulo reto e fecham um terceiro triângulo de área c²/2.",
+  'proofs.garfield.2': "Os três formam um trapézio de área (a + b)²/2 = {area}, que também é ab/2 + ab/2 + c²/2.",
+  'proofs.garfield.3': "Igualando as duas áreas e multiplicando por 2: a² + 2ab + b² = 2ab + c², ou seja, a² + b² = c².",
+
+  // --- Visualizer ---
+  'visualizer.title': "Visualização",
+  'visualizer.snap.free': "Livre",
+  'visualizer.snap.length': "Lados inteiros",
+  'visualizer.snap.angle': "Ângulos inteiros",
+  'visualizer.drag-hint': "Arraste os vértices, ou foque neles e use as setas, para mudar os catetos.",
+  'visualizer.description': "Triângulo retângulo com catetos a = {a} e b = {b} e hipotenusa c = {c}.",
+  'visualizer.description-angles': "Seus ângulos agudos medem α = {alpha} e β = {beta}.",
+  'visualizer.oblique-description': "Triângulo com lados a = {a}, b = {b} e c = {c}, e ângulos α = {alpha}, β = {beta} e γ = {gamma}.",
+
+  // --- Unit circle ---
+  'circle.title': "Círculo trigonométrico",
+  'circle.angle': "Ângulo α (graus)",
+  'circle.drag-hint': "Arraste o ponto ou o controle deslizante; ângulos negativos e maiores que 360° também valem.",
+  'circle.quadrant': "Quadrante {n}",
+  'circle.on-axis': "Sobre um eixo",
+  'circle.reference': "Ângulo de referência: {angle}",
+  'circle.coterminal': "Mesma posição que {angle}",
+  'circle.undefined': "indefinida",
+  'circle.acute': "α é agudo: é um ângulo do triângulo retângulo de hipotenusa 1, cujo cateto oposto mede sen α e o adjacente cos α.",
+  'circle.graphs': "Gráficos",
+  'circle.description': "Circunferência unitária com α = {angle}; seu ponto é ({cos}, {sin}).",
+  'circle.graph-description': "{fn}: em α = {angle} vale {value}.",
+
+  // --- Presenter ---
+  'presenter.open': "Apresentar",
+  'presenter.title': "Apresentação",
+  'presenter.step': "Passo {n} de {total}",
+  'presenter.previous': "Anterior",
+  'presenter.next': "Próximo",
+  'presenter.fullscreen': "Tela cheia",
+  'presenter.exit-fullscreen': "Sair da tela cheia",
+  'presenter.close': "Fechar",
+  'presenter.keys': "← → ou espaço para avançar, F para tela cheia, Esc para sair.",
+
+  // --- Units and precision ---
+  'units.title': "Unidades do resultado",
+  'units.length': "Comprimento",
+  'units.angle': "Ângulos",
+  'units.hint': "Cada dado pode ser informado em outra unidade; um passo de conversão é adicionado.",
+  'unit.u': "Unidades",
+  'unit.cm': "Centímetros",
+  'unit.m': "Metros",
+  'unit.in': "Polegadas",
+  'unit.ft': "Pés",
+  'unit.deg': "Graus",
+  'unit.rad': "Radianos",
+  'unit.grad': "Grados",
+  'unit.dms': "Graus, minutos e segundos",
+
+  'precision.title': "Precisão",
+  'precision.round-to': "Arredondar para",
+  'precision.decimals': "Casas decimais",
+  'precision.significant': "Algarismos significativos",
+  'precision.digits': "Quantidade",
+  'precision.rounding': "Modo de arredondamento",
+  'precision.half-up': "Ao mais próximo (metades para cima)",
+  'precision.half-even': "Ao par mais próximo (bancário)",
+  'precision.up': "Para cima",
+  'precision.down': "Para baixo (truncar)",
+  'precision.exact': "Modo exato",
+  'precision.exact.hint': "Mantém raízes (2√3), frações (5/2) e valores de ângulos notáveis (sen 30° = 1/2).",
+
+  // --- History ---
+  'history.search': "Buscar (ex.: c = 5, α = 30°)",
+  'history.offline': "Não foi possível conectar ao servidor local. Inicie o app com npm run dev.",
+  'history.loading': "Carregando…",
+  'history.no-match': "Nenhum cálculo corresponde à busca.",
+  'history.empty': "Ainda não há cálculos salvos.",
+  'history.open': "Abrir",
+  'history.delete': "Excluir",
+  'history.error.invalid-entry': "O servidor local não aceitou esse cálculo.",
+  'history.error.entry-not-found': "Esse cálculo não está mais no histórico.",
+  'history.error.server': "O servidor local não conseguiu atender o pedido.",
+
+  // --- Updates ---
+  'update.available': "Há uma nova versão do GeoMaster.",
+  'update.reload': "Atualizar",
+  'update.later': "Mais tarde",
+
+  // --- Export ---
+  'export.title': "Exportar",
+  'export.pdf': "PDF (imprimir)",
+  'export.html': "Folha HTML",
+  'export.markdown': "Markdown",
+  'export.latex': "LaTeX",
+  'export.svg': "Figura SVG",
+  'export.png': "Figura PNG",
+  'export.image-error': "Não foi possível gerar a imagem.",
+  'export.procedure': "Resolução",
+  'export.result': "Resultado",
+  'export.figure': "Triângulo",
+  'export.footer': "Gerado com GeoMaster",
+
+  // --- Practice ---
+  'difficulty.label': "Dificuldade",
+  'difficulty.easy': "Fácil (ternas pitagóricas)",
+  'difficulty.medium': "Médio (ângulos notáveis)",
+  'difficulty.hard': "Difícil (decimais)",
+  'seed.label': "Código",
+  'seed.new': "Novo código",
+
+  'question.a': "o cateto a",
+  'question.b': "o cateto b",
+  'question.c': "a hipotenusa c",
+  'question.alpha': "o ângulo α (em graus)",
+  'question.sin': "sen α",
+  'question.cos': "cos α",
+  'question.tan': "tg α",
+  'exercise.given': "Em um triângulo retângulo (γ = 90°) são conhecidos:",
+  'exercise.ask': "Calcule {question}.",
+
+  'practice.count': "Exercícios",
+  'practice.seed-hint': "O mesmo código com a mesma dificuldade e quantidade gera sempre os mesmos exercícios.",
+  'practice.generate': "Gerar exercícios",
+  'practice.progress': "Progresso",
+  'practice.empty': "Escolha a dificuldade e gere uma série de exercícios para praticar.",
+  'practice.exercise': "Exercício {n} de {total}",
+  'practice.placeholder': "Sua resposta (ex.: {example}, 2√3, 1/2)",
+  'practice.check': "Conferir",
+  'practice.correct': "Correto!",
+  'practice.unreadable': "Não foi possível ler a resposta.",
+  'practice.incorrect': "Incorreto.",
+  'practice.answer': "A resposta é {answer}.",
+  'practice.first-step': "Ver o primeiro passo",
+  'practice.next-step': "Ver o próximo passo",
+  'practice.revealed': "({n} de {total})",
+  'practice.next': "Próximo exercício",
+
+  // --- Worksheets ---
+  'topic.hypotenuse': "Pitágoras: hipotenusa",
+  'topic.leg': "Pitágoras: cateto",
+  'topic.sin': "Seno",
+  'topic.cos': "Cosseno",
+  'topic.tan': "Tangente",
+  'topic.angle': "Encontrar o ângulo",
+
+  'worksheet.title': "Fichas de exercícios",
+  'worksheet.topics': "Temas",
+  'worksheet.count': "Problemas",
+  'worksheet.seed-hint': "Com o mesmo código e os mesmos ajustes sempre se obtém a mesma ficha.",
+  'worksheet.sheet': "Folha do aluno",
+  'worksheet.key': "Gabarito",
+  'worksheet.print': "Imprimir {page}",
+  'worksheet.download': "Baixar HTML",
+  'worksheet.file.sheet': "ficha",
+  'worksheet.file.key': "gabarito",
+  'worksheet.empty': "Escolha pelo menos um tema e um código para gerar a ficha.",
+  'worksheet.sheet-title': "Folha de exercícios",
+  'worksheet.key-title': "Gabarito",
+  'worksheet.settings': "{topics} — {difficulty}, código {seed}",
+  'worksheet.problem': "Problema {n}",
+  'worksheet.answer': "Resposta:",
+  'worksheet.name': "Nome:",
+  'worksheet.date': "Data:",
+
+  // --- Word problems ---
+  'word.title': "Problema em texto",
+  'word.placeholder': "Cole um problema aqui, p. ex.: Uma escada de 5 m apoiada em uma parede forma um ângulo de 60° com o chão; a que altura ela chega?",
+  'word.interpret': "Interpretar",
+  'word.nothing': "Não encontrei medidas no texto. Escreva os números com a unidade, por exemplo 5 m ou 60°.",
+  'word.given': "Dados",
+  'word.unknown': "Incógnita",
+  'word.cue': "por “{cue}”",
+  'word.role.none': "Não usar",
+  'word.role.a': "a: altura (cateto oposto)",
+  'word.role.b': "b: distância (cateto adjacente)",
+  'word.role.c': "c: hipotenusa",
+  'word.role.alpha': "α: ângulo com o chão",
+  'word.role.beta': "β: ângulo com a parede",
+  'word.role.area': "Área",
+  'word.role.perimeter': "Perímetro",
+  'word.confirm': "Confirmar e resolver",
+  'word.answer': "Resposta: {answer}",
+
+  // --- Applied problems ---
+  'templates.situation': "Situação",
+  'templates.answer': "Resposta",
+  'template.building.title': "Altura de um prédio",
+  'template.building.description': "Um observador, a certa distância de um prédio, olha para o topo com um ângulo de elevação.",
+  'template.building.field.b': "Distância até o prédio",
+  'template.building.field.alpha': "Ângulo de elevação",
+  'template.building.field.h': "Altura dos olhos (opcional)",
+  'template.building.result.H': "Altura do prédio",
+  'template.building.result.c': "Linha de visada até o topo",
+  'template.ladder.title': "Escada apoiada na parede",
+  'template.ladder.description': "Uma escada está apoiada em uma parede com o pé a certa distância dela.",
+  'template.ladder.field.c': "Comprimento da escada",
+  'template.ladder.field.b': "Distância do pé até a parede",
+  'template.ladder.result.a': "Altura que alcança na parede",
+  'template.ladder.result.alpha': "Ângulo com o chão",
+  'template.ramp.title': "Rampa",
+  'template.ramp.description': "Uma rampa vence um desnível com uma inclinação dada.",
+  'template.ramp.field.a': "Desnível a vencer",
+  'template.ramp.field.alpha': "Inclinação da rampa",
+  'template.ramp.result.c': "Comprimento da rampa",
+  'template.ramp.result.b': "Distância horizontal ocupada",
+  'template.shadow.title': "Sombra e altura do sol",
+  'template.shadow.description': "Um poste vertical projeta sua sombra no chão plano.",
+  'template.shadow.field.a': "Altura do poste",
+  'template.shadow.field.b': "Comprimento da sombra",
+  'template.shadow.result.alpha': "Ângulo de elevação do sol",
+  'template.shadow.result.c': "Da ponta da sombra ao topo do poste",
+  'template.lighthouse.title': "Ângulo de depressão a partir de um farol",
+  'template.lighthouse.description': "Do alto de um farol avista-se um barco com um ângulo de depressão.",
+  'template.lighthouse.field.a': "Altura do farol acima do mar",
+  'template.lighthouse.field.delta': "Ângulo de depressão",
+  'template.lighthouse.result.b': "Distância do barco ao farol",
+  'template.lighthouse.result.c': "Distância em linha reta até o barco",
+  'template.bearing.title': "Rumo de navegação",
+  'template.bearing.description': "Um navio percorre certa distância com rumo N β O: β graus a oeste do norte.",
+  'template.bearing.field.c': "Distância percorrida",
+  'template.bearing.field.beta': "Rumo (graus a oeste do norte)",
+  'template.bearing.result.a': "Avanço para o norte",
+  'template.bearing.result.b': "Avanço para o oeste",
+
+  // --- Coordinates ---
+  'coordinates.plane': "Plano",
+  'coordinates.space': "Espaço (3D)",
+  'coordinates.variant': "Onde estão os pontos",
+  'coordinates.point': "Ponto {name}",
+  'coordinates.coordinate': "Coordenada {axis} de {name}",
+  'coordinates.results': "Resultados",
+  'coordinates.distance': "Distância",
+  'coordinates.midpoint': "Ponto médio",
+  'coordinates.slope': "Coeficiente angular",
+  'coordinates.inclination': "Inclinação",
+  'coordinates.base': "Diagonal da base",
+  'coordinates.vertical': "indefinido (reta vertical)",
+  'coordinates.plane-title': "Plano cartesiano",
+  'coordinates.box-title': "Caixa",
+  'coordinates.drag-hint': "Arraste os pontos, ou selecione-os e mova-os com as setas.",
+  'coordinates.handle': "Ponto {name} em {point}",
+  'coordinates.description': "Plano cartesiano com {p1} e {p2}; a distância entre eles é {distance}.",
+  'coordinates.box-description': "Caixa de arestas {dx}, {dy} e {dz}; a diagonal da base mede {base} e a do espaço {distance}.",
+
+  // --- Classroom ---
+  'classroom.role': "Quem é você",
+  'classroom.teacher': "Professor(a)",
+  'classroom.student': "Aluno(a)",
+  'classroom.classes': "Suas turmas",
+  'classroom.class-name': "Nome de uma turma nova",
+  'classroom.create': "Criar turma",
+  'classroom.empty': "Crie uma turma para começar. Ela fica salva neste navegador.",
+  'classroom.code': "Código da turma",
+  'classroom.code-hint': "Os alunos entram na aba Turma com este código.",
+  'classroom.assign': "Passar tarefa",
+  'classroom.assignment-title': "Título",
+  'classroom.assign-button': "Passar",
+  'classroom.assignments': "Tarefas",
+  'classroom.no-assignments': "Ainda não há tarefas.",
+  'classroom.no-students': "Ninguém entrou ainda.",
+  'classroom.mastery': "Domínio por tema",
+  'classroom.mastery-detail': "{correct} de {answered} certas",
+  'classroom.whole-class': "Turma toda",
+  'classroom.average': "Média: {percent}%",
+  'classroom.refresh': "Atualizar",
+  'classroom.export': "Baixar notas (CSV)",
+  'classroom.file': "notas",
+  'classroom.csv.assignment': "{title} (de {count})",
+  'classroom.csv.total': "Total",
+  'classroom.join': "Entrar em uma turma",
+  'classroom.your-name': "Seu nome",
+  'classroom.join-button': "Entrar",
+  'classroom.leave': "Sair da turma",
+  'classroom.pick': "Escolha um problema de uma tarefa.",
+  'classroom.try-again': "Você pode tentar de novo.",
+  'classroom.error.class-not-found': "Essa turma não existe ou a chave não é do professor dela.",
+  'classroom.error.not-joined': "Você não está em nenhuma turma.",
+  'classroom.error.class-name-missing': "A turma precisa de um nome.",
+  'classroom.error.invalid-assignment': "Tarefa inválida.",
+  'classroom.error.name-missing': "Digite seu nome.",
+  'classroom.error.unknown-code': "Não existe nenhuma turma com esse código.",
+  'classroom.error.name-taken': "Já há alguém com esse nome na turma.",
+  'classroom.error.invalid-answer': "Resposta inválida.",
+  'classroom.error.unknown-problem': "Esse problema não existe.",
+  'classroom.error.too-many-classes': "Muitas turmas foram criadas daqui. Tente de novo em uma hora.",
+  'classroom.error.server': "O servidor local não conseguiu atender o pedido.",
+
+  // --- Tutor ---
+  'tutor.title': "Tutor",
+  'tutor.intro': "Entende os números, mas não o porquê? O tutor explica cada passo e responde às suas perguntas.",
+  'tutor.explain': "Explique os passos",
+  'tutor.ask': "Pergunte algo sobre este problema…",
+  'tutor.send': "Enviar",
+  'tutor.stop': "Parar",
+  'tutor.thinking': "Pensando…",
+  'tutor.error': "O tutor não está disponível. Inicie o app com npm run dev.",
+  'tutor.error.invalid-question': "O tutor não entendeu a pergunta sobre este problema.",
+  'tutor.error.unavailable': "O tutor não está disponível agora. Tente de novo em instantes.",
+  'tutor.mock.title': "Por que cada passo é feito",
+  'tutor.mock.offline': "Tutor offline: explicação de exemplo gerada localmente.",
+  'tutor.mock.step': "No passo {n} ({text}):",
+  'tutor.mock.follow-up': "Só posso revisar os passos deste problema. Pergunte sobre um passo específico, por exemplo: “Por que o passo 2?”",
+  'tutor.why.pythagoras': "Em um triângulo retângulo os quadrados dos catetos somam o quadrado da hipotenusa, então dois lados bastam para achar o terceiro.",
+  'tutor.why.trig': "Seno, cosseno e tangente relacionam um ângulo com a razão entre dois lados, então um ângulo e um lado determinam os demais.",
+  'tutor.why.inverse-trig': "As funções inversas desfazem o seno, o cosseno ou a tangente: a partir da razão entre dois lados devolvem o ângulo.",
+  'tutor.why.right-angle': "Os ângulos somam 180° e um deles mede 90°, então os dois agudos são complementares: somam 90°.",
+  'tutor.why.triangle': "Antes de calcular, vale reunir os dados e ver qual caso de resolução se aplica.",
+  'tutor.why.triangle.angle-sum': "Os três ângulos internos de qualquer triângulo somam 180°, então, conhecidos dois, o terceiro é o que falta.",
+  'tutor.why.law-of-cosines': "A lei dos cossenos generaliza Pitágoras para qualquer triângulo; serve quando se conhecem três lados ou dois lados e o ângulo entre eles.",
+  'tutor.why.law-of-sines': "A lei dos senos diz que cada lado é proporcional ao seno do ângulo oposto; serve quando se conhecem um lado e o ângulo oposto.",
+  'tutor.why.ssa': "Com dois lados e um ângulo não compreendido pode haver zero, uma ou duas soluções, porque o mesmo seno corresponde a dois ângulos suplementares.",
+  'tutor.why.units': "Todos os dados precisam estar na mesma unidade antes de serem combinados em uma fórmula.",
+  'tutor.why.applied': "Uma situação real se resolve vendo qual lado ou ângulo do triângulo retângulo é cada dado.",
+  'tutor.why.applied.depression': "A horizontal que passa pelo alto é paralela ao chão, então os ângulos de depressão e de elevação são alternos internos: são iguais.",
+  'tutor.why.applied.add-height': "A linha de visada parte dos olhos e não do chão, então o triângulo só mede a altura acima deles.",
+  'tutor.why.coordinates': "As diferenças de coordenadas são os catetos de um triângulo retângulo cuja hipotenusa é o segmento, então a distância sai do teorema de Pitágoras.",
+  'tutor.why.coordinates.inclination-falling': "Com coeficiente angular negativo a reta forma com o eixo x positivo um ângulo obtuso: o suplemento do ângulo agudo do triângulo.",
+  'tutor.why.coordinates.space-diagonal': "A diagonal da base é horizontal e a aresta Δz vertical, então formam um ângulo reto e Pitágoras se aplica outra vez.",
+
+  // --- Solver ---
+  'error.insufficient-data': "São necessários dois dados, pelo menos um deles um lado.",
+  'error.right-angle-range': "O ângulo deve estar entre 0° e 90°.",
+  'error.hypotenuse-not-longest': "A hipotenusa deve ser maior que o cateto.",
+  'error.triangle-inequality': "Cada lado deve ser menor que a soma dos outros dois.",
+  'error.angle-sum': "A soma dos dois ângulos deve ser menor que 180°.",
+  'error.over-determined': "Informe exatamente três dados do triângulo.",
+  'error.oblique-insufficient-data': "São necessários três dados, pelo menos um deles um lado.",
+  'error.no-side': "Com três ângulos há infinitos triângulos semelhantes: é necessário pelo menos um lado.",
+  'error.oblique-angle-range': "Os ângulos devem estar entre 0° e 180°.",
+  'error.not-a-number': "Não é um número válido.",
+  'error.non-positive-length': "O lado {side} deve ser maior que 0.",
+  'error.negative-height': "A altura dos olhos não pode ser negativa.",
+  'error.coordinates-missing': "Informe todas as coordenadas dos dois pontos.",
+  'error.same-points': "Os dois pontos coincidem: não há segmento para medir.",
+  'why.non-positive-length': "Um lado é a distância entre dois vértices distintos, então é sempre positivo.",
+  'why.hypotenuse-not-longest': "A hipotenusa fica oposta ao ângulo reto, o maior do triângulo, e c² = a² + b² é maior que o quadrado de cada cateto.",
+  'why.right-angle-range': "Os ângulos de um triângulo somam 180°; com o ângulo reto, α + β = 90°, então cada um fica entre 0° e 90°.",
+  'why.triangle-inequality': "O caminho reto entre dois vértices é mais curto que o que passa pelo terceiro (desigualdade triangular); senão, os lados não conseguem se fechar.",
+  'why.angle-sum': "Os três ângulos de um triângulo somam 180°, então dois deles devem deixar espaço para o terceiro.",
+  'why.oblique-angle-range': "Os três ângulos somam 180° e nenhum pode ser 0°, então cada um fica entre 0° e 180°.",
+  'why.no-side': "Os ângulos fixam a forma do triângulo, mas não o tamanho: um lado dá a escala.",
+  'why.inconsistent': "Dois dados, um deles um lado, bastam para determinar um triângulo retângulo, então qualquer dado extra deve coincidir com o resultado.",
+  'warning.inconsistent': "Dados inconsistentes: foi informado {quantity} = {given}, mas a partir de {first} e {second} obtém-se {quantity} ≈ {expected}.",
+
+  // --- Speech ---
+  'speech.equals': "igual a",
+  'speech.plus': "mais",
+  'speech.minus': "menos",
+  'speech.times': "vezes",
+  'speech.approx': "é aproximadamente",
+  'speech.implies': "portanto",
+  'speech.geq': "maior ou igual a",
+  'speech.neq': "diferente de",
+  'speech.squared': "{x} ao quadrado",
+  'speech.sqrt': "raiz quadrada de {x}",
+  'speech.frac': "{numerator} sobre {denominator}",
+  'speech.degrees': "{x} graus",
+  'speech.gradians': "{x} grados",
+  'speech.dms': "{minutes} minutos {seconds} segundos",
+  'speech.pi': "pi",
+  'speech.sub': "{x} índice {index}",
+  'speech.alpha': "alfa",
+  'speech.beta': "beta",
+  'speech.gamma': "gama",
+  'speech.delta': "delta",
+  'speech.theta': "teta",
+  'speech.fn.sin': "seno de {arg}",
+  'speech.fn.cos': "cosseno de {arg}",
+  'speech.fn.tan': "tangente de {arg}",
+  'speech.fn.arcsin': "arco seno de {arg}",
+  'speech.fn.arccos': "arco cosseno de {arg}",
+  'speech.fn.arctan': "arco tangente de {arg}",
+  'speech.increment': "variação de {axis}",
+  'speech.abs': "valor absoluto de {x}",
+
+  // --- Steps ---
+  'step.pythagoras.identify-legs': "Identificamos os catetos:",
+  'step.pythagoras.hypotenuse-formula': "Usamos a fórmula:",
+  'step.pythagoras.substitute-legs': "Substituímos os valores:",
+  'step.pythagoras.square-legs': "Calculamos os quadrados:",
+  'step.pythagoras.sum-squares': "Somamos:",
+  'step.pythagoras.solve-hypotenuse': "Resultado final:",
+  'step.pythagoras.identify-sides': "Identificamos os lados:",
+  'step.pythagoras.leg-formula': "Isolamos {target} na fórmula:",
+  'step.pythagoras.substitute-sides': "Substituímos os valores:",
+  'step.pythagoras.solve-leg': "Resultado final:",
+  'step.trig.given': "Dados {side} e ângulo (α):",
+  'step.trig.solve-opposite': "Calculamos o cateto oposto (a):",
+  'step.trig.solve-adjacent': "Calculamos o cateto adjacente (b):",
+  'step.trig.solve-hypotenuse': "Calculamos a hipotenusa (c):",
+  'step.right-angle.complement': "Calculamos o ângulo complementar ({target}):",
+  'step.inverse-trig.arctan': "Encontramos α com a tangente inversa (arctan):",
+  'step.inverse-trig.arcsin': "Encontramos α com o seno inverso (arcsin):",
+  'step.inverse-trig.arccos': "Encontramos α com o cosseno inverso (arccos):",
+  'step.triangle.given': "Dados conhecidos:",
+  'step.triangle.angle-sum': "A soma dos ângulos internos é 180°:",
+  'step.law-of-cosines.side-formula': "Aplicamos a Lei dos Cossenos para encontrar {target}:",
+  'step.law-of-cosines.solve-side': "Substituímos os valores:",
+  'step.law-of-cosines.angle-formula': "Aplicamos a Lei dos Cossenos para encontrar {target}:",
+  'step.law-of-cosines.solve-angle': "Substituímos os valores e aplicamos o cosseno inverso (arccos):",
+  'step.law-of-sines.side-formula': "Aplicamos a Lei dos Senos para encontrar {target}:",
+  'step.law-of-sines.solve-side': "Substituímos os valores:",
+  'step.ssa.sine-ratio': "Caso ambíguo (LLA): aplicamos a Lei dos Senos para encontrar {target}:",
+  'step.ssa.no-solution-sine': "O seno de um ângulo não pode ser maior que 1: não existe nenhum triângulo com esses dados.",
+  'step.ssa.no-solution-angle-sum': "Com {target} {value} os ângulos somariam 180° ou mais: não existe nenhum triângulo com esses dados.",
+  'step.ssa.two-solutions': "Há duas soluções: {target} pode ser agudo ou obtuso.",
+  'step.ssa.one-solution': "Há apenas uma solução: o ângulo suplementar de {target} não cabe no triângulo.",
+  'step.ssa.right-angle': "Há apenas uma solução: o seno vale 1, então {target} é reto.",
+  'step.ssa.acute-branch': "Tomamos o ângulo agudo (arcsin):",
+  'step.ssa.obtuse-branch': "Tomamos o ângulo obtuso (suplementar):",
+  'step.trig.ratio': "Calculamos {ratio} com os lados:",
+  'step.units.convert-length': "Convertemos {quantity} de {from} para {to}:",
+  'step.units.convert-angle': "Convertemos {quantity} de {from} para {to}:",
+  'step.applied.depression': "Os ângulos de depressão e de elevação são alternos internos, então são iguais:",
+  'step.applied.add-height': "Somamos a altura dos olhos do observador:",
+  'step.coordinates.differences': "Subtraímos as coordenadas do primeiro ponto das do segundo:",
+  'step.coordinates.legs': "Os catetos do triângulo retângulo são as diferenças sem sinal:",
+  'step.coordinates.distance': "A distância entre os pontos é a hipotenusa:",
+  'step.coordinates.aligned': "Os pontos estão numa paralela ao eixo {axis}, então a distância é a diferença sem sinal:",
+  'step.coordinates.midpoint': "O ponto médio é a média das coordenadas:",
+  'step.coordinates.slope': "O coeficiente angular é quanto a reta sobe a cada unidade que avança:",
+  'step.coordinates.inclination-rising': "O coeficiente angular é positivo, então a inclinação é o próprio ângulo α:",
+  'step.coordinates.inclination-falling': "O coeficiente angular é negativo: a reta desce, e sua inclinação é o suplemento de α:",
+  'step.coordinates.horizontal': "A reta é horizontal: seu coeficiente angular e sua inclinação são nulos.",
+  'step.coordinates.vertical': "A reta é vertical: não tem coeficiente angular, pois não se pode dividir por Δx = 0, e é perpendicular ao eixo x.",
+  'step.coordinates.base-diagonal': "Etapa 1: a diagonal da base é a hipotenusa do triângulo de catetos Δx e Δy:",
+  'step.coordinates.space-diagonal': "Etapa 2: a diagonal do espaço é a hipotenusa do triângulo vertical de catetos d₁ e Δz:",
+  'step.coordinates.box-diagonal': "Juntando as duas etapas, como d₁² = Δx² + Δy², a distância sai de uma só fórmula:",
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AngleUnit, CalculationStep, LengthUnit, UnitSettings } from '../types';
+import { parseNumber } from './format';
+import { makeStep } from './steps/rules';
+import { ANGLE_UNITS, convertLength, parseAngle } from './units';
+
+export type Measured<Q extends string> = Partial<Record<Q, { text: string; unit: LengthUnit | AngleUnit }>>;
+
+const isAngleUnit = (unit: LengthUnit | AngleUnit): unit is AngleUnit => unit in ANGLE_UNITS;
+
+/**
+ * Converts typed values to the result units (lengths) or degrees (angles, which
+ * the solvers work in), with a conversion step for every value typed in another unit.
+ */
+export const convertInput = <Q extends string>(fields: Measured<Q>, units: UnitSettings) => {
+  const input: Partial<Record<Q, number>> = {};
+  const steps: CalculationStep[] = [];
+
+  for (const quantity of Object.keys(fields) as Q[]) {
+    const { text, unit } = fields[quantity]!;
+    if (isAngleUnit(unit)) {
+      const degrees = parseAngle(text, unit);
+      input[quantity] = degrees;
+      if (unit !== units.angle && !isNaN(degrees)) {
+        steps.push(makeStep('units.convert-angle', {
+          values: { [quantity]: degrees },
+          params: { quantity, from: unit, to: units.angle },
+        }));
+      }
+    } else {
+      const value = parseNumber(text);
+      input[quantity] = convertLength(value, unit, units.length);
+      if (unit !== units.length && !isNaN(value)) {
+        steps.push(makeStep('units.convert-length', {
+          values: { [quantity]: value },
+          results: { [quantity]: input[quantity]! },
+          params: { quantity, from: unit, to: units.length },
+        }));
+      }
+    }
+  }
+  return { input, steps };
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { fitRightTriangleSquares, Label, placeLabels, RIGHT_TRIANGLE_BOX, rightTriangleVertices } from './layout';
+
+const intersect = (p: Label, q: Label) =>
+  Math.abs(p.x - q.x) < (p.width + q.width) / 2 && Math.abs(p.y - q.y) < (p.height + q.height) / 2;
+
+const box = (id: string, x: number, y: number, width = 60): Label => ({ id, x, y, width, height: 12 });
+
+describe('placeLabels', () => {
+  it('leaves labels that do not collide where they are', () => {
+    const labels = [box('a', 50, 50), box('b', 150, 50)];
+    expect(placeLabels(labels, 200, 100)).toEqual(labels);
+  });
+
+  it('moves later labels away from earlier ones', () => {
+    const [b, alpha] = placeLabels([box('b', 100, 90), box('alpha', 110, 88)], 200, 200);
+    expect(b).toEqual(box('b', 100, 90));
+    expect(intersect(b, alpha)).toBe(false);
+  });
+
+  it('keeps every label inside the box', () => {
+    const placed = placeLabels([box('a', -20, 5), box('b', 195, 5), box('c', 190, 8)], 200, 100);
+    for (const label of placed) {
+      expect(label.x - label.width / 2).toBeGreaterThanOrEqual(0);
+      expect(label.x + label.width / 2).toBeLessThanOrEqual(200);
+      expect(label.y - label.height / 2).toBeGreaterThanOrEqual(0);
+    }
+    expect(intersect(placed[1], placed[2])).toBe(false);
+  });
+
+  it('separates a crowd of labels around a flat triangle', () => {
+    const placed = placeLabels([box('b', 160, 200), box('a', 40, 198), box('c', 170, 190), box('alpha', 282, 196), box('beta', 48, 186)], 340, 230);
+    for (let i = 0; i < placed.length; i++) {
+      for (let j = 0; j < i; j++) expect(intersect(placed[i], placed[j])).toBe(false);
+    }
+  });
+});
+
+describe('fitRightTriangleSquares', () => {
+  it('keeps the squares on all three sides inside the drawing', () => {
+    const [a, b] = [3, 4];
+    const { scale, origin } = fitRightTriangleSquares(a, b);
+    const { A, B, C } = rightTriangleVertices(origin, a, b, scale);
+    // The square on c is the hypotenuse moved (a, b) away from C.
+    const corners = [
+      { x: C.x - a * scale, y: B.y },
+      { x: C.x, y: C.y + b * scale },
+      { x: A.x + a * scale, y: A.y - b * scale },
+      { x: B.x + a * scale, y: B.y - b * scale },
+    ];
+    for (const { x, y } of corners) {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThanOrEqual(RIGHT_TRIANGLE_BOX.width);
+      expect(y).toBeGreaterThanOrEqual(0);
+      expect(y).toBeLessThanOrEqual(RIGHT_TRIANGLE_BOX.height);
+    }
+  });
+});
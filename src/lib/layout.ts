@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A text box centred on `x`, `y`, in SVG coordinates. */
+export interface Label {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const GAP = 2;
+const MAX_PASSES = 20;
+
+const overlap = (p: Label, q: Label) => ({
+  x: (p.width + q.width) / 2 + GAP - Math.abs(p.x - q.x),
+  y: (p.height + q.height) / 2 + GAP - Math.abs(p.y - q.y),
+});
+
+const clamp = (label: Label, width: number, height: number): Label => ({
+  ...label,
+  x: Math.min(width - label.width / 2, Math.max(label.width / 2, label.x)),
+  y: Math.min(height - label.height / 2, Math.max(label.height / 2, label.y)),
+});
+
+/**
+ * Moves labels apart until none overlap and keeps them inside a `width` × `height`
+ * box. Earlier labels take precedence: a label only moves away from those before it,
+ * along whichever axis needs the shorter move.
+ */
+export const placeLabels = <L extends Label>(labels: L[], width: number, height: number): L[] => {
+  const placed = labels.map(label => clamp(label, width, height) as L);
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let moved = false;
+    for (let i = 1; i < placed.length; i++) {
+      for (let j = 0; j < i; j++) {
+        const [label, other] = [placed[i], placed[j]];
+        const { x, y } = overlap(label, other);
+        if (x <= 0 || y <= 0) continue;
+        placed[i] = x < y
+          ? { ...label, x: label.x + (label.x < other.x ? -x : x) }
+          : { ...label, y: label.y + (label.y < other.y ? -y : y) };
+        placed[i] = clamp(placed[i], width, height) as L;
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+  return placed;
+};
+
+// --- Right triangle ---
+
+export type Point = { x: number; y: number };
+
+/** The drawing of a right triangle, with room around it for the side and angle labels. */
+export const RIGHT_TRIANGLE_BOX = { width: 340, height: 260, margin: { x: 70, y: 36 } };
+
+const CHAR_WIDTH = 6;
+const SQUARES_MARGIN = 8;
+const LABEL_HEIGHT = 12;
+
+/** Scale and position of the right angle C that fit legs `a` (vertical) and `b` (horizontal), centred. */
+export const fitRightTriangle = (a: number, b: number) => {
+  const { width, height, margin } = RIGHT_TRIANGLE_BOX;
+  const scale = Math.min((width - 2 * margin.x) / (b || 1), (height - 2 * margin.y) / (a || 1));
+  return { scale, origin: { x: (width - b * scale) / 2, y: (height + a * scale) / 2 } };
+};
+
+/**
+ * Like `fitRightTriangle`, with room for a square on each side: on a to the
+ * left, on b below and on c away from C, which together span 2a + b across and
+ * a + 2b down.
+ */
+export const fitRightTriangleSquares = (a: number, b: number) => {
+  const { width, height } = RIGHT_TRIANGLE_BOX;
+  const scale = Math.min((width - 2 * SQUARES_MARGIN) / (2 * a + b || 1), (height - 2 * SQUARES_MARGIN) / (a + 2 * b || 1));
+  return {
+    scale,
+    origin: { x: (width - (2 * a + b) * scale) / 2 + a * scale, y: (height - (a + 2 * b) * scale) / 2 + (a + b) * scale },
+  };
+};
+
+/** C at `origin`, A at the end of b (angle α) and B at the end of a (angle β). */
+export const rightTriangleVertices = (origin: Point, a: number, b: number, scale: number) => ({
+  C: origin,
+  A: { x: origin.x + b * scale, y: origin.y },
+  B: { x: origin.x, y: origin.y - a * scale },
+});
+
+/** An arc of radius `r` around `vertex`, from the side towards `from` to the side towards `to`. */
+export const arcPath = (vertex: Point, from: Point, to: Point, r: number) => {
+  const unit = (p: Point) => {
+    const len = Math.hypot(p.x - vertex.x, p.y - vertex.y) || 1;
+    return { x: (p.x - vertex.x) / len, y: (p.y - vertex.y) / len };
+  };
+  const [u, v] = [unit(from), unit(to)];
+  const sweep = u.x * v.y - u.y * v.x > 0 ? 1 : 0;
+  return `M ${vertex.x + u.x * r} ${vertex.y + u.y * r} A ${r} ${r} 0 0 ${sweep} ${vertex.x + v.x * r} ${vertex.y + v.y * r}`;
+};
+
+/**
+ * Side labels outside each side and angle labels next to their vertex, moved
+ * apart so that they neither collide nor leave the drawing.
+ */
+export const rightTriangleLabels = (
+  { A, B, C }: Record<'A' | 'B' | 'C', Point>,
+  texts: { a: string; b: string; c: string; alpha?: string; beta?: string },
+) => {
+  const box = (id: string, text: string) => ({ id, text, width: text.length * CHAR_WIDTH, height: LABEL_HEIGHT });
+  const [width, height] = [A.x - C.x, C.y - B.y];
+  const hypotenuse = Math.hypot(width, height) || 1;
+  const normal = { x: height / hypotenuse, y: -width / hypotenuse };
+
+  const [a, b, c] = [box('a', texts.a), box('b', texts.b), box('c', texts.c)];
+  const cOffset = 6 + Math.abs(normal.x) * c.width / 2 + Math.abs(normal.y) * c.height / 2;
+  const labels = [
+    { ...b, x: (C.x + A.x) / 2, y: C.y + 6 + b.height / 2 },
+    { ...a, x: C.x - 6 - a.width / 2, y: (C.y + B.y) / 2 },
+    { ...c, x: (A.x + B.x) / 2 + normal.x * cOffset, y: (A.y + B.y) / 2 + normal.y * cOffset },
+  ];
+  if (texts.alpha) {
+    const alpha = box('alpha', texts.alpha);
+    labels.push({ ...alpha, x: A.x + 8 + alpha.width / 2, y: A.y - alpha.height / 2 - 2 });
+  }
+  if (texts.beta) {
+    const beta = box('beta', texts.beta);
+    labels.push({ ...beta, x: B.x, y: B.y - 8 - beta.height / 2 });
+  }
+  return placeLabels(labels, RIGHT_TRIANGLE_BOX.width, RIGHT_TRIANGLE_BOX.height);
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { Locale } from '../types';
+import { LOCALES } from './i18n';
+import { exampleInput, lessonExample, lessonsFor, parseLesson, searchLessons, solveExample, splitLesson } from './lessons';
+
+const LESSON = `---
+title: Teorema de Pitágoras
+order: 2
+---
+
+La hipotenusa $c$ cumple:
+
+$$a^2 + b^2 = c^2$$
+
+\`\`\`calculator
+m=pythagoras&a=6&b=8
+\`\`\`
+
+Y con [este ejemplo](?m=pythagoras&b=12&c=13) se calcula un cateto.
+
+\`\`\`proofs
+\`\`\`
+`;
+
+describe('parseLesson', () => {
+  it('reads the front matter and keeps searchable words only', () => {
+    const lesson = parseLesson('pythagoras', LESSON);
+    expect(lesson).toMatchObject({ id: 'pythagoras', title: 'Teorema de Pitágoras', order: 2 });
+    expect(lesson.body.startsWith('\nLa hipotenusa')).toBe(true);
+    expect(lesson.text).toBe('La hipotenusa cumple: Y con este ejemplo se calcula un cateto.');
+  });
+});
+
+describe('splitLesson', () => {
+  it('takes the live blocks out of the Markdown', () => {
+    const segments = splitLesson(parseLesson('pythagoras', LESSON).body);
+    expect(segments.map(segment => ('block' in segment ? segment.block : 'markdown'))).toEqual(['markdown', 'calculator', 'markdown', 'proofs']);
+    expect(segments[1]).toEqual({ block: 'calculator', source: 'm=pythagoras&a=6&b=8' });
+    expect(segments[0]).toMatchObject({ markdown: expect.stringContaining('$$a^2 + b^2 = c^2$$') });
+  });
+});
+
+describe('searchLessons', () => {
+  const lessons = [
+    parseLesson('right-triangle', '---\ntitle: El triángulo rectángulo\n---\nSus lados se llaman catetos e hipotenusa.'),
+    parseLesson('pythagoras', LESSON),
+  ];
+
+  it('ignores accents and case and puts title matches first', () => {
+    expect(searchLessons(lessons, 'PITAGORAS').map(match => match.lesson.id)).toEqual(['pythagoras']);
+    expect(searchLessons(lessons, 'hipotenusa').map(match => match.lesson.id)).toEqual(['right-triangle', 'pythagoras']);
+    expect(searchLessons(lessons, 'cateto').map(match => match.lesson.id)).toEqual(['right-triangle', 'pythagoras']);
+    expect(searchLessons(lessons, 'triangulo cateto').map(match => match.lesson.id)).toEqual(['right-triangle']);
+    expect(searchLessons(lessons, 'seno')).toEqual([]);
+  });
+
+  it('quotes the text around the match', () => {
+    const [match] = searchLessons(lessons, 'ejemplo');
+    expect(match.excerpt).toBe('…hipotenusa cumple: Y con este ejemplo se calcula un cateto.');
+    expect(searchLessons(lessons, 'teorema')[0].excerpt).toBeNull();
+  });
+});
+
+describe('lesson examples', () => {
+  it('reads the trig tab fields as the quantities they stand for', () => {
+    const example = lessonExample('m=trig&alpha=30&side=10&sideType=c')!;
+    expect(exampleInput(example)).toEqual({ alpha: 30, c: 10 });
+    expect(solveExample(example)?.a).toBeCloseTo(5);
+  });
+
+  it('draws triangles from right-triangle data and rejects the rest', () => {
+    expect(solveExample(lessonExample('a=3&b=4')!)?.c).toBe(5);
+    expect(solveExample(lessonExample('a=3&c=2')!)).toBeNull();
+    expect(lessonExample('m=oblique&a=3&b=4&c=5')).toBeNull();
+  });
+});
+
+describe('lesson files', () => {
+  it('has every lesson in every language, with examples that solve', () => {
+    const files = Object.keys(import.meta.glob('../lessons/*/*.md'));
+    const ids = lessonsFor('es').map(lesson => lesson.id);
+    expect(ids).toEqual(['right-triangle', 'pythagoras', 'trig-ratios']);
+    for (const locale of Object.keys(LOCALES) as Locale[]) {
+      expect(files.filter(file => file.startsWith(`../lessons/${locale}/`))).toHaveLength(ids.length);
+      const lessons = lessonsFor(locale);
+      expect(lessons.map(lesson => lesson.id)).toEqual(ids);
+      for (const { body } of lessons) {
+        const examples = [
+          ...[...body.matchAll(/\]\((\?[^)]*)\)/g)].map(match => match[1]),
+          ...splitLesson(body).flatMap(segment => ('block' in segment && segment.block !== 'proofs' ? [segment.source] : [])),
+        ];
+        for (const example of examples) expect(solveExample(lessonExample(example)!), example).not.toBeNull();
+      }
+    }
+  });
+});
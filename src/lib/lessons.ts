@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Locale, Quantity, RightTriangleInput, RightTriangleSolution, SharedProblem, Side } from '../types';
+import { parseNumber } from './format';
+import { decodeProblem } from './link';
+import { SolverError, solveRightTriangle } from './solver';
+
+// Lessons are Markdown files in `src/lessons/<locale>/<id>.md`, starting with
+// a front matter block (`title`, `order`). Besides `$…$` and `$$…$$` math they
+// may contain the fenced blocks of LessonBlock, and links such as
+// `[…](?m=pythagoras&a=3&b=4)` that open an example in the calculator.
+
+export interface Lesson {
+  id: string;
+  title: string;
+  /** Position in the index. */
+  order: number;
+  /** The Markdown after the front matter. */
+  body: string;
+  /** The body without blocks, math or markup, for searching. */
+  text: string;
+}
+
+const SOURCES = import.meta.glob<string>('../lessons/*/*.md', { query: '?raw', import: 'default', eager: true });
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+const plainText = (markdown: string) =>
+  markdown
+    .replace(/^```[\s\S]*?^```/gm, ' ')
+    .replace(/\$\$[\s\S]*?\$\$|\$[^$\n]*\$/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#*_>`|-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const parseLesson = (id: string, source: string): Lesson => {
+  const match = source.match(FRONT_MATTER);
+  const meta: Record<string, string> = {};
+  for (const line of match?.[1].split(/\r?\n/) ?? []) {
+    const colon = line.indexOf(':');
+    if (colon > 0) meta[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+  }
+  const body = match ? source.slice(match[0].length) : source;
+  return { id, title: meta.title || id, order: Number(meta.order) || 0, body, text: plainText(body) };
+};
+
+const LESSONS = Object.entries(SOURCES).map(([path, source]) => {
+  const [, locale, id] = path.match(/([^/]+)\/([^/]+)\.md$/)!;
+  return { locale, lesson: parseLesson(id, source) };
+});
+
+/** The lessons in `locale`, in index order; a lesson not translated yet is shown in Spanish. */
+export const lessonsFor = (locale: Locale): Lesson[] => {
+  const byId = new Map<string, Lesson>();
+  for (const fallback of ['es', locale]) {
+    for (const entry of LESSONS) if (entry.locale === fallback) byId.set(entry.lesson.id, entry.lesson);
+  }
+  return [...byId.values()].sort((x, y) => x.order - y.order);
+};
+
+// --- Search ---
+
+/** Lowercase and without accents, one character for each, so positions still match the original. */
+const fold = (text: string) => text.split('').map(ch => ch.normalize('NFD').charAt(0).toLowerCase().charAt(0)).join('');
+
+const EXCERPT_BEFORE = 30;
+const EXCERPT_LENGTH = 110;
+
+export interface LessonMatch {
+  lesson: Lesson;
+  /** The text around the first word found in the body; null when only the title matched. */
+  excerpt: string | null;
+}
+
+/**
+ * Lessons containing every word of `query`, accents and case aside, those
+ * whose title has them all first. An empty query matches every lesson.
+ */
+export const searchLessons = (lessons: Lesson[], query: string): LessonMatch[] => {
+  const words = fold(query).split(/\s+/).filter(Boolean);
+  if (!words.length) return lessons.map(lesson => ({ lesson, excerpt: null }));
+
+  return lessons
+    .map(lesson => {
+      const [title, text] = [fold(lesson.title), fold(lesson.text)];
+      if (!words.every(word => title.includes(word) || text.includes(word))) return null;
+      const at = Math.min(...words.map(word => text.indexOf(word)).filter(i => i >= 0));
+      const start = Math.max(0, lesson.text.lastIndexOf(' ', at - EXCERPT_BEFORE) + 1);
+      const excerpt = isFinite(at)
+        ? `${start > 0 ? '…' : ''}${lesson.text.slice(start, start + EXCERPT_LENGTH).trim()}${start + EXCERPT_LENGTH < lesson.text.length ? '…' : ''}`
+        : null;
+      return { lesson, excerpt, inTitle: words.every(word => title.includes(word)) };
+    })
+    .filter(match => match !== null)
+    .sort((x, y) => Number(y.inTitle) - Number(x.inTitle))
+    .map(({ lesson, excerpt }) => ({ lesson, excerpt }));
+};
+
+// --- Blocks ---
+
+/**
+ * Fenced blocks with a live part: `calculator` and `triangle` take an example
+ * written like a share link (`m=trig&alpha=30&side=10&sideType=c`; a triangle
+ * needs no `m`), `proofs` shows the proofs of Pythagoras' theorem.
+ */
+export type LessonBlock = 'calculator' | 'triangle' | 'proofs';
+
+export type LessonSegment = { markdown: string } | { block: LessonBlock; source: string };
+
+const BLOCK_PATTERN = /^```(calculator|triangle|proofs)[ \t]*\r?\n([\s\S]*?)^```[ \t]*$/m;
+
+/** Splits a lesson into Markdown and its blocks, in order. */
+export const splitLesson = (body: string): LessonSegment[] => {
+  const parts = body.split(new RegExp(BLOCK_PATTERN.source, 'gm'));
+  const segments: LessonSegment[] = [];
+  for (let i = 0; i < parts.length; i += 3) {
+    if (parts[i].trim()) segments.push({ markdown: parts[i] });
+    if (i + 1 < parts.length) segments.push({ block: parts[i + 1] as LessonBlock, source: parts[i + 2].trim() });
+  }
+  return segments;
+};
+
+/** An example in a link or block; only the right-triangle tabs can open one. */
+export const lessonExample = (source: string): SharedProblem | null => {
+  const params = new URLSearchParams(source.trim());
+  if (!params.has('m')) params.set('m', 'right');
+  const problem = decodeProblem(params.toString());
+  return problem && problem.mode !== 'oblique' ? problem : null;
+};
+
+/** The values an example gives, by quantity; the trig tab's `side` is the one `sideType` names. */
+export const exampleInput = ({ mode, input: { fields } }: SharedProblem): RightTriangleInput => {
+  const input: RightTriangleInput = {};
+  for (const [id, text] of Object.entries(fields)) {
+    const key = id.slice(mode.length + 1);
+    if (key === 'sideType') continue;
+    const quantity = key === 'side' ? ((fields[`${mode}.sideType`] as Side | undefined) ?? 'c') : (key as Quantity);
+    input[quantity] = parseNumber(text);
+  }
+  return input;
+};
+
+/** The example solved, or null when its values make no triangle. */
+export const solveExample = (problem: SharedProblem): RightTriangleSolution | null => {
+  try {
+    return solveRightTriangle(exampleInput(problem));
+  } catch (err) {
+    if (!(err instanceof SolverError)) throw err;
+    return null;
+  }
+};
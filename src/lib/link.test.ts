@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PRECISION } from './format';
+import { decodeProblem, encodeProblem } from './link';
+import { DEFAULT_UNITS } from './units';
+
+describe('encodeProblem', () => {
+  it('keeps only the filled fields of the mode and leaves defaults out', () => {
+    const query = encodeProblem({
+      mode: 'right',
+      input: { fields: { 'right.a': '3', 'right.b': ' 4 ', 'right.c': '', 'pythagoras.a': '7' }, fieldUnits: {}, units: DEFAULT_UNITS },
+      precision: DEFAULT_PRECISION,
+    });
+    expect(query).toBe('m=right&a=3&b=4');
+  });
+});
+
+describe('decodeProblem', () => {
+  it('round-trips fields, units and precision', () => {
+    const problem = {
+      mode: 'oblique' as const,
+      input: {
+        fields: { 'oblique.a': '2√3', 'oblique.alpha': '30°15\'', 'oblique.b': '4' },
+        fieldUnits: { 'oblique.alpha': 'dms' as const, 'oblique.b': 'in' as const },
+        units: { length: 'cm' as const, angle: 'rad' as const },
+      },
+      precision: { mode: 'significant' as const, digits: 3, rounding: 'half-even' as const, exact: true },
+    };
+    expect(decodeProblem(`?${encodeProblem(problem)}`)).toEqual(problem);
+  });
+
+  it('returns null without a known mode', () => {
+    expect(decodeProblem('')).toBeNull();
+    expect(decodeProblem('?m=cube&a=3')).toBeNull();
+  });
+
+  it('falls back to the defaults for unknown settings', () => {
+    const problem = decodeProblem('?m=trig&alpha=30&u.alpha=furlong&len=parsec&p=d99&r=sideways');
+    expect(problem?.input).toEqual({ fields: { 'trig.alpha': '30' }, fieldUnits: {}, units: DEFAULT_UNITS });
+    expect(problem?.precision).toEqual({ ...DEFAULT_PRECISION, digits: 10 });
+  });
+
+  it('drops field units of the wrong kind', () => {
+    const problem = decodeProblem('?m=pythagoras&len=cm&a=1&b=1&u.a=rad&u.b=in');
+    expect(problem?.input.fieldUnits).toEqual({ 'pythagoras.b': 'in' });
+    expect(decodeProblem('?m=trig&alpha=30&side=2&u.alpha=cm&u.side=grad')?.input.fieldUnits).toEqual({});
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AngleUnit, CalculatorMode, LengthUnit, PrecisionSettings, RoundingMode, SharedProblem } from '../types';
+import { DEFAULT_PRECISION } from './format';
+import { ANGLE_UNITS, DEFAULT_UNITS, LENGTH_UNITS } from './units';
+
+// Query keys: `m` is the mode, field values use the field name (`a`, `alpha`,
+// `sideType`…), `u.<field>` a per-field unit, `len`/`ang` the result units and
+// `p` (`d4`, `s3`), `r` and `x` the precision. Defaults are left out.
+
+const MODES: CalculatorMode[] = ['pythagoras', 'trig', 'right', 'oblique'];
+const ROUNDING: RoundingMode[] = ['half-up', 'half-even', 'up', 'down'];
+const PRECISION_PATTERN = /^([ds])(\d{1,2})$/;
+const MAX_DIGITS = 10;
+
+const isLengthUnit = (unit: string): unit is LengthUnit => Object.hasOwn(LENGTH_UNITS, unit);
+const isAngleUnit = (unit: string): unit is AngleUnit => Object.hasOwn(ANGLE_UNITS, unit);
+const ANGLE_FIELDS = ['alpha', 'beta', 'gamma'];
+
+/**
+ * Keeps the per-field units (keyed like `trig.alpha`) that match the kind of
+ * value their field holds: angle units for angles, length units for the rest.
+ */
+export const fittingFieldUnits = (fieldUnits: Record<string, string>) => {
+  const kept: Record<string, LengthUnit | AngleUnit> = {};
+  for (const [id, unit] of Object.entries(fieldUnits)) {
+    const angle = ANGLE_FIELDS.includes(id.slice(id.indexOf('.') + 1));
+    if (angle ? isAngleUnit(unit) : isLengthUnit(unit)) kept[id] = unit as LengthUnit | AngleUnit;
+  }
+  return kept;
+};
+
+export const encodeProblem = ({ mode, input, precision }: SharedProblem) => {
+  const params = new URLSearchParams({ m: mode });
+  const prefix = `${mode}.`;
+  for (const [id, text] of Object.entries(input.fields)) {
+    if (id.startsWith(prefix) && text.trim() !== '') params.set(id.slice(prefix.length), text.trim());
+  }
+  for (const [id, unit] of Object.entries(input.fieldUnits)) {
+    if (id.startsWith(prefix)) params.set(`u.${id.slice(prefix.length)}`, unit);
+  }
+  if (input.units.length !== DEFAULT_UNITS.length) params.set('len', input.units.length);
+  if (input.units.angle !== DEFAULT_UNITS.angle) params.set('ang', input.units.angle);
+  if (precision.mode !== DEFAULT_PRECISION.mode || precision.digits !== DEFAULT_PRECISION.digits) {
+    params.set('p', `${precision.mode === 'significant' ? 's' : 'd'}${precision.digits}`);
+  }
+  if (precision.rounding !== DEFAULT_PRECISION.rounding) params.set('r', precision.rounding);
+  if (precision.exact) params.set('x', '1');
+  return params.toString();
+};
+
+/**
+ * Reads a problem from a query string such as `?m=right&a=3&b=4`. Returns null
+ * when there is no mode; unknown units or settings fall back to the defaults,
+ * and a field unit of the wrong kind (`u.a=rad`) is dropped.
+ */
+export const decodeProblem = (search: string): SharedProblem | null => {
+  const params = new URLSearchParams(search);
+  const mode = params.get('m') as CalculatorMode | null;
+  if (!mode || !MODES.includes(mode)) return null;
+
+  const fields: Record<string, string> = {};
+  const fieldUnits: Record<string, string> = {};
+  for (const [key, value] of params) {
+    if (key.startsWith('u.')) {
+      fieldUnits[`${mode}.${key.slice(2)}`] = value;
+    } else if (!['m', 'len', 'ang', 'p', 'r', 'x'].includes(key)) {
+      fields[`${mode}.${key}`] = value;
+    }
+  }
+
+  const length = params.get('len') ?? '';
+  const angle = params.get('ang') ?? '';
+  const units = {
+    length: isLengthUnit(length) ? length : DEFAULT_UNITS.length,
+    angle: isAngleUnit(angle) ? angle : DEFAULT_UNITS.angle,
+  };
+
+  const precision: PrecisionSettings = { ...DEFAULT_PRECISION, exact: params.get('x') === '1' };
+  const digits = params.get('p')?.match(PRECISION_PATTERN);
+  if (digits) {
+    precision.mode = digits[1] === 's' ? 'significant' : 'decimals';
+    precision.digits = Math.min(MAX_DIGITS, Math.max(precision.mode === 'significant' ? 1 : 0, parseInt(digits[2])));
+  }
+  const rounding = params.get('r') as RoundingMode | null;
+  if (rounding && ROUNDING.includes(rounding)) precision.rounding = rounding;
+
+  return { mode, input: { fields, fieldUnits: fittingFieldUnits(fieldUnits), units }, precision };
+};
@@ -0,0 +1,10 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** True for a parsed input that actually holds a number (empty fields parse to NaN). */
+export const isKnown = (v: number | undefined): v is number => v !== undefined && !isNaN(v);
+
+export const toRad = (deg: number) => (deg * Math.PI) / 180;
+export const toDeg = (rad: number) => (rad * 180) / Math.PI;
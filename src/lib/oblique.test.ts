@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { solveTriangle } from './oblique';
+
+describe('solveTriangle', () => {
+  it('solves SSS with the Law of Cosines', () => {
+    const r = solveTriangle({ a: 3, b: 4, c: 5 });
+    expect(r.triangleCase).toBe('SSS');
+    expect(r.solutions).toHaveLength(1);
+    const [s] = r.solutions;
+    expect(s.alpha).toBeCloseTo(36.8699, 4);
+    expect(s.beta).toBeCloseTo(53.1301, 4);
+    expect(s.gamma).toBeCloseTo(90);
+    expect(s.area).toBeCloseTo(6);
+    expect(s.perimeter).toBeCloseTo(12);
+    expect(s.steps[0]).toMatchObject({ rule: 'law-of-cosines.angle-formula', params: { target: 'alpha' } });
+  });
+
+  it('rejects sides that break the triangle inequality', () => {
+    expect(() => solveTriangle({ a: 1, b: 2, c: 3 })).toThrow(expect.objectContaining({ code: 'triangle-inequality' }));
+  });
+
+  it('solves SAS by first finding the opposite side', () => {
+    const r = solveTriangle({ b: 5, c: 7, alpha: 60 });
+    expect(r.triangleCase).toBe('SAS');
+    const [s] = r.solutions;
+    expect(s.a).toBeCloseTo(Math.sqrt(39));
+    expect(s.alpha + s.beta + s.gamma).toBeCloseTo(180);
+    expect(s.steps[0]).toMatchObject({ rule: 'law-of-cosines.side-formula', params: { target: 'a' } });
+  });
+
+  it('solves ASA when the side lies between the known angles', () => {
+    const r = solveTriangle({ alpha: 30, beta: 60, c: 10 });
+    expect(r.triangleCase).toBe('ASA');
+    const [s] = r.solutions;
+    expect(s.gamma).toBeCloseTo(90);
+    expect(s.a).toBeCloseTo(5);
+    expect(s.b).toBeCloseTo(8.6603, 4);
+  });
+
+  it('solves AAS with the Law of Sines', () => {
+    const r = solveTriangle({ alpha: 45, beta: 60, a: 10 });
+    expect(r.triangleCase).toBe('AAS');
+    const [s] = r.solutions;
+    expect(s.gamma).toBeCloseTo(75);
+    expect(s.b).toBeCloseTo((10 * Math.sin(Math.PI / 3)) / Math.sin(Math.PI / 4));
+    expect(s.steps).toContainEqual(expect.objectContaining({ rule: 'law-of-sines.solve-side', results: { b: s.b } }));
+  });
+
+  it('rejects two angles adding up to 180° or more', () => {
+    expect(() => solveTriangle({ alpha: 100, beta: 80, a: 1 })).toThrow(expect.objectContaining({ code: 'angle-out-of-range' }));
+  });
+
+  describe('ambiguous SSA case', () => {
+    it('finds two triangles', () => {
+      const r = solveTriangle({ a: 6, b: 8, alpha: 40 });
+      expect(r.triangleCase).toBe('SSA');
+      expect(r.solutions).toHaveLength(2);
+      const [acute, obtuse] = r.solutions;
+      expect(acute.beta).toBeCloseTo(58.9873, 3);
+      expect(obtuse.beta).toBeCloseTo(180 - 58.9873, 3);
+      expect(acute.c).toBeGreaterThan(obtuse.c);
+      expect(r.steps.at(-1)?.rule).toBe('ssa.two-solutions');
+    });
+
+    it('finds one triangle when the supplementary angle does not fit', () => {
+      const r = solveTriangle({ a: 10, b: 6, alpha: 40 });
+      expect(r.solutions).toHaveLength(1);
+      expect(r.solutions[0].beta).toBeLessThan(90);
+    });
+
+    it('finds one right triangle when sin equals 1', () => {
+      const r = solveTriangle({ a: 5, b: 10, alpha: 30 });
+      expect(r.solutions).toHaveLength(1);
+      expect(r.solutions[0].beta).toBeCloseTo(90);
+    });
+
+    it('finds no triangle when sin exceeds 1', () => {
+      const r = solveTriangle({ a: 2, b: 10, alpha: 30 });
+      expect(r.solutions).toEqual([]);
+      expect(r.steps.at(-1)?.rule).toBe('ssa.no-solution-sine');
+    });
+
+    it('finds no triangle when the known angle is obtuse and opposite the shorter side', () => {
+      const r = solveTriangle({ a: 3, b: 3.02, alpha: 100 });
+      expect(r.solutions).toEqual([]);
+      expect(r.steps.at(-1)?.rule).toBe('ssa.no-solution-angle-sum');
+    });
+  });
+
+  it.each([
+    [{ a: 1, b: 2 }, 'insufficient-data'],
+    [{ alpha: 50, beta: 60, gamma: 70 }, 'insufficient-data'],
+    [{ a: 3, b: 4, c: 5, alpha: 30 }, 'over-determined'],
+    [{ a: 3, b: 4, gamma: 180 }, 'angle-out-of-range'],
+    [{ a: 3, b: 0, c: 5 }, 'non-positive-length'],
+  ] as const)('rejects %o with %s', (input, code) => {
+    expect(() => solveTriangle(input)).toThrow(expect.objectContaining({ code }));
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CalculationStep,
+  ObliqueAngle,
+  ObliqueQuantity,
+  ObliqueResult,
+  Side,
+  TriangleCase,
+  StepValues,
+  TriangleInput,
+  TriangleSolution
+} from '../types';
+import { isKnown, toDeg, toRad } from './math';
+import { checkLengths, SolverError } from './solver';
+import { makeStep } from './steps/rules';
+
+// --- Helpers ---
+
+type Values = Partial<Record<ObliqueQuantity, number>>;
+
+const SIDES: Side[] = ['a', 'b', 'c'];
+const ANGLES: ObliqueAngle[] = ['alpha', 'beta', 'gamma'];
+const ANGLE_OF: Record<Side, ObliqueAngle> = { a: 'alpha', b: 'beta', c: 'gamma' };
+const SIDE_OF: Record<ObliqueAngle, Side> = { alpha: 'a', beta: 'b', gamma: 'c' };
+
+/** Tolerance for sin > 1 and degenerate (sin = 1) checks in the SSA case. */
+const EPSILON = 1e-9;
+
+const pick = (vals: Values, ...keys: ObliqueQuantity[]): StepValues =>
+  Object.fromEntries(keys.map(q => [q, vals[q]!]));
+
+const otherSides = (s: Side) => SIDES.filter(x => x !== s) as [Side, Side];
+const otherAngles = (angle: ObliqueAngle) => ANGLES.filter(x => x !== angle) as [ObliqueAngle, ObliqueAngle];
+
+// --- Rules ---
+
+const sideByCosines = (vals: Values, steps: CalculationStep[], target: Side) => {
+  const [x, y] = otherSides(target);
+  const angle = ANGLE_OF[target];
+  const value = Math.sqrt(vals[x]! ** 2 + vals[y]! ** 2 - 2 * vals[x]! * vals[y]! * Math.cos(toRad(vals[angle]!)));
+  const params = { target, x, y, angle };
+  steps.push(makeStep('law-of-cosines.side-formula', { params }));
+  steps.push(makeStep('law-of-cosines.solve-side', { values: pick(vals, x, y, angle), results: { [target]: value }, params }));
+  vals[target] = value;
+};
+
+const angleByCosines = (vals: Values, steps: CalculationStep[], target: ObliqueAngle) => {
+  const x = SIDE_OF[target];
+  const [y, z] = otherSides(x);
+  const value = toDeg(Math.acos((vals[y]! ** 2 + vals[z]! ** 2 - vals[x]! ** 2) / (2 * vals[y]! * vals[z]!)));
+  const params = { target, x, y, z };
+  steps.push(makeStep('law-of-cosines.angle-formula', { params }));
+  steps.push(makeStep('law-of-cosines.solve-angle', { values: pick(vals, x, y, z), results: { [target]: value }, params }));
+  vals[target] = value;
+};
+
+const sideBySines = (vals: Values, steps: CalculationStep[], target: Side, ref: Side) => {
+  const angle = ANGLE_OF[target];
+  const refAngle = ANGLE_OF[ref];
+  const value = (vals[ref]! * Math.sin(toRad(vals[angle]!))) / Math.sin(toRad(vals[refAngle]!));
+  const params = { target, ref, angle, refAngle };
+  steps.push(makeStep('law-of-sines.side-formula', { params }));
+  steps.push(makeStep('law-of-sines.solve-side', { values: pick(vals, ref, angle, refAngle), results: { [target]: value }, params }));
+  vals[target] = value;
+};
+
+const angleBySum = (vals: Values, steps: CalculationStep[], target: ObliqueAngle) => {
+  const [x, y] = otherAngles(target);
+  const value = 180 - vals[x]! - vals[y]!;
+  steps.push(makeStep('triangle.angle-sum', { values: pick(vals, x, y), results: { [target]: value }, params: { target, x, y } }));
+  vals[target] = value;
+};
+
+const finish = (vals: Values, steps: CalculationStep[]): TriangleSolution => {
+  const { a, b, c, alpha, beta, gamma } = vals as Record<ObliqueQuantity, number>;
+  return {
+    a, b, c, alpha, beta, gamma,
+    area: (a * b * Math.sin(toRad(gamma))) / 2,
+    perimeter: a + b + c,
+    steps
+  };
+};
+
+// --- Cases ---
+
+const solveSSS = (vals: Values): TriangleSolution => {
+  const longest = SIDES.reduce((x, y) => (vals[y]! > vals[x]! ? y : x));
+  const [x, y] = otherSides(longest);
+  if (vals[x]! + vals[y]! <= vals[longest]!) {
+    throw new SolverError('triangle-inequality', 'error.triangle-inequality', {}, [longest]);
+  }
+  const steps: CalculationStep[] = [];
+  angleByCosines(vals, steps, 'alpha');
+  angleByCosines(vals, steps, 'beta');
+  angleBySum(vals, steps, 'gamma');
+  return finish(vals, steps);
+};
+
+const solveSAS = (vals: Values, angle: ObliqueAngle): TriangleSolution => {
+  const steps: CalculationStep[] = [];
+  sideByCosines(vals, steps, SIDE_OF[angle]);
+  const [next, last] = otherAngles(angle);
+  angleByCosines(vals, steps, next);
+  angleBySum(vals, steps, last);
+  return finish(vals, steps);
+};
+
+const solveTwoAngles = (vals: Values, side: Side, missing: ObliqueAngle): TriangleSolution => {
+  const [x, y] = otherAngles(missing);
+  if (vals[x]! + vals[y]! >= 180) {
+    throw new SolverError('angle-out-of-range', 'error.angle-sum', {}, [x, y]);
+  }
+  const steps: CalculationStep[] = [];
+  angleBySum(vals, steps, missing);
+  for (const z of otherSides(side)) sideBySines(vals, steps, z, side);
+  return finish(vals, steps);
+};
+
+/**
+ * Ambiguous case: sides x and y are known together with the angle opposite x.
+ * sin(Y) = y·sin(X)/x gives no triangle when it exceeds 1, a single right
+ * triangle when it equals 1 and otherwise up to two supplementary values of Y.
+ */
+const solveSSA = (vals: Values, shared: CalculationStep[], angle: ObliqueAngle, y: Side): TriangleSolution[] => {
+  const x = SIDE_OF[angle];
+  const yAngle = ANGLE_OF[y];
+  const ratio = (vals[y]! * Math.sin(toRad(vals[angle]!))) / vals[x]!;
+
+  const params = { target: yAngle, y, angle, x };
+
+  shared.push(makeStep('ssa.sine-ratio', { values: pick(vals, y, angle, x), results: { ratio }, params }));
+
+  if (ratio > 1 + EPSILON) {
+    shared.push(makeStep('ssa.no-solution-sine', { results: { ratio }, params }));
+    return [];
+  }
+
+  const acute = toDeg(Math.asin(Math.min(ratio, 1)));
+  const candidates = (ratio < 1 - EPSILON ? [acute, 180 - acute] : [acute])
+    .filter(value => vals[angle]! + value < 180 - EPSILON);
+
+  if (candidates.length === 0) {
+    shared.push(makeStep('ssa.no-solution-angle-sum', { values: pick(vals, angle), results: { acute }, params }));
+    return [];
+  }
+
+  if (candidates.length === 2) {
+    shared.push(makeStep('ssa.two-solutions', { results: { acute, obtuse: 180 - acute }, params }));
+  } else {
+    const rule = ratio < 1 - EPSILON ? 'ssa.one-solution' : 'ssa.right-angle';
+    shared.push(makeStep(rule, { results: { [yAngle]: candidates[0] }, params }));
+  }
+
+  return candidates.map((value, i) => {
+    const branch = { ...vals, [yAngle]: value };
+    const steps = [i === 0
+      ? makeStep('ssa.acute-branch', { values: { ratio }, results: { [yAngle]: value }, params })
+      : makeStep('ssa.obtuse-branch', { values: { acute }, results: { [yAngle]: value }, params })];
+    const missing = otherAngles(angle).find(q => q !== yAngle)!;
+    angleBySum(branch, steps, missing);
+    sideBySines(branch, steps, SIDE_OF[missing], x);
+    return finish(branch, steps);
+  });
+};
+
+// --- Public API ---
+
+/**
+ * Solves an arbitrary triangle (α opposite a, β opposite b, γ opposite c)
+ * from exactly three known quantities, at least one of them a side, using
+ * the Law of Cosines (SSS, SAS), the Law of Sines (ASA, AAS) or the
+ * ambiguous-case analysis (SSA).
+ *
+ * @throws {SolverError} when the data is insufficient, over-determined or impossible.
+ */
+export const solveTriangle = (input: TriangleInput): ObliqueResult => {
+  const known = [...SIDES, ...ANGLES].filter(q => isKnown(input[q]));
+  const sides = SIDES.filter(q => known.includes(q));
+  const angles = ANGLES.filter(q => known.includes(q));
+
+  if (known.length > 3) {
+    throw new SolverError('over-determined', 'error.over-determined');
+  }
+  if (known.length < 3) {
+    throw new SolverError('insufficient-data', 'error.oblique-insufficient-data');
+  }
+  if (sides.length === 0) {
+    throw new SolverError('insufficient-data', 'error.no-side');
+  }
+  checkLengths(input);
+  for (const q of angles) {
+    if (input[q]! <= 0 || input[q]! >= 180) {
+      throw new SolverError('angle-out-of-range', 'error.oblique-angle-range', {}, [q]);
+    }
+  }
+
+  const vals: Values = {};
+  for (const q of known) vals[q] = input[q];
+
+  const steps = [makeStep('triangle.given', { values: pick(vals, ...known) })];
+
+  let triangleCase: TriangleCase;
+  let solutions: TriangleSolution[];
+
+  if (sides.length === 3) {
+    triangleCase = 'SSS';
+    solutions = [solveSSS(vals)];
+  } else if (sides.length === 2) {
+    const [angle] = angles;
+    if (!sides.includes(SIDE_OF[angle])) {
+      triangleCase = 'SAS';
+      solutions = [solveSAS(vals, angle)];
+    } else {
+      triangleCase = 'SSA';
+      solutions = solveSSA(vals, steps, angle, sides.find(s => s !== SIDE_OF[angle])!);
+    }
+  } else {
+    const [side] = sides;
+    const missing = ANGLES.find(q => !angles.includes(q))!;
+    triangleCase = SIDE_OF[missing] === side ? 'ASA' : 'AAS';
+    solutions = [solveTwoAngles(vals, side, missing)];
+  }
+
+  return { triangleCase, steps, solutions };
+};
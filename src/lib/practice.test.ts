@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseNumber } from './format';
+import { generateExercises, gradeAnswer } from './practice';
+import { createRandom } from './random';
+import { renderPlainText } from './steps/render';
+
+describe('createRandom', () => {
+  it('repeats the sequence for the same seed, ignoring case and spaces', () => {
+    const [first, second] = [createRandom('ABC123'), createRandom(' abc123 ')];
+    const draw = (random: typeof first) => Array.from({ length: 5 }, () => random.int(1, 100));
+    expect(draw(first)).toEqual(draw(second));
+    expect(draw(createRandom('ABC124'))).not.toEqual(draw(createRandom('ABC123')));
+  });
+});
+
+describe('generateExercises', () => {
+  it('is reproducible from the seed', () => {
+    const options = { seed: 'CLASE7', difficulty: 'hard' as const, count: 8 };
+    expect(generateExercises(options)).toEqual(generateExercises(options));
+    expect(generateExercises({ ...options, seed: 'CLASE8' })).not.toEqual(generateExercises(options));
+  });
+
+  it('uses Pythagorean triples for easy exercises', () => {
+    for (const exercise of generateExercises({ seed: 'E', difficulty: 'easy', count: 30 })) {
+      expect(['hypotenuse', 'leg']).toContain(exercise.kind);
+      expect(Number.isInteger(exercise.answer)).toBe(true);
+      expect(Object.values(exercise.given).every(Number.isInteger)).toBe(true);
+    }
+  });
+
+  it('uses special angles with whole-number data for medium exercises', () => {
+    for (const exercise of generateExercises({ seed: 'M', difficulty: 'medium', count: 30 })) {
+      expect(Object.values(exercise.given).every(Number.isInteger)).toBe(true);
+      if (exercise.given.alpha !== undefined) expect([30, 45, 60]).toContain(exercise.given.alpha);
+      if (exercise.target === 'alpha') expect([30, 45, 60]).toContain(Math.round(exercise.answer * 1e6) / 1e6);
+    }
+  });
+
+  it('explains ratio exercises with a final ratio step', () => {
+    const exercise = generateExercises({ seed: 'R', difficulty: 'medium', count: 40 }).find(e => e.target === 'sin')!;
+    const last = renderPlainText(exercise.steps.slice(-1), { exact: true });
+    expect(last).toMatch(/^Calculamos sin\(α\) con los lados: sin\(α\) = a\/c = \d+\/\d+ = (1\/2|√2\/2|√3\/2)$/);
+  });
+});
+
+describe('gradeAnswer', () => {
+  const [exercise] = generateExercises({ seed: 'G', difficulty: 'easy', count: 1 });
+
+  it('accepts answers within the tolerance', () => {
+    expect(gradeAnswer(exercise, `${exercise.answer}`).correct).toBe(true);
+    expect(gradeAnswer(exercise, `${exercise.answer * 1.005}`).correct).toBe(true);
+    expect(gradeAnswer(exercise, `${exercise.answer * 1.05}`).correct).toBe(false);
+  });
+
+  it('rejects unreadable answers', () => {
+    expect(gradeAnswer(exercise, 'cinco')).toEqual({ correct: false, received: NaN, expected: exercise.answer });
+  });
+});
+
+describe('parseNumber', () => {
+  it('reads decimals and exact forms', () => {
+    expect(parseNumber('0,5')).toBe(0.5);
+    expect(parseNumber(' 36.87° ')).toBe(36.87);
+    expect(parseNumber('2√3')).toBeCloseTo(2 * Math.sqrt(3));
+    expect(parseNumber('√3/2')).toBeCloseTo(Math.sqrt(3) / 2);
+    expect(parseNumber('-5/2')).toBe(-2.5);
+    expect(parseNumber('sqrt(2)')).toBeCloseTo(Math.SQRT2);
+    expect(parseNumber('')).toBeNaN();
+    expect(parseNumber('2√')).toBeNaN();
+  });
+
+  it('rejects values that are not finite', () => {
+    expect(parseNumber('5/0')).toBeNaN();
+    expect(parseNumber('0/0')).toBeNaN();
+  });
+});
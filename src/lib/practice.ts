@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Difficulty, Exercise, ExerciseKind, ExerciseTarget, Grade, RightTriangleInput, Side, TrigFunction } from '../types';
+import { parseNumber } from './format';
+import { createRandom, Random } from './random';
+import { solveRightTriangle } from './solver';
+import { plainNotation } from './steps/notation';
+import { formatAngle, formatLength, RenderOptions } from './steps/render';
+import { makeStep } from './steps/rules';
+
+// --- Triangles ---
+
+const TRIPLES: [number, number, number][] = [[3, 4, 5], [5, 12, 13], [8, 15, 17], [7, 24, 25], [20, 21, 29], [9, 40, 41]];
+
+const SIDES: ExerciseTarget[] = ['a', 'b', 'c'];
+
+type Triangle = Record<Side, number> & { alpha: number };
+
+/** Integer sides: a Pythagorean triple scaled by a small factor, legs in either order. */
+const tripleTriangle = (random: Random): Triangle => {
+  const [p, q, r] = random.pick(TRIPLES);
+  const k = random.int(1, 3);
+  const [a, b] = random.next() < 0.5 ? [p * k, q * k] : [q * k, p * k];
+  return { a, b, c: r * k, alpha: (Math.atan2(a, b) * 180) / Math.PI };
+};
+
+/** Sides the student can be given for each special angle without irrational values. */
+const SPECIAL_INTEGER_SIDES: Record<number, Side[]> = { 30: ['a', 'c'], 45: ['a', 'b'], 60: ['b', 'c'] };
+
+/** α of 30°, 45° or 60°, scaled so the sides in `SPECIAL_INTEGER_SIDES` are whole numbers. */
+const specialTriangle = (random: Random, angles = [30, 45, 60]): Triangle => {
+  const alpha = random.pick(angles);
+  const k = random.int(1, 10);
+  if (alpha === 45) return { a: k, b: k, c: k * Math.SQRT2, alpha };
+  const [short, long] = [k, k * Math.sqrt(3)];
+  return alpha === 30 ? { a: short, b: long, c: 2 * k, alpha } : { a: long, b: short, c: 2 * k, alpha };
+};
+
+/**
+ * Legs with one decimal between 2 and 30. The hypotenuse is rounded up to one
+ * decimal too, so that it stays longer than both legs when it is given.
+ */
+const decimalTriangle = (random: Random): Triangle => {
+  const [a, b] = [random.int(20, 300) / 10, random.int(20, 300) / 10];
+  return { a, b, c: Math.ceil(Math.hypot(a, b) * 10) / 10, alpha: (Math.atan2(a, b) * 180) / Math.PI };
+};
+
+/** Angles with one decimal, for exercises that give α. */
+const decimalAngle = (random: Random) => random.int(50, 850) / 10;
+
+// --- Exercises ---
+
+const KINDS: Record<Difficulty, ExerciseKind[]> = {
+  easy: ['hypotenuse', 'leg'],
+  medium: ['side-from-angle', 'angle', 'trig-ratio'],
+  hard: ['hypotenuse', 'leg', 'side-from-angle', 'angle', 'trig-ratio'],
+};
+
+const RATIO_SIDES: Record<TrigFunction, [Side, Side]> = { sin: ['a', 'c'], cos: ['b', 'c'], tan: ['a', 'b'] };
+
+const pickSides = (random: Random, triangle: Triangle, difficulty: Difficulty): [Side, Side] => {
+  const sides: Side[] = difficulty === 'medium' ? SPECIAL_INTEGER_SIDES[triangle.alpha] : ['a', 'b', 'c'];
+  const first = random.pick(sides);
+  return [first, random.pick(sides.filter(s => s !== first))];
+};
+
+const pickValues = (triangle: Triangle, quantities: (Side | 'alpha')[]): RightTriangleInput =>
+  Object.fromEntries(quantities.map(q => [q, triangle[q]]));
+
+/** Special angles whose triangle has whole numbers on the sides each kind gives (any angle when missing). */
+const SPECIAL_ANGLES: Partial<Record<ExerciseKind, number[]>> = { hypotenuse: [45], leg: [30, 60] };
+
+/** The data and question of one exercise, before it is solved; `ratio` fixes the function of ratio exercises. */
+const pose = (random: Random, difficulty: Difficulty, kind: ExerciseKind, ratio?: TrigFunction): { given: RightTriangleInput; target: ExerciseTarget } => {
+  const triangle = difficulty === 'easy' ? tripleTriangle(random)
+    : difficulty === 'medium' ? specialTriangle(random, SPECIAL_ANGLES[kind])
+    : decimalTriangle(random);
+
+  switch (kind) {
+    case 'hypotenuse':
+      return { given: pickValues(triangle, ['a', 'b']), target: 'c' };
+    case 'leg': {
+      const leg = difficulty === 'medium'
+        ? SPECIAL_INTEGER_SIDES[triangle.alpha].find(s => s !== 'c') as 'a' | 'b'
+        : random.pick(['a', 'b'] as const);
+      return { given: pickValues(triangle, [leg, 'c']), target: leg === 'a' ? 'b' : 'a' };
+    }
+    case 'side-from-angle': {
+      const [known, target] = pickSides(random, triangle, difficulty);
+      const alpha = difficulty === 'hard' ? decimalAngle(random) : triangle.alpha;
+      // Hard exercises pick their own angle, so only the known side is taken from the triangle.
+      return { given: { alpha, [known]: triangle[known] }, target };
+    }
+    case 'angle':
+      return { given: pickValues(triangle, pickSides(random, triangle, difficulty)), target: 'alpha' };
+    case 'trig-ratio':
+      return { given: pickValues(triangle, pickSides(random, triangle, difficulty)), target: ratio ?? random.pick(['sin', 'cos', 'tan'] as const) };
+  }
+};
+
+const solveExercise = (kind: ExerciseKind, given: RightTriangleInput, target: ExerciseTarget): Exercise => {
+  const solution = solveRightTriangle(given);
+  if (target !== 'sin' && target !== 'cos' && target !== 'tan') {
+    return { kind, given, target, answer: solution[target], steps: solution.steps };
+  }
+  const [num, den] = RATIO_SIDES[target];
+  const answer = solution[num] / solution[den];
+  const ratio = makeStep('trig.ratio', {
+    values: { [num]: solution[num], [den]: solution[den] },
+    results: { [target]: answer },
+    params: { fn: target, num, den },
+  });
+  return { kind, given, target, answer, steps: [...solution.steps, ratio] };
+};
+
+/** A random kind of exercise for the difficulty, unless `kind` (and `ratio`) ask for a specific one. */
+export const generateExercise = (
+  random: Random,
+  difficulty: Difficulty,
+  kind = random.pick(KINDS[difficulty]),
+  ratio?: TrigFunction,
+): Exercise => {
+  const { given, target } = pose(random, difficulty, kind, ratio);
+  return solveExercise(kind, given, target);
+};
+
+/** The same seed, difficulty and count always produce the same exercises. */
+export const generateExercises = ({ seed, difficulty, count }: { seed: string; difficulty: Difficulty; count: number }) => {
+  const random = createRandom(`${difficulty}:${seed}`);
+  return Array.from({ length: count }, () => generateExercise(random, difficulty));
+};
+
+// --- Wording ---
+
+/** Named by the `difficulty.<id>` messages; questions are the `question.<target>` ones. */
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+/** Answers are given in degrees, whatever the angle unit of `options`. */
+export const answerOptions = (options: RenderOptions): RenderOptions => ({ ...options, units: { ...options.units, angle: 'deg' } });
+
+export const formatAnswer = (target: ExerciseTarget, v: number, options: RenderOptions) =>
+  target === 'alpha' ? formatAngle(v, answerOptions(options))
+    : SIDES.includes(target) ? formatLength(v, options)
+    : plainNotation(options).res(v);
+
+// --- Grading ---
+
+/** Lengths are graded relative to their size, angles in degrees and ratios absolutely. */
+export const TOLERANCE = { relative: 0.01, degrees: 0.5, ratio: 0.01 };
+
+export const gradeAnswer = (exercise: Exercise, text: string): Grade => {
+  const received = parseNumber(text);
+  const expected = exercise.answer;
+  const error = Math.abs(received - expected);
+  const allowed = exercise.target === 'alpha' ? TOLERANCE.degrees
+    : SIDES.includes(exercise.target) ? TOLERANCE.relative * Math.abs(expected)
+    : TOLERANCE.ratio;
+  return { correct: !isNaN(received) && error <= allowed, received, expected };
+};
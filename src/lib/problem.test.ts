@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { parseWordProblem } from './problem';
+
+const read = (text: string) => {
+  const { values, target } = parseWordProblem(text);
+  return { values: values.map(({ quantity, value, unit }) => ({ quantity, value, unit })), target };
+};
+
+describe('parseWordProblem', () => {
+  it('reads a ladder against a wall', () => {
+    const problem = parseWordProblem("Una escalera de 5 m apoyada en una pared forma un ángulo de 60° con el suelo; ¿a qué altura llega?");
+    expect(problem).toEqual({
+      values: [
+        { quantity: 'c', value: 5, unit: 'm', source: "5 m", cue: 'escalera' },
+        { quantity: 'alpha', value: 60, unit: 'deg', source: "60°", cue: 'suelo' },
+      ],
+      target: 'a',
+    });
+  });
+
+  it('reads English problems', () => {
+    expect(read("A 10 ft ladder leans against a wall. The foot of the ladder is 6 ft from the wall. How high up the wall does the ladder reach?")).toEqual({
+      values: [{ quantity: 'c', value: 10, unit: 'ft' }, { quantity: 'b', value: 6, unit: 'ft' }],
+      target: 'a',
+    });
+  });
+
+  it('reads shadows and angles of elevation', () => {
+    expect(read("Un árbol proyecta una sombra de 12,5 m cuando el sol tiene una elevación de 35°. ¿Cuál es la altura del árbol?")).toEqual({
+      values: [{ quantity: 'b', value: 12.5, unit: 'm' }, { quantity: 'alpha', value: 35, unit: 'deg' }],
+      target: 'a',
+    });
+  });
+
+  it('reads Portuguese problems', () => {
+    expect(read("Uma escada de 5 m apoiada em uma parede forma um ângulo de 60° com o chão; a que altura ela chega?")).toEqual({
+      values: [{ quantity: 'c', value: 5, unit: 'm' }, { quantity: 'alpha', value: 60, unit: 'deg' }],
+      target: 'a',
+    });
+  });
+
+  it('gives both legs and shares a trailing unit', () => {
+    expect(read("Los catetos de un triángulo rectángulo miden 3 y 4 cm. Calcula la hipotenusa.")).toEqual({
+      values: [{ quantity: 'a', value: 3, unit: 'cm' }, { quantity: 'b', value: 4, unit: 'cm' }],
+      target: 'c',
+    });
+  });
+
+  it('asks for the angle at the ground or at the wall', () => {
+    expect(read("A ramp is 5 m long and rises 1 m. What angle does it make with the ground?").target).toBe('alpha');
+    expect(read("Una escalera de 4 m llega a 3 m de altura. ¿Qué ángulo forma con la pared?")).toEqual({
+      values: [{ quantity: 'c', value: 4, unit: 'm' }, { quantity: 'a', value: 3, unit: 'm' }],
+      target: 'beta',
+    });
+  });
+
+  it('leaves unexplained or repeated quantities for the user', () => {
+    expect(read("Dos números: 7 y 9.").values.map(v => v.quantity)).toEqual([null, null]);
+    expect(read("La escalera mide 5 m y la cuerda 6 m.").values.map(v => v.quantity)).toEqual(['c', null]);
+    expect(read("Nada que medir.")).toEqual({ values: [], target: null });
+  });
+
+  it('tells inches and metres from the preposition and minutes of arc', () => {
+    expect(read("The wire is 13 in. Its foot is 5 in from the base").values).toEqual([
+      { quantity: 'c', value: 13, unit: 'in' },
+      { quantity: 'b', value: 5, unit: 'in' },
+    ]);
+    expect(read("The tree is 3 in the drawing").values).toEqual([{ quantity: 'a', value: 3, unit: 'u' }]);
+    expect(parseWordProblem("The angle of elevation is 30° 15 m").values).toEqual([
+      { quantity: 'alpha', value: 30.25, unit: 'deg', source: "30° 15 m", cue: 'elevation' },
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AngleUnit, LengthUnit, Quantity, Side, WordProblem, WordProblemValue, WordTarget } from '../types';
+
+// --- Vocabulary ---
+//
+// Word problems are read as right triangles standing on the ground: a is the
+// vertical leg (a height), b the horizontal one (a distance along the ground),
+// c the slanted side (a ladder, a rope), α the angle at the ground and β the
+// angle at the top, against the wall.
+
+const LENGTH_UNIT_WORDS: Record<string, LengthUnit> = {
+  cm: 'cm', centímetro: 'cm', centímetros: 'cm', centimetro: 'cm', centimetros: 'cm',
+  centimeter: 'cm', centimeters: 'cm', centimetre: 'cm', centimetres: 'cm',
+  m: 'm', metro: 'm', metros: 'm', meter: 'm', meters: 'm', metre: 'm', metres: 'm',
+  in: 'in', pulgada: 'in', pulgadas: 'in', inch: 'in', inches: 'in',
+  ft: 'ft', pie: 'ft', pies: 'ft', foot: 'ft', feet: 'ft',
+  u: 'u', unidad: 'u', unidades: 'u', unit: 'u', units: 'u',
+};
+
+const ANGLE_UNIT_WORDS: Record<string, AngleUnit> = {
+  '°': 'deg', 'º': 'deg', grado: 'deg', grados: 'deg', degree: 'deg', degrees: 'deg',
+  grau: 'deg', graus: 'deg',
+  rad: 'rad', radián: 'rad', radianes: 'rad', radian: 'rad', radians: 'rad', radiano: 'rad', radianos: 'rad',
+};
+
+/** Words that say which side a length is; `leg` is either leg, a first. */
+const LENGTH_CUES: Record<Side | 'leg', string[]> = {
+  a: [
+    'altura', 'alto', 'alta', 'sube', 'se eleva', 'edificio', 'árbol', 'arbol', 'torre', 'poste', 'mástil', 'mastil', 'cateto opuesto',
+    'height', 'high', 'tall', 'rises', 'rise', 'building', 'tree', 'tower', 'pole', 'flagpole', 'opposite leg',
+    'prédio', 'árvore', 'cateto oposto',
+  ],
+  b: [
+    'distancia', 'base', 'sombra', 'de la pared', 'del muro', 'de la base', 'del pie', 'horizontal', 'cateto adyacente',
+    'distance', 'shadow', 'from the wall', 'from the base', 'from the foot', 'away', 'adjacent leg',
+    'distância', 'da parede', 'do muro', 'cateto adjacente',
+  ],
+  c: [
+    'hipotenusa', 'escalera', 'cuerda', 'cable', 'hilo', 'rampa', 'tobogán', 'tobogan', 'diagonal',
+    'hypotenuse', 'ladder', 'rope', 'string', 'wire', 'ramp', 'slide',
+    'escada', 'corda', 'fio',
+  ],
+  leg: ['cateto', 'catetos', 'leg', 'legs'],
+};
+
+const ANGLE_CUES: Record<'alpha' | 'beta', string[]> = {
+  alpha: [
+    'suelo', 'piso', 'horizontal', 'elevación', 'elevacion', 'depresión', 'depresion',
+    'ground', 'floor', 'elevation', 'depression',
+    'chão', 'chao', 'elevação', 'depressão',
+  ],
+  beta: ['pared', 'muro', 'vertical', 'wall', 'parede'],
+};
+
+/** Words that say what a question asks for. */
+const TARGET_CUES: Record<Side | 'angle' | 'area' | 'perimeter', string[]> = {
+  a: ['altura', 'alto', 'alta', 'llega', 'alcanza', 'height', 'high', 'tall', 'reach', 'far up', 'up the wall', 'chega', 'alcança'],
+  b: ['distancia', 'lejos', 'separa', 'sombra', 'base', 'distance', 'far', 'shadow', 'away', 'distância', 'longe'],
+  c: [
+    'hipotenusa', 'escalera', 'cuerda', 'cable', 'rampa', 'hypotenuse', 'ladder', 'rope', 'string', 'wire', 'ramp',
+    'escada', 'corda',
+  ],
+  angle: ['ángulo', 'angulo', 'inclinación', 'inclinacion', 'angle', 'inclination', 'ângulo', 'inclinação'],
+  area: ['área', 'area', 'superficie', 'surface', 'superfície'],
+  perimeter: ['perímetro', 'perimetro', 'perimeter'],
+};
+
+const QUESTION_WORDS = /[¿?]|(?<!\p{L})(calcula|calcular|halla|hallar|encuentra|determina|cuánto|cuanto|cuánta|cuál|cual|qué|find|calculate|determine|how|what|which|calcule|encontre|quanto|qual)(?!\p{L})/u;
+
+// --- Matching ---
+
+const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Alternatives longest first, so "cateto opuesto" wins over "cateto". */
+const alternatives = (words: string[]) => [...words].sort((x, y) => y.length - x.length).map(escape).join('|');
+
+interface Cue<T> {
+  word: string;
+  start: number;
+  end: number;
+  meaning: T;
+}
+
+const findCues = <T extends string>(clause: string, cues: Record<T, string[]>): Cue<T>[] => {
+  const meanings = new Map<string, T>();
+  for (const meaning of Object.keys(cues) as T[]) {
+    for (const word of cues[meaning]) meanings.set(word, meaning);
+  }
+  const pattern = new RegExp(`(?<!\\p{L})(${alternatives([...meanings.keys()])})(?!\\p{L})`, 'gu');
+  return [...clause.matchAll(pattern)].map(m => ({ word: m[1], start: m.index, end: m.index + m[1].length, meaning: meanings.get(m[1])! }));
+};
+
+/** The cue closest to the text between `start` and `end`, before or after it. */
+const nearest = <T>(cues: Cue<T>[], start: number, end: number) =>
+  cues.reduce<Cue<T> | undefined>((best, cue) => {
+    const distance = (c: Cue<T>) => (c.end <= start ? start - c.end : c.start - end);
+    return !best || distance(cue) < distance(best) ? cue : best;
+  }, undefined);
+
+const MEASUREMENT = new RegExp(
+  `(?<![\\p{L}\\d.,])(\\d+(?:[.,]\\d+)?)(?:\\s*(${alternatives([...Object.keys(ANGLE_UNIT_WORDS), ...Object.keys(LENGTH_UNIT_WORDS)])})(?!\\p{L}))?`,
+  'gu',
+);
+
+/** Words after which "in" is the English preposition ("3 in the corner"), not inches. */
+const AFTER_IN = /^\s+(?:the|a|an|this|that|these|those|each|every|all|total|front|his|her|its|their|our|my|your|which|it|them)(?!\p{L})/u;
+
+/** Right after degrees ("30° 15 m"), m is minutes of arc, not metres. */
+const AFTER_DEGREES = /[°º]\s*$/;
+
+/** Sentences and questions; a point between digits is a decimal point, not a full stop. */
+const clauses = (text: string) => text.split(/(?<!\d)\.|\.(?!\d)|[;:!¡\n]|(?=¿)|(?<=\?)/).filter(clause => clause.trim());
+
+// --- Public API ---
+
+/**
+ * Reads a right-triangle word problem in Spanish, English or Portuguese: every number
+ * with its unit, which side or angle each one is (from the nearest telling
+ * word: "escalera", "sombra", "con el suelo"…) and what the question asks for.
+ * Numbers without a unit take the unit of the next length ("3 y 4 cm").
+ */
+export const parseWordProblem = (text: string): WordProblem => {
+  const values: WordProblemValue[] = [];
+  let target: WordTarget | null = null;
+
+  for (const original of clauses(text.normalize('NFC'))) {
+    const clause = original.toLowerCase();
+    const lengthCues = findCues(clause, LENGTH_CUES);
+    const angleCues = findCues(clause, ANGLE_CUES);
+
+    const found = [...clause.matchAll(MEASUREMENT)].map(m => {
+      // "in" and "m" are units only where the preposition or minutes reading does not fit.
+      const minutes = m[2] === 'm' && AFTER_DEGREES.test(clause.slice(0, m.index));
+      const unit = m[2] === 'in' && AFTER_IN.test(clause.slice(m.index + m[0].length)) ? '' : m[0];
+      const end = m.index + (unit || m[1]).length;
+      return {
+        value: parseFloat(m[1].replace(',', '.')),
+        unitWord: unit ? (m[2] as string | undefined) : undefined,
+        minutes,
+        start: m.index,
+        end,
+        source: original.slice(m.index, end),
+      };
+    });
+    found.forEach((m, i) => {
+      const last = values.at(-1);
+      if (m.minutes && last?.unit === 'deg') {
+        last.value += m.value / 60;
+        last.source += ` ${m.source}`;
+        return;
+      }
+      const angleUnit = m.unitWord === undefined ? undefined : ANGLE_UNIT_WORDS[m.unitWord];
+      if (angleUnit) {
+        const cue = nearest(angleCues, m.start, m.end);
+        values.push({ quantity: cue?.meaning ?? 'alpha', value: m.value, unit: angleUnit, source: m.source, ...(cue && { cue: cue.word }) });
+        return;
+      }
+      const next = found.slice(i + 1).find(n => n.unitWord !== undefined && Object.hasOwn(LENGTH_UNIT_WORDS, n.unitWord));
+      const unitWord = m.unitWord ?? next?.unitWord;
+      const unit = unitWord === undefined ? 'u' : LENGTH_UNIT_WORDS[unitWord];
+      const cue = nearest(lengthCues, m.start, m.end);
+      const taken = (q: Quantity) => values.some(v => v.quantity === q);
+      const quantity: Quantity | undefined = cue?.meaning === 'leg' ? (['a', 'b'] as Side[]).find(q => !taken(q)) : cue?.meaning;
+      values.push({ quantity: quantity ?? null, value: m.value, unit, source: m.source, ...(cue && { cue: cue.word }) });
+    });
+
+    if (target === null && QUESTION_WORDS.test(clause)) {
+      const [asked] = findCues(clause, TARGET_CUES);
+      if (asked?.meaning === 'angle') {
+        const [side] = angleCues;
+        target = side?.meaning ?? 'alpha';
+      } else if (asked) {
+        target = asked.meaning;
+      }
+    }
+  }
+
+  // Only the first value read as each quantity keeps it; the rest are left for the user.
+  const seen = new Set<Quantity>();
+  for (const value of values) {
+    if (value.quantity === null) continue;
+    if (seen.has(value.quantity)) value.quantity = null;
+    else seen.add(value.quantity);
+  }
+  return { values, target };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { checkPythagoras, euclid, garfield, polygonArea, proofSides, rearrangement, squareOn, trianglePoints } from './proofs';
+
+describe('checkPythagoras', () => {
+  it('tells a right triangle from one that is not', () => {
+    expect(checkPythagoras({ a: 3, b: 4, c: 5 })).toEqual({ a2: 9, b2: 16, c2: 25, sum: 25, holds: true });
+    expect(checkPythagoras({ a: 3, b: 4, c: 6 })).toMatchObject({ sum: 25, c2: 36, holds: false });
+  });
+
+  it('takes the longest side as the hypotenuse', () => {
+    expect(proofSides([5, 3, 4])).toEqual({ a: 3, b: 4, c: 5 });
+  });
+});
+
+describe('proof figures', () => {
+  it('draws the triangle the sides make, or none', () => {
+    const { A, B, C } = trianglePoints({ a: 3, b: 4, c: 6 })!;
+    expect(Math.hypot(A.x - B.x, A.y - B.y)).toBeCloseTo(6);
+    expect(Math.hypot(B.x - C.x, B.y - C.y)).toBeCloseTo(3);
+    expect(trianglePoints({ a: 3, b: 4, c: 8 })).toBeNull();
+  });
+
+  it('puts squares outside the triangle', () => {
+    expect(squareOn({ x: 0, y: 0 }, { x: 4, y: 0 })).toEqual([{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: -4 }, { x: 0, y: -4 }]);
+  });
+
+  it('moves the same four triangles from around c² to beside a² and b²', () => {
+    const { around, apart, hypotenuseSquare, legSquares } = rearrangement(3, 4);
+    for (const [i, triangle] of around.entries()) {
+      expect(Math.abs(polygonArea(triangle))).toBeCloseTo(6);
+      expect(Math.abs(polygonArea(apart[i]))).toBeCloseTo(6);
+    }
+    expect(Math.abs(polygonArea(hypotenuseSquare))).toBeCloseTo(25);
+    expect(Math.abs(polygonArea(legSquares.a)) + Math.abs(polygonArea(legSquares.b))).toBeCloseTo(25);
+  });
+
+  it("cuts Euclid's square on c into rectangles as large as the squares on the legs", () => {
+    const { rectangles, segments } = euclid(3, 4);
+    expect(Math.abs(polygonArea(rectangles.byA))).toBeCloseTo(16);
+    expect(Math.abs(polygonArea(rectangles.byB))).toBeCloseTo(9);
+    expect(segments.byA + segments.byB).toBeCloseTo(5);
+  });
+
+  it("adds Garfield's three triangles up to the trapezoid", () => {
+    const { first, second, middle, trapezoid, area } = garfield(3, 4);
+    expect(polygonArea(trapezoid)).toBeCloseTo(area);
+    expect(polygonArea(first) + polygonArea(second) + polygonArea(middle)).toBeCloseTo(area);
+    expect(polygonArea(middle)).toBeCloseTo(25 / 2);
+  });
+});
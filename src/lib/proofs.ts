@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Point } from './layout';
+
+export type ProofId = 'squares' | 'rearrangement' | 'euclid' | 'garfield';
+
+export const PROOF_IDS: ProofId[] = ['squares', 'rearrangement', 'euclid', 'garfield'];
+
+/** How many stages each proof is shown in; the last one is the conclusion. */
+export const PROOF_STAGES: Record<ProofId, number> = { squares: 4, rearrangement: 4, euclid: 5, garfield: 4 };
+
+export interface ProofSides {
+  a: number;
+  b: number;
+  c: number;
+}
+
+/** Same tolerance as the solver's consistency check. */
+const TOLERANCE = 1e-3;
+
+/** The proofs compare the longest side with the other two, whatever they were called. */
+export const proofSides = (sides: number[]): ProofSides => {
+  const [a, b, c] = [...sides].sort((x, y) => x - y);
+  return { a, b, c };
+};
+
+/** Both sides of a² + b² = c², and whether they agree. */
+export const checkPythagoras = ({ a, b, c }: ProofSides) => {
+  const [a2, b2, c2] = [a * a, b * b, c * c];
+  return { a2, b2, c2, sum: a2 + b2, holds: Math.abs(a2 + b2 - c2) <= TOLERANCE * Math.max(1, c2) };
+};
+
+// --- Geometry ---
+//
+// In drawing units with y pointing up: C at the origin, b along the x-axis
+// and a above it, so every figure goes round counter-clockwise.
+
+const add = (p: Point, q: Point) => ({ x: p.x + q.x, y: p.y + q.y });
+
+/**
+ * The triangle with these sides: C at the origin, A at the end of b and B at
+ * the end of a, at the angle γ the sides give. Null when they make no triangle.
+ */
+export const trianglePoints = ({ a, b, c }: ProofSides) => {
+  const cosGamma = (a * a + b * b - c * c) / (2 * a * b);
+  if (!(Math.abs(cosGamma) < 1)) return null;
+  return {
+    A: { x: b, y: 0 },
+    B: { x: a * cosGamma, y: a * Math.sqrt(1 - cosGamma * cosGamma) },
+    C: { x: 0, y: 0 },
+  };
+};
+
+/** The square on the side from `p` to `q`, outside a counter-clockwise figure: p, q and the two far corners. */
+export const squareOn = (p: Point, q: Point): Point[] => {
+  const outward = { x: q.y - p.y, y: p.x - q.x };
+  return [p, q, add(q, outward), add(p, outward)];
+};
+
+/**
+ * Four copies of the right triangle in a square of side a + b, first around
+ * the square on c, then moved to leave the squares on a and b. Triangles are
+ * in the same order in both, so each can be animated from one to the other.
+ */
+export const rearrangement = (a: number, b: number) => {
+  const s = a + b;
+  return {
+    size: s,
+    // The corners of the tilted square, a from each corner of the big one.
+    hypotenuseSquare: [{ x: a, y: 0 }, { x: s, y: a }, { x: b, y: s }, { x: 0, y: b }],
+    around: [
+      [{ x: 0, y: 0 }, { x: a, y: 0 }, { x: 0, y: b }],
+      [{ x: s, y: 0 }, { x: s, y: a }, { x: a, y: 0 }],
+      [{ x: s, y: s }, { x: b, y: s }, { x: s, y: a }],
+      [{ x: 0, y: s }, { x: 0, y: b }, { x: b, y: s }],
+    ],
+    // Two a × b rectangles, each cut along a diagonal. Every triangle lists
+    // the right angle, then the ends of a and of b.
+    apart: [
+      [{ x: a, y: 0 }, { x: a, y: a }, { x: s, y: 0 }],
+      [{ x: s, y: a }, { x: s, y: 0 }, { x: a, y: a }],
+      [{ x: 0, y: s }, { x: a, y: s }, { x: 0, y: a }],
+      [{ x: a, y: a }, { x: 0, y: a }, { x: a, y: s }],
+    ],
+    legSquares: {
+      a: [{ x: 0, y: 0 }, { x: a, y: 0 }, { x: a, y: a }, { x: 0, y: a }],
+      b: [{ x: a, y: a }, { x: s, y: a }, { x: s, y: s }, { x: a, y: s }],
+    },
+  };
+};
+
+/**
+ * Euclid's figure: the squares on the three sides of the right triangle and
+ * the altitude from C, which cuts the square on c into a rectangle as large
+ * as the square on b (by A) and one as large as the square on a (by B).
+ */
+export const euclid = (a: number, b: number) => {
+  const c = Math.hypot(a, b);
+  const [A, B, C] = [{ x: b, y: 0 }, { x: 0, y: a }, { x: 0, y: 0 }];
+  const square = squareOn(A, B);
+  // AH = b²/c: the foot of the altitude, and where it meets the far side of the square.
+  const t = (b * b) / (c * c);
+  const H = { x: A.x + (B.x - A.x) * t, y: A.y + (B.y - A.y) * t };
+  const far = { x: square[3].x + (square[2].x - square[3].x) * t, y: square[3].y + (square[2].y - square[3].y) * t };
+  return {
+    A,
+    B,
+    C,
+    squares: { a: squareOn(B, C), b: squareOn(C, A), c: square },
+    H,
+    far,
+    segments: { byA: (b * b) / c, byB: (a * a) / c },
+    rectangles: { byA: [A, H, far, square[3]], byB: [H, B, square[2], far] },
+  };
+};
+
+/**
+ * Garfield's trapezoid: two copies of the right triangle standing on a line,
+ * joined by the isosceles right triangle on their hypotenuses. Its parallel
+ * sides are b and a and its height a + b.
+ */
+export const garfield = (a: number, b: number) => {
+  const [O, M, R] = [{ x: 0, y: 0 }, { x: a, y: 0 }, { x: a + b, y: 0 }];
+  const [U, V] = [{ x: 0, y: b }, { x: a + b, y: a }];
+  return {
+    first: [O, M, U],
+    second: [M, R, V],
+    middle: [U, M, V],
+    trapezoid: [O, R, V, U],
+    area: ((a + b) * (a + b)) / 2,
+  };
+};
+
+/** Area of a polygon, positive when it goes round counter-clockwise. */
+export const polygonArea = (points: Point[]) =>
+  points.reduce((sum, p, i) => {
+    const q = points[(i + 1) % points.length];
+    return sum + p.x * q.y - q.x * p.y;
+  }, 0) / 2;
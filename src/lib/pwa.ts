@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// A deploy is noticed on the next load, or within this while for a page left open all class.
+const UPDATE_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Registers the service worker built into /sw.js (production builds only).
+ * When a new build has been installed behind the running one, `onUpdate`
+ * receives the function that switches to it and reloads the page.
+ */
+export const registerServiceWorker = (onUpdate: (apply: () => void) => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  const offer = (worker: ServiceWorker) => onUpdate(() => {
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    worker.postMessage({ type: 'skip-waiting' });
+  });
+
+  navigator.serviceWorker.register('/sw.js').then(registration => {
+    // Without a controller this is the first install, not an update.
+    if (registration.waiting && navigator.serviceWorker.controller) offer(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) offer(worker);
+      });
+    });
+    setInterval(() => registration.update().catch(() => {}), UPDATE_INTERVAL);
+  }).catch(() => {});
+};
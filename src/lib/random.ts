@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface Random {
+  /** A float in [0, 1). */
+  next: () => number;
+  /** An integer in [min, max]. */
+  int: (min: number, max: number) => number;
+  pick: <T>(items: readonly T[]) => T;
+}
+
+/** FNV-1a, so that seeds can be short codes a teacher can read out. */
+const hashSeed = (seed: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** A deterministic generator (mulberry32): the same seed always yields the same sequence. */
+export const createRandom = (seed: string): Random => {
+  let state = hashSeed(seed.trim().toUpperCase());
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: items => items[Math.floor(next() * items.length)],
+  };
+};
+
+const SEED_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/** A fresh 6-character code without look-alike characters (0/O, 1/I). */
+export const randomSeed = () =>
+  Array.from({ length: 6 }, () => SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)]).join('');
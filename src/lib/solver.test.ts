@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { SolverError, solveRightTriangle } from './solver';
+import { renderKatex, renderWarning } from './steps/render';
+
+const expectSolverError = (fn: () => unknown, code: SolverError['code']) => {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(SolverError);
+    expect((err as SolverError).code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected SolverError "${code}"`);
+};
+
+describe('solveRightTriangle', () => {
+  describe('two sides (Pitágoras)', () => {
+    it('finds the hypotenuse from both legs', () => {
+      const s = solveRightTriangle({ a: 3, b: 4 });
+      expect(s.c).toBeCloseTo(5);
+      expect(s.alpha).toBeCloseTo(36.8699, 4);
+      expect(s.beta).toBeCloseTo(53.1301, 4);
+      expect(s.area).toBeCloseTo(6);
+      expect(s.perimeter).toBeCloseTo(12);
+      expect(s.known).toEqual(['a', 'b']);
+      expect(s.steps.map(step => step.rule)).toEqual([
+        'pythagoras.identify-legs',
+        'pythagoras.hypotenuse-formula',
+        'pythagoras.substitute-legs',
+        'pythagoras.square-legs',
+        'pythagoras.sum-squares',
+        'pythagoras.solve-hypotenuse',
+        'inverse-trig.arctan',
+        'right-angle.complement',
+      ]);
+      expect(s.steps[5].results).toEqual({ c: 5 });
+      expect(s.steps[6]).toMatchObject({ values: { a: 3, b: 4 }, formula: "\\alpha = \\arctan\\left(\\frac{a}{b}\\right)" });
+      expect(renderKatex(s.steps[5]).math).toBe("c \\approx 5{,}0000");
+      expect(renderKatex(s.steps[6]).math).toContain("\\arctan\\left(\\frac{3}{4}\\right) \\approx 36{,}8699^\\circ");
+      expect(s.warnings).toEqual([]);
+    });
+
+    it('finds leg b from a and c', () => {
+      const s = solveRightTriangle({ a: 5, c: 13 });
+      expect(s.b).toBeCloseTo(12);
+      expect(s.known).toEqual(['a', 'c']);
+      expect(renderKatex(s.steps[1])).toEqual({ text: "Despejamos b de la fórmula:", math: "b = \\sqrt{c^2 - a^2}" });
+      expect(s.steps[4].rule).toBe('inverse-trig.arcsin');
+      expect(s.alpha).toBeCloseTo(22.6199, 4);
+    });
+
+    it('finds leg a from b and c', () => {
+      const s = solveRightTriangle({ b: 8, c: 10 });
+      expect(s.a).toBeCloseTo(6);
+      expect(s.alpha).toBeCloseTo(36.8699, 4);
+      expect(renderKatex(s.steps[3]).math).toBe("a \\approx 6{,}0000");
+      expect(s.steps[4].rule).toBe('inverse-trig.arccos');
+    });
+
+    it('rejects a hypotenuse not longer than leg a', () => {
+      expectSolverError(() => solveRightTriangle({ a: 5, c: 5 }), 'hypotenuse-not-longest');
+      expectSolverError(() => solveRightTriangle({ a: 6, c: 5 }), 'hypotenuse-not-longest');
+    });
+
+    it('rejects a hypotenuse not longer than leg b', () => {
+      expectSolverError(() => solveRightTriangle({ b: 7, c: 7 }), 'hypotenuse-not-longest');
+      expectSolverError(() => solveRightTriangle({ b: 9, c: 4 }), 'hypotenuse-not-longest');
+    });
+
+    it('warns when a third side contradicts the two legs', () => {
+      const s = solveRightTriangle({ a: 3, b: 4, c: 100 });
+      expect(s.known).toEqual(['a', 'b']);
+      expect(s.c).toBeCloseTo(5);
+      expect(s.warnings).toEqual([{ quantity: 'c', given: 100, expected: 5, known: ['a', 'b'] }]);
+      expect(renderWarning(s.warnings[0])).toBe(
+        "Datos inconsistentes: se ingresó c = 100, pero a partir de a y b se obtiene c ≈ 5."
+      );
+    });
+
+    it('accepts a consistent third side without warnings', () => {
+      expect(solveRightTriangle({ a: 3, b: 4, c: 5 }).warnings).toEqual([]);
+    });
+  });
+
+  describe('angle and side (Trigonometría)', () => {
+    it('solves from α and the hypotenuse', () => {
+      const s = solveRightTriangle({ alpha: 30, c: 10 });
+      expect(s.a).toBeCloseTo(5);
+      expect(s.b).toBeCloseTo(8.6603, 4);
+      expect(s.beta).toBeCloseTo(60);
+      expect(s.known).toEqual(['alpha', 'c']);
+      expect(renderKatex(s.steps[0]).text).toBe("Dado Hipotenusa (c) y ángulo (α):");
+      expect(s.steps.slice(1, 3).map(step => step.rule)).toEqual(['trig.solve-opposite', 'trig.solve-adjacent']);
+    });
+
+    it('solves from α and the opposite leg', () => {
+      const s = solveRightTriangle({ alpha: 45, a: 2 });
+      expect(s.b).toBeCloseTo(2);
+      expect(s.c).toBeCloseTo(2 * Math.SQRT2);
+      expect(renderKatex(s.steps[0]).text).toBe("Dado Cateto Opuesto (a) y ángulo (α):");
+      expect(s.steps[1]).toMatchObject({ rule: 'trig.solve-hypotenuse', params: { from: 'a' } });
+    });
+
+    it('solves from α and the adjacent leg', () => {
+      const s = solveRightTriangle({ alpha: 60, b: 1 });
+      expect(s.a).toBeCloseTo(Math.sqrt(3));
+      expect(s.c).toBeCloseTo(2);
+      expect(renderKatex(s.steps[0]).text).toBe("Dado Cateto Adyacente (b) y ángulo (α):");
+    });
+
+    it('derives α from β before solving', () => {
+      const s = solveRightTriangle({ beta: 60, c: 10 });
+      expect(s.alpha).toBeCloseTo(30);
+      expect(s.a).toBeCloseTo(5);
+      expect(s.known).toEqual(['beta', 'c']);
+      expect(s.steps[0]).toMatchObject({ rule: 'right-angle.complement', params: { target: 'alpha' } });
+      expect(s.steps.filter(step => step.rule === 'right-angle.complement')).toHaveLength(1);
+    });
+
+    it('warns when α and β do not add up to 90°', () => {
+      const s = solveRightTriangle({ alpha: 30, beta: 45, c: 2 });
+      expect(s.known).toEqual(['alpha', 'c']);
+      expect(s.warnings).toHaveLength(1);
+      expect(renderWarning(s.warnings[0])).toContain("β ≈ 60°");
+    });
+
+    it.each([0, 90, -10, 120])('rejects α = %s°', alpha => {
+      expectSolverError(() => solveRightTriangle({ alpha, c: 1 }), 'angle-out-of-range');
+    });
+  });
+
+  describe('non-positive lengths', () => {
+    it.each([
+      { a: 0, b: 4 },
+      { a: 3, b: -4 },
+      { alpha: 30, c: -2 },
+    ])('rejects %o', input => {
+      expectSolverError(() => solveRightTriangle(input), 'non-positive-length');
+    });
+  });
+
+  describe('insufficient data', () => {
+    it.each([
+      {},
+      { a: 3 },
+      { c: NaN, a: 3 },
+      { alpha: 30 },
+      { alpha: 30, beta: 60 },
+    ])('rejects %o', input => {
+      expectSolverError(() => solveRightTriangle(input), 'insufficient-data');
+    });
+  });
+});
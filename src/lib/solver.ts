@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CalculationStep, Inconsistency, ObliqueQuantity, Quantity, RightTriangleInput, RightTriangleSolution, Side, StepRule } from '../types';
+import { MessageKey, MessageParams, translator } from './i18n';
+import { isKnown, toDeg, toRad } from './math';
+import { makeStep } from './steps/rules';
+
+// --- Errors ---
+
+export type SolverErrorCode =
+  | 'insufficient-data'
+  | 'over-determined'
+  | 'non-positive-length'
+  | 'hypotenuse-not-longest'
+  | 'triangle-inequality'
+  | 'angle-out-of-range';
+
+/**
+ * `key` and `params` give the message in any locale; `message` is in the default one.
+ * `fields` are the inputs at fault, most to blame first; none when it is about the data as a whole.
+ */
+export class SolverError extends Error {
+  constructor(
+    public code: SolverErrorCode,
+    public key: MessageKey,
+    public params: MessageParams = {},
+    public fields: ObliqueQuantity[] = [],
+  ) {
+    super(translator()(key, params));
+    this.name = 'SolverError';
+  }
+}
+
+// --- Helpers ---
+
+type PartialSolution = Pick<RightTriangleSolution, 'a' | 'b' | 'c' | 'alpha' | 'known' | 'steps'>;
+
+const QUANTITIES: Quantity[] = ['a', 'b', 'c', 'alpha', 'beta'];
+
+/** Relative tolerance used when checking redundant inputs against the solution. */
+const CONSISTENCY_TOLERANCE = 1e-3;
+
+/** Rejects zero or negative sides, which would otherwise give NaN or negative results. */
+export const checkLengths = (input: Partial<Record<Side, number>>) => {
+  for (const side of ['a', 'b', 'c'] as Side[]) {
+    if (isKnown(input[side]) && input[side]! <= 0) {
+      throw new SolverError('non-positive-length', 'error.non-positive-length', { side }, [side]);
+    }
+  }
+};
+
+const checkAngle = (angleDeg: number, angle: Quantity) => {
+  if (angleDeg <= 0 || angleDeg >= 90) {
+    throw new SolverError('angle-out-of-range', 'error.right-angle-range', {}, [angle]);
+  }
+};
+
+const checkHypotenuse = (c: number, leg: Side, legVal: number) => {
+  if (c <= legVal) {
+    throw new SolverError('hypotenuse-not-longest', 'error.hypotenuse-not-longest', {}, ['c', leg]);
+  }
+};
+
+// --- Branches ---
+
+const solveHypotenuse = (a: number, b: number): PartialSolution => {
+  const c = Math.sqrt(a * a + b * b);
+  const alpha = toDeg(Math.atan(a / b));
+  const steps = [
+    makeStep('pythagoras.identify-legs', { values: { a, b } }),
+    makeStep('pythagoras.hypotenuse-formula'),
+    makeStep('pythagoras.substitute-legs', { values: { a, b } }),
+    makeStep('pythagoras.square-legs', { values: { a, b }, results: { a2: a * a, b2: b * b } }),
+    makeStep('pythagoras.sum-squares', { results: { sum: a * a + b * b } }),
+    makeStep('pythagoras.solve-hypotenuse', { values: { a, b }, results: { c } }),
+    makeStep('inverse-trig.arctan', { values: { a, b }, results: { alpha } }),
+  ];
+  return { a, b, c, alpha, known: ['a', 'b'], steps };
+};
+
+const solveLeg = (leg: Side, legVal: number, c: number): PartialSolution => {
+  checkHypotenuse(c, leg, legVal);
+  const target: Side = leg === 'a' ? 'b' : 'a';
+  const result = Math.sqrt(c * c - legVal * legVal);
+  const a = leg === 'a' ? legVal : result;
+  const b = leg === 'b' ? legVal : result;
+  const alpha = leg === 'a' ? toDeg(Math.asin(a / c)) : toDeg(Math.acos(b / c));
+  const params = { leg, target };
+  const steps = [
+    makeStep('pythagoras.identify-sides', { values: { [leg]: legVal, c }, params }),
+    makeStep('pythagoras.leg-formula', { params }),
+    makeStep('pythagoras.substitute-sides', { values: { [leg]: legVal, c }, params }),
+    makeStep('pythagoras.solve-leg', { values: { [leg]: legVal, c }, results: { [target]: result }, params }),
+    leg === 'a'
+      ? makeStep('inverse-trig.arcsin', { values: { a, c }, results: { alpha } })
+      : makeStep('inverse-trig.arccos', { values: { b, c }, results: { alpha } }),
+  ];
+  return { a, b, c, alpha, known: [leg, 'c'], steps };
+};
+
+const TRIG_RULES: Record<Side, StepRule> = { a: 'trig.solve-opposite', b: 'trig.solve-adjacent', c: 'trig.solve-hypotenuse' };
+
+const solveFromAngle = (alpha: number, side: Side, sideVal: number): Omit<PartialSolution, 'known'> => {
+  const angleRad = toRad(alpha);
+  const sides: Record<Side, number> = { a: 0, b: 0, c: 0 };
+
+  sides[side] = sideVal;
+  if (side === 'c') {
+    sides.a = sideVal * Math.sin(angleRad);
+    sides.b = sideVal * Math.cos(angleRad);
+  } else if (side === 'a') {
+    sides.c = sideVal / Math.sin(angleRad);
+    sides.b = sideVal / Math.tan(angleRad);
+  } else {
+    sides.c = sideVal / Math.cos(angleRad);
+    sides.a = sideVal * Math.tan(angleRad);
+  }
+
+  // Same order as the textbook: hypotenuse first whenever it is unknown.
+  const targets = (['c', 'a', 'b'] as Side[]).filter(s => s !== side);
+  const values = { [side]: sideVal, alpha };
+  const steps = [
+    makeStep('trig.given', { values, params: { side } }),
+    ...targets.map(target => makeStep(TRIG_RULES[target], { values, results: { [target]: sides[target] }, params: { from: side } })),
+  ];
+
+  return { ...sides, alpha, steps };
+};
+
+const findInconsistencies = (input: RightTriangleInput, solution: Omit<RightTriangleSolution, 'warnings'>): Inconsistency[] =>
+  QUANTITIES
+    .filter(q => !solution.known.includes(q) && isKnown(input[q]))
+    .filter(q => Math.abs(input[q]! - solution[q]) > CONSISTENCY_TOLERANCE * Math.max(1, Math.abs(solution[q])))
+    .map(quantity => ({ quantity, given: input[quantity]!, expected: solution[quantity], known: solution.known }));
+
+// --- Public API ---
+
+/**
+ * Solves a right triangle (right angle between legs a and b, α opposite a,
+ * β opposite b) from any two of a, b, c, α, β. Sides take precedence over
+ * angles when more than two quantities are given; any extra quantity that
+ * disagrees with the result is reported in `warnings`.
+ *
+ * @throws {SolverError} when the data is insufficient or geometrically impossible.
+ */
+export const solveRightTriangle = (input: RightTriangleInput): RightTriangleSolution => {
+  const { a, b, c, alpha, beta } = input;
+  let partial: PartialSolution;
+  checkLengths(input);
+
+  if (isKnown(a) && isKnown(b)) {
+    partial = solveHypotenuse(a, b);
+  } else if (isKnown(a) && isKnown(c)) {
+    partial = solveLeg('a', a, c);
+  } else if (isKnown(b) && isKnown(c)) {
+    partial = solveLeg('b', b, c);
+  } else {
+    const side = (['c', 'a', 'b'] as Side[]).find(s => isKnown(input[s]));
+    if (!side || (!isKnown(alpha) && !isKnown(beta))) {
+      throw new SolverError('insufficient-data', 'error.insufficient-data');
+    }
+
+    const steps: CalculationStep[] = [];
+    let angle: Quantity = 'alpha';
+    let angleDeg: number;
+    if (isKnown(alpha)) {
+      checkAngle(alpha, 'alpha');
+      angleDeg = alpha;
+    } else {
+      checkAngle(beta!, 'beta');
+      angle = 'beta';
+      angleDeg = 90 - beta!;
+      steps.push(makeStep('right-angle.complement', { values: { beta: beta! }, results: { alpha: angleDeg }, params: { target: 'alpha', from: 'beta' } }));
+    }
+
+    const solved = solveFromAngle(angleDeg, side, input[side]!);
+    partial = { ...solved, known: [angle, side], steps: [...steps, ...solved.steps] };
+  }
+
+  const betaDeg = 90 - partial.alpha;
+  if (!partial.known.includes('beta')) {
+    partial.steps.push(makeStep('right-angle.complement', {
+      values: { alpha: partial.alpha },
+      results: { beta: betaDeg },
+      params: { target: 'beta', from: 'alpha' }
+    }));
+  }
+
+  const solution = {
+    ...partial,
+    beta: betaDeg,
+    area: (partial.a * partial.b) / 2,
+    perimeter: partial.a + partial.b + partial.c,
+  };
+  return { ...solution, warnings: findInconsistencies(input, solution) };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { solveTriangle } from '../oblique';
+import { solveRightTriangle } from '../solver';
+import { stepHighlight } from './highlight';
+
+describe('stepHighlight', () => {
+  it('draws the squares of the legs while they are squared', () => {
+    const { steps } = solveRightTriangle({ a: 3, b: 4 });
+    const squaring = steps.find(step => step.rule === 'pythagoras.square-legs')!;
+    expect(stepHighlight(squaring)).toEqual({ sides: ['a', 'b'], angles: [], squares: ['a', 'b'] });
+  });
+
+  it('picks out the sides and angles a trigonometric step names', () => {
+    const { steps } = solveRightTriangle({ c: 10, alpha: 30 });
+    const opposite = steps.find(step => step.rule === 'trig.solve-opposite')!;
+    expect(stepHighlight(opposite)).toEqual({ sides: ['a', 'c'], angles: ['alpha'], squares: [] });
+    const complement = steps.find(step => step.rule === 'right-angle.complement')!;
+    expect(stepHighlight(complement)).toMatchObject({ sides: [], angles: ['alpha', 'beta'] });
+  });
+
+  it('shows c with the sum of the squares, which is c²', () => {
+    const { steps } = solveRightTriangle({ a: 3, b: 4 });
+    expect(stepHighlight(steps.find(step => step.rule === 'pythagoras.sum-squares')!).sides).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('stepHighlight on oblique triangles', () => {
+  it('picks out the sides and the angle of the Law of Cosines, γ included', () => {
+    const [{ steps }] = solveTriangle({ a: 5, b: 7, gamma: 60 }).solutions;
+    const formula = steps.find(step => step.rule === 'law-of-cosines.side-formula')!;
+    expect(stepHighlight(formula)).toEqual({ sides: ['a', 'b', 'c'], angles: ['gamma'], squares: [] });
+  });
+
+  it('picks out both side and angle pairs of the Law of Sines', () => {
+    const [{ steps }] = solveTriangle({ a: 5, alpha: 40, beta: 60 }).solutions;
+    const formula = steps.find(step => step.rule === 'law-of-sines.side-formula')!;
+    const solved = steps.find(step => step.rule === 'law-of-sines.solve-side')!;
+    expect(stepHighlight(formula)).toEqual({ sides: ['a', 'b'], angles: ['alpha', 'beta'], squares: [] });
+    expect(stepHighlight(solved)).toEqual(stepHighlight(formula));
+  });
+
+  it('shows all three angles while they are added up', () => {
+    const [{ steps }] = solveTriangle({ a: 5, alpha: 40, beta: 60 }).solutions;
+    expect(stepHighlight(steps.find(step => step.rule === 'triangle.angle-sum')!).angles).toEqual(['alpha', 'beta', 'gamma']);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CalculationStep, ObliqueAngle, Side, StepRule } from '../../types';
+
+/** What a step is about, to be picked out in the drawing while it is presented. */
+export interface StepHighlight {
+  sides: Side[];
+  angles: ObliqueAngle[];
+  /** Sides with their square drawn on them, for the steps that work with a², b² and c². */
+  squares: Side[];
+}
+
+const SIDES: string[] = ['a', 'b', 'c'];
+const ANGLES: string[] = ['alpha', 'beta', 'gamma'];
+
+/** Squares for the Pythagorean steps; the rest only highlight what they name. */
+const SQUARES: Partial<Record<StepRule, Side[]>> = {
+  'pythagoras.hypotenuse-formula': ['a', 'b', 'c'],
+  'pythagoras.square-legs': ['a', 'b'],
+  // The sum is c², so its square appears with the other two.
+  'pythagoras.sum-squares': ['a', 'b', 'c'],
+  'pythagoras.leg-formula': ['a', 'b', 'c'],
+};
+
+/**
+ * The sides and angles a step refers to: the quantities among its values,
+ * results and parameters, plus the squares of the Pythagorean steps. The
+ * Law of Sines and Law of Cosines name every side and angle they use in
+ * their parameters, so their formulas are picked out before any value is known.
+ */
+export const stepHighlight = (step: CalculationStep): StepHighlight => {
+  const squares = SQUARES[step.rule] ?? [];
+  const named = new Set([...Object.keys(step.values), ...Object.keys(step.results), ...Object.values(step.params), ...squares]);
+  // sin α, cos α and tan α are about α even though only the sides are among the values.
+  if (step.rule === 'trig.ratio') named.add('alpha');
+  return {
+    sides: SIDES.filter(s => named.has(s)) as Side[],
+    angles: ANGLES.filter(a => named.has(a)) as ObliqueAngle[],
+    squares,
+  };
+};
@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AngleUnit, LengthUnit, Locale, PrecisionSettings, UnitSettings } from '../../types';
+import { DEFAULT_PRECISION, ExactValue, formatExact, formatFixed, formatTrimmed, recognizeExact } from '../format';
+import { decimalSeparator, MessageKey, Translate, translator } from '../i18n';
+import { toRad } from '../math';
+import { fromDegrees, LENGTH_UNITS, toDms } from '../units';
+
+export type FunctionName = 'sin' | 'cos' | 'tan' | 'arcsin' | 'arccos' | 'arctan';
+
+/**
+ * The building blocks rule templates use to write math, so the same template
+ * can be rendered as LaTeX (KaTeX, Markdown), as plain Unicode text or as
+ * words for screen readers.
+ */
+export interface Notation {
+  /** A substituted value, rounded but without trailing zeros. */
+  val: (v: number) => string;
+  /** A computed result at the configured precision (or exact form). */
+  res: (v: number) => string;
+  /** A result preceded by `=` when it is exact or `≈` when it is rounded; angles are given in degrees. */
+  eq: (v: number, degrees?: boolean) => string;
+  /** The exact value of a trig function at a special angle, in exact mode only. */
+  fnValue: (name: 'sin' | 'cos' | 'tan', degrees: number) => string | null;
+  /** A substituted angle, given in degrees and written in the angle unit (or `unit`). */
+  ang: (degrees: number, unit?: AngleUnit) => string;
+  /** A computed angle, given in degrees and written in the angle unit at the configured precision. */
+  angRes: (degrees: number) => string;
+  /** A constant angle (90°, 180°) written in the angle unit (or `unit`): `π/2`, `200ᵍ`… */
+  angConst: (degrees: 90 | 180, unit?: AngleUnit) => string;
+  /** Appends the length unit (or `unit`); generic units are left implicit. */
+  len: (x: string, unit?: LengthUnit) => string;
+  /** A quantity name such as `a` or `alpha`. */
+  sym: (name: string) => string;
+  sub: (x: string, index: number) => string;
+  deg: (x: string) => string;
+  sq: (x: string) => string;
+  sqrt: (x: string) => string;
+  frac: (numerator: string, denominator: string) => string;
+  fn: (name: FunctionName, arg: string) => string;
+  /** An increment along an axis: `Δx`. */
+  delta: (axis: string) => string;
+  abs: (x: string) => string;
+  /** A point from its coordinates, separated so a decimal comma can't be mistaken for one. */
+  point: (coords: string[]) => string;
+  times: string;
+  approx: string;
+  implies: string;
+  geq: string;
+  neq: string;
+  gap: string;
+  /** Messages in the notation's locale, for the explanations. */
+  t: Translate;
+}
+
+export type NotationOptions = Partial<PrecisionSettings> & { units?: Partial<UnitSettings>; locale?: Locale };
+
+/** What differs between LaTeX and plain text when writing numbers, angles and units. */
+interface Style {
+  name: 'latex' | 'plain';
+  approx: string;
+  deg: (x: string) => string;
+  grad: (x: string) => string;
+  pi: string;
+  /** Writes the locale's decimal comma; LaTeX needs braces so it is not spaced as punctuation. */
+  comma: string;
+  frac: (numerator: string, denominator: string) => string;
+  dms: (minutes: string, seconds: string) => string;
+  unit: (x: string, symbol: string) => string;
+  /** Exact forms, when not written the way `formatExact` does. */
+  exact?: (value: ExactValue) => string;
+}
+
+const GREEK: Record<string, string> = { alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', theta: 'θ' };
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+
+// Tokens that need no parentheses in plain text: a number or degree value,
+// a single (possibly subscripted) symbol, or a function call.
+const ATOMS = [/^-?[\d.,]+°?$/, /^[a-zαβγθ][₀-₉]?$/, /^\w+\([^()]*\)$/];
+const isAtom = (x: string) => ATOMS.some(re => re.test(x));
+const group = (x: string) => (isAtom(x) ? x : `(${x})`);
+
+const coordinateSeparator = (locale?: Locale) => (decimalSeparator(locale) === ',' ? '; ' : ', ');
+
+// Seconds of arc rarely need more than two decimals.
+const MAX_SECONDS_DECIMALS = 2;
+
+/** Number output shared by both notations; only the exact forms differ in style. */
+const numbers = (options: NotationOptions, style: Style) => {
+  const { units, locale, ...precision } = options;
+  const settings = { ...DEFAULT_PRECISION, ...precision };
+  const angleUnit = units?.angle ?? 'deg';
+  const lengthUnit = units?.length ?? 'u';
+  const local = decimalSeparator(locale) === ',' ? (x: string) => x.replace('.', style.comma) : (x: string) => x;
+
+  const write = (value: ExactValue) => style.exact?.(value) ?? formatExact(value, style.name);
+  const exact = (v: number) => {
+    const value = settings.exact ? recognizeExact(v) : null;
+    return value && write(value);
+  };
+  // Angles stay decimal unless they are whole degrees: "45/2°" reads worse than "22.5°".
+  const exactDegrees = (v: number) => {
+    const value = settings.exact ? recognizeExact(v) : null;
+    return value && value.radicand === 1 && value.denominator === 1 ? write(value) : null;
+  };
+  // Radians are exact as rational multiples of π: 30° is π/6.
+  const exactRadians = (degrees: number) => {
+    const value = settings.exact ? recognizeExact(degrees / 180) : null;
+    if (!value || value.radicand !== 1) return null;
+    const numerator = `${value.negative ? '-' : ''}${value.coefficient === 1 ? '' : value.coefficient}${style.pi}`;
+    return value.denominator === 1 ? numerator : style.frac(numerator, `${value.denominator}`);
+  };
+
+  /** An angle in `unit` and whether it is shown without rounding. */
+  const angle = (degrees: number, unit: AngleUnit, format: (v: number) => string) => {
+    switch (unit) {
+      case 'rad': {
+        const value = exactRadians(degrees);
+        return { text: value ?? format(fromDegrees(degrees, 'rad')), exact: value !== null };
+      }
+      case 'grad':
+        return { text: style.grad(format(fromDegrees(degrees, 'grad'))), exact: false };
+      case 'dms': {
+        const decimals = settings.mode === 'decimals' ? Math.min(settings.digits, MAX_SECONDS_DECIMALS) : 0;
+        const { negative, degrees: d, minutes, seconds } = toDms(degrees, decimals);
+        const text = style.deg(`${negative ? '-' : ''}${d}`) + style.dms(`${minutes}`, local(`${seconds}`));
+        return { text, exact: settings.exact && Math.abs(d + minutes / 60 + seconds / 3600 - Math.abs(degrees)) < 1e-9 };
+      }
+      default: {
+        const value = exactDegrees(degrees);
+        return { text: style.deg(value ?? format(degrees)), exact: value !== null };
+      }
+    }
+  };
+  const fixed = (v: number) => local(formatFixed(v, settings));
+  const trimmed = (v: number) => local(formatTrimmed(v, settings));
+
+  return {
+    val: (v: number) => exact(v) ?? trimmed(v),
+    res: (v: number) => exact(v) ?? fixed(v),
+    eq: (v: number, degrees = false) => {
+      if (degrees) {
+        const { text, exact: isExact } = angle(v, angleUnit, fixed);
+        return `${isExact ? '=' : style.approx} ${text}`;
+      }
+      const value = exact(v);
+      return `${value ? '=' : style.approx} ${value ?? fixed(v)}`;
+    },
+    fnValue: (name: 'sin' | 'cos' | 'tan', degrees: number) => {
+      if (!settings.exact || exactDegrees(degrees) === null) return null;
+      return exact(Math[name](toRad(degrees)));
+    },
+    ang: (degrees: number, unit: AngleUnit = angleUnit) => angle(degrees, unit, trimmed).text,
+    angRes: (degrees: number) => angle(degrees, angleUnit, fixed).text,
+    angConst: (degrees: 90 | 180, unit: AngleUnit = angleUnit) => {
+      switch (unit) {
+        case 'rad':
+          return degrees === 180 ? style.pi : style.frac(style.pi, '2');
+        case 'grad':
+          return style.grad(`${fromDegrees(degrees, 'grad')}`);
+        default:
+          return style.deg(`${degrees}`);
+      }
+    },
+    len: (x: string, unit: LengthUnit = lengthUnit) => (unit === 'u' ? x : style.unit(x, LENGTH_UNITS[unit].symbol)),
+  };
+};
+
+const latexDeg = (x: string) => `${x}^\\circ`;
+const plainDeg = (x: string) => `${x}°`;
+const latexFrac = (numerator: string, denominator: string) => `\\frac{${numerator}}{${denominator}}`;
+
+const LATEX_STYLE: Style = {
+  name: 'latex',
+  approx: '\\approx',
+  deg: latexDeg,
+  grad: x => `${x}^{g}`,
+  pi: '\\pi',
+  comma: '{,}',
+  frac: latexFrac,
+  dms: (minutes, seconds) => ` ${minutes}' ${seconds}''`,
+  unit: (x, symbol) => `${x}\\,\\text{${symbol}}`,
+};
+
+const PLAIN_STYLE: Style = {
+  name: 'plain',
+  approx: '≈',
+  deg: plainDeg,
+  grad: x => `${x}ᵍ`,
+  pi: 'π',
+  comma: ',',
+  frac: (numerator, denominator) => `${numerator}/${denominator}`,
+  dms: (minutes, seconds) => `${minutes}′${seconds}″`,
+  unit: (x, symbol) => `${x} ${symbol}`,
+};
+
+export const latexNotation = (options: NotationOptions = {}): Notation => ({
+  ...numbers(options, LATEX_STYLE),
+  sym: name => (name in GREEK ? `\\${name}` : name),
+  sub: (x, index) => `${x}_${index}`,
+  deg: latexDeg,
+  sq: x => `${x}^2`,
+  sqrt: x => `\\sqrt{${x}}`,
+  frac: latexFrac,
+  fn: (name, arg) => `\\${name}\\left(${arg}\\right)`,
+  delta: axis => `\\Delta ${axis}`,
+  abs: x => `\\left|${x}\\right|`,
+  point: coords => `\\left(${coords.join(coordinateSeparator(options.locale))}\\right)`,
+  times: '\\cdot',
+  approx: '\\approx',
+  implies: '\\Rightarrow',
+  geq: '\\geq',
+  neq: '\\neq',
+  gap: '\\quad',
+  t: translator(options.locale),
+});
+
+export const plainNotation = (options: NotationOptions = {}): Notation => ({
+  ...numbers(options, PLAIN_STYLE),
+  sym: name => GREEK[name] ?? name,
+  sub: (x, index) => `${x}${SUBSCRIPTS[index]}`,
+  deg: plainDeg,
+  sq: x => `${group(x)}²`,
+  sqrt: x => `√${group(x)}`,
+  frac: (numerator, denominator) => `${group(numerator)}/${group(denominator)}`,
+  fn: (name, arg) => `${name}(${arg})`,
+  delta: axis => `Δ${axis}`,
+  abs: x => `|${x}|`,
+  point: coords => `(${coords.join(coordinateSeparator(options.locale))})`,
+  times: '·',
+  approx: '≈',
+  implies: '⇒',
+  geq: '≥',
+  neq: '≠',
+  gap: '',
+  t: translator(options.locale),
+});
+
+/** What a screen reader should say: every symbol as words of the locale. */
+const speechStyle = (t: Translate): Style => ({
+  name: 'plain',
+  approx: t('speech.approx'),
+  deg: x => t('speech.degrees', { x }),
+  grad: x => t('speech.gradians', { x }),
+  pi: t('speech.pi'),
+  comma: ',',
+  frac: (numerator, denominator) => t('speech.frac', { numerator, denominator }),
+  dms: (minutes, seconds) => ` ${t('speech.dms', { minutes, seconds })}`,
+  unit: (x, symbol) => `${x} ${symbol}`,
+  exact: ({ negative, coefficient, radicand, denominator }) => {
+    const root = radicand === 1 ? '' : t('speech.sqrt', { x: radicand });
+    const numerator = !root ? `${coefficient}` : coefficient === 1 ? root : `${coefficient} ${root}`;
+    const value = denominator === 1 ? numerator : t('speech.frac', { numerator, denominator });
+    return negative ? `${t('speech.minus')} ${value}` : value;
+  },
+});
+
+/**
+ * Math as words ("c igual a raíz cuadrada de a al cuadrado más b al
+ * cuadrado"). Templates write `=`, `+` and `-` themselves; `spokenOperators`
+ * turns them into words once the template is rendered.
+ */
+export const speechNotation = (options: NotationOptions = {}): Notation => {
+  const t = translator(options.locale);
+  const style = speechStyle(t);
+  return {
+    ...numbers(options, style),
+    sym: name => (name in GREEK ? t(`speech.${name}` as MessageKey) : name),
+    sub: (x, index) => t('speech.sub', { x, index }),
+    deg: style.deg,
+    sq: x => t('speech.squared', { x: group(x) }),
+    sqrt: x => t('speech.sqrt', { x: group(x) }),
+    frac: (numerator, denominator) => style.frac(group(numerator), group(denominator)),
+    fn: (name, arg) => t(`speech.fn.${name}`, { arg }),
+    delta: axis => t('speech.increment', { axis }),
+    abs: x => t('speech.abs', { x }),
+    point: coords => `(${coords.join(coordinateSeparator(options.locale))})`,
+    times: t('speech.times'),
+    approx: style.approx,
+    implies: t('speech.implies'),
+    geq: t('speech.geq'),
+    neq: t('speech.neq'),
+    gap: '',
+    t,
+  };
+};
+
+const OPERATORS: [string, MessageKey][] = [[' = ', 'speech.equals'], [' + ', 'speech.plus'], [' - ', 'speech.minus']];
+
+/** The operators a template writes literally, as words. */
+export const spokenOperators = (math: string, t: Translate) =>
+  OPERATORS.reduce((text, [symbol, key]) => text.split(symbol).join(` ${t(key)} `), math);
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { solveRightTriangle } from '../solver';
+import { renderKatex, renderMarkdown, renderPlainText, renderSpeech } from './render';
+import { makeStep } from './rules';
+
+describe('makeStep', () => {
+  it('stores the symbolic formula alongside the data', () => {
+    const step = makeStep('pythagoras.solve-hypotenuse', { values: { a: 3, b: 4 }, results: { c: 5 } });
+    expect(step).toEqual({
+      rule: 'pythagoras.solve-hypotenuse',
+      formula: "c = \\sqrt{a^2 + b^2}",
+      values: { a: 3, b: 4 },
+      results: { c: 5 },
+      params: {},
+    });
+  });
+
+  it('omits the formula for rules that only state data', () => {
+    expect(makeStep('pythagoras.identify-legs', { values: { a: 3, b: 4 } })).not.toHaveProperty('formula');
+  });
+});
+
+describe('renderers', () => {
+  const { steps } = solveRightTriangle({ a: 3, b: 4 });
+
+  it('renders KaTeX from the step data', () => {
+    expect(renderKatex(steps[2])).toEqual({ text: "Sustituimos valores:", math: "c = \\sqrt{3^2 + 4^2}" });
+    expect(renderKatex(steps[5]).math).toBe("c \\approx 5{,}0000");
+  });
+
+  it('re-renders the same steps at another precision', () => {
+    expect(renderKatex(steps[5], { digits: 1 }).math).toBe("c \\approx 5{,}0");
+    expect(renderKatex(steps[6], { digits: 2 }).math).toBe(
+      "\\alpha = \\arctan\\left(\\frac{a}{b}\\right) = \\arctan\\left(\\frac{3}{4}\\right) \\approx 36{,}87^\\circ"
+    );
+  });
+
+  it('renders plain text without LaTeX', () => {
+    const text = renderPlainText(steps, { digits: 2 });
+    expect(text.split('\n')).toEqual([
+      "Identificamos los catetos: a = 3, b = 4",
+      "Usamos la fórmula: c = √(a² + b²)",
+      "Sustituimos valores: c = √(3² + 4²)",
+      "Calculamos cuadrados: c = √(9,00 + 16,00)",
+      "Sumamos: c = √25,00",
+      "Resultado final: c ≈ 5,00",
+      "Hallamos α con la tangente inversa (arctan): α = arctan(a/b) = arctan(3/4) ≈ 36,87°",
+      "Calculamos el ángulo complementario (β): β = 90° - α = 90° - 36,87° ≈ 53,13°",
+    ]);
+    expect(text).not.toContain('\\');
+  });
+
+  it('keeps surds and special-angle values symbolic in exact mode', () => {
+    const exact = { exact: true };
+    expect(renderPlainText(solveRightTriangle({ a: 1, b: 1 }).steps, exact).split('\n')[5]).toBe("Resultado final: c = √2");
+    expect(renderKatex(steps[5], exact).math).toBe("c = 5");
+    expect(renderKatex(steps[6], exact).math).toMatch(/\\approx 36\{,\}8699\^\\circ$/);
+
+    const { steps: trig } = solveRightTriangle({ c: 10, alpha: 30 });
+    expect(renderKatex(trig[1], exact).math).toBe(
+      "a = c \\cdot \\sin\\left(\\alpha\\right) = 10 \\cdot \\sin\\left(30^\\circ\\right) = 10 \\cdot \\frac{1}{2} = 5"
+    );
+    expect(renderKatex(trig[2], exact).math).toMatch(/= 10 \\cdot \\frac\{\\sqrt\{3\}\}\{2\} = 5\\sqrt\{3\}$/);
+  });
+
+  it('renders a numbered Markdown list with inline math', () => {
+    const lines = renderMarkdown(steps.slice(0, 2)).split('\n');
+    expect(lines).toEqual([
+      "1. Identificamos los catetos: $a = 3, b = 4$",
+      "2. Usamos la fórmula: $c = \\sqrt{a^2 + b^2}$",
+    ]);
+  });
+
+  it('speaks the math in words of the locale', () => {
+    expect(renderSpeech(steps[1])).toBe("c igual a raíz cuadrada de (a al cuadrado más b al cuadrado)");
+    expect(renderSpeech(steps[7], { digits: 2 })).toBe(
+      "beta igual a 90 grados menos alfa igual a 90 grados menos 36,87 grados es aproximadamente 53,13 grados"
+    );
+    const { steps: trig } = solveRightTriangle({ c: 10, alpha: 30 });
+    expect(renderSpeech(trig[2], { exact: true, locale: 'en' })).toBe(
+      "b equals c times cosine of alpha equals 10 times cosine of 30 degrees equals 10 times square root of 3 over 2 equals 5 square root of 3"
+    );
+  });
+});
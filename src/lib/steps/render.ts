@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CalculationStep, Inconsistency } from '../../types';
+import { lengthSymbol } from '../units';
+import { latexNotation, Notation, NotationOptions, plainNotation, speechNotation, spokenOperators } from './notation';
+import { RULES } from './rules';
+
+export interface RenderedStep {
+  text: string;
+  math?: string;
+}
+
+export type RenderOptions = NotationOptions;
+
+const render = (step: CalculationStep, math: Notation, text: Notation): RenderedStep => {
+  const rule = RULES[step.rule];
+  return {
+    text: text.t(`step.${step.rule}`, rule.explain?.(step, text)),
+    math: (rule.math ?? rule.formula)?.(step, math),
+  };
+};
+
+/** Explanation plus a LaTeX string for `InlineMath`/`BlockMath`. */
+export const renderKatex = (step: CalculationStep, options: RenderOptions = {}): RenderedStep =>
+  render(step, latexNotation(options), plainNotation(options));
+
+/** The math of a step in words, for screen readers; undefined when the step has none. */
+export const renderSpeech = (step: CalculationStep, options: RenderOptions = {}): string | undefined => {
+  const speech = speechNotation(options);
+  const { math } = render(step, speech, speech);
+  return math && spokenOperators(math, speech.t);
+};
+
+/** One line per step, math written with Unicode symbols (√, ², α, ≈). */
+export const renderPlainText = (steps: CalculationStep[], options: RenderOptions = {}): string => {
+  const plain = plainNotation(options);
+  return steps
+    .map(step => render(step, plain, plain))
+    .map(({ text, math }) => (math ? `${text} ${math}` : text))
+    .join('\n');
+};
+
+/** A numbered Markdown list with the math in `$…$` delimiters. */
+export const renderMarkdown = (steps: CalculationStep[], options: RenderOptions = {}): string =>
+  steps
+    .map(step => renderKatex(step, options))
+    .map(({ text, math }, i) => `${i + 1}. ${text}${math ? ` $${math}$` : ''}`)
+    .join('\n');
+
+/** A length (or, with `power` 2, an area) for display outside of KaTeX, with its unit. */
+export const formatLength = (v: number, options: RenderOptions = {}, power: 1 | 2 = 1): string => {
+  const unit = options.units?.length ?? 'u';
+  const text = plainNotation(options).res(v);
+  return unit === 'u' ? text : `${text} ${lengthSymbol(unit, power)}`;
+};
+
+/** An angle given in degrees, written in the configured angle unit. */
+export const formatAngle = (degrees: number, options: RenderOptions = {}): string => plainNotation(options).angRes(degrees);
+
+/** An input that disagrees with the solution, explained in the locale of `options`. */
+export const renderWarning = ({ quantity, given, expected, known: [first, second] }: Inconsistency, options: RenderOptions = {}): string => {
+  const n = plainNotation(options);
+  const value = (v: number) => (quantity === 'alpha' || quantity === 'beta' ? n.ang(v) : n.len(n.val(v)));
+  return n.t('warning.inconsistent', {
+    quantity: n.sym(quantity),
+    given: value(given),
+    first: n.sym(first),
+    second: n.sym(second),
+    expected: value(expected),
+  });
+};
@@ -0,0 +1,355 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AngleUnit, CalculationStep, LengthUnit, StepParams, StepRule, StepValues } from '../../types';
+import { MessageParams } from '../i18n';
+import { ANGLE_UNITS, convertLength } from '../units';
+import { FunctionName, latexNotation, Notation } from './notation';
+
+type Render = (step: CalculationStep, n: Notation) => string;
+
+export interface RuleTemplate {
+  /**
+   * Placeholders of the explanation shown above the math, the `step.<rule>`
+   * message of the locale (always rendered with plain notation).
+   */
+  explain?: (step: CalculationStep, n: Notation) => MessageParams;
+  /** The symbolic formula, without values. */
+  formula?: Render;
+  /** The displayed math; defaults to the formula. */
+  math?: Render;
+}
+
+// --- Helpers ---
+
+const ANGLE_NAMES = ['alpha', 'beta', 'gamma'];
+
+/** A quantity with its value: `a = 3 cm` or `α = 30°`. */
+const given = (n: Notation, q: string, v: number) =>
+  `${n.sym(q)} = ${ANGLE_NAMES.includes(q) ? n.ang(v) : n.len(n.val(v))}`;
+
+const hypotenuseFormula: Render = (_, n) => `c = ${n.sqrt(`${n.sq('a')} + ${n.sq('b')}`)}`;
+
+const legFormula: Render = ({ params: { target, leg } }, n) => `${target} = ${n.sqrt(`${n.sq('c')} - ${n.sq(leg)}`)}`;
+
+/**
+ * Right-triangle ratios keyed by `<target>-<from>`: the target side is the
+ * known side multiplied or divided by a function of α.
+ */
+const TRIG_RELATIONS: Record<string, { fn: 'sin' | 'cos' | 'tan'; divide: boolean }> = {
+  'a-c': { fn: 'sin', divide: false },
+  'a-b': { fn: 'tan', divide: false },
+  'b-c': { fn: 'cos', divide: false },
+  'b-a': { fn: 'tan', divide: true },
+  'c-a': { fn: 'sin', divide: true },
+  'c-b': { fn: 'cos', divide: true },
+};
+
+const trigRule = (target: string): RuleTemplate => {
+  const relation = (from: string, alpha: string, n: Notation) => {
+    const { fn, divide } = TRIG_RELATIONS[`${target}-${from}`];
+    return divide ? n.frac(from, n.fn(fn, alpha)) : `${from} ${n.times} ${n.fn(fn, alpha)}`;
+  };
+  return {
+    formula: ({ params }, n) => `${target} = ${relation(params.from, n.sym('alpha'), n)}`,
+    math: ({ params, values, results }, n) => {
+      const { fn, divide } = TRIG_RELATIONS[`${target}-${params.from}`];
+      const known = n.val(values[params.from]);
+      const alpha = n.fn(fn, n.ang(values.alpha));
+      const substituted = divide ? n.frac(known, alpha) : `${known} ${n.times} ${alpha}`;
+      // In exact mode, special angles get an extra stage with the exact function value.
+      const exact = n.fnValue(fn, values.alpha);
+      const special = exact ? ` = ${divide ? n.frac(known, exact) : `${known} ${n.times} ${exact}`}` : '';
+      return `${target} = ${relation(params.from, n.sym('alpha'), n)} = ${substituted}${special} ${n.len(n.eq(results[target]))}`;
+    },
+  };
+};
+
+const inverseRule = (fn: 'arctan' | 'arcsin' | 'arccos', num: string, den: string): RuleTemplate => ({
+  formula: (_, n) => `${n.sym('alpha')} = ${n.fn(fn, n.frac(num, den))}`,
+  math: ({ values, results }, n) =>
+    `${n.sym('alpha')} = ${n.fn(fn, n.frac(num, den))} = ${n.fn(fn, n.frac(n.val(values[num]), n.val(values[den])))} ${n.eq(results.alpha, true)}`,
+});
+
+const cosinesSideFormula: Render = ({ params: { target, x, y, angle } }, n) =>
+  `${n.sq(target)} = ${n.sq(x)} + ${n.sq(y)} - 2${x}${y} ${n.fn('cos', n.sym(angle))}`;
+
+const cosinesAngleFormula: Render = ({ params: { target, x, y, z } }, n) =>
+  `${n.fn('cos', n.sym(target))} = ${n.frac(`${n.sq(y)} + ${n.sq(z)} - ${n.sq(x)}`, `2${y}${z}`)}`;
+
+const sinesFormula: Render = ({ params: { target, ref, angle, refAngle } }, n) =>
+  `${n.frac(target, n.fn('sin', n.sym(angle)))} = ${n.frac(ref, n.fn('sin', n.sym(refAngle)))} ${n.implies} ` +
+  `${target} = ${n.frac(`${ref} ${n.fn('sin', n.sym(angle))}`, n.fn('sin', n.sym(refAngle)))}`;
+
+/** `1 m / 100 cm`: the factor that turns `from` into `to`, written with whole numbers where possible. */
+const lengthFactor = (n: Notation, from: LengthUnit, to: LengthUnit) => {
+  const ratio = convertLength(1, from, to);
+  return ratio >= 1
+    ? n.frac(n.len(n.val(ratio), to), n.len('1', from))
+    : n.frac(n.len('1', to), n.len(n.val(1 / ratio), from));
+};
+
+// The coordinate axes a step covers, `xy` or `xyz`.
+const axesOf = ({ params }: CalculationStep) => [...(params.axes ?? 'xy')];
+
+/** A substituted value, in parentheses when negative so it can follow an operator. */
+const signed = (n: Notation, v: number) => (v < 0 ? `(${n.val(v)})` : n.val(v));
+
+const distanceFormula = (n: Notation, axes: string[]) => `d = ${n.sqrt(axes.map(axis => n.sq(n.delta(axis))).join(' + '))}`;
+
+const midpointFormula = (n: Notation, axes: string[]) =>
+  `M = ${n.point(axes.map(axis => n.frac(`${n.sub(axis, 1)} + ${n.sub(axis, 2)}`, '2')))}`;
+
+/** `√(3² + 4²) = √25 ≈ 5`: a hypotenuse from its legs. */
+const diagonal = (n: Notation, legs: number[], result: number) =>
+  `${n.sqrt(legs.map(leg => n.sq(signed(n, leg))).join(' + '))} = ${n.sqrt(n.res(legs.reduce((sum, leg) => sum + leg * leg, 0)))} ${n.len(n.eq(result))}`;
+
+// --- Catalog ---
+
+export const RULES: Record<StepRule, RuleTemplate> = {
+  'pythagoras.identify-legs': {
+    math: ({ values }, n) => `${given(n, 'a', values.a)}, ${given(n, 'b', values.b)}`,
+  },
+  'pythagoras.hypotenuse-formula': {
+    formula: hypotenuseFormula,
+  },
+  'pythagoras.substitute-legs': {
+    formula: hypotenuseFormula,
+    math: ({ values }, n) => `c = ${n.sqrt(`${n.sq(n.val(values.a))} + ${n.sq(n.val(values.b))}`)}`,
+  },
+  'pythagoras.square-legs': {
+    formula: hypotenuseFormula,
+    math: ({ results }, n) => `c = ${n.sqrt(`${n.res(results.a2)} + ${n.res(results.b2)}`)}`,
+  },
+  'pythagoras.sum-squares': {
+    formula: hypotenuseFormula,
+    math: ({ results }, n) => `c = ${n.sqrt(n.res(results.sum))}`,
+  },
+  'pythagoras.solve-hypotenuse': {
+    formula: hypotenuseFormula,
+    math: ({ results }, n) => `c ${n.len(n.eq(results.c))}`,
+  },
+  'pythagoras.identify-sides': {
+    math: ({ params, values }, n) => `${given(n, params.leg, values[params.leg])}, ${given(n, 'c', values.c)}`,
+  },
+  'pythagoras.leg-formula': {
+    explain: ({ params }) => ({ target: params.target }),
+    formula: legFormula,
+  },
+  'pythagoras.substitute-sides': {
+    formula: legFormula,
+    math: ({ params, values }, n) => `${params.target} = ${n.sqrt(`${n.sq(n.val(values.c))} - ${n.sq(n.val(values[params.leg]))}`)}`,
+  },
+  'pythagoras.solve-leg': {
+    formula: legFormula,
+    math: ({ params, results }, n) => `${params.target} ${n.len(n.eq(results[params.target]))}`,
+  },
+
+  'trig.given': {
+    explain: ({ params }, n) => ({ side: n.t(`side.${params.side as 'a' | 'b' | 'c'}`) }),
+    math: ({ params, values }, n) => `${given(n, params.side, values[params.side])}, ${given(n, 'alpha', values.alpha)}`,
+  },
+  'trig.solve-opposite': trigRule('a'),
+  'trig.solve-adjacent': trigRule('b'),
+  'trig.solve-hypotenuse': trigRule('c'),
+  'right-angle.complement': {
+    explain: ({ params }, n) => ({ target: n.sym(params.target) }),
+    formula: ({ params }, n) => `${n.sym(params.target)} = ${n.angConst(90)} - ${n.sym(params.from)}`,
+    math: ({ params, values, results }, n) =>
+      `${n.sym(params.target)} = ${n.angConst(90)} - ${n.sym(params.from)} = ${n.angConst(90)} - ${n.ang(values[params.from])} ${n.eq(results[params.target], true)}`,
+  },
+  'inverse-trig.arctan': inverseRule('arctan', 'a', 'b'),
+  'inverse-trig.arcsin': inverseRule('arcsin', 'a', 'c'),
+  'inverse-trig.arccos': inverseRule('arccos', 'b', 'c'),
+
+  'triangle.given': {
+    math: ({ values }, n) => Object.entries(values).map(([q, v]) => given(n, q, v)).join(', '),
+  },
+  'triangle.angle-sum': {
+    formula: ({ params: { target, x, y } }, n) => `${n.sym(target)} = ${n.angConst(180)} - ${n.sym(x)} - ${n.sym(y)}`,
+    math: ({ params: { target, x, y }, values, results }, n) =>
+      `${n.sym(target)} = ${n.angConst(180)} - ${n.sym(x)} - ${n.sym(y)} = ${n.angConst(180)} - ${n.ang(values[x])} - ${n.ang(values[y])} ${n.eq(results[target], true)}`,
+  },
+  'law-of-cosines.side-formula': {
+    explain: ({ params }) => ({ target: params.target }),
+    formula: cosinesSideFormula,
+  },
+  'law-of-cosines.solve-side': {
+    formula: cosinesSideFormula,
+    math: ({ params: { target, x, y, angle }, values, results }, n) => {
+      const [vx, vy] = [n.val(values[x]), n.val(values[y])];
+      return `${target} = ${n.sqrt(`${n.sq(vx)} + ${n.sq(vy)} - 2 ${n.times} ${vx} ${n.times} ${vy} ${n.times} ${n.fn('cos', n.ang(values[angle]))}`)} ${n.len(n.eq(results[target]))}`;
+    },
+  },
+  'law-of-cosines.angle-formula': {
+    explain: ({ params }, n) => ({ target: n.sym(params.target) }),
+    formula: cosinesAngleFormula,
+  },
+  'law-of-cosines.solve-angle': {
+    formula: cosinesAngleFormula,
+    math: ({ params: { target, x, y, z }, values, results }, n) => {
+      const [vx, vy, vz] = [n.val(values[x]), n.val(values[y]), n.val(values[z])];
+      return `${n.sym(target)} = ${n.fn('arccos', n.frac(`${n.sq(vy)} + ${n.sq(vz)} - ${n.sq(vx)}`, `2 ${n.times} ${vy} ${n.times} ${vz}`))} ${n.eq(results[target], true)}`;
+    },
+  },
+  'law-of-sines.side-formula': {
+    explain: ({ params }) => ({ target: params.target }),
+    formula: sinesFormula,
+  },
+  'law-of-sines.solve-side': {
+    formula: sinesFormula,
+    math: ({ params: { target, ref, angle, refAngle }, values, results }, n) =>
+      `${target} = ${n.frac(`${n.val(values[ref])} ${n.times} ${n.fn('sin', n.ang(values[angle]))}`, n.fn('sin', n.ang(values[refAngle])))} ${n.len(n.eq(results[target]))}`,
+  },
+
+  'ssa.sine-ratio': {
+    explain: ({ params }, n) => ({ target: n.sym(params.target) }),
+    formula: ({ params: { target, y, angle, x } }, n) => `${n.fn('sin', n.sym(target))} = ${n.frac(`${y} ${n.fn('sin', n.sym(angle))}`, x)}`,
+    math: ({ params: { target, y, angle, x }, values, results }, n) =>
+      `${n.fn('sin', n.sym(target))} = ${n.frac(`${y} ${n.fn('sin', n.sym(angle))}`, x)} = ` +
+      `${n.frac(`${n.val(values[y])} ${n.times} ${n.fn('sin', n.ang(values[angle]))}`, n.val(values[x]))} ${n.eq(results.ratio)}`,
+  },
+  'ssa.no-solution-sine': {
+    math: ({ params, results }, n) => `${n.fn('sin', n.sym(params.target))} ${n.eq(results.ratio)} > 1`,
+  },
+  'ssa.no-solution-angle-sum': {
+    explain: ({ params, results }, n) => ({ target: n.sym(params.target), value: n.eq(results.acute, true) }),
+    math: ({ params, values, results }, n) =>
+      `${n.ang(values[params.angle])} + ${n.ang(results.acute)} ${n.geq} ${n.angConst(180)}`,
+  },
+  'ssa.two-solutions': {
+    explain: ({ params }, n) => ({ target: n.sym(params.target) }),
+    math: ({ params, results }, n) => {
+      const [first, second] = [n.sub(n.sym(params.target), 1), n.sub(n.sym(params.target), 2)];
+      return `${first} ${n.eq(results.acute, true)}, ${n.gap} ${second} = ${n.angConst(180)} - ${first} ${n.eq(results.obtuse, true)}`;
+    },
+  },
+  'ssa.one-solution': {
+    explain: ({ params }, n) => ({ target: n.sym(params.target) }),
+    math: ({ params, results }, n) => `${n.sym(params.target)} ${n.eq(results[params.target], true)}`,
+  },
+  'ssa.right-angle': {
+    explain: ({ params }, n) => ({ target: n.sym(params.target) }),
+    math: ({ params, results }, n) => `${n.sym(params.target)} ${n.eq(results[params.target], true)}`,
+  },
+  'ssa.acute-branch': {
+    math: ({ params, values, results }, n) =>
+      `${n.sym(params.target)} = ${n.fn('arcsin', n.val(values.ratio))} ${n.eq(results[params.target], true)}`,
+  },
+  'ssa.obtuse-branch': {
+    math: ({ params, values, results }, n) =>
+      `${n.sym(params.target)} = ${n.angConst(180)} - ${n.ang(values.acute)} ${n.eq(results[params.target], true)}`,
+  },
+
+  'trig.ratio': {
+    explain: ({ params }, n) => ({ ratio: n.fn(params.fn as FunctionName, n.sym('alpha')) }),
+    formula: ({ params: { fn, num, den } }, n) => `${n.fn(fn as FunctionName, n.sym('alpha'))} = ${n.frac(num, den)}`,
+    math: ({ params: { fn, num, den }, values, results }, n) =>
+      `${n.fn(fn as FunctionName, n.sym('alpha'))} = ${n.frac(num, den)} = ${n.frac(n.val(values[num]), n.val(values[den]))} ${n.eq(results[fn])}`,
+  },
+
+  'units.convert-length': {
+    explain: ({ params }, n) => ({ quantity: n.sym(params.quantity), from: params.from, to: params.to }),
+    math: ({ params: { quantity, from, to }, values, results }, n) =>
+      `${n.sym(quantity)} = ${n.len(n.val(values[quantity]), from as LengthUnit)} ${n.times} ${lengthFactor(n, from as LengthUnit, to as LengthUnit)} ` +
+      n.len(n.eq(results[quantity]), to as LengthUnit),
+  },
+  'units.convert-angle': {
+    explain: ({ params }, n) => ({
+      quantity: n.sym(params.quantity),
+      from: n.t(`unit.${params.from as AngleUnit}`).toLowerCase(),
+      to: n.t(`unit.${params.to as AngleUnit}`).toLowerCase(),
+    }),
+    math: ({ params: { quantity, from, to }, values }, n) => {
+      const [source, target] = [from as AngleUnit, to as AngleUnit];
+      // Degrees and DMS only differ in how they are written, so there is no factor.
+      const sameScale = ANGLE_UNITS[source].halfTurn === ANGLE_UNITS[target].halfTurn;
+      const factor = sameScale ? '' : ` ${n.times} ${n.frac(n.angConst(180, target), n.angConst(180, source))}`;
+      return `${n.sym(quantity)} = ${n.ang(values[quantity], source)}${factor} ${n.eq(values[quantity], true)}`;
+    },
+  },
+
+  'applied.depression': {
+    formula: (_, n) => `${n.sym('alpha')} = ${n.sym('delta')}`,
+    math: ({ values }, n) => `${n.sym('alpha')} = ${n.sym('delta')} = ${n.ang(values.delta)}`,
+  },
+  'applied.add-height': {
+    formula: (_, n) => `H = a + ${n.sub('h', 0)}`,
+    math: ({ values, results }, n) =>
+      `H = a + ${n.sub('h', 0)} = ${n.val(values.a)} + ${n.val(values.h)} ${n.len(n.eq(results.H))}`,
+  },
+
+  'coordinates.differences': {
+    formula: (step, n) => axesOf(step).map(axis => `${n.delta(axis)} = ${n.sub(axis, 2)} - ${n.sub(axis, 1)}`).join(`, ${n.gap} `),
+    math: (step, n) => axesOf(step).map(axis =>
+      `${n.delta(axis)} = ${n.val(step.values[`${axis}2`])} - ${signed(n, step.values[`${axis}1`])} = ${n.len(n.val(step.results[`d${axis}`]))}`
+    ).join(`, ${n.gap} `),
+  },
+  'coordinates.legs': {
+    formula: (_, n) => `a = ${n.abs(n.delta('y'))}, ${n.gap} b = ${n.abs(n.delta('x'))}`,
+    math: ({ values, results }, n) =>
+      `a = ${n.abs(n.val(values.dy))} = ${n.len(n.val(results.a))}, ${n.gap} b = ${n.abs(n.val(values.dx))} = ${n.len(n.val(results.b))}`,
+  },
+  'coordinates.distance': {
+    formula: (_, n) => distanceFormula(n, ['x', 'y']),
+    math: ({ results }, n) => `${distanceFormula(n, ['x', 'y'])} = c ${n.len(n.eq(results.d))}`,
+  },
+  'coordinates.aligned': {
+    explain: ({ params }) => ({ axis: params.axis }),
+    formula: ({ params }, n) => `d = ${n.abs(n.delta(params.axis))}`,
+    math: ({ params, values, results }, n) =>
+      `d = ${n.abs(n.delta(params.axis))} = ${n.abs(n.val(values[`d${params.axis}`]))} = ${n.len(n.val(results.d))}`,
+  },
+  'coordinates.midpoint': {
+    formula: (step, n) => midpointFormula(n, axesOf(step)),
+    math: (step, n) => {
+      const axes = axesOf(step);
+      const substituted = axes.map(axis => n.frac(`${n.val(step.values[`${axis}1`])} + ${signed(n, step.values[`${axis}2`])}`, '2'));
+      return `${midpointFormula(n, axes)} = ${n.point(substituted)} = ${n.point(axes.map(axis => n.val(step.results[`m${axis}`])))}`;
+    },
+  },
+  'coordinates.slope': {
+    formula: (_, n) => `m = ${n.frac(n.delta('y'), n.delta('x'))}`,
+    math: ({ values, results }, n) =>
+      `m = ${n.frac(n.delta('y'), n.delta('x'))} = ${n.frac(n.val(values.dy), n.val(values.dx))} ${n.eq(results.m)}`,
+  },
+  'coordinates.inclination-rising': {
+    formula: (_, n) => `${n.sym('theta')} = ${n.sym('alpha')}`,
+    math: ({ results }, n) => `${n.sym('theta')} = ${n.sym('alpha')} ${n.eq(results.theta, true)}`,
+  },
+  'coordinates.inclination-falling': {
+    formula: (_, n) => `${n.sym('theta')} = ${n.angConst(180)} - ${n.sym('alpha')}`,
+    math: ({ values, results }, n) =>
+      `${n.sym('theta')} = ${n.angConst(180)} - ${n.sym('alpha')} = ${n.angConst(180)} - ${n.ang(values.alpha)} ${n.eq(results.theta, true)}`,
+  },
+  'coordinates.horizontal': {
+    math: ({ values }, n) => `m = ${n.frac('0', n.val(values.dx))} = 0 ${n.implies} ${n.sym('theta')} = ${n.ang(0)}`,
+  },
+  'coordinates.vertical': {
+    math: (_, n) => `${n.delta('x')} = 0 ${n.implies} ${n.sym('theta')} = ${n.angConst(90)}`,
+  },
+  'coordinates.base-diagonal': {
+    formula: (_, n) => `${n.sub('d', 1)} = ${n.sqrt(`${n.sq(n.delta('x'))} + ${n.sq(n.delta('y'))}`)}`,
+    math: ({ values, results }, n) => `${n.sub('d', 1)} = ${diagonal(n, [values.dx, values.dy], results.base)}`,
+  },
+  'coordinates.space-diagonal': {
+    formula: (_, n) => `d = ${n.sqrt(`${n.sq(n.sub('d', 1))} + ${n.sq(n.delta('z'))}`)}`,
+    math: ({ values, results }, n) => `d = ${diagonal(n, [values.base, values.dz], results.d)}`,
+  },
+  'coordinates.box-diagonal': {
+    formula: (_, n) => distanceFormula(n, ['x', 'y', 'z']),
+    math: ({ values, results }, n) => `${distanceFormula(n, ['x', 'y', 'z'])} = ${diagonal(n, [values.dx, values.dy, values.dz], results.d)}`,
+  },
+};
+
+/** Builds a step record, filling in its symbolic formula from the catalog. */
+export const makeStep = (
+  rule: StepRule,
+  { values = {}, results = {}, params = {} }: { values?: StepValues; results?: StepValues; params?: StepParams } = {}
+): CalculationStep => {
+  const step: CalculationStep = { rule, values, results, params };
+  const formula = RULES[rule].formula?.(step, latexNotation());
+  return formula ? { ...step, formula } : step;
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { SolverError } from './solver';
+import { solveTemplate } from './templates';
+
+const result = (id: Parameters<typeof solveTemplate>[0], values: Record<string, number>) =>
+  Object.fromEntries(solveTemplate(id, values).results.map(r => [r.id, r.value]));
+
+describe('solveTemplate', () => {
+  it('adds the eye height to the height of a building', () => {
+    const { H, c } = result('building', { b: 30, alpha: 30, h: 1.6 });
+    expect(H).toBeCloseTo(30 * Math.tan(Math.PI / 6) + 1.6);
+    expect(c).toBeCloseTo(30 / Math.cos(Math.PI / 6));
+    expect(solveTemplate('building', { b: 30, alpha: 30, h: 1.6 }).steps.at(-1)?.rule).toBe('applied.add-height');
+  });
+
+  it('leaves the eye height out when it is not given', () => {
+    const { steps, results } = solveTemplate('building', { b: 30, alpha: 45, h: NaN });
+    expect(results[0].value).toBeCloseTo(30);
+    expect(steps.some(step => step.rule === 'applied.add-height')).toBe(false);
+  });
+
+  it('answers a ladder with the height it reaches and its angle', () => {
+    expect(result('ladder', { c: 5, b: 3 })).toEqual({ a: 4, alpha: expect.closeTo(53.13, 2) });
+  });
+
+  it('turns an angle of depression into the angle of elevation', () => {
+    const { steps, results } = solveTemplate('lighthouse', { a: 40, delta: 45 });
+    expect(steps[0].rule).toBe('applied.depression');
+    expect(results[0]).toEqual({ id: 'b', kind: 'length', value: expect.closeTo(40) });
+  });
+
+  it('splits a course into its north and west components', () => {
+    const { a, b } = result('bearing', { c: 10, beta: 30 });
+    expect(a).toBeCloseTo(10 * Math.cos(Math.PI / 6));
+    expect(b).toBeCloseTo(5);
+  });
+
+  it('rejects a negative eye height and missing data', () => {
+    expect(() => solveTemplate('building', { b: 30, alpha: 30, h: -1 })).toThrow(SolverError);
+    expect(() => solveTemplate('ramp', { a: 1, alpha: NaN })).toThrow(SolverError);
+  });
+});
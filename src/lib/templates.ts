@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppliedTemplateId, CalculationStep, RightTriangleInput, RightTriangleSolution, TemplateQuantity, TemplateResult } from '../types';
+import { SolverError, solveRightTriangle } from './solver';
+import { makeStep } from './steps/rules';
+
+/** Typed values keyed by field id: lengths in the result unit, angles in degrees. */
+export type TemplateValues = Record<string, number>;
+
+/**
+ * How a situation maps onto the right-triangle solver. Every scene is drawn
+ * the same way: a is the vertical leg, b lies on the ground and α is the
+ * angle at the ground, so field ids name the side or angle they fill.
+ */
+export interface AppliedTemplate {
+  fields: (TemplateQuantity & { optional?: boolean })[];
+  triangle: (values: TemplateValues) => RightTriangleInput;
+  /** Steps that turn the situation into the triangle, before solving it. */
+  before?: (values: TemplateValues) => CalculationStep[];
+  /** Steps that turn the solved triangle back into the answer. */
+  after?: (solution: RightTriangleSolution, values: TemplateValues) => CalculationStep[];
+  results: (solution: RightTriangleSolution, values: TemplateValues) => TemplateResult[];
+}
+
+export interface AppliedSolution {
+  triangle: RightTriangleSolution;
+  steps: CalculationStep[];
+  results: TemplateResult[];
+}
+
+const length = (id: string, value: number): TemplateResult => ({ id, kind: 'length', value });
+const angle = (id: string, value: number): TemplateResult => ({ id, kind: 'angle', value });
+
+// The eye height is left out of the drawing's triangle: the line of sight starts at the eyes.
+const eyeHeight = (values: TemplateValues) => values.h || 0;
+
+export const APPLIED_TEMPLATES: Record<AppliedTemplateId, AppliedTemplate> = {
+  building: {
+    fields: [{ id: 'b', kind: 'length' }, { id: 'alpha', kind: 'angle' }, { id: 'h', kind: 'length', optional: true }],
+    triangle: ({ b, alpha }) => ({ b, alpha }),
+    after: ({ a }, values) => (eyeHeight(values)
+      ? [makeStep('applied.add-height', { values: { a, h: eyeHeight(values) }, results: { H: a + eyeHeight(values) } })]
+      : []),
+    results: ({ a, c }, values) => [length('H', a + eyeHeight(values)), length('c', c)],
+  },
+  ladder: {
+    fields: [{ id: 'c', kind: 'length' }, { id: 'b', kind: 'length' }],
+    triangle: ({ c, b }) => ({ c, b }),
+    results: ({ a, alpha }) => [length('a', a), angle('alpha', alpha)],
+  },
+  ramp: {
+    fields: [{ id: 'a', kind: 'length' }, { id: 'alpha', kind: 'angle' }],
+    triangle: ({ a, alpha }) => ({ a, alpha }),
+    results: ({ b, c }) => [length('c', c), length('b', b)],
+  },
+  shadow: {
+    fields: [{ id: 'a', kind: 'length' }, { id: 'b', kind: 'length' }],
+    triangle: ({ a, b }) => ({ a, b }),
+    results: ({ alpha, c }) => [angle('alpha', alpha), length('c', c)],
+  },
+  lighthouse: {
+    fields: [{ id: 'a', kind: 'length' }, { id: 'delta', kind: 'angle' }],
+    // The angle of depression from the top and the angle of elevation from the boat are alternate angles.
+    triangle: ({ a, delta }) => ({ a, alpha: delta }),
+    before: ({ delta }) => [makeStep('applied.depression', { values: { delta }, results: { alpha: delta } })],
+    results: ({ b, c }) => [length('b', b), length('c', c)],
+  },
+  bearing: {
+    // A course N β W from A: the north line through A is parallel to a, so the course makes β with it.
+    fields: [{ id: 'c', kind: 'length' }, { id: 'beta', kind: 'angle' }],
+    triangle: ({ c, beta }) => ({ c, beta }),
+    results: ({ a, b }) => [length('a', a), length('b', b)],
+  },
+};
+
+export const TEMPLATE_IDS = Object.keys(APPLIED_TEMPLATES) as AppliedTemplateId[];
+
+/**
+ * Solves a template with the right-triangle solver and phrases the answer in
+ * the template's terms. Optional fields may be missing (NaN).
+ *
+ * @throws {SolverError} when the values make no triangle.
+ */
+export const solveTemplate = (id: AppliedTemplateId, values: TemplateValues): AppliedSolution => {
+  const template = APPLIED_TEMPLATES[id];
+  if (eyeHeight(values) < 0) throw new SolverError('non-positive-length', 'error.negative-height');
+  const triangle = solveRightTriangle(template.triangle(values));
+  return {
+    triangle,
+    steps: [...template.before?.(values) ?? [], ...triangle.steps, ...template.after?.(triangle, values) ?? []],
+    results: template.results(triangle, values),
+  };
+};
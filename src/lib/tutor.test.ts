@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { ServerError } from './api';
+import { translator } from './i18n';
+import { splitMath, tutorFailure } from './tutor';
+
+describe('splitMath', () => {
+  it('separates display math from prose', () => {
+    expect(splitMath("Usamos\n$$c^2 = a^2 + b^2$$\ny listo.")).toEqual([
+      { math: false, text: "Usamos\n" },
+      { math: true, text: "c^2 = a^2 + b^2" },
+      { math: false, text: "\ny listo." },
+    ]);
+  });
+
+  it('protects inline math from the Markdown renderer', () => {
+    expect(splitMath("Si $a_1 = 3$ y $b = 4$")).toEqual([{ math: false, text: "Si `$a_1 = 3$` y `$b = 4$`" }]);
+  });
+
+  it('leaves escaped dollars and unfinished math alone', () => {
+    expect(splitMath("Cuesta \\$5")[0].text).toBe("Cuesta \\$5");
+    expect(splitMath("Mientras llega $$c^2 =")[0].text).toBe("Mientras llega $$c^2 =");
+  });
+});
+
+describe('tutorFailure', () => {
+  it('words the server code in the locale and falls back to how to start the server', () => {
+    const t = translator('en');
+    expect(tutorFailure(new ServerError('unavailable', 502), t)).toBe("The tutor is not available right now. Try again in a moment.");
+    expect(tutorFailure(new ServerError('server', 500), t)).toBe(t('tutor.error'));
+    expect(tutorFailure(new TypeError('Failed to fetch'), t)).toBe(t('tutor.error'));
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TutorErrorCode, TutorRequest } from '../types';
+import { responseError, ServerError } from './api';
+import { Translate } from './i18n';
+
+const ENDPOINT = '/api/tutor';
+
+/** The tutor's answer as the server streams it, chunk by chunk. */
+export const askTutor = async function* (request: TutorRequest, signal?: AbortSignal): AsyncGenerator<string> {
+  const response = await fetch(ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!response.ok || !response.body) throw await responseError(response);
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    yield value;
+  }
+};
+
+const ERRORS: TutorErrorCode[] = ['invalid-question', 'unavailable'];
+
+/** Why the tutor did not answer, in words of the locale; without a server, how to start it. */
+export const tutorFailure = (err: unknown, t: Translate) => {
+  const code = err instanceof ServerError && ERRORS.find(known => known === err.code);
+  return code ? t(`tutor.error.${code}`) : t('tutor.error');
+};
+
+export type MathSegment = { math: boolean; text: string };
+
+/**
+ * Splits Markdown (tutor answers, lessons) into prose and display math
+ * (`$$…$$`). Inside prose, inline math (`$…$`) becomes a code span still
+ * wrapped in dollars, so the Markdown renderer leaves the LaTeX alone and it can be typeset afterwards.
+ * An unclosed `$$` stays prose until the rest of the stream arrives.
+ */
+export const splitMath = (markdown: string): MathSegment[] =>
+  markdown
+    .split(/\$\$([\s\S]+?)\$\$/)
+    .map((text, i) => (i % 2
+      ? { math: true, text: text.trim() }
+      : { math: false, text: text.replace(/(?<![\\$`])\$([^$\n`]+?)\$(?!\$)/g, '`$$$1$$`') }))
+    .filter(segment => segment.text.trim());
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { convertInput } from './input';
+import { solveRightTriangle } from './solver';
+import { renderKatex, renderPlainText } from './steps/render';
+import { convertLength, fromDegrees, parseAngle, toDms } from './units';
+
+describe('conversion', () => {
+  it('converts lengths through meters and leaves generic units alone', () => {
+    expect(convertLength(150, 'cm', 'm')).toBeCloseTo(1.5);
+    expect(convertLength(1, 'ft', 'in')).toBeCloseTo(12);
+    expect(convertLength(7, 'u', 'cm')).toBe(7);
+  });
+
+  it('converts angles from degrees', () => {
+    expect(fromDegrees(180, 'rad')).toBeCloseTo(Math.PI);
+    expect(fromDegrees(90, 'grad')).toBe(100);
+    expect(toDms(36.8699, 0)).toEqual({ negative: false, degrees: 36, minutes: 52, seconds: 12 });
+    expect(toDms(29.99999, 0)).toEqual({ negative: false, degrees: 30, minutes: 0, seconds: 0 });
+  });
+});
+
+describe('parseAngle', () => {
+  it('reads every unit into degrees', () => {
+    expect(parseAngle('30', 'deg')).toBe(30);
+    expect(parseAngle('30°', 'deg')).toBe(30);
+    expect(parseAngle('0.5', 'rad')).toBeCloseTo(28.6479, 4);
+    expect(parseAngle('π/6', 'rad')).toBeCloseTo(30);
+    expect(parseAngle('2pi/3', 'rad')).toBeCloseTo(120);
+    expect(parseAngle('50', 'grad')).toBe(45);
+    expect(parseAngle(`30°15'36"`, 'dms')).toBeCloseTo(30.26);
+    expect(parseAngle('30 15 36', 'dms')).toBeCloseTo(30.26);
+    expect(parseAngle('30.5', 'dms')).toBe(30.5);
+  });
+
+  it('returns NaN for empty or invalid text', () => {
+    expect(parseAngle('', 'deg')).toBeNaN();
+    expect(parseAngle('abc', 'dms')).toBeNaN();
+    expect(parseAngle('30abc', 'deg')).toBeNaN();
+    expect(parseAngle('30.5x', 'dms')).toBeNaN();
+    expect(parseAngle('π/6x', 'rad')).toBeNaN();
+  });
+});
+
+describe('convertInput', () => {
+  it('adds a conversion step for every value typed in another unit', () => {
+    const { input, steps } = convertInput(
+      { a: { text: '30', unit: 'cm' }, b: { text: '0.4', unit: 'm' }, alpha: { text: '', unit: 'rad' } },
+      { length: 'm', angle: 'deg' }
+    );
+    expect(input.a).toBeCloseTo(0.3);
+    expect(input.b).toBe(0.4);
+    expect(input.alpha).toBeNaN();
+    expect(renderPlainText(steps, { units: { length: 'm' } })).toBe(
+      "Convertimos a de cm a m: a = 30 cm · (1 m)/(100 cm) ≈ 0,3000 m"
+    );
+  });
+
+  it('converts angles to the display unit', () => {
+    const { steps } = convertInput({ alpha: { text: '30', unit: 'deg' } }, { length: 'u', angle: 'rad' });
+    expect(renderKatex(steps[0], { units: { angle: 'rad' }, exact: true })).toEqual({
+      text: "Convertimos α de grados a radianes:",
+      math: "\\alpha = 30^\\circ \\cdot \\frac{\\pi}{180^\\circ} = \\frac{\\pi}{6}",
+    });
+  });
+});
+
+describe('units in steps', () => {
+  const { steps } = solveRightTriangle({ a: 3, b: 4 });
+
+  it('labels lengths and writes angles in the chosen unit', () => {
+    const text = renderPlainText(steps, { digits: 2, units: { length: 'cm', angle: 'rad' } }).split('\n');
+    expect(text[0]).toBe("Identificamos los catetos: a = 3 cm, b = 4 cm");
+    expect(text[5]).toBe("Resultado final: c ≈ 5,00 cm");
+    expect(text[7]).toBe("Calculamos el ángulo complementario (β): β = π/2 - α = π/2 - 0,64 ≈ 0,93");
+  });
+
+  it('writes angles in gradians and degrees-minutes-seconds', () => {
+    expect(renderPlainText(steps.slice(6, 7), { units: { angle: 'grad' } })).toMatch(/≈ 40,9666ᵍ$/);
+    expect(renderPlainText(steps.slice(6, 7), { units: { angle: 'dms' } })).toMatch(/≈ 36°52′11,63″$/);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AngleUnit, LengthUnit, UnitSettings } from '../types';
+
+export const DEFAULT_UNITS: UnitSettings = { length: 'u', angle: 'deg' };
+
+/** Unit names are the `unit.<id>` messages of each locale. */
+export const LENGTH_UNITS: Record<LengthUnit, { symbol: string; meters: number | null }> = {
+  u: { symbol: 'u', meters: null },
+  cm: { symbol: 'cm', meters: 0.01 },
+  m: { symbol: 'm', meters: 1 },
+  in: { symbol: 'in', meters: 0.0254 },
+  ft: { symbol: 'ft', meters: 0.3048 },
+};
+
+/** `halfTurn` is 180° expressed in each unit; DMS is degrees written differently. */
+export const ANGLE_UNITS: Record<AngleUnit, { halfTurn: number }> = {
+  deg: { halfTurn: 180 },
+  rad: { halfTurn: Math.PI },
+  grad: { halfTurn: 200 },
+  dms: { halfTurn: 180 },
+};
+
+// --- Conversion ---
+
+/** Both units must be real lengths; generic units (`u`) never convert. */
+export const convertLength = (v: number, from: LengthUnit, to: LengthUnit) => {
+  const [source, target] = [LENGTH_UNITS[from].meters, LENGTH_UNITS[to].meters];
+  if (from === to || source === null || target === null) return v;
+  return (v * source) / target;
+};
+
+export const toDegrees = (v: number, unit: AngleUnit) => (v * 180) / ANGLE_UNITS[unit].halfTurn;
+
+export const fromDegrees = (degrees: number, unit: AngleUnit) => (degrees * ANGLE_UNITS[unit].halfTurn) / 180;
+
+/** `36.87` → `{ degrees: 36, minutes: 52, seconds: 12 }`, seconds rounded to `decimals`. */
+export const toDms = (v: number, decimals: number) => {
+  const total = Math.round(Math.abs(v) * 3600 * 10 ** decimals) / 10 ** decimals;
+  const degrees = Math.floor(total / 3600);
+  const minutes = Math.floor((total - degrees * 3600) / 60);
+  const seconds = +(total - degrees * 3600 - minutes * 60).toFixed(decimals);
+  return { negative: v < 0, degrees, minutes, seconds };
+};
+
+// --- Parsing ---
+
+const DMS_PATTERN = /^(-?\d+(?:\.\d+)?)\s*(?:°|º|d|\s)\s*(?:(\d+(?:\.\d+)?)\s*(?:'|′|m|\s)\s*)?(?:(\d+(?:\.\d+)?)\s*(?:"|″|''|s)?)?$/;
+const DECIMAL_PATTERN = /^-?(?:\d+(?:\.\d+)?|\.\d+)$/;
+const PI_PATTERN = /^(-?\d*(?:\.\d+)?)\s*\*?\s*(?:π|pi)\s*(?:\/\s*(\d+(?:\.\d+)?))?$/i;
+
+/**
+ * Reads an angle typed in `unit` and returns it in degrees (NaN when empty or
+ * invalid). DMS accepts `30°15'10"` or `30 15 10`; radians accept `π/6`.
+ * Decimals may use a point or a comma, and degrees a trailing `°`. Like
+ * lengths, the whole text must be read: `30abc` is invalid.
+ */
+export const parseAngle = (text: string, unit: AngleUnit): number => {
+  const trimmed = text.trim().replace(/(\d),(\d)/g, '$1.$2');
+  const decimal = (s: string) => (DECIMAL_PATTERN.test(s) ? parseFloat(s) : NaN);
+  if (unit === 'dms') {
+    const match = trimmed.match(DMS_PATTERN);
+    if (!match) return decimal(trimmed);
+    const [, degrees, minutes = '0', seconds = '0'] = match;
+    const sign = degrees.startsWith('-') ? -1 : 1;
+    return sign * (Math.abs(parseFloat(degrees)) + parseFloat(minutes) / 60 + parseFloat(seconds) / 3600);
+  }
+  if (unit === 'rad') {
+    const match = trimmed.match(PI_PATTERN);
+    if (match) {
+      const [, factor, divisor = '1'] = match;
+      const k = factor === '' ? 1 : factor === '-' ? -1 : parseFloat(factor);
+      return toDegrees((k * Math.PI) / parseFloat(divisor), 'rad');
+    }
+  }
+  return toDegrees(decimal(unit === 'deg' ? trimmed.replace(/\s*[°º]$/, '') : trimmed), unit);
+};
+
+// --- Labels ---
+
+/** `cm`, `cm²`… for results outside of the steps. */
+export const lengthSymbol = (unit: LengthUnit, power: 1 | 2 = 1) =>
+  `${LENGTH_UNITS[unit].symbol}${power === 2 ? '²' : ''}`;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { solveTriangle } from './oblique';
+import { solveRightTriangle } from './solver';
+import { DEFAULT_UNITS } from './units';
+import { isSolvable, validate } from './validation';
+
+const lengths = (values: Record<string, string>) =>
+  Object.fromEntries(Object.entries(values).map(([q, text]) => [q, { text, unit: 'u' as const }]));
+
+const right = (values: Record<string, string>, locale?: 'en') =>
+  validate(lengths(values), DEFAULT_UNITS, solveRightTriangle, { locale });
+
+describe('validate', () => {
+  it('accepts data that makes a triangle', () => {
+    expect(right({ a: '3', b: '4', c: '' })).toEqual([]);
+  });
+
+  it('points at values that are not numbers', () => {
+    const issues = right({ a: '3', b: 'x', c: '' });
+    expect(issues).toMatchObject([{ code: 'not-a-number', fields: ['b'], severity: 'error' }]);
+    expect(isSolvable(issues)).toBe(false);
+    expect(right({ a: '5/0', b: '4' })).toMatchObject([{ code: 'not-a-number', fields: ['a'] }]);
+  });
+
+  it('rejects zero and negative lengths with an explanation', () => {
+    const [issue] = right({ a: '-3', b: '4' });
+    expect(issue).toMatchObject({ code: 'non-positive-length', fields: ['a'], message: "El lado a debe ser mayor que 0." });
+    expect(issue.explanation).toBeTruthy();
+  });
+
+  it('blames the hypotenuse first when it is not the longest side', () => {
+    const [issue] = right({ a: '5', c: '4' }, 'en');
+    expect(issue).toMatchObject({ code: 'hypotenuse-not-longest', fields: ['c', 'a'] });
+    expect(issue.message).toBe("The hypotenuse must be longer than the leg.");
+    expect(issue.explanation).toContain("c² = a² + b²");
+  });
+
+  it('reports missing data for the whole form', () => {
+    expect(right({ a: '3' })).toMatchObject([{ code: 'insufficient-data', fields: [] }]);
+  });
+
+  it('warns about extra values that disagree without blocking the solution', () => {
+    const issues = right({ a: '3', b: '4', c: '6' });
+    expect(issues).toMatchObject([{ code: 'inconsistent-data', fields: ['c'], severity: 'warning' }]);
+    expect(isSolvable(issues)).toBe(true);
+  });
+
+  it('checks angles in the unit they are typed in', () => {
+    const issues = validate({ alpha: { text: '100', unit: 'grad' }, c: { text: '2', unit: 'u' } }, DEFAULT_UNITS, solveRightTriangle);
+    expect(issues).toMatchObject([{ code: 'angle-out-of-range', fields: ['alpha'] }]);
+  });
+
+  it('blames the side that is too long for the other two', () => {
+    const issues = validate(lengths({ a: '1', b: '7', c: '3' }), DEFAULT_UNITS, solveTriangle);
+    expect(issues).toMatchObject([{ code: 'triangle-inequality', fields: ['b'] }]);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ObliqueQuantity, ObliqueResult, RightTriangleSolution, UnitSettings } from '../types';
+import { MessageKey, MessageParams, translator } from './i18n';
+import { convertInput, Measured } from './input';
+import { SolverError, SolverErrorCode } from './solver';
+import { renderWarning, RenderOptions } from './steps/render';
+
+export type ValidationCode = SolverErrorCode | 'not-a-number' | 'inconsistent-data';
+
+/** Something wrong with the typed data, shown next to the fields it concerns. */
+export interface ValidationIssue {
+  code: ValidationCode;
+  /** Errors leave nothing to solve; warnings still have a solution. */
+  severity: 'error' | 'warning';
+  /** The fields at fault, most to blame first; empty when it is about the data as a whole. */
+  fields: ObliqueQuantity[];
+  message: string;
+  /** Why the data is geometrically impossible, when it is. */
+  explanation?: string;
+}
+
+const EXPLANATIONS: Partial<Record<MessageKey, MessageKey>> = {
+  'error.non-positive-length': 'why.non-positive-length',
+  'error.hypotenuse-not-longest': 'why.hypotenuse-not-longest',
+  'error.right-angle-range': 'why.right-angle-range',
+  'error.triangle-inequality': 'why.triangle-inequality',
+  'error.angle-sum': 'why.angle-sum',
+  'error.oblique-angle-range': 'why.oblique-angle-range',
+  'error.no-side': 'why.no-side',
+};
+
+/**
+ * Checks typed fields the way they would be solved: every value must be a
+ * number, and then `solve` decides whether they make a triangle. Meant to run
+ * on every keystroke, so it never throws for bad data.
+ */
+export const validate = <Q extends ObliqueQuantity>(
+  fields: Measured<Q>,
+  units: UnitSettings,
+  solve: (input: Partial<Record<Q, number>>) => Pick<RightTriangleSolution, 'warnings'> | ObliqueResult,
+  options: RenderOptions = {},
+): ValidationIssue[] => {
+  const t = translator(options.locale);
+  const issue = (code: ValidationCode, fields: ObliqueQuantity[], key: MessageKey, params: MessageParams = {}): ValidationIssue => {
+    const why = EXPLANATIONS[key];
+    return { code, severity: 'error', fields, message: t(key, params), ...(why && { explanation: t(why) }) };
+  };
+
+  const { input } = convertInput(fields, units);
+  const unreadable = (Object.keys(fields) as Q[]).filter(q => fields[q]!.text.trim() && !Number.isFinite(input[q]!));
+  if (unreadable.length) return unreadable.map(q => issue('not-a-number', [q], 'error.not-a-number'));
+
+  try {
+    const result = solve(input);
+    const warnings = 'warnings' in result ? result.warnings : [];
+    return warnings.map(warning => ({
+      code: 'inconsistent-data',
+      severity: 'warning',
+      fields: [warning.quantity],
+      message: renderWarning(warning, options),
+      explanation: t('why.inconsistent'),
+    }));
+  } catch (err) {
+    if (!(err instanceof SolverError)) throw err;
+    return [issue(err.code, err.fields, err.key, err.params)];
+  }
+};
+
+/** Whether the issues leave anything to solve. */
+export const isSolvable = (issues: ValidationIssue[]) => issues.every(issue => issue.severity !== 'error');
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { WorksheetSettings } from '../types';
+import { answerKeyHtml, exerciseDiagram, generateWorksheet, worksheetHtml } from './worksheet';
+
+const settings: WorksheetSettings = { topics: ['hypotenuse', 'leg', 'tan', 'angle'], count: 8, difficulty: 'medium', seed: 'FICHA1' };
+
+describe('generateWorksheet', () => {
+  it('is reproducible and gives each topic its turn', () => {
+    const exercises = generateWorksheet(settings);
+    expect(generateWorksheet(settings)).toEqual(exercises);
+    expect(exercises.map(e => e.target)).toEqual(['c', expect.stringMatching(/^[ab]$/), 'tan', 'alpha', 'c', expect.stringMatching(/^[ab]$/), 'tan', 'alpha']);
+  });
+
+  it('keeps the data of medium sheets whole for every topic', () => {
+    for (const exercise of generateWorksheet({ ...settings, topics: ['hypotenuse', 'leg', 'sin', 'cos'], count: 40 })) {
+      expect(Object.values(exercise.given).every(Number.isInteger)).toBe(true);
+    }
+  });
+
+  it('is empty without topics', () => {
+    expect(generateWorksheet({ ...settings, topics: [] })).toEqual([]);
+  });
+});
+
+describe('worksheet pages', () => {
+  const exercises = generateWorksheet({ ...settings, topics: ['hypotenuse'], count: 2, difficulty: 'easy' });
+
+  it('labels the given sides and marks the unknown', () => {
+    const svg = exerciseDiagram(exercises[0]);
+    expect(svg).toMatch(/^<svg/);
+    expect(svg).toContain(`a = ${exercises[0].given.a}`);
+    expect(svg).toContain('c = ?');
+  });
+
+  it('leaves the answers out of the student sheet and puts them in the key', () => {
+    const answer = `Respuesta: ${exercises[0].answer}`;
+    expect(worksheetHtml(exercises, settings)).not.toContain(answer);
+    const key = answerKeyHtml(exercises, settings);
+    expect(key).toContain(answer);
+    expect(key.match(/<li>/g)).toHaveLength(exercises.reduce((n, e) => n + e.steps.length, 0));
+  });
+});
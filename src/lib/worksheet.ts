@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Exercise, ExerciseKind, TrigFunction, WorksheetSettings, WorksheetTopic } from '../types';
+import { escapeHtml, htmlPage, mathml } from './export';
+import { arcPath, fitRightTriangle, RIGHT_TRIANGLE_BOX, rightTriangleLabels, rightTriangleVertices } from './layout';
+import { translator } from './i18n';
+import { answerOptions, formatAnswer, generateExercise } from './practice';
+import { createRandom } from './random';
+import { solveRightTriangle } from './solver';
+import { formatAngle, formatLength, renderKatex, RenderOptions } from './steps/render';
+import { makeStep } from './steps/rules';
+
+/** Topics are named by the `topic.<id>` messages. */
+export const TOPICS: Record<WorksheetTopic, { kind: ExerciseKind; ratio?: TrigFunction }> = {
+  hypotenuse: { kind: 'hypotenuse' },
+  leg: { kind: 'leg' },
+  sin: { kind: 'trig-ratio', ratio: 'sin' },
+  cos: { kind: 'trig-ratio', ratio: 'cos' },
+  tan: { kind: 'trig-ratio', ratio: 'tan' },
+  angle: { kind: 'angle' },
+};
+
+/** The topic of the problem at `index`: topics take turns so each gets its share. */
+export const worksheetTopic = ({ topics }: Pick<WorksheetSettings, 'topics'>, index: number) => topics[index % topics.length];
+
+/** The problems of a worksheet; the same settings always give the same sheet. */
+export const generateWorksheet = (settings: WorksheetSettings): Exercise[] => {
+  const { topics, count, difficulty, seed } = settings;
+  const random = createRandom(`worksheet:${difficulty}:${seed}`);
+  return Array.from({ length: topics.length ? count : 0 }, (_, i) => {
+    const { kind, ratio } = TOPICS[worksheetTopic(settings, i)];
+    return generateExercise(random, difficulty, kind, ratio);
+  });
+};
+
+// --- Diagrams ---
+
+/**
+ * The triangle of an exercise drawn to scale, with the same geometry as the
+ * visualizer: given data is labelled with its value and the unknown with "?".
+ */
+export const exerciseDiagram = ({ given, target }: Exercise, options: RenderOptions = {}) => {
+  const { a, b } = solveRightTriangle(given);
+  const { scale, origin } = fitRightTriangle(a, b);
+  const { A, B, C } = rightTriangleVertices(origin, a, b, scale);
+  const display = answerOptions(options);
+
+  const label = (quantity: 'a' | 'b' | 'c' | 'alpha', symbol: string) => {
+    const value = given[quantity];
+    if (value !== undefined) return `${symbol} = ${quantity === 'alpha' ? formatAngle(value, display) : formatLength(value, display)}`;
+    return quantity === target ? `${symbol} = ?` : symbol;
+  };
+  const labels = rightTriangleLabels({ A, B, C }, {
+    a: label('a', 'a'),
+    b: label('b', 'b'),
+    c: label('c', 'c'),
+    alpha: label('alpha', 'α'),
+  });
+  const square = Math.min(12, (A.x - C.x) / 2, (C.y - B.y) / 2);
+  const arc = Math.min(20, 0.45 * Math.min(A.x - C.x, C.y - B.y));
+  const { width, height } = RIGHT_TRIANGLE_BOX;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">`,
+    `<path d="M ${C.x} ${C.y} L ${A.x} ${A.y} L ${B.x} ${B.y} Z" fill="none" stroke="#1e293b" stroke-width="2" stroke-linejoin="round"/>`,
+    `<rect x="${C.x}" y="${C.y - square}" width="${square}" height="${square}" fill="none" stroke="#94a3b8" stroke-width="1.5"/>`,
+    arc > 2 ? `<path d="${arcPath(A, C, B, arc)}" fill="none" stroke="#2563eb" stroke-width="1.5"/>` : '',
+    ...labels.map(l => `<text x="${l.x}" y="${l.y}" text-anchor="middle" dominant-baseline="central" font-family="monospace" font-size="10" fill="#334155">${escapeHtml(l.text)}</text>`),
+    '</svg>',
+  ].join('\n');
+};
+
+// --- Pages ---
+
+const SHEET_STYLE = `
+  .meta { display: flex; gap: 2rem; margin: 1rem 0 2rem; }
+  .meta span { flex: 1; border-bottom: 1px solid #94a3b8; padding-bottom: 0.25rem; color: #475569; font-size: 0.875rem; }
+  .problems { display: grid; grid-template-columns: 1fr 1fr; gap: 1.5rem; }
+  .problem { border: 1px solid #e2e8f0; border-radius: 0.75rem; padding: 1rem; break-inside: avoid; }
+  .problem h3 { margin: 0 0 0.5rem; font-size: 1rem; }
+  .problem svg { width: 100%; height: auto; }
+  .answer { margin-top: 0.5rem; border-bottom: 1px dashed #94a3b8; padding-bottom: 1.5rem; color: #475569; font-size: 0.875rem; }
+  .solution { break-inside: avoid; margin-bottom: 2rem; }
+  .result { font-weight: bold; }
+`;
+
+const header = (title: string, { topics, difficulty, seed }: WorksheetSettings, options: RenderOptions) => {
+  const t = translator(options.locale);
+  return `<h1>${escapeHtml(title)}</h1>
+<p>${t('worksheet.settings', {
+    topics: topics.map(topic => escapeHtml(t(`topic.${topic}`))).join(' · '),
+    difficulty: escapeHtml(t(`difficulty.${difficulty}`)),
+    seed: `<strong>${escapeHtml(seed)}</strong>`,
+  })}</p>`;
+};
+
+const statement = (exercise: Exercise, options: RenderOptions) => {
+  const t = translator(options.locale);
+  const given = mathml(renderKatex(makeStep('triangle.given', { values: exercise.given }), answerOptions(options)).math!);
+  return `<p>${escapeHtml(t('exercise.given'))} ${given}. ${escapeHtml(t('exercise.ask', { question: t(`question.${exercise.target}`) }))}</p>`;
+};
+
+/** The student sheet: one box per problem with its diagram and room for the answer. */
+export const worksheetHtml = (exercises: Exercise[], settings: WorksheetSettings, options: RenderOptions = {}) => {
+  const t = translator(options.locale);
+  const problems = exercises.map((exercise, i) => `<div class="problem">
+<h3>${escapeHtml(t('worksheet.problem', { n: i + 1 }))}</h3>
+${statement(exercise, options)}
+${exerciseDiagram(exercise, options)}
+<p class="answer">${escapeHtml(t('worksheet.answer'))}</p>
+</div>`);
+  return htmlPage(t('worksheet.sheet-title'), `${header(t('worksheet.sheet-title'), settings, options)}
+<div class="meta"><span>${escapeHtml(t('worksheet.name'))}</span><span>${escapeHtml(t('worksheet.date'))}</span></div>
+<div class="problems">
+${problems.join('\n')}
+</div>`, SHEET_STYLE, options.locale);
+};
+
+/** The answer key: every answer with its full worked solution. */
+export const answerKeyHtml = (exercises: Exercise[], settings: WorksheetSettings, options: RenderOptions = {}) => {
+  const t = translator(options.locale);
+  const display = answerOptions(options);
+  const solutions = exercises.map((exercise, i) => {
+    const steps = exercise.steps.map(step => renderKatex(step, display)).map(({ text, math }) =>
+      `<li>${escapeHtml(text)}${math ? `<div>${mathml(math, true)}</div>` : ''}</li>`);
+    return `<div class="solution">
+<h2>${escapeHtml(t('worksheet.problem', { n: i + 1 }))}</h2>
+${statement(exercise, options)}
+<p class="result">${escapeHtml(t('worksheet.answer'))} ${escapeHtml(formatAnswer(exercise.target, exercise.answer, options))}</p>
+<ol>
+${steps.join('\n')}
+</ol>
+</div>`;
+  });
+  return htmlPage(t('worksheet.key-title'), `${header(t('worksheet.key-title'), settings, options)}
+${solutions.join('\n')}`, SHEET_STYLE, options.locale);
+};
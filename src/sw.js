@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The service worker. The build prepends BUILD (an id of the build) and
+// PRECACHE (every file the app needs offline) and emits it as /sw.js; see
+// the serviceWorker plugin in vite.config.ts. It isn't registered in development.
+
+const CACHE = `geomaster-${BUILD}`;
+const SHELL = '/';
+
+self.addEventListener('install', event => {
+  // The new version waits until the page accepts the update prompt.
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('geomaster-') && key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'skip-waiting') self.skipWaiting();
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // The API (history, tutor) always goes to the server; the page copes when it can't.
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  // Every page is the same app, served from the cache so it matches the cached scripts.
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match(SHELL).then(cached => cached ?? fetch(request)));
+    return;
+  }
+  event.respondWith(caches.match(request).then(cached => cached ?? fetch(request)));
+});
@@ -0,0 +1,361 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type Side = 'a' | 'b' | 'c';
+export type Angle = 'alpha' | 'beta';
+export type Quantity = Side | Angle;
+export type TrigFunction = 'sin' | 'cos' | 'tan';
+
+export type StepRule =
+  | 'pythagoras.identify-legs'
+  | 'pythagoras.hypotenuse-formula'
+  | 'pythagoras.substitute-legs'
+  | 'pythagoras.square-legs'
+  | 'pythagoras.sum-squares'
+  | 'pythagoras.solve-hypotenuse'
+  | 'pythagoras.identify-sides'
+  | 'pythagoras.leg-formula'
+  | 'pythagoras.substitute-sides'
+  | 'pythagoras.solve-leg'
+  | 'trig.given'
+  | 'trig.solve-opposite'
+  | 'trig.solve-adjacent'
+  | 'trig.solve-hypotenuse'
+  | 'right-angle.complement'
+  | 'inverse-trig.arctan'
+  | 'inverse-trig.arcsin'
+  | 'inverse-trig.arccos'
+  | 'triangle.given'
+  | 'triangle.angle-sum'
+  | 'law-of-cosines.side-formula'
+  | 'law-of-cosines.solve-side'
+  | 'law-of-cosines.angle-formula'
+  | 'law-of-cosines.solve-angle'
+  | 'law-of-sines.side-formula'
+  | 'law-of-sines.solve-side'
+  | 'ssa.sine-ratio'
+  | 'ssa.no-solution-sine'
+  | 'ssa.no-solution-angle-sum'
+  | 'ssa.two-solutions'
+  | 'ssa.one-solution'
+  | 'ssa.right-angle'
+  | 'ssa.acute-branch'
+  | 'ssa.obtuse-branch'
+  | 'units.convert-length'
+  | 'units.convert-angle'
+  | 'trig.ratio'
+  | 'applied.depression'
+  | 'applied.add-height'
+  | 'coordinates.differences'
+  | 'coordinates.legs'
+  | 'coordinates.distance'
+  | 'coordinates.aligned'
+  | 'coordinates.midpoint'
+  | 'coordinates.slope'
+  | 'coordinates.inclination-rising'
+  | 'coordinates.inclination-falling'
+  | 'coordinates.horizontal'
+  | 'coordinates.vertical'
+  | 'coordinates.base-diagonal'
+  | 'coordinates.space-diagonal'
+  | 'coordinates.box-diagonal';
+
+/** A point of the plane or, with `z`, of space. */
+export interface CoordinatePoint {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+/** Numbers keyed by quantity (`a`, `alpha`…) or intermediate name (`sum`, `ratio`…). */
+export type StepValues = Record<string, number>;
+/** Which quantities a generic rule is applied to, e.g. `{ target: 'b', leg: 'a' }`. */
+export type StepParams = Record<string, string>;
+
+/**
+ * One step of a solution as data. Text and math are produced by the renderers
+ * in `lib/steps`, so the same record can be shown as KaTeX, plain text or
+ * Markdown at any precision.
+ */
+export interface CalculationStep {
+  rule: StepRule;
+  /** The symbolic formula the step applies, in LaTeX, without values. */
+  formula?: string;
+  /** Known values substituted into the formula. */
+  values: StepValues;
+  /** Values the step computes. */
+  results: StepValues;
+  params: StepParams;
+}
+
+/** Any subset of the five quantities of a right triangle (angles in degrees). */
+export type RightTriangleInput = Partial<Record<Quantity, number>>;
+
+export interface RightTriangleSolution {
+  a: number;
+  b: number;
+  c: number;
+  alpha: number;
+  beta: number;
+  area: number;
+  perimeter: number;
+  /** The two quantities the solution was derived from. */
+  known: [Quantity, Quantity];
+  steps: CalculationStep[];
+  /** Extra inputs that disagree with the solution derived from `known`. */
+  warnings: Inconsistency[];
+}
+
+/** An input that disagrees with the value derived from two other quantities. */
+export interface Inconsistency {
+  quantity: Quantity;
+  given: number;
+  expected: number;
+  /** The quantities `expected` was derived from. */
+  known: [Quantity, Quantity];
+}
+
+export type ObliqueAngle = 'alpha' | 'beta' | 'gamma';
+export type ObliqueQuantity = Side | ObliqueAngle;
+export type TriangleCase = 'SSS' | 'SAS' | 'ASA' | 'AAS' | 'SSA';
+
+/** Three of the six quantities of an arbitrary triangle (angles in degrees). */
+export type TriangleInput = Partial<Record<ObliqueQuantity, number>>;
+
+export interface TriangleSolution extends Record<ObliqueQuantity, number> {
+  area: number;
+  perimeter: number;
+  steps: CalculationStep[];
+}
+
+export interface ObliqueResult {
+  triangleCase: TriangleCase;
+  /** Steps shared by every solution (given data, ambiguous-case analysis). */
+  steps: CalculationStep[];
+  /** Zero, one or two triangles; more than one only in the SSA case. */
+  solutions: TriangleSolution[];
+}
+
+export type LengthUnit = 'u' | 'cm' | 'm' | 'in' | 'ft';
+export type AngleUnit = 'deg' | 'rad' | 'grad' | 'dms';
+
+/** Units results are shown in; inputs may each use their own unit and get converted. */
+export interface UnitSettings {
+  /** `u` is the generic "unidades" of textbook exercises and never converts. */
+  length: LengthUnit;
+  angle: AngleUnit;
+}
+
+export type RoundingMode = 'half-up' | 'half-even' | 'up' | 'down';
+
+export interface PrecisionSettings {
+  /** Whether `digits` counts decimal places or significant figures. */
+  mode: 'decimals' | 'significant';
+  digits: number;
+  rounding: RoundingMode;
+  /** Keep surds, fractions and special-angle values symbolic when recognized. */
+  exact: boolean;
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export type ExerciseKind = 'hypotenuse' | 'leg' | 'side-from-angle' | 'angle' | 'trig-ratio';
+
+/** What an exercise asks for: a side, the angle α or a ratio of α. */
+export type ExerciseTarget = Side | 'alpha' | TrigFunction;
+
+export interface Exercise {
+  kind: ExerciseKind;
+  given: RightTriangleInput;
+  target: ExerciseTarget;
+  answer: number;
+  /** The worked solution, revealed step by step after a wrong answer. */
+  steps: CalculationStep[];
+}
+
+/** What a worksheet problem practises; each trig ratio is a topic of its own. */
+export type WorksheetTopic = 'hypotenuse' | 'leg' | 'sin' | 'cos' | 'tan' | 'angle';
+
+export interface WorksheetSettings {
+  topics: WorksheetTopic[];
+  count: number;
+  difficulty: Difficulty;
+  seed: string;
+}
+
+export interface Grade {
+  correct: boolean;
+  /** NaN when the answer could not be read. */
+  received: number;
+  expected: number;
+}
+
+/**
+ * The calculator tabs whose results are kept in the history and shared as links.
+ * Applied problems and coordinate geometry are left out on purpose: they solve
+ * as the user types, with no solve action to record, and keep their input inside their tab.
+ */
+export type CalculatorMode = 'pythagoras' | 'trig' | 'right' | 'oblique';
+
+/** Everything needed to refill a calculator tab: field text as typed, keyed like 'right.alpha'. */
+export interface HistoryInput {
+  fields: Record<string, string>;
+  fieldUnits: Record<string, LengthUnit | AngleUnit>;
+  units: UnitSettings;
+}
+
+export interface HistoryEntry {
+  id: number;
+  /** ISO 8601, set by the server. */
+  createdAt: string;
+  mode: CalculatorMode;
+  input: HistoryInput;
+  /** Solved quantities, one record per solution (the ambiguous case can have two). */
+  output: Record<string, number>[];
+  steps: CalculationStep[];
+  /** One line of plain text shown in the list and matched by searches. */
+  summary: string;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'createdAt'>;
+
+/** Why the history routes turned a request down; sent as `error` in the response. */
+export type HistoryErrorCode = 'invalid-entry' | 'entry-not-found';
+
+/** A problem as encoded in a shareable link. */
+export interface SharedProblem {
+  mode: CalculatorMode;
+  input: HistoryInput;
+  precision: PrecisionSettings;
+}
+
+export type Locale = 'es' | 'en' | 'pt-BR';
+
+export interface TutorMessage {
+  role: 'student' | 'tutor';
+  /** Markdown, with math between `$…$` or `$$…$$`. */
+  text: string;
+}
+
+/** What the tutor is asked about: a solved problem and the conversation so far. */
+export interface TutorRequest {
+  mode: CalculatorMode;
+  locale: Locale;
+  steps: CalculationStep[];
+  /** Empty for the first explanation; ends with the student's question afterwards. */
+  messages: TutorMessage[];
+}
+
+/** Why the tutor route answered with an error; sent as `error` in the response. */
+export type TutorErrorCode = 'invalid-question' | 'unavailable';
+
+export type WordTarget = Quantity | 'area' | 'perimeter';
+
+/** A measurement found in a word problem and the quantity it was read as. */
+export interface WordProblemValue {
+  /** Null when nothing in the text says which quantity it is. */
+  quantity: Quantity | null;
+  value: number;
+  unit: LengthUnit | AngleUnit;
+  /** The measurement as written, e.g. "5 m". */
+  source: string;
+  /** The word that decided `quantity`, e.g. "escalera". */
+  cue?: string;
+}
+
+export interface WordProblem {
+  values: WordProblemValue[];
+  target: WordTarget | null;
+}
+
+/** A real-world situation that reduces to a right triangle. */
+export type AppliedTemplateId = 'building' | 'ladder' | 'ramp' | 'shadow' | 'lighthouse' | 'bearing';
+
+/** Something a template asks for or answers, named in its own terms (`template.<id>.<field>`). */
+export interface TemplateQuantity {
+  id: string;
+  kind: 'length' | 'angle';
+}
+
+export interface TemplateResult extends TemplateQuantity {
+  value: number;
+}
+
+/** Why the classroom routes turned a request down; sent as `error` in the response. */
+export type ClassroomErrorCode =
+  | 'class-not-found'
+  | 'not-joined'
+  | 'class-name-missing'
+  | 'invalid-assignment'
+  | 'name-missing'
+  | 'unknown-code'
+  | 'name-taken'
+  | 'invalid-answer'
+  | 'unknown-problem'
+  | 'too-many-classes';
+
+/** A class on the local server; students join it with `code`. */
+export interface Classroom {
+  id: number;
+  name: string;
+  code: string;
+  createdAt: string;
+}
+
+export interface ClassStudent {
+  id: number;
+  name: string;
+}
+
+/** A worksheet given to a class; its problems are generated again from `settings`. */
+export interface Assignment {
+  id: number;
+  title: string;
+  settings: WorksheetSettings;
+  createdAt: string;
+}
+
+/** How a student's answer was graded, without the expected value they could resubmit. */
+export type AnswerGrade = Pick<Grade, 'correct' | 'received'>;
+
+/** A student's latest answer to a problem. */
+export interface AssignmentAnswer {
+  answer: string;
+  correct: boolean;
+}
+
+/** A problem as a student is shown it: what is given and what to find, never the answer. */
+export type AssignedProblem = Pick<Exercise, 'given' | 'target'>;
+
+/**
+ * An assignment as a student sees it: its problems, generated on the server
+ * so the seed stays there, and their answers by problem index.
+ */
+export interface StudentAssignment extends Omit<Assignment, 'settings'> {
+  problems: AssignedProblem[];
+  answers: Record<number, AssignmentAnswer>;
+}
+
+/** Problems a student answered on a topic, and how many of those answers are right. */
+export interface Mastery {
+  answered: number;
+  correct: number;
+}
+
+export interface ClassDashboard {
+  classroom: Classroom;
+  students: ClassStudent[];
+  assignments: Assignment[];
+  /** By student id and topic; topics a student has not answered are left out. */
+  mastery: Record<number, Partial<Record<WorksheetTopic, Mastery>>>;
+  /** Right answers by student id and assignment id. */
+  scores: Record<number, Record<number, number>>;
+}
+
+export interface StudentView {
+  classroom: Classroom;
+  student: ClassStudent;
+  assignments: StudentAssignment[];
+}
@@ -1,15 +1,45 @@
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
 import path from 'path';
-import {defineConfig, loadEnv} from 'vite';
+import {defineConfig, Plugin} from 'vite';
 
-export default defineConfig(({mode}) => {
-  const env = loadEnv(mode, '.', '');
+/**
+ * Emits src/sw.js as /sw.js, headed by the files to precache and a build id
+ * derived from their names and contents, so every deploy that changes a file
+ * is a new worker.
+ */
+const serviceWorker = (): Plugin => ({
+  name: 'geomaster-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const publicDir = path.resolve(__dirname, 'public');
+    const publicFiles = readdirSync(publicDir);
+    const files = [
+      ...publicFiles,
+      // KaTeX ships each font as woff2, woff and ttf; every browser with service workers takes woff2.
+      ...Object.keys(bundle).filter(name => name !== 'index.html' && !/\.(woff|ttf|map)$/.test(name)),
+    ];
+    const precache = ['/', ...files.map(name => `/${name}`)];
+    const source = readFileSync(path.resolve(__dirname, 'src/sw.js'), 'utf8');
+    // Public files keep their names when edited, so their contents go into the id too.
+    const hash = createHash('sha256').update(precache.join('\n')).update(source);
+    for (const name of publicFiles) hash.update(readFileSync(path.join(publicDir, name)));
+    for (const output of Object.values(bundle)) hash.update(output.type === 'chunk' ? output.code : output.source);
+    const build = hash.digest('hex').slice(0, 12);
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: `const BUILD = '${build}';\nconst PRECACHE = ${JSON.stringify(precache)};\n\n${source}`,
+    });
+  },
+});
+
+export default defineConfig(() => {
   return {
-    plugins: [react(), tailwindcss()],
-    define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-    },
+    plugins: [react(), tailwindcss(), serviceWorker()],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),